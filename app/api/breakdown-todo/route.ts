@@ -0,0 +1,131 @@
+import { google } from "@ai-sdk/google";
+import { generateObject } from "ai";
+import { z } from "zod";
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { TODO_SELECT } from "@/lib/todo-schema";
+import { getAccessFilter } from "@/lib/workspace-access";
+import type { Todo } from "@/types/todo";
+
+const StepSchema = z.object({
+  title: z.string().describe("단계의 제목 (동사로 끝나는 구체적인 행동)"),
+  description: z.string().optional().describe("단계를 수행하는 방법이나 완료 기준"),
+  estimated_minutes: z
+    .number()
+    .int()
+    .min(5)
+    .describe("예상 소요 시간 (분 단위, 5분 단위로 반올림)"),
+});
+
+/**
+ * 한 번에 제안할 수 있는 최대 단계 수
+ */
+const MAX_BREAKDOWN_STEPS = 10;
+
+/**
+ * 할 일 정보를 프롬프트용 텍스트로 변환합니다.
+ */
+const formatTodo = (todo: Todo): string => {
+  const lines = [`제목: ${todo.title}`];
+
+  if (todo.description) {
+    lines.push(`설명: ${todo.description}`);
+  }
+  if (todo.due_date) {
+    lines.push(`마감일: ${todo.due_date}`);
+  }
+  if (todo.category && todo.category.length > 0) {
+    lines.push(`카테고리: ${todo.category.join(", ")}`);
+  }
+  if (todo.items && todo.items.length > 0) {
+    lines.push(
+      `이미 작성된 체크리스트:\n${todo.items.map((item) => `- ${item.title}`).join("\n")}`
+    );
+  }
+
+  return lines.join("\n");
+};
+
+/**
+ * 기존 할 일을 AI로 실행 가능한 단계들로 분해해 제안합니다.
+ * 제안만 반환하며, 저장은 사용자가 검토 후 /api/todos로 요청합니다.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const todoId = body?.todoId;
+
+    if (!todoId || typeof todoId !== "string") {
+      return NextResponse.json(
+        { error: "분해할 할 일을 선택해주세요." },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "로그인이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    if (!process.env.GOOGLE_GENERATIVE_AI_API_KEY) {
+      console.error("GOOGLE_GENERATIVE_AI_API_KEY is not set");
+      return NextResponse.json(
+        { error: "AI 서비스가 설정되지 않았습니다." },
+        { status: 500 }
+      );
+    }
+
+    // 클라이언트가 보낸 내용 대신 서버에서 직접 할 일을 조회합니다.
+    const { data, error } = await supabase
+      .from("todos")
+      .select(TODO_SELECT)
+      .eq("id", todoId)
+      .or(await getAccessFilter(supabase, user.id, "view"))
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { error: "할 일을 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    const result = await generateObject({
+      model: google("gemini-2.5-flash"),
+      output: "array",
+      schema: StepSchema,
+      prompt: `당신은 큰 할 일을 실행 가능한 작은 단계로 나누어 주는 생산성 코치입니다.
+
+다음 할 일을 순서대로 수행할 수 있는 단계로 분해해주세요.
+
+${formatTodo(data as Todo)}
+
+규칙:
+- 3~${MAX_BREAKDOWN_STEPS}개의 단계로 나누고, 실제로 수행할 순서대로 나열
+- 각 단계는 한 번에 끝낼 수 있는 구체적인 행동 (예: "발표 자료 목차 작성하기")
+- 각 단계의 예상 소요 시간(estimated_minutes)은 현실적으로 분 단위로 추정
+- 한 단계가 4시간(240분)을 넘으면 더 작은 단계로 나누기
+- 이미 작성된 체크리스트 항목과 중복되는 단계는 제외
+- 제목과 설명은 한국어로 작성`,
+    });
+
+    return NextResponse.json({ steps: result.object.slice(0, MAX_BREAKDOWN_STEPS) });
+  } catch (error) {
+    console.error("Breakdown todo error:", error);
+    return NextResponse.json(
+      { error: "할 일을 단계로 나누는 중 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { NextResponse } from "next/server";
+import { buildICalendar } from "@/lib/ical";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { TODO_SELECT } from "@/lib/todo-schema";
+import { getScopeFilter, getWorkspaceRoles } from "@/lib/workspace-access";
+import type { ICalComponent } from "@/types/calendar";
+
+/**
+ * 캘린더 앱이 피드를 다시 가져오는 권장 간격 (분)
+ */
+const FEED_REFRESH_MINUTES = 60;
+
+/**
+ * 피드 토큰 형식 (base64url, POST /api/calendar에서 발급)
+ */
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{32}$/;
+
+interface RouteContext {
+  params: Promise<{ token: string }>;
+}
+
+/**
+ * 토큰으로 보호되는 캘린더 구독 피드(.ics)입니다.
+ * 캘린더 앱은 쿠키 없이 요청하므로 service role로 토큰의 사용자를 찾고,
+ * 개인 할 일과 워크스페이스에서 나에게 할당된 할 일 중 마감일이 있는 것을 내보냅니다.
+ * service role은 RLS를 우회하므로, 워크스페이스 할 일은 지금 멤버인 워크스페이스의 것만 포함합니다.
+ *
+ * ?type=todo를 붙이면 일정(VEVENT) 대신 할 일(VTODO) 항목으로 내보냅니다.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const token = (await params).token.replace(/\.ics$/, "");
+
+    if (!TOKEN_PATTERN.test(token)) {
+      return NextResponse.json(
+        { error: "캘린더 피드를 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+      return NextResponse.json(
+        { error: "캘린더 피드 설정(SUPABASE_SERVICE_ROLE_KEY)이 필요합니다." },
+        { status: 500 }
+      );
+    }
+
+    const supabase = createAdminClient();
+    const { data: feed, error: feedError } = await supabase
+      .from("calendar_feeds")
+      .select("user_id")
+      .eq("token", token)
+      .maybeSingle();
+
+    if (feedError) {
+      throw feedError;
+    }
+
+    if (!feed) {
+      return NextResponse.json(
+        { error: "캘린더 피드를 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    const workspaceIds = [...(await getWorkspaceRoles(supabase, feed.user_id)).keys()];
+    const filters = [getScopeFilter(null, feed.user_id)];
+
+    if (workspaceIds.length > 0) {
+      filters.push(
+        `and(workspace_id.in.(${workspaceIds.join(",")}),assignee_id.eq.${feed.user_id})`
+      );
+    }
+
+    const { data: todos, error } = await supabase
+      .from("todos")
+      .select(TODO_SELECT)
+      .or(filters.join(","))
+      .not("due_date", "is", null)
+      .order("due_date");
+
+    if (error) {
+      throw error;
+    }
+
+    const url = new URL(request.url);
+    const component: ICalComponent =
+      url.searchParams.get("type") === "todo" ? "VTODO" : "VEVENT";
+    const body = buildICalendar(todos || [], {
+      name: "AI 할 일",
+      component,
+      url: url.origin,
+      refreshMinutes: FEED_REFRESH_MINUTES,
+    });
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="ai-todo.ics"',
+        "Cache-Control": "private, max-age=300",
+      },
+    });
+  } catch (error) {
+    console.error("Calendar feed error:", error);
+    return NextResponse.json(
+      { error: "캘린더 피드를 만드는 중 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
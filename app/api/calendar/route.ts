@@ -0,0 +1,117 @@
+import { randomBytes } from "node:crypto";
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+
+/**
+ * 로그인한 사용자의 캘린더 구독 피드를 조회합니다. 만들지 않았으면 null을 반환합니다.
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "로그인이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("calendar_feeds")
+      .select("*")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return NextResponse.json({ feed: data });
+  } catch (error) {
+    console.error("Get calendar feed error:", error);
+    return NextResponse.json(
+      { error: "캘린더 피드를 불러오는 중 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 캘린더 구독 피드를 만들거나 새 토큰을 발급합니다.
+ * 새 토큰을 발급하면 이전 구독 주소는 더 이상 동작하지 않습니다.
+ */
+export async function POST() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "로그인이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("calendar_feeds")
+      .upsert(
+        { user_id: user.id, token: randomBytes(24).toString("base64url") },
+        { onConflict: "user_id" }
+      )
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return NextResponse.json({ feed: data }, { status: 201 });
+  } catch (error) {
+    console.error("Create calendar feed error:", error);
+    return NextResponse.json(
+      { error: "캘린더 피드를 만드는 중 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 캘린더 구독 피드를 삭제합니다. 구독 중인 캘린더 앱은 더 이상 갱신되지 않습니다.
+ */
+export async function DELETE() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "로그인이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    const { error } = await supabase
+      .from("calendar_feeds")
+      .delete()
+      .eq("user_id", user.id);
+
+    if (error) {
+      throw error;
+    }
+
+    return NextResponse.json({ feed: null });
+  } catch (error) {
+    console.error("Delete calendar feed error:", error);
+    return NextResponse.json(
+      { error: "캘린더 피드를 삭제하는 중 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
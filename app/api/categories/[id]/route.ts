@@ -0,0 +1,123 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  categoryUpdateSchema,
+  isDuplicateCategoryError,
+} from "@/lib/category-schema";
+import { getValidationMessage } from "@/lib/todo-schema";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * 카테고리를 수정합니다. 요청 본문에 포함된 필드만 변경합니다.
+ * 이름을 바꾸면 DB 트리거가 기존 할 일의 카테고리 이름도 함께 변경합니다.
+ */
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    const parsed = categoryUpdateSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: getValidationMessage(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "로그인이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("categories")
+      .update(parsed.data)
+      .eq("id", id)
+      .eq("user_id", user.id) // 본인 소유의 카테고리만 수정
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      if (isDuplicateCategoryError(error)) {
+        return NextResponse.json(
+          { error: "이미 같은 이름의 카테고리가 있습니다." },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { error: "카테고리를 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ category: data });
+  } catch (error) {
+    console.error("Update category error:", error);
+    return NextResponse.json(
+      { error: "카테고리를 수정하는 중 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 카테고리를 삭제합니다.
+ * DB 트리거가 기존 할 일에서 해당 카테고리 이름을 제거합니다.
+ */
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "로그인이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("categories")
+      .delete()
+      .eq("id", id)
+      .eq("user_id", user.id) // 본인 소유의 카테고리만 삭제
+      .select("id")
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { error: "카테고리를 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ id: data.id });
+  } catch (error) {
+    console.error("Delete category error:", error);
+    return NextResponse.json(
+      { error: "카테고리를 삭제하는 중 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
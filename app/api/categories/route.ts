@@ -0,0 +1,120 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { MAX_CATEGORIES } from "@/lib/category";
+import {
+  categoryInputSchema,
+  isDuplicateCategoryError,
+} from "@/lib/category-schema";
+import { getValidationMessage } from "@/lib/todo-schema";
+
+/**
+ * 로그인한 사용자의 카테고리 목록을 조회합니다.
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "로그인이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("categories")
+      .select("*")
+      .eq("user_id", user.id)
+      .order("position", { ascending: true })
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return NextResponse.json({ categories: data || [] });
+  } catch (error) {
+    console.error("List categories error:", error);
+    return NextResponse.json(
+      { error: "카테고리 목록을 불러오는 중 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 카테고리를 생성합니다. 새 카테고리는 목록의 마지막에 추가됩니다.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    const parsed = categoryInputSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: getValidationMessage(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "로그인이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    const { data: existing, error: existingError } = await supabase
+      .from("categories")
+      .select("position")
+      .eq("user_id", user.id)
+      .order("position", { ascending: false });
+
+    if (existingError) {
+      throw existingError;
+    }
+
+    if ((existing || []).length >= MAX_CATEGORIES) {
+      return NextResponse.json(
+        { error: `카테고리는 최대 ${MAX_CATEGORIES}개까지 만들 수 있습니다.` },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("categories")
+      .insert({
+        ...parsed.data,
+        user_id: user.id,
+        position: (existing?.[0]?.position ?? -1) + 1,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (isDuplicateCategoryError(error)) {
+        return NextResponse.json(
+          { error: "이미 같은 이름의 카테고리가 있습니다." },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+
+    return NextResponse.json({ category: data }, { status: 201 });
+  } catch (error) {
+    console.error("Create category error:", error);
+    return NextResponse.json(
+      { error: "카테고리를 저장하는 중 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
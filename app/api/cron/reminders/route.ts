@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { getEmailSender } from "@/lib/email";
+import { deliverDueReminders } from "@/lib/reminder-delivery";
+import { createAdminClient } from "@/lib/supabase/admin";
+
+/**
+ * 마감 알림 예약 작업입니다. vercel.json의 crons 설정으로 5분마다 호출됩니다.
+ *
+ * 필요한 환경 변수:
+ * - CRON_SECRET: 호출 인증 (Authorization: Bearer <CRON_SECRET>)
+ * - SUPABASE_SERVICE_ROLE_KEY: 모든 사용자의 할 일 조회
+ * - NEXT_PUBLIC_VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT: 웹 푸시 (없으면 푸시 생략)
+ * - EMAIL_PROVIDER, RESEND_API_KEY, EMAIL_FROM: 이메일 발송 (없으면 stub 어댑터)
+ */
+export async function GET(request: Request) {
+  try {
+    const secret = process.env.CRON_SECRET;
+
+    if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+      return NextResponse.json(
+        { error: "인증되지 않은 요청입니다." },
+        { status: 401 }
+      );
+    }
+
+    if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+      return NextResponse.json(
+        { error: "알림 작업 설정(SUPABASE_SERVICE_ROLE_KEY)이 필요합니다." },
+        { status: 500 }
+      );
+    }
+
+    const result = await deliverDueReminders(createAdminClient(), {
+      emailSender: getEmailSender(),
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Deliver reminders error:", error);
+    return NextResponse.json(
+      { error: "마감 알림을 보내는 중 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * 받은 워크스페이스 초대를 수락하고 초대된 역할의 멤버로 참여합니다.
+ * 수락 처리는 이메일과 만료일을 확인하는 DB 함수(accept_workspace_invitation)에서 수행합니다.
+ */
+export async function POST(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "로그인이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    const { data: workspaceId, error } = await supabase.rpc("accept_workspace_invitation", {
+      p_invitation_id: id,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    if (!workspaceId) {
+      return NextResponse.json(
+        { error: "초대를 찾을 수 없거나 만료되었습니다." },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ workspace_id: workspaceId });
+  } catch (error) {
+    console.error("Accept invitation error:", error);
+    return NextResponse.json(
+      { error: "초대를 수락하는 중 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
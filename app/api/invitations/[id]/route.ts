@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * 받은 워크스페이스 초대를 거절합니다.
+ */
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "로그인이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("workspace_invitations")
+      .delete()
+      .eq("id", id)
+      .eq("email", (user.email || "").toLowerCase()) // 본인이 받은 초대만 거절
+      .select("id")
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { error: "초대를 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ id: data.id });
+  } catch (error) {
+    console.error("Decline invitation error:", error);
+    return NextResponse.json(
+      { error: "초대를 거절하는 중 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+
+/**
+ * 로그인한 사용자의 이메일로 받은 대기 중인 워크스페이스 초대 목록을 조회합니다.
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "로그인이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    if (!user.email) {
+      return NextResponse.json({ invitations: [] });
+    }
+
+    const { data, error } = await supabase
+      .from("workspace_invitations")
+      .select("*, workspace:workspaces(id, name)")
+      .eq("email", user.email.toLowerCase())
+      .gt("expires_at", new Date().toISOString())
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+
+    return NextResponse.json({ invitations: data || [] });
+  } catch (error) {
+    console.error("List invitations error:", error);
+    return NextResponse.json(
+      { error: "받은 초대 목록을 불러오는 중 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
@@ -2,23 +2,138 @@ import { google } from "@ai-sdk/google";
 import { generateObject } from "ai";
 import { z } from "zod";
 import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { DEFAULT_CATEGORY_HINTS } from "@/lib/category";
 
-const TodoSchema = z.object({
-  title: z.string().describe("할 일의 제목 (간결하고 명확하게)"),
-  due_date: z.string().optional().describe("마감일 (YYYY-MM-DD 형식)"),
-  due_time: z.string().optional().describe("마감 시간 (HH:MM 형식, 24시간제)"),
-  priority: z
-    .enum(["high", "medium", "low"])
-    .describe("우선순위 (high: 긴급/중요, medium: 보통, low: 낮음)"),
-  category: z
-    .array(z.enum(["업무", "개인", "학습"]))
-    .describe("카테고리 (해당되는 모든 카테고리 선택)"),
-  description: z.string().optional().describe("할 일의 상세 설명"),
-});
+/**
+ * 사용자 카테고리 목록으로 할 일 추출 스키마를 생성합니다.
+ * 카테고리는 사용자가 만든 이름 중에서만 선택되도록 enum으로 제한합니다.
+ */
+const buildTodoSchema = (categoryNames: string[]) =>
+  z.object({
+    title: z.string().describe("할 일의 제목 (간결하고 명확하게)"),
+    due_date: z.string().optional().describe("마감일 (YYYY-MM-DD 형식)"),
+    due_time: z.string().optional().describe("마감 시간 (HH:MM 형식, 24시간제)"),
+    priority: z
+      .enum(["high", "medium", "low"])
+      .describe("우선순위 (high: 긴급/중요, medium: 보통, low: 낮음)"),
+    category: (categoryNames.length > 0
+      ? z.array(z.enum(categoryNames as [string, ...string[]]))
+      : z.array(z.string()).max(0)
+    ).describe("카테고리 (해당되는 모든 카테고리 선택)"),
+    description: z.string().optional().describe("할 일의 상세 설명"),
+    recurrence: z
+      .object({
+        frequency: z
+          .enum(["daily", "weekly", "monthly"])
+          .describe("반복 주기 (daily: 매일, weekly: 매주, monthly: 매월)"),
+        interval: z.number().int().min(1).describe("반복 간격 (예: 격주는 2, 3일마다는 3)"),
+        weekdays: z
+          .array(z.number().int().min(0).max(6))
+          .optional()
+          .describe("매주 반복할 요일 (0: 일요일 ~ 6: 토요일)"),
+        month_day: z.number().int().min(1).max(31).optional().describe("매월 반복할 날짜"),
+        until: z.string().optional().describe("반복 종료 날짜 (YYYY-MM-DD 형식)"),
+        count: z.number().int().min(1).optional().describe("전체 반복 횟수"),
+      })
+      .optional()
+      .describe("반복 규칙 (반복 표현이 있을 때만)"),
+  });
+
+/**
+ * 한 번에 추출할 수 있는 최대 할 일 수 (batch 모드)
+ */
+const MAX_BATCH_TODOS = 20;
+
+/**
+ * 로그인한 사용자의 카테고리 이름 목록을 표시 순서대로 조회합니다.
+ * 로그인하지 않았으면 빈 배열을 반환합니다.
+ */
+const fetchCategoryNames = async (): Promise<string[]> => {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from("categories")
+    .select("name")
+    .eq("user_id", user.id)
+    .order("position", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).map((category) => category.name as string);
+};
+
+/**
+ * 카테고리 분류 규칙 프롬프트를 생성합니다.
+ * 기본 카테고리(업무/개인/학습)에는 분류 키워드 힌트를 함께 제공합니다.
+ */
+const buildCategoryRules = (categoryNames: string[]): string => {
+  if (categoryNames.length === 0) {
+    return "   - 사용자가 등록한 카테고리가 없으므로 빈 배열로 설정";
+  }
+
+  const lines = categoryNames.map((name) =>
+    DEFAULT_CATEGORY_HINTS[name]
+      ? `   - ${name}: ${DEFAULT_CATEGORY_HINTS[name]}`
+      : `   - ${name}`
+  );
+
+  return `   - 아래 사용자 카테고리 중에서만 선택 (카테고리 이름의 의미로 판단)
+${lines.join("\n")}
+   - 여러 카테고리가 해당되면 모두 포함
+   - 해당되는 카테고리가 없으면 빈 배열`;
+};
+
+/**
+ * 할 일 분석 규칙 프롬프트를 생성합니다.
+ */
+const buildRules = (todayStr: string, categoryNames: string[]): string => `다음 규칙에 따라 할 일을 분석해주세요:
+
+1. 제목(title): 핵심 내용만 간결하게 추출
+2. 마감일(due_date):
+   - "내일", "다음주", "3일 후" 같은 상대적 표현을 구체적인 날짜(YYYY-MM-DD)로 변환
+   - 날짜가 명시되지 않으면 생략
+3. 마감 시간(due_time):
+   - "오후 3시", "15시", "저녁 7시" 같은 표현을 24시간 형식(HH:MM)으로 변환
+   - 시간이 명시되지 않고 날짜만 있으면 "09:00"으로 설정
+   - 날짜도 시간도 없으면 생략
+4. 우선순위(priority):
+   - high: "긴급", "중요", "urgent", "asap", "빨리", "급한" 포함 시
+   - low: "나중에", "여유있게", "천천히" 포함 시
+   - medium: 그 외 모든 경우
+5. 카테고리(category):
+${buildCategoryRules(categoryNames)}
+6. 설명(description): 제목에 포함되지 않은 추가 정보나 맥락
+7. 반복(recurrence): "매일", "매주", "매달", "격주", "~마다" 같은 반복 표현이 있을 때만 설정
+   - "매일 아침" → frequency: "daily", interval: 1, 마감 시간 "08:00"
+   - "매주 월요일" → frequency: "weekly", interval: 1, weekdays: [1]
+   - "매주 화, 목" → frequency: "weekly", interval: 1, weekdays: [2, 4]
+   - "격주 금요일" → frequency: "weekly", interval: 2, weekdays: [5]
+   - "3일마다" → frequency: "daily", interval: 3
+   - "매달 15일" → frequency: "monthly", interval: 1, month_day: 15
+   - "연말까지", "10번" 같은 종료 조건은 until(YYYY-MM-DD) 또는 count로 설정
+   - 반복 할 일의 마감일(due_date)은 오늘 이후 가장 가까운 첫 번째 반복 날짜로 설정
+   - 반복 표현이 없으면 생략
+
+주의사항:
+- 날짜 계산 시 오늘(${todayStr})을 기준으로 정확하게 계산
+- "내일"은 오늘 +1일, "다음주 월요일"은 다음 주의 월요일 날짜
+- 한국어 시간 표현(오전/오후)을 24시간 형식으로 정확히 변환
+- 우선순위는 문맥과 키워드를 종합적으로 고려
+- 요일 번호는 일요일 0, 월요일 1, ..., 토요일 6`;
 
 export async function POST(request: Request) {
   try {
-    const { input } = await request.json();
+    const { input, mode = "single" } = await request.json();
 
     if (!input || typeof input !== "string") {
       return NextResponse.json(
@@ -34,6 +149,13 @@ export async function POST(request: Request) {
       );
     }
 
+    if (mode !== "single" && mode !== "batch") {
+      return NextResponse.json(
+        { error: "지원하지 않는 분석 모드입니다." },
+        { status: 400 }
+      );
+    }
+
     if (!process.env.GOOGLE_GENERATIVE_AI_API_KEY) {
       console.error("GOOGLE_GENERATIVE_AI_API_KEY is not set");
       return NextResponse.json(
@@ -42,10 +164,40 @@ export async function POST(request: Request) {
       );
     }
 
+    const categoryNames = await fetchCategoryNames();
+    const TodoSchema = buildTodoSchema(categoryNames);
+
     const today = new Date();
     const todayStr = today.toISOString().split("T")[0];
     const currentTime = today.toTimeString().slice(0, 5);
 
+    if (mode === "batch") {
+      // 여러 할 일이 섞인 문단을 할 일 배열로 분리합니다.
+      const result = await generateObject({
+        model: google("gemini-2.5-flash"),
+        output: "array",
+        schema: TodoSchema,
+        prompt: `당신은 자연어로 입력된 문단에서 여러 개의 할 일을 찾아 구조화된 데이터로 변환하는 AI 어시스턴트입니다.
+
+오늘 날짜: ${todayStr}
+현재 시각: ${currentTime}
+
+사용자 입력: "${input}"
+
+입력에 포함된 서로 다른 할 일을 각각 하나의 항목으로 분리해주세요.
+- 쉼표, 줄바꿈, 글머리표, "그리고" 등으로 구분된 작업은 별도의 할 일로 분리
+- 같은 작업을 설명하는 문장은 하나의 할 일로 합치기
+- 할 일이 아닌 인사말이나 잡담은 제외
+- 최대 ${MAX_BATCH_TODOS}개까지만 추출
+
+분리한 각 할 일에 아래 규칙을 동일하게 적용합니다.
+
+${buildRules(todayStr, categoryNames)}`,
+      });
+
+      return NextResponse.json({ todos: result.object.slice(0, MAX_BATCH_TODOS) });
+    }
+
     const result = await generateObject({
       model: google("gemini-2.5-flash"),
       schema: TodoSchema,
@@ -56,32 +208,7 @@ export async function POST(request: Request) {
 
 사용자 입력: "${input}"
 
-다음 규칙에 따라 할 일을 분석해주세요:
-
-1. 제목(title): 핵심 내용만 간결하게 추출
-2. 마감일(due_date):
-   - "내일", "다음주", "3일 후" 같은 상대적 표현을 구체적인 날짜(YYYY-MM-DD)로 변환
-   - 날짜가 명시되지 않으면 생략
-3. 마감 시간(due_time):
-   - "오후 3시", "15시", "저녁 7시" 같은 표현을 24시간 형식(HH:MM)으로 변환
-   - 시간이 명시되지 않고 날짜만 있으면 "09:00"으로 설정
-   - 날짜도 시간도 없으면 생략
-4. 우선순위(priority):
-   - high: "긴급", "중요", "urgent", "asap", "빨리", "급한" 포함 시
-   - low: "나중에", "여유있게", "천천히" 포함 시
-   - medium: 그 외 모든 경우
-5. 카테고리(category):
-   - 업무: "회의", "팀", "프로젝트", "업무", "발표", "보고서" 등
-   - 개인: "집", "가족", "친구", "쇼핑", "운동", "건강" 등
-   - 학습: "공부", "강의", "독서", "코딩", "학습", "강좌" 등
-   - 여러 카테고리가 해당되면 모두 포함
-6. 설명(description): 제목에 포함되지 않은 추가 정보나 맥락
-
-주의사항:
-- 날짜 계산 시 오늘(${todayStr})을 기준으로 정확하게 계산
-- "내일"은 오늘 +1일, "다음주 월요일"은 다음 주의 월요일 날짜
-- 한국어 시간 표현(오전/오후)을 24시간 형식으로 정확히 변환
-- 우선순위는 문맥과 키워드를 종합적으로 고려`,
+${buildRules(todayStr, categoryNames)}`,
     });
 
     return NextResponse.json(result.object);
@@ -0,0 +1,123 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  projectUpdateSchema,
+  isDuplicateProjectError,
+} from "@/lib/project-schema";
+import { getValidationMessage } from "@/lib/todo-schema";
+import { getAccessFilter } from "@/lib/workspace-access";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * 프로젝트를 수정합니다. 요청 본문에 포함된 필드만 변경합니다.
+ */
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    const parsed = projectUpdateSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: getValidationMessage(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "로그인이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("projects")
+      .update(parsed.data)
+      .eq("id", id)
+      .or(await getAccessFilter(supabase, user.id, "edit")) // 편집 권한이 있는 프로젝트만 수정
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      if (isDuplicateProjectError(error)) {
+        return NextResponse.json(
+          { error: "이미 같은 이름의 프로젝트가 있습니다." },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { error: "프로젝트를 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ project: data });
+  } catch (error) {
+    console.error("Update project error:", error);
+    return NextResponse.json(
+      { error: "프로젝트를 수정하는 중 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 프로젝트를 삭제합니다.
+ * 프로젝트에 속한 할 일은 삭제되지 않고 받은 편지함으로 이동합니다. (ON DELETE SET NULL)
+ */
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "로그인이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("projects")
+      .delete()
+      .eq("id", id)
+      .or(await getAccessFilter(supabase, user.id, "edit")) // 편집 권한이 있는 프로젝트만 삭제
+      .select("id")
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { error: "프로젝트를 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ id: data.id });
+  } catch (error) {
+    console.error("Delete project error:", error);
+    return NextResponse.json(
+      { error: "프로젝트를 삭제하는 중 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
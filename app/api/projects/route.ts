@@ -0,0 +1,150 @@
+import { z } from "zod";
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { MAX_PROJECTS } from "@/lib/project";
+import {
+  projectInputSchema,
+  isDuplicateProjectError,
+} from "@/lib/project-schema";
+import { getValidationMessage } from "@/lib/todo-schema";
+import { canEditWorkspace } from "@/lib/workspace";
+import { getScopeFilter, getWorkspaceRole } from "@/lib/workspace-access";
+
+/**
+ * 로그인한 사용자의 프로젝트 목록을 조회합니다.
+ * workspace 쿼리 파라미터가 있으면 해당 워크스페이스의 프로젝트를, 없으면 개인 프로젝트를 조회합니다.
+ */
+export async function GET(request: Request) {
+  try {
+    const workspaceId = new URL(request.url).searchParams.get("workspace");
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "로그인이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    if (
+      workspaceId &&
+      (!z.uuid().safeParse(workspaceId).success ||
+        !(await getWorkspaceRole(supabase, workspaceId, user.id)))
+    ) {
+      return NextResponse.json(
+        { error: "워크스페이스를 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("projects")
+      .select("*")
+      .or(getScopeFilter(workspaceId, user.id))
+      .order("position", { ascending: true })
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return NextResponse.json({ projects: data || [] });
+  } catch (error) {
+    console.error("List projects error:", error);
+    return NextResponse.json(
+      { error: "프로젝트 목록을 불러오는 중 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 프로젝트를 생성합니다. 새 프로젝트는 목록의 마지막에 추가됩니다.
+ * workspace_id가 있으면 편집 권한이 있는 멤버만 해당 워크스페이스에 만들 수 있습니다.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    const parsed = projectInputSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: getValidationMessage(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "로그인이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    const workspaceId = parsed.data.workspace_id || null;
+
+    if (
+      workspaceId &&
+      !canEditWorkspace(await getWorkspaceRole(supabase, workspaceId, user.id))
+    ) {
+      return NextResponse.json(
+        { error: "이 워크스페이스의 프로젝트를 편집할 권한이 없습니다." },
+        { status: 403 }
+      );
+    }
+
+    const { data: existing, error: existingError } = await supabase
+      .from("projects")
+      .select("position")
+      .or(getScopeFilter(workspaceId, user.id))
+      .order("position", { ascending: false });
+
+    if (existingError) {
+      throw existingError;
+    }
+
+    if ((existing || []).length >= MAX_PROJECTS) {
+      return NextResponse.json(
+        { error: `프로젝트는 최대 ${MAX_PROJECTS}개까지 만들 수 있습니다.` },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("projects")
+      .insert({
+        ...parsed.data,
+        workspace_id: workspaceId,
+        user_id: user.id,
+        position: (existing?.[0]?.position ?? -1) + 1,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (isDuplicateProjectError(error)) {
+        return NextResponse.json(
+          { error: "이미 같은 이름의 프로젝트가 있습니다." },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+
+    return NextResponse.json({ project: data }, { status: 201 });
+  } catch (error) {
+    console.error("Create project error:", error);
+    return NextResponse.json(
+      { error: "프로젝트를 저장하는 중 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
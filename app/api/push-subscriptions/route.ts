@@ -0,0 +1,111 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  pushSubscriptionSchema,
+  pushUnsubscribeSchema,
+} from "@/lib/notification-schema";
+import { getValidationMessage } from "@/lib/todo-schema";
+
+/**
+ * 현재 브라우저의 웹 푸시 구독을 등록합니다.
+ * 같은 주소로 다시 구독하면 키를 갱신합니다.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    const parsed = pushSubscriptionSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: getValidationMessage(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "로그인이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("push_subscriptions")
+      .upsert(
+        {
+          user_id: user.id,
+          endpoint: parsed.data.endpoint,
+          p256dh: parsed.data.keys.p256dh,
+          auth: parsed.data.keys.auth,
+          user_agent: request.headers.get("user-agent"),
+        },
+        { onConflict: "endpoint" }
+      )
+      .select("id, endpoint, created_at")
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return NextResponse.json({ subscription: data }, { status: 201 });
+  } catch (error) {
+    console.error("Create push subscription error:", error);
+    return NextResponse.json(
+      { error: "푸시 알림을 등록하는 중 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 현재 브라우저의 웹 푸시 구독을 삭제합니다.
+ */
+export async function DELETE(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    const parsed = pushUnsubscribeSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: getValidationMessage(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "로그인이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    const { error } = await supabase
+      .from("push_subscriptions")
+      .delete()
+      .eq("user_id", user.id)
+      .eq("endpoint", parsed.data.endpoint);
+
+    if (error) {
+      throw error;
+    }
+
+    return NextResponse.json({ endpoint: parsed.data.endpoint });
+  } catch (error) {
+    console.error("Delete push subscription error:", error);
+    return NextResponse.json(
+      { error: "푸시 알림을 해제하는 중 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
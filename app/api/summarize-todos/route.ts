@@ -0,0 +1,123 @@
+import { google } from "@ai-sdk/google";
+import { generateObject } from "ai";
+import { z } from "zod";
+import { NextResponse } from "next/server";
+import { fetchAllRows } from "@/lib/supabase/pagination";
+import { createClient } from "@/lib/supabase/server";
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from "@/lib/timezone";
+import { buildTodoSummaryStats } from "@/lib/todo-summary";
+import type { Todo } from "@/types/todo";
+import type { TodoSummaryItem } from "@/types/summary";
+
+const SummarySchema = z.object({
+  daily: z.object({
+    headline: z.string().describe("오늘 하루를 한 문장으로 요약"),
+    completed_summary: z
+      .string()
+      .describe("오늘 완료한 할 일에 대한 요약 (격려 포함)"),
+    remaining_summary: z
+      .string()
+      .describe("오늘 남아 있는 할 일 요약 및 우선 처리할 항목 안내"),
+  }),
+  weekly: z.object({
+    headline: z.string().describe("이번 주를 한 문장으로 요약"),
+    completion_insight: z
+      .string()
+      .describe("이번 주 전체 할 일 수와 완료율에 대한 분석"),
+    priority_insight: z.string().describe("우선순위별 분포에 대한 분석"),
+    suggestion: z.string().describe("다음 행동을 위한 짧은 제안"),
+  }),
+});
+
+/**
+ * 요약 항목 목록을 프롬프트용 텍스트로 변환합니다.
+ */
+const formatItems = (items: TodoSummaryItem[]): string => {
+  if (items.length === 0) {
+    return "- 없음";
+  }
+  return items
+    .map((item) => `- ${item.title} (우선순위: ${item.priority || "medium"})`)
+    .join("\n");
+};
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const timeZone = isValidTimeZone(body?.timeZone)
+      ? body.timeZone
+      : DEFAULT_TIME_ZONE;
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "로그인이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    if (!process.env.GOOGLE_GENERATIVE_AI_API_KEY) {
+      console.error("GOOGLE_GENERATIVE_AI_API_KEY is not set");
+      return NextResponse.json(
+        { error: "AI 서비스가 설정되지 않았습니다." },
+        { status: 500 }
+      );
+    }
+
+    // 클라이언트가 보낸 데이터 대신 서버에서 직접 할 일을 조회합니다.
+    // 최대 행 수에서 잘리지 않도록 모든 할 일을 나눠 조회합니다.
+    const todos = await fetchAllRows((from, to) =>
+      supabase
+        .from("todos")
+        .select("*")
+        .eq("user_id", user.id)
+        .order("id")
+        .range(from, to)
+    );
+
+    const stats = buildTodoSummaryStats(todos as Todo[], timeZone);
+    const { daily, weekly } = stats;
+
+    const result = await generateObject({
+      model: google("gemini-2.5-flash"),
+      schema: SummarySchema,
+      prompt: `당신은 사용자의 할 일 목록을 분석하여 친절하게 요약해주는 AI 어시스턴트입니다.
+
+기준 타임존: ${timeZone}
+오늘 날짜: ${daily.date}
+이번 주: ${weekly.week_start} ~ ${weekly.week_end}
+
+[일일 데이터]
+오늘 완료한 할 일 (${daily.completed.length}개):
+${formatItems(daily.completed)}
+
+오늘까지 남아 있는 할 일 (${daily.remaining.length}개, 지연 포함):
+${formatItems(daily.remaining)}
+
+[주간 데이터]
+이번 주 전체 할 일 수: ${weekly.total}
+이번 주 완료한 할 일 수: ${weekly.completed}
+완료율: ${weekly.completion_rate}%
+우선순위별 분포: 높음 ${weekly.priority_distribution.high}개, 중간 ${weekly.priority_distribution.medium}개, 낮음 ${weekly.priority_distribution.low}개
+
+다음 규칙에 따라 요약해주세요:
+1. 모든 문장은 한국어로, 간결하고 친근한 말투로 작성
+2. 위에 주어진 숫자만 사용하고, 없는 사실을 지어내지 않기
+3. 남은 할 일이 있으면 우선순위가 높은 항목부터 언급
+4. 할 일이 없으면 그 사실을 자연스럽게 안내`,
+    });
+
+    return NextResponse.json({ stats, summary: result.object });
+  } catch (error) {
+    console.error("Summarize todos error:", error);
+
+    return NextResponse.json(
+      { error: "할 일 요약 중 오류가 발생했습니다. 잠시 후 다시 시도해주세요." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { fetchAllRows } from "@/lib/supabase/pagination";
+import { createClient } from "@/lib/supabase/server";
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from "@/lib/timezone";
+import { buildTodoStats } from "@/lib/todo-stats";
+import type { Todo } from "@/types/todo";
+
+/**
+ * 집계 기간 (주) 기본값과 최대값
+ */
+const DEFAULT_WEEKS = 8;
+const MAX_WEEKS = 26;
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const timeZoneParam = searchParams.get("timeZone");
+    const timeZone = isValidTimeZone(timeZoneParam)
+      ? timeZoneParam
+      : DEFAULT_TIME_ZONE;
+
+    const weeksParam = Number(searchParams.get("weeks") ?? DEFAULT_WEEKS);
+    if (!Number.isInteger(weeksParam) || weeksParam < 1 || weeksParam > MAX_WEEKS) {
+      return NextResponse.json(
+        { error: `집계 기간은 1~${MAX_WEEKS}주 사이로 지정해주세요.` },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "로그인이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    // 최대 행 수에서 잘리지 않도록 모든 할 일을 나눠 조회합니다.
+    const todos = await fetchAllRows((from, to) =>
+      supabase
+        .from("todos")
+        .select("*")
+        .eq("user_id", user.id)
+        .order("id")
+        .range(from, to)
+    );
+
+    const stats = buildTodoStats(todos as Todo[], timeZone, weeksParam);
+
+    return NextResponse.json(stats);
+  } catch (error) {
+    console.error("Todo stats error:", error);
+
+    return NextResponse.json(
+      { error: "통계를 불러오는 중 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,168 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from "@/lib/timezone";
+import { syncAutoCompletion } from "@/lib/todo-completion";
+import { getValidationMessage, todoItemUpdateSchema } from "@/lib/todo-schema";
+import { getAccessFilter } from "@/lib/workspace-access";
+
+interface RouteContext {
+  params: Promise<{ id: string; itemId: string }>;
+}
+
+/**
+ * 체크리스트 항목을 수정합니다. 요청 본문에 포함된 필드만 변경합니다.
+ * 자동 완료가 켜진 할 일은 항목 완료 상태에 맞춰 할 일의 완료 상태도 함께 변경됩니다.
+ */
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { id, itemId } = await params;
+    const body = await request.json().catch(() => null);
+    const parsed = todoItemUpdateSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: getValidationMessage(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const timeZone = isValidTimeZone(body?.timeZone)
+      ? body.timeZone
+      : DEFAULT_TIME_ZONE;
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "로그인이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    const { data: todo, error: todoError } = await supabase
+      .from("todos")
+      .select("id")
+      .eq("id", id)
+      .or(await getAccessFilter(supabase, user.id, "edit"))
+      .maybeSingle();
+
+    if (todoError) {
+      throw todoError;
+    }
+
+    if (!todo) {
+      return NextResponse.json(
+        { error: "할 일을 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    // 편집 권한을 확인한 할 일의 항목만 수정
+    const { data, error } = await supabase
+      .from("todo_items")
+      .update(parsed.data)
+      .eq("id", itemId)
+      .eq("todo_id", id)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { error: "체크리스트 항목을 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    const completion =
+      parsed.data.completed !== undefined
+        ? await syncAutoCompletion(supabase, id, user.id, timeZone)
+        : { todo: null, next_todo: null };
+
+    return NextResponse.json({ item: data, ...completion });
+  } catch (error) {
+    console.error("Update todo item error:", error);
+    return NextResponse.json(
+      { error: "체크리스트 항목을 수정하는 중 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 체크리스트 항목을 삭제합니다.
+ * 남은 항목이 모두 완료 상태라면 자동 완료가 켜진 할 일을 완료 처리합니다.
+ */
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const { id, itemId } = await params;
+    const body = await request.json().catch(() => ({}));
+    const timeZone = isValidTimeZone(body?.timeZone)
+      ? body.timeZone
+      : DEFAULT_TIME_ZONE;
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "로그인이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    const { data: todo, error: todoError } = await supabase
+      .from("todos")
+      .select("id")
+      .eq("id", id)
+      .or(await getAccessFilter(supabase, user.id, "edit"))
+      .maybeSingle();
+
+    if (todoError) {
+      throw todoError;
+    }
+
+    if (!todo) {
+      return NextResponse.json(
+        { error: "할 일을 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    // 편집 권한을 확인한 할 일의 항목만 삭제
+    const { data, error } = await supabase
+      .from("todo_items")
+      .delete()
+      .eq("id", itemId)
+      .eq("todo_id", id)
+      .select("id")
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { error: "체크리스트 항목을 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    const completion = await syncAutoCompletion(supabase, id, user.id, timeZone);
+
+    return NextResponse.json({ id: data.id, ...completion });
+  } catch (error) {
+    console.error("Delete todo item error:", error);
+    return NextResponse.json(
+      { error: "체크리스트 항목을 삭제하는 중 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
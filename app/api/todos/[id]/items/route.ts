@@ -0,0 +1,98 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from "@/lib/timezone";
+import { syncAutoCompletion } from "@/lib/todo-completion";
+import { getValidationMessage, todoItemInputSchema } from "@/lib/todo-schema";
+import { getAccessFilter } from "@/lib/workspace-access";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * 할 일에 체크리스트 항목을 추가합니다.
+ * 새 항목은 목록의 마지막에 추가되며, 자동 완료된 할 일은 다시 미완료로 되돌립니다.
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    const parsed = todoItemInputSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: getValidationMessage(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const timeZone = isValidTimeZone(body?.timeZone)
+      ? body.timeZone
+      : DEFAULT_TIME_ZONE;
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "로그인이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    const { data: todo, error: todoError } = await supabase
+      .from("todos")
+      .select("id")
+      .eq("id", id)
+      .or(await getAccessFilter(supabase, user.id, "edit")) // 편집 권한이 있는 할 일에만 추가
+      .maybeSingle();
+
+    if (todoError) {
+      throw todoError;
+    }
+
+    if (!todo) {
+      return NextResponse.json(
+        { error: "할 일을 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    const { data: lastItems, error: lastError } = await supabase
+      .from("todo_items")
+      .select("position")
+      .eq("todo_id", id)
+      .order("position", { ascending: false })
+      .limit(1);
+
+    if (lastError) {
+      throw lastError;
+    }
+
+    const { data, error } = await supabase
+      .from("todo_items")
+      .insert({
+        todo_id: id,
+        user_id: user.id,
+        title: parsed.data.title,
+        position: (lastItems?.[0]?.position ?? -1) + 1,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    const completion = await syncAutoCompletion(supabase, id, user.id, timeZone);
+
+    return NextResponse.json({ item: data, ...completion }, { status: 201 });
+  } catch (error) {
+    console.error("Create todo item error:", error);
+    return NextResponse.json(
+      { error: "체크리스트 항목을 추가하는 중 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
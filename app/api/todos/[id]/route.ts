@@ -0,0 +1,322 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from "@/lib/timezone";
+import { syncAutoCompletion } from "@/lib/todo-completion";
+import {
+  TODO_CONFLICT_MESSAGE,
+  getExpectedVersion,
+  hasVersionConflict,
+} from "@/lib/todo-conflict";
+import { validateTodoLinks } from "@/lib/todo-links";
+import {
+  TODO_SELECT,
+  getValidationMessage,
+  todoUpdateSchema,
+  toTodoUpdateRow,
+} from "@/lib/todo-schema";
+import { getAccessFilter } from "@/lib/workspace-access";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * 편집 권한이 있는 할 일을 체크리스트 항목과 함께 조회합니다. 없으면 null을 반환합니다.
+ */
+const findEditableTodo = async (
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  id: string,
+  accessFilter: string
+) => {
+  const { data, error } = await supabase
+    .from("todos")
+    .select(TODO_SELECT)
+    .eq("id", id)
+    .or(accessFilter) // 편집 권한이 있는 할 일만 조회
+    .order("position", { referencedTable: "items" })
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+};
+
+/**
+ * 할 일을 조회합니다.
+ */
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "로그인이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("todos")
+      .select(TODO_SELECT)
+      .eq("id", id)
+      .or(await getAccessFilter(supabase, user.id, "view"))
+      .order("position", { referencedTable: "items" })
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { error: "할 일을 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ todo: data });
+  } catch (error) {
+    console.error("Get todo error:", error);
+    return NextResponse.json(
+      { error: "할 일을 불러오는 중 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 할 일을 수정합니다. 요청 본문에 포함된 필드만 변경합니다.
+ * 자동 완료를 켜면 체크리스트 완료 상태에 맞춰 할 일의 완료 상태를 바로 동기화합니다.
+ * 다른 공간(개인/워크스페이스)으로 옮기면 이전 공간의 프로젝트, 상위 할 일, 담당자 연결은 해제됩니다.
+ * If-Match 헤더의 updated_at 이후에 다른 곳에서 수정되었으면 409와 최신 할 일을 반환합니다.
+ */
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    const parsed = todoUpdateSchema.safeParse(body);
+    const timeZone = isValidTimeZone(body?.timeZone) ? body.timeZone : DEFAULT_TIME_ZONE;
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: getValidationMessage(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "로그인이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    if (parsed.data.parent_id === id) {
+      return NextResponse.json(
+        { error: "상위 할 일을 찾을 수 없습니다." },
+        { status: 400 }
+      );
+    }
+
+    const accessFilter = await getAccessFilter(supabase, user.id, "edit");
+    const expectedVersion = getExpectedVersion(request);
+    const current = await findEditableTodo(supabase, id, accessFilter);
+
+    if (!current) {
+      return NextResponse.json(
+        { error: "할 일을 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    if (hasVersionConflict(current.updated_at, expectedVersion)) {
+      return NextResponse.json(
+        { error: TODO_CONFLICT_MESSAGE, todo: current },
+        { status: 409 }
+      );
+    }
+
+    const workspaceId =
+      parsed.data.workspace_id !== undefined
+        ? parsed.data.workspace_id || null
+        : current.workspace_id;
+
+    if (!workspaceId && current.user_id !== user.id) {
+      return NextResponse.json(
+        { error: "다른 멤버가 만든 할 일은 개인 할 일로 옮길 수 없습니다." },
+        { status: 403 }
+      );
+    }
+
+    const changes =
+      workspaceId !== current.workspace_id
+        ? { project_id: null, parent_id: null, assignee_id: null, ...parsed.data }
+        : parsed.data;
+
+    // 하위 할 일은 한 단계만 허용하므로, 하위 할 일이 있는 할 일은 다른 할 일의 하위로 옮길 수 없습니다.
+    if (changes.parent_id) {
+      const { count, error: childError } = await supabase
+        .from("todos")
+        .select("id", { count: "exact", head: true })
+        .eq("parent_id", id);
+
+      if (childError) {
+        throw childError;
+      }
+
+      if (count) {
+        return NextResponse.json(
+          { error: "하위 할 일이 있는 할 일은 다른 할 일의 하위로 옮길 수 없습니다." },
+          { status: 400 }
+        );
+      }
+    }
+
+    const linkError = await validateTodoLinks(supabase, user.id, [
+      { ...changes, workspace_id: workspaceId },
+    ]);
+
+    if (linkError) {
+      return NextResponse.json({ error: linkError.error }, { status: linkError.status });
+    }
+
+    let updateQuery = supabase
+      .from("todos")
+      .update(toTodoUpdateRow(changes, { timeZone, savedDueDate: current.due_date }))
+      .eq("id", id)
+      .or(accessFilter); // 편집 권한이 있는 할 일만 수정
+
+    // 확인한 뒤 수정하기 전에 다른 곳에서 수정되었으면 덮어쓰지 않도록 조회한 버전일 때만 수정합니다.
+    if (expectedVersion) {
+      updateQuery = updateQuery.eq("updated_at", current.updated_at);
+    }
+
+    const { data, error } = await updateQuery
+      .select(TODO_SELECT)
+      .order("position", { referencedTable: "items" })
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      const latest = expectedVersion ? await findEditableTodo(supabase, id, accessFilter) : null;
+
+      if (latest) {
+        return NextResponse.json(
+          { error: TODO_CONFLICT_MESSAGE, todo: latest },
+          { status: 409 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: "할 일을 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    if (parsed.data.auto_complete) {
+      const completion = await syncAutoCompletion(supabase, id, user.id, timeZone);
+      return NextResponse.json({
+        todo: completion.todo || data,
+        next_todo: completion.next_todo,
+      });
+    }
+
+    return NextResponse.json({ todo: data });
+  } catch (error) {
+    console.error("Update todo error:", error);
+    return NextResponse.json(
+      { error: "할 일을 수정하는 중 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 할 일을 삭제합니다.
+ * If-Match 헤더의 updated_at 이후에 다른 곳에서 수정되었으면 삭제하지 않고 409와 최신 할 일을 반환합니다.
+ */
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "로그인이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    const accessFilter = await getAccessFilter(supabase, user.id, "edit");
+    const expectedVersion = getExpectedVersion(request);
+
+    let deleteQuery = supabase
+      .from("todos")
+      .delete()
+      .eq("id", id)
+      .or(accessFilter); // 편집 권한이 있는 할 일만 삭제
+
+    if (expectedVersion) {
+      const current = await findEditableTodo(supabase, id, accessFilter);
+
+      if (current && hasVersionConflict(current.updated_at, expectedVersion)) {
+        return NextResponse.json(
+          { error: TODO_CONFLICT_MESSAGE, todo: current },
+          { status: 409 }
+        );
+      }
+
+      // 확인한 뒤 삭제하기 전에 다른 곳에서 수정되었으면 삭제하지 않도록 조회한 버전일 때만 삭제합니다.
+      if (current) {
+        deleteQuery = deleteQuery.eq("updated_at", current.updated_at);
+      }
+    }
+
+    const { data, error } = await deleteQuery.select("id").maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      const latest = expectedVersion ? await findEditableTodo(supabase, id, accessFilter) : null;
+
+      if (latest) {
+        return NextResponse.json(
+          { error: TODO_CONFLICT_MESSAGE, todo: latest },
+          { status: 409 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: "할 일을 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ id: data.id });
+  } catch (error) {
+    console.error("Delete todo error:", error);
+    return NextResponse.json(
+      { error: "할 일을 삭제하는 중 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,129 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from "@/lib/timezone";
+import { createNextOccurrence } from "@/lib/todo-completion";
+import {
+  TODO_CONFLICT_MESSAGE,
+  getExpectedVersion,
+  hasVersionConflict,
+} from "@/lib/todo-conflict";
+import { TODO_SELECT } from "@/lib/todo-schema";
+import { getAccessFilter } from "@/lib/workspace-access";
+import type { Todo } from "@/types/todo";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * 할 일의 완료 상태를 토글합니다.
+ * 반복 할 일을 완료하면 반복 규칙에 따라 다음 할 일을 생성해 함께 반환합니다.
+ * If-Match 헤더의 updated_at 이후에 다른 곳에서 수정되었으면 409와 최신 할 일을 반환합니다.
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    // 본문은 선택 사항이며, 다음 반복 날짜 계산용 타임존만 받습니다.
+    const body = await request.json().catch(() => ({}));
+    const timeZone = isValidTimeZone(body?.timeZone)
+      ? body.timeZone
+      : DEFAULT_TIME_ZONE;
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "로그인이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    const accessFilter = await getAccessFilter(supabase, user.id, "edit");
+    const { data: current, error: fetchError } = await supabase
+      .from("todos")
+      .select(TODO_SELECT)
+      .eq("id", id)
+      .or(accessFilter)
+      .maybeSingle();
+
+    if (fetchError) {
+      throw fetchError;
+    }
+
+    if (!current) {
+      return NextResponse.json(
+        { error: "할 일을 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    const expectedVersion = getExpectedVersion(request);
+
+    if (hasVersionConflict(current.updated_at, expectedVersion)) {
+      return NextResponse.json(
+        { error: TODO_CONFLICT_MESSAGE, todo: current },
+        { status: 409 }
+      );
+    }
+
+    let updateQuery = supabase
+      .from("todos")
+      .update({ completed: !current.completed })
+      .eq("id", id)
+      .or(accessFilter); // 편집 권한이 있는 할 일만 수정
+
+    // 확인한 뒤 수정하기 전에 다른 곳에서 수정되었으면 덮어쓰지 않도록 조회한 버전일 때만 수정합니다.
+    if (expectedVersion) {
+      updateQuery = updateQuery.eq("updated_at", current.updated_at);
+    }
+
+    const { data, error } = await updateQuery
+      .select(TODO_SELECT)
+      .order("position", { referencedTable: "items" })
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      const { data: latest, error: latestError } = await supabase
+        .from("todos")
+        .select(TODO_SELECT)
+        .eq("id", id)
+        .or(accessFilter)
+        .order("position", { referencedTable: "items" })
+        .maybeSingle();
+
+      if (latestError) {
+        throw latestError;
+      }
+
+      if (latest) {
+        return NextResponse.json(
+          { error: TODO_CONFLICT_MESSAGE, todo: latest },
+          { status: 409 }
+        );
+      }
+
+      return NextResponse.json(
+        { error: "할 일을 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    const nextTodo = data.completed
+      ? await createNextOccurrence(supabase, current as Todo, user.id, timeZone)
+      : null;
+
+    return NextResponse.json({ todo: data, next_todo: nextTodo });
+  } catch (error) {
+    console.error("Toggle todo error:", error);
+    return NextResponse.json(
+      { error: "할 일 상태를 변경하는 중 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { fetchAllRows } from "@/lib/supabase/pagination";
+import { createClient } from "@/lib/supabase/server";
+import { TODO_SELECT } from "@/lib/todo-schema";
+import { buildTodosCsv, buildTodosJson, getExportFileName } from "@/lib/todo-transfer";
+import { getWorkspaceRoles } from "@/lib/workspace-access";
+
+/**
+ * 계정의 모든 할 일(개인 할 일과 속한 워크스페이스의 할 일)을 CSV 또는 JSON 파일로 내보냅니다.
+ * format 쿼리 파라미터로 형식을 지정합니다. (csv | json, 기본값: csv)
+ */
+export async function GET(request: Request) {
+  try {
+    const format = new URL(request.url).searchParams.get("format") || "csv";
+
+    if (format !== "csv" && format !== "json") {
+      return NextResponse.json(
+        { error: "지원하지 않는 내보내기 형식입니다." },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "로그인이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    const workspaceIds = [...(await getWorkspaceRoles(supabase, user.id)).keys()];
+    const filters = [`and(workspace_id.is.null,user_id.eq.${user.id})`];
+
+    if (workspaceIds.length > 0) {
+      filters.push(`workspace_id.in.(${workspaceIds.join(",")})`);
+    }
+
+    // 최대 행 수에서 잘리지 않도록 나눠 조회하며, 페이지 사이 순서를 위해 id를 두 번째 정렬 기준으로 사용합니다.
+    const todos = await fetchAllRows((from, to) =>
+      supabase
+        .from("todos")
+        .select(TODO_SELECT)
+        .or(filters.join(","))
+        .order("created_date", { ascending: false })
+        .order("id")
+        .range(from, to)
+    );
+
+    const body = format === "csv" ? buildTodosCsv(todos) : buildTodosJson(todos);
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type":
+          format === "csv" ? "text/csv; charset=utf-8" : "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${getExportFileName(format)}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Export todos error:", error);
+    return NextResponse.json(
+      { error: "할 일을 내보내는 중 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,177 @@
+import { z } from "zod";
+import { NextResponse } from "next/server";
+import { fetchAllRows } from "@/lib/supabase/pagination";
+import { createClient } from "@/lib/supabase/server";
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from "@/lib/timezone";
+import { MAX_BULK_CREATE } from "@/lib/todo-input";
+import { validateTodoLinks } from "@/lib/todo-links";
+import {
+  hasSearchText,
+  hasWildcardTerm,
+  matchesSearchQuery,
+  parseSearchQuery,
+  toLikePattern,
+} from "@/lib/todo-search";
+import {
+  TODO_SELECT,
+  getValidationMessage,
+  todoInputSchema,
+  toTodoRow,
+} from "@/lib/todo-schema";
+import { getScopeFilter, getWorkspaceRole } from "@/lib/workspace-access";
+import type { Todo } from "@/types/todo";
+
+const bulkTodoInputSchema = z
+  .array(todoInputSchema)
+  .min(1, "추가할 할 일이 없습니다.")
+  .max(MAX_BULK_CREATE, `한 번에 최대 ${MAX_BULK_CREATE}개까지 추가할 수 있습니다.`);
+
+/**
+ * 로그인한 사용자의 할 일 목록을 조회합니다.
+ * workspace 쿼리 파라미터가 있으면 해당 워크스페이스의 할 일을, 없으면 개인 할 일을 조회합니다.
+ * q 쿼리 파라미터가 있으면 제목과 설명에서 검색합니다. (구문 "...", 제외어 -단어 지원)
+ * 검색할 때 fields=id를 함께 보내면 할 일 대신 일치하는 ID 목록({ ids })만 반환합니다.
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const workspaceId = searchParams.get("workspace");
+    const search = parseSearchQuery(searchParams.get("q") || "");
+    const needsRecheck = [...search.terms, ...search.excluded].some(hasWildcardTerm);
+    const idsOnly = searchParams.get("fields") === "id" && hasSearchText(search);
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "로그인이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    if (
+      workspaceId &&
+      (!z.uuid().safeParse(workspaceId).success ||
+        !(await getWorkspaceRole(supabase, workspaceId, user.id)))
+    ) {
+      return NextResponse.json(
+        { error: "워크스페이스를 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    // ID만 요청하면 하위 항목 없이 조회하고, *가 있는 검색어를 다시 확인할 때만 제목/설명을 함께 가져옵니다.
+    // 최대 행 수에서 잘리지 않도록 나눠 조회하며, 페이지 사이 순서를 위해 id를 두 번째 정렬 기준으로 사용합니다.
+    const columns = idsOnly ? (needsRecheck ? "id, title, description" : "id") : TODO_SELECT;
+    const rows = await fetchAllRows((from, to) => {
+      let query = supabase
+        .from("todos")
+        .select(columns)
+        .or(getScopeFilter(workspaceId, user.id));
+
+      // 단어/구문마다 검색용 컬럼(search_text, 트라이그램 인덱스)에 부분 일치 조건을 추가합니다.
+      // *가 들어간 제외어는 패턴이 더 넓게 일치해 결과를 잘못 빼므로 아래에서 직접 확인합니다.
+      for (const term of search.terms) {
+        query = query.ilike("search_text", toLikePattern(term));
+      }
+      for (const term of search.excluded.filter((term) => !hasWildcardTerm(term))) {
+        query = query.not("search_text", "ilike", toLikePattern(term));
+      }
+
+      query = query.order("created_date", { ascending: false }).order("id");
+      if (!idsOnly) {
+        query = query.order("position", { referencedTable: "items" });
+      }
+
+      return query.range(from, to).overrideTypes<Todo[], { merge: false }>();
+    });
+
+    const todos = needsRecheck ? rows.filter((todo) => matchesSearchQuery(todo, search)) : rows;
+
+    if (idsOnly) {
+      return NextResponse.json({ ids: todos.map((todo) => todo.id) });
+    }
+
+    return NextResponse.json({ todos });
+  } catch (error) {
+    console.error("List todos error:", error);
+    return NextResponse.json(
+      { error: "할 일 목록을 불러오는 중 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 할 일을 생성합니다. 요청 본문이 배열이면 여러 할 일을 한 번에 생성합니다.
+ * 사용자 타임존은 본문의 timeZone(배열이면 timeZone 쿼리 파라미터)으로 받습니다.
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    const isBulk = Array.isArray(body);
+    const parsed = isBulk
+      ? bulkTodoInputSchema.safeParse(body)
+      : todoInputSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: getValidationMessage(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "로그인이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    const inputs = Array.isArray(parsed.data) ? parsed.data : [parsed.data];
+    // 반복 기준 날짜 계산용 타임존 (여러 개를 보낼 때는 본문이 배열이므로 쿼리 파라미터로 받음)
+    const timeZoneParam = isBulk
+      ? new URL(request.url).searchParams.get("timeZone")
+      : body?.timeZone;
+    const timeZone = isValidTimeZone(timeZoneParam) ? timeZoneParam : DEFAULT_TIME_ZONE;
+
+    const linkError = await validateTodoLinks(supabase, user.id, inputs);
+
+    if (linkError) {
+      return NextResponse.json({ error: linkError.error }, { status: linkError.status });
+    }
+
+    const { data, error } = await supabase
+      .from("todos")
+      .insert(
+        inputs.map((input) => ({
+          ...toTodoRow(input, timeZone),
+          user_id: user.id,
+          completed: false,
+        }))
+      )
+      .select(TODO_SELECT);
+
+    if (error) {
+      throw error;
+    }
+
+    return NextResponse.json(
+      isBulk ? { todos: data } : { todo: data[0] },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Create todo error:", error);
+    return NextResponse.json(
+      { error: "할 일을 저장하는 중 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
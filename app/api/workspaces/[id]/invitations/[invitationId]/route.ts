@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getWorkspaceRole } from "@/lib/workspace-access";
+
+interface RouteContext {
+  params: Promise<{ id: string; invitationId: string }>;
+}
+
+/**
+ * 대기 중인 초대를 취소합니다. 소유자만 취소할 수 있습니다.
+ */
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id, invitationId } = await params;
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "로그인이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    if ((await getWorkspaceRole(supabase, id, user.id)) !== "owner") {
+      return NextResponse.json(
+        { error: "워크스페이스 소유자만 초대를 관리할 수 있습니다." },
+        { status: 403 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("workspace_invitations")
+      .delete()
+      .eq("id", invitationId)
+      .eq("workspace_id", id)
+      .select("id")
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { error: "초대를 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ id: data.id });
+  } catch (error) {
+    console.error("Delete workspace invitation error:", error);
+    return NextResponse.json(
+      { error: "초대를 취소하는 중 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
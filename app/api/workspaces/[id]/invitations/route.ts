@@ -0,0 +1,140 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getValidationMessage } from "@/lib/todo-schema";
+import { INVITATION_EXPIRY_DAYS } from "@/lib/workspace";
+import { getWorkspaceRole } from "@/lib/workspace-access";
+import { workspaceInviteSchema } from "@/lib/workspace-schema";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * 워크스페이스의 대기 중인 초대 목록을 조회합니다. 소유자만 조회할 수 있습니다.
+ */
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "로그인이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    if ((await getWorkspaceRole(supabase, id, user.id)) !== "owner") {
+      return NextResponse.json(
+        { error: "워크스페이스 소유자만 초대를 관리할 수 있습니다." },
+        { status: 403 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("workspace_invitations")
+      .select("*")
+      .eq("workspace_id", id)
+      .gt("expires_at", new Date().toISOString())
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+
+    return NextResponse.json({ invitations: data || [] });
+  } catch (error) {
+    console.error("List workspace invitations error:", error);
+    return NextResponse.json(
+      { error: "초대 목록을 불러오는 중 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 이메일로 멤버를 초대합니다. 소유자만 초대할 수 있습니다.
+ * 같은 이메일을 다시 초대하면 역할과 만료일을 갱신합니다.
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    const parsed = workspaceInviteSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: getValidationMessage(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "로그인이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    if ((await getWorkspaceRole(supabase, id, user.id)) !== "owner") {
+      return NextResponse.json(
+        { error: "워크스페이스 소유자만 초대를 관리할 수 있습니다." },
+        { status: 403 }
+      );
+    }
+
+    const { data: members, error: memberError } = await supabase
+      .from("workspace_members")
+      .select("user_id, user:users!inner(email)")
+      .eq("workspace_id", id)
+      .ilike("user.email", parsed.data.email)
+      .limit(1);
+
+    if (memberError) {
+      throw memberError;
+    }
+
+    if (members && members.length > 0) {
+      return NextResponse.json(
+        { error: "이미 워크스페이스 멤버인 사용자입니다." },
+        { status: 409 }
+      );
+    }
+
+    const expiresAt = new Date(Date.now() + INVITATION_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
+    const { data, error } = await supabase
+      .from("workspace_invitations")
+      .upsert(
+        {
+          workspace_id: id,
+          email: parsed.data.email,
+          role: parsed.data.role,
+          invited_by: user.id,
+          expires_at: expiresAt.toISOString(),
+        },
+        { onConflict: "workspace_id,email" }
+      )
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return NextResponse.json({ invitation: data }, { status: 201 });
+  } catch (error) {
+    console.error("Create workspace invitation error:", error);
+    return NextResponse.json(
+      { error: "초대를 보내는 중 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
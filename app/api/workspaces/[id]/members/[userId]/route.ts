@@ -0,0 +1,147 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getValidationMessage } from "@/lib/todo-schema";
+import { getWorkspaceRole } from "@/lib/workspace-access";
+import { workspaceMemberUpdateSchema } from "@/lib/workspace-schema";
+
+interface RouteContext {
+  params: Promise<{ id: string; userId: string }>;
+}
+
+/**
+ * 멤버의 역할을 변경합니다. 소유자만 변경할 수 있으며 소유자의 역할은 바꿀 수 없습니다.
+ */
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { id, userId } = await params;
+    const body = await request.json().catch(() => null);
+    const parsed = workspaceMemberUpdateSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: getValidationMessage(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "로그인이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    if ((await getWorkspaceRole(supabase, id, user.id)) !== "owner") {
+      return NextResponse.json(
+        { error: "워크스페이스 소유자만 멤버를 관리할 수 있습니다." },
+        { status: 403 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("workspace_members")
+      .update({ role: parsed.data.role })
+      .eq("workspace_id", id)
+      .eq("user_id", userId)
+      .neq("role", "owner") // 소유자의 역할은 변경 불가
+      .select("*, user:users(id, email, name, avatar_url)")
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { error: "멤버를 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ member: data });
+  } catch (error) {
+    console.error("Update workspace member error:", error);
+    return NextResponse.json(
+      { error: "멤버 역할을 변경하는 중 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 멤버를 워크스페이스에서 내보냅니다.
+ * 소유자는 다른 멤버를 내보낼 수 있고, 멤버는 자기 자신을 지정해 워크스페이스를 나갈 수 있습니다.
+ * 나간 멤버에게 할당된 할 일은 미지정 상태가 됩니다. (schema.sql의 멤버 삭제 트리거에서 처리)
+ */
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id, userId } = await params;
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "로그인이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    const role = await getWorkspaceRole(supabase, id, user.id);
+
+    if (!role) {
+      return NextResponse.json(
+        { error: "워크스페이스를 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    if (userId !== user.id && role !== "owner") {
+      return NextResponse.json(
+        { error: "워크스페이스 소유자만 멤버를 관리할 수 있습니다." },
+        { status: 403 }
+      );
+    }
+
+    if (userId === user.id && role === "owner") {
+      return NextResponse.json(
+        { error: "소유자는 워크스페이스를 나갈 수 없습니다. 워크스페이스를 삭제해주세요." },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("workspace_members")
+      .delete()
+      .eq("workspace_id", id)
+      .eq("user_id", userId)
+      .neq("role", "owner") // 소유자는 내보낼 수 없음
+      .select("user_id")
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { error: "멤버를 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ user_id: data.user_id });
+  } catch (error) {
+    console.error("Delete workspace member error:", error);
+    return NextResponse.json(
+      { error: "멤버를 내보내는 중 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getWorkspaceRole } from "@/lib/workspace-access";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * 워크스페이스 멤버 목록을 프로필과 함께 조회합니다. 멤버만 조회할 수 있습니다.
+ */
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "로그인이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    if (!(await getWorkspaceRole(supabase, id, user.id))) {
+      return NextResponse.json(
+        { error: "워크스페이스를 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("workspace_members")
+      .select("*, user:users(id, email, name, avatar_url)")
+      .eq("workspace_id", id)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return NextResponse.json({ members: data || [] });
+  } catch (error) {
+    console.error("List workspace members error:", error);
+    return NextResponse.json(
+      { error: "멤버 목록을 불러오는 중 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
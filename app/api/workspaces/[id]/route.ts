@@ -0,0 +1,113 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getValidationMessage } from "@/lib/todo-schema";
+import { workspaceInputSchema } from "@/lib/workspace-schema";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * 워크스페이스 이름을 변경합니다. 소유자만 변경할 수 있습니다.
+ */
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    const parsed = workspaceInputSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: getValidationMessage(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "로그인이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("workspaces")
+      .update({ name: parsed.data.name })
+      .eq("id", id)
+      .eq("owner_id", user.id) // 소유한 워크스페이스만 수정
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { error: "워크스페이스를 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ workspace: { ...data, role: "owner" } });
+  } catch (error) {
+    console.error("Update workspace error:", error);
+    return NextResponse.json(
+      { error: "워크스페이스를 수정하는 중 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 워크스페이스를 삭제합니다. 소유자만 삭제할 수 있으며,
+ * 워크스페이스의 할 일, 프로젝트, 멤버, 초대가 함께 삭제됩니다. (ON DELETE CASCADE)
+ */
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "로그인이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("workspaces")
+      .delete()
+      .eq("id", id)
+      .eq("owner_id", user.id) // 소유한 워크스페이스만 삭제
+      .select("id")
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      return NextResponse.json(
+        { error: "워크스페이스를 찾을 수 없습니다." },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ id: data.id });
+  } catch (error) {
+    console.error("Delete workspace error:", error);
+    return NextResponse.json(
+      { error: "워크스페이스를 삭제하는 중 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
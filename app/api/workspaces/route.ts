@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getValidationMessage } from "@/lib/todo-schema";
+import { workspaceInputSchema } from "@/lib/workspace-schema";
+
+/**
+ * 로그인한 사용자가 속한 워크스페이스 목록을 역할과 함께 조회합니다.
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "로그인이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("workspace_members")
+      .select("role, workspace:workspaces(*)")
+      .eq("user_id", user.id)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    const workspaces = (data || [])
+      .filter((member) => member.workspace)
+      .map((member) => ({ ...member.workspace, role: member.role }));
+
+    return NextResponse.json({ workspaces });
+  } catch (error) {
+    console.error("List workspaces error:", error);
+    return NextResponse.json(
+      { error: "워크스페이스 목록을 불러오는 중 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 워크스페이스를 생성합니다. 생성한 사용자는 소유자 멤버로 추가됩니다. (트리거)
+ */
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => null);
+    const parsed = workspaceInputSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: getValidationMessage(parsed.error) },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "로그인이 필요합니다." },
+        { status: 401 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("workspaces")
+      .insert({ name: parsed.data.name, owner_id: user.id })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return NextResponse.json({ workspace: { ...data, role: "owner" } }, { status: 201 });
+  } catch (error) {
+    console.error("Create workspace error:", error);
+    return NextResponse.json(
+      { error: "워크스페이스를 만드는 중 오류가 발생했습니다." },
+      { status: 500 }
+    );
+  }
+}
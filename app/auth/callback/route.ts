@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+import type { EmailOtpType } from "@supabase/supabase-js";
+import { createClient } from "@/lib/supabase/server";
+import type { AuthCallbackErrorCode } from "@/lib/auth-errors";
+import { getSafeNextPath } from "@/lib/redirect";
+
+/**
+ * 오류 코드를 담아 로그인 페이지로 리다이렉트합니다.
+ */
+const redirectToLogin = (origin: string, code: AuthCallbackErrorCode) =>
+  NextResponse.redirect(`${origin}/login?error=${code}`);
+
+/**
+ * 이메일 인증 및 OAuth 로그인 후 돌아오는 콜백을 처리합니다.
+ * 인증 코드를 세션으로 교환한 뒤 원래 경로(기본값 "/")로 이동합니다.
+ */
+export async function GET(request: Request) {
+  const { searchParams, origin } = new URL(request.url);
+  const code = searchParams.get("code");
+  const tokenHash = searchParams.get("token_hash");
+  const type = searchParams.get("type") as EmailOtpType | null;
+  const next = getSafeNextPath(searchParams.get("next"));
+
+  // 공급자 또는 Supabase가 오류를 전달한 경우
+  const errorParam = searchParams.get("error");
+  if (errorParam) {
+    const errorCode = searchParams.get("error_code");
+    console.error(
+      "Auth callback error:",
+      errorParam,
+      errorCode,
+      searchParams.get("error_description")
+    );
+    return redirectToLogin(
+      origin,
+      errorCode === "otp_expired" ? "link_expired" : "access_denied"
+    );
+  }
+
+  try {
+    const supabase = await createClient();
+
+    if (code) {
+      // PKCE 흐름: 인증 코드를 세션으로 교환
+      const { error } = await supabase.auth.exchangeCodeForSession(code);
+      if (error) {
+        throw error;
+      }
+      return NextResponse.redirect(`${origin}${next}`);
+    }
+
+    if (tokenHash && type) {
+      // 이메일 템플릿에서 token_hash를 사용하는 경우
+      const { error } = await supabase.auth.verifyOtp({
+        type,
+        token_hash: tokenHash,
+      });
+      if (error) {
+        throw error;
+      }
+      return NextResponse.redirect(`${origin}${next}`);
+    }
+
+    return redirectToLogin(origin, "missing_code");
+  } catch (error) {
+    console.error("Auth callback exchange error:", error);
+
+    const message = error instanceof Error ? error.message.toLowerCase() : "";
+    return redirectToLogin(
+      origin,
+      message.includes("expired") || message.includes("invalid")
+        ? "link_expired"
+        : "exchange_failed"
+    );
+  }
+}
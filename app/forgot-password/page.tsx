@@ -0,0 +1,152 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { KeyRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { createClient } from "@/lib/supabase/client";
+import { getAuthErrorMessage } from "@/lib/auth-errors";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+/**
+ * 비밀번호 재설정 요청 페이지 컴포넌트입니다.
+ * 이메일을 입력하면 비밀번호 재설정 링크를 발송합니다.
+ */
+const ForgotPasswordPage = () => {
+  const [email, setEmail] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  /**
+   * 비밀번호 재설정 요청을 처리합니다.
+   */
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+    setSuccessMessage(null);
+    setIsLoading(true);
+
+    try {
+      const supabase = createClient();
+      const redirectTo = new URL("/auth/callback", window.location.origin);
+      redirectTo.searchParams.set("next", "/reset-password");
+
+      const { error: resetError } = await supabase.auth.resetPasswordForEmail(
+        email,
+        { redirectTo: redirectTo.toString() }
+      );
+
+      if (resetError) {
+        throw resetError;
+      }
+
+      // 가입 여부와 관계없이 동일한 메시지를 표시합니다.
+      setSuccessMessage(
+        "입력하신 이메일로 비밀번호 재설정 링크를 보냈습니다. 메일함을 확인해주세요."
+      );
+    } catch (err) {
+      setError(
+        getAuthErrorMessage(
+          err,
+          "재설정 링크를 보내는 중 오류가 발생했습니다. 다시 시도해주세요."
+        )
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background p-4">
+      <div className="w-full max-w-md space-y-8">
+        {/* 로고 및 안내 */}
+        <div className="flex flex-col items-center space-y-4 text-center">
+          <div className="flex items-center justify-center size-16 rounded-full bg-primary/10">
+            <KeyRound className="size-8 text-primary" />
+          </div>
+          <div className="space-y-2">
+            <h1 className="text-3xl font-bold tracking-tight">비밀번호 찾기</h1>
+            <p className="text-muted-foreground">
+              가입한 이메일로 비밀번호 재설정 링크를 보내드립니다
+            </p>
+          </div>
+        </div>
+
+        {/* 재설정 요청 폼 */}
+        <Card>
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-2xl">비밀번호 재설정</CardTitle>
+            <CardDescription>가입할 때 사용한 이메일을 입력하세요</CardDescription>
+          </CardHeader>
+          <form onSubmit={handleSubmit}>
+            <CardContent className="space-y-4">
+              {/* 오류 메시지 */}
+              {error && (
+                <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive border border-destructive/20">
+                  {error}
+                </div>
+              )}
+
+              {/* 성공 메시지 */}
+              {successMessage && (
+                <div className="rounded-md bg-green-50 p-3 text-sm text-green-800 border border-green-200">
+                  {successMessage}
+                </div>
+              )}
+
+              {/* 이메일 입력 */}
+              <div className="space-y-2">
+                <Label htmlFor="email">이메일</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="example@email.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  disabled={isLoading}
+                  autoComplete="email"
+                  aria-required="true"
+                />
+              </div>
+            </CardContent>
+
+            {/* 액션 버튼 */}
+            <CardFooter className="flex flex-col space-y-4 pt-6">
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={isLoading || !email}
+              >
+                {isLoading ? "전송 중..." : "재설정 링크 보내기"}
+              </Button>
+
+              {/* 로그인 링크 */}
+              <div className="text-center text-sm text-muted-foreground">
+                비밀번호가 기억나셨나요?{" "}
+                <Link
+                  href="/login"
+                  className="font-medium text-primary hover:underline"
+                >
+                  로그인
+                </Link>
+              </div>
+            </CardFooter>
+          </form>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default ForgotPasswordPage;
@@ -1,5 +1,6 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import { ServiceWorkerRegister } from "@/components/pwa";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -80,7 +81,11 @@ export const metadata: Metadata = {
     ],
     apple: [{ url: "/apple-icon.png", sizes: "180x180", type: "image/png" }],
   },
-  manifest: "/manifest.json",
+  appleWebApp: {
+    capable: true,
+    title: "AI 할 일",
+    statusBarStyle: "default",
+  },
   viewport: {
     width: "device-width",
     initialScale: 1,
@@ -99,6 +104,7 @@ export default function RootLayout({
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
         {children}
+        <ServiceWorkerRegister />
       </body>
     </html>
   );
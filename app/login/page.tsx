@@ -1,11 +1,16 @@
 "use client";
 
-import { useState } from "react";
+import { use, useState } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { Sparkles } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { createClient } from "@/lib/supabase/client";
+import {
+  getAuthCallbackErrorMessage,
+  getAuthErrorMessage,
+} from "@/lib/auth-errors";
+import { getSafeNextPath } from "@/lib/redirect";
 import {
   Card,
   CardContent,
@@ -16,17 +21,32 @@ import {
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { OAuthButtons } from "@/components/auth/oauth-buttons";
+
+/**
+ * 로그인 페이지 Props 타입
+ */
+interface LoginPageProps {
+  /** URL 쿼리 파라미터 (인증 콜백 오류 코드, 로그인 후 이동할 경로 포함) */
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+}
 
 /**
  * 로그인 페이지 컴포넌트입니다.
- * 이메일/비밀번호 기반 로그인 폼을 제공하고, 회원가입 페이지로 이동할 수 있는 링크를 포함합니다.
+ * 이메일/비밀번호 기반 로그인 폼과 소셜 로그인(Google, GitHub)을 제공하고, 회원가입 페이지로 이동할 수 있는 링크를 포함합니다.
  */
-const LoginPage = () => {
+const LoginPage = ({ searchParams }: LoginPageProps) => {
   const router = useRouter();
+  const { error: callbackError, next } = use(searchParams);
+  const nextPath = getSafeNextPath(typeof next === "string" ? next : null);
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(() =>
+    getAuthCallbackErrorMessage(
+      typeof callbackError === "string" ? callbackError : null
+    )
+  );
 
   /**
    * 로그인 폼 제출을 처리합니다.
@@ -50,27 +70,14 @@ const LoginPage = () => {
 
       // 로그인 성공
       if (data.session) {
-        router.push('/');
+        router.push(nextPath);
         router.refresh(); // 세션 정보 갱신
       }
     } catch (err) {
       // 사용자 친화적인 오류 메시지 처리
-      if (err instanceof Error) {
-        const errorMessage = err.message.toLowerCase();
-        if (errorMessage.includes("invalid login credentials") ||
-            errorMessage.includes("invalid credentials") ||
-            errorMessage.includes("email not confirmed")) {
-          setError("이메일 또는 비밀번호가 올바르지 않습니다.");
-        } else if (errorMessage.includes("email not confirmed")) {
-          setError("이메일 인증이 완료되지 않았습니다. 이메일을 확인해주세요.");
-        } else if (errorMessage.includes("too many requests")) {
-          setError("너무 많은 로그인 시도가 있었습니다. 잠시 후 다시 시도해주세요.");
-        } else {
-          setError("로그인 중 오류가 발생했습니다. 다시 시도해주세요.");
-        }
-      } else {
-        setError("알 수 없는 오류가 발생했습니다.");
-      }
+      setError(
+        getAuthErrorMessage(err, "로그인 중 오류가 발생했습니다. 다시 시도해주세요.")
+      );
     } finally {
       setIsLoading(false);
     }
@@ -127,7 +134,15 @@ const LoginPage = () => {
 
               {/* 비밀번호 입력 */}
               <div className="space-y-2">
-                <Label htmlFor="password">비밀번호</Label>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="password">비밀번호</Label>
+                  <Link
+                    href="/forgot-password"
+                    className="text-xs text-muted-foreground hover:text-primary hover:underline"
+                  >
+                    비밀번호를 잊으셨나요?
+                  </Link>
+                </div>
                 <Input
                   id="password"
                   type="password"
@@ -152,6 +167,23 @@ const LoginPage = () => {
                 {isLoading ? "로그인 중..." : "로그인"}
               </Button>
 
+              {/* 구분선 */}
+              <div className="relative w-full">
+                <div className="absolute inset-0 flex items-center">
+                  <div className="w-full border-t border-gray-200 dark:border-gray-700"></div>
+                </div>
+                <div className="relative flex justify-center text-xs uppercase">
+                  <span className="bg-card px-2 text-muted-foreground">또는</span>
+                </div>
+              </div>
+
+              {/* 소셜 로그인 */}
+              <OAuthButtons
+                next={nextPath}
+                disabled={isLoading}
+                onError={setError}
+              />
+
               {/* 회원가입 링크 */}
               <div className="text-center text-sm text-muted-foreground">
                 계정이 없으신가요?{" "}
@@ -0,0 +1,35 @@
+import type { MetadataRoute } from "next";
+import { SHARE_TARGET_ACTION, SHARE_TARGET_PARAMS } from "@/lib/share-target";
+
+/**
+ * 웹 앱 매니페스트 (/manifest.webmanifest)
+ * 모바일/데스크톱에 앱으로 설치하고, 다른 앱에서 공유한 텍스트를 AI 입력으로 받습니다.
+ */
+const manifest = (): MetadataRoute.Manifest => ({
+  id: "/",
+  name: "AI 할 일 관리 서비스",
+  short_name: "AI 할 일",
+  description: "AI가 도와주는 똑똑한 할 일 관리 서비스",
+  lang: "ko",
+  start_url: "/",
+  scope: "/",
+  display: "standalone",
+  background_color: "#ffffff",
+  theme_color: "#173c62",
+  icons: [
+    { src: "/icons/icon-192.png", sizes: "192x192", type: "image/png", purpose: "any" },
+    { src: "/icons/icon-512.png", sizes: "512x512", type: "image/png", purpose: "any" },
+    { src: "/icons/icon-512.png", sizes: "512x512", type: "image/png", purpose: "maskable" },
+  ],
+  share_target: {
+    action: SHARE_TARGET_ACTION,
+    method: "GET",
+    params: SHARE_TARGET_PARAMS,
+  },
+  shortcuts: [
+    { name: "통계", url: "/stats" },
+    { name: "설정", url: "/settings" },
+  ],
+});
+
+export default manifest;
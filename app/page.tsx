@@ -1,20 +1,46 @@
 "use client";
 
-import { useState, useMemo, useEffect } from "react";
+import { use, useState, useMemo, useEffect, useCallback } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import type { User } from "@supabase/supabase-js";
 import {
   Sparkles,
   LogOut,
-  Search,
   Filter,
   ArrowUpDown,
-  User as UserIcon,
+  BarChart3,
+  CalendarArrowDown,
+  CalendarArrowUp,
+  CloudOff,
+  Download,
+  FileUp,
+  Import,
+  RefreshCw,
+  Settings,
+  Upload,
+  UserRound,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
+import { isNetworkError } from "@/lib/api-client";
+import { downloadFile } from "@/lib/download";
+import { buildICalendar } from "@/lib/ical";
+import { buildTodosCsv, buildTodosJson, getExportFileName } from "@/lib/todo-transfer";
+import { clearOfflineData, loadTodoSnapshot } from "@/lib/offline-db";
 import { createClient } from "@/lib/supabase/client";
+import {
+  createTodo,
+  createTodoItem,
+  createTodos,
+  deleteTodo,
+  deleteTodoItem,
+  listTodos,
+  setTodoAutoComplete,
+  toggleTodo,
+  updateTodo,
+  updateTodoItem,
+  type TodoItemChangeResult,
+} from "@/lib/todo-api";
 import {
   Select,
   SelectContent,
@@ -31,18 +57,89 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Separator } from "@/components/ui/separator";
-import { Toaster } from "sonner";
-import { TodoForm, TodoList } from "@/components/todo";
-import type { Todo, TodoInput, TodoPriority, TodoStatus } from "@/types/todo";
+import {
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from "@/components/ui/sidebar";
+import { Toaster, toast } from "sonner";
+import {
+  TodoAppImportDialog,
+  TodoBreakdownDialog,
+  TodoDataImportDialog,
+  TodoForm,
+  TodoImportDialog,
+  TodoList,
+  TodoSearchInput,
+  TodoSummaryPanel,
+} from "@/components/todo";
+import { UserAvatar } from "@/components/profile";
+import { ProjectSidebar } from "@/components/project";
+import { WorkspaceSwitcher } from "@/components/workspace";
+import { useCategories } from "@/hooks/use-categories";
+import { useOfflineTodos } from "@/hooks/use-offline-todos";
+import { useProfile } from "@/hooks/use-profile";
+import { useProjects } from "@/hooks/use-projects";
+import { useRealtimeTodos } from "@/hooks/use-realtime-todos";
+import { useTodoSearch } from "@/hooks/use-todo-search";
+import { useWorkspaceMembers } from "@/hooks/use-workspace-members";
+import { useWorkspaces } from "@/hooks/use-workspaces";
+import { getProjectCounts, matchesProjectView } from "@/lib/project";
+import { createProject, deleteProject, updateProject } from "@/lib/project-api";
+import { describeRecurrence } from "@/lib/recurrence";
+import { getSharedText } from "@/lib/share-target";
+import { mergeTodos } from "@/lib/todo-realtime";
+import {
+  TODO_STATUS_SEARCH_STATES,
+  hasSearchText,
+  matchesSearchFilters,
+  matchesSearchQuery,
+} from "@/lib/todo-search";
+import { cn } from "@/lib/utils";
+import { canEditWorkspace } from "@/lib/workspace";
+import type { ReplayResult } from "@/types/offline";
+import type { Project, ProjectInput, ProjectView } from "@/types/project";
+import type { TodoSearchFilter } from "@/types/search";
+import type {
+  Todo,
+  TodoInput,
+  TodoItem,
+  TodoPriority,
+  TodoStatus,
+} from "@/types/todo";
+import type { TodoExportFormat } from "@/types/transfer";
 
+/**
+ * 담당자 필터 ("all": 전체, "me": 나에게 할당, "unassigned": 미지정)
+ */
+type AssigneeFilter = "all" | "me" | "unassigned";
+
+/**
+ * 메인 페이지 Props 타입
+ */
+interface HomePageProps {
+  /** URL 쿼리 파라미터 (설치된 앱으로 다른 앱에서 공유한 내용 포함) */
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+}
 
 /**
  * 메인 페이지 컴포넌트입니다.
  * 할 일 관리의 메인 화면으로, 헤더, 툴바, 할 일 목록 및 폼을 포함합니다.
  */
-const HomePage = () => {
+const HomePage = ({ searchParams }: HomePageProps) => {
   const router = useRouter();
+  // 다른 앱에서 공유한 텍스트는 할 일 폼의 AI 입력란에 채웁니다.
+  const sharedText = getSharedText(use(searchParams));
   const [user, setUser] = useState<User | null>(null);
+  const userId = user?.id;
+  const { profile } = useProfile();
+  const { categories } = useCategories();
+  const { workspaces } = useWorkspaces();
+  const [workspaceId, setWorkspaceId] = useState<string | null>(null);
+  const { members } = useWorkspaceMembers(workspaceId);
+  const { projects, setProjects } = useProjects(workspaceId);
+  const [projectView, setProjectView] = useState<ProjectView>("all");
+  const [isProjectSaving, setIsProjectSaving] = useState(false);
   const [todos, setTodos] = useState<Todo[]>([]);
   const [isLoadingTodos, setIsLoadingTodos] = useState(true);
   const [searchQuery, setSearchQuery] = useState("");
@@ -50,25 +147,140 @@ const HomePage = () => {
   const [priorityFilter, setPriorityFilter] = useState<TodoPriority | "전체">(
     "전체"
   );
+  const [assigneeFilter, setAssigneeFilter] = useState<AssigneeFilter>("all");
   const [sortBy, setSortBy] = useState<
     "priority" | "due_date" | "created_date" | "title"
   >("created_date");
   const [editingTodo, setEditingTodo] = useState<Todo | null>(null);
+  const [breakdownTodo, setBreakdownTodo] = useState<Todo | null>(null);
+  const [importType, setImportType] = useState<"ics" | "data" | "app" | null>(null);
   const [isFormLoading, setIsFormLoading] = useState(false);
   const [isLoggingOut, setIsLoggingOut] = useState(false);
 
+  const currentWorkspace = workspaces.find((workspace) => workspace.id === workspaceId);
+  // 개인 공간이거나 소유자/편집자면 할 일과 프로젝트를 편집할 수 있습니다.
+  const canEdit = !workspaceId || canEditWorkspace(currentWorkspace?.role);
+
+  /**
+   * 현재 공간(개인/워크스페이스)의 할 일 목록을 /api/todos에서 조회합니다.
+   * 조회에 실패하면 IndexedDB에 저장된 마지막 목록을 표시합니다.
+   */
+  const fetchTodos = useCallback(async () => {
+    setIsLoadingTodos(true);
+    try {
+      setTodos(await listTodos(workspaceId));
+    } catch (error) {
+      console.error("할 일 조회 실패:", error);
+      const snapshot = userId
+        ? await loadTodoSnapshot(userId, workspaceId).catch(() => null)
+        : null;
+
+      if (snapshot) {
+        setTodos(snapshot);
+      }
+
+      if (isNetworkError(error)) {
+        toast.info(
+          snapshot
+            ? "오프라인 상태입니다. 마지막으로 불러온 할 일 목록을 표시합니다."
+            : "오프라인 상태라 할 일 목록을 불러올 수 없습니다."
+        );
+      } else {
+        alert("할 일 목록을 불러오는 중 오류가 발생했습니다.");
+      }
+    } finally {
+      setIsLoadingTodos(false);
+    }
+  }, [userId, workspaceId]);
+
+  /**
+   * 실시간 연결이 다시 맺어졌을 때 로딩 표시 없이 할 일 목록을 다시 조회합니다.
+   */
+  const resyncTodos = useCallback(async () => {
+    try {
+      setTodos(await listTodos(workspaceId));
+    } catch (error) {
+      console.error("할 일 재동기화 실패:", error);
+    }
+  }, [workspaceId]);
+
+  /**
+   * 오프라인 변경을 재전송한 결과를 알리고 서버의 최신 목록으로 교체합니다.
+   * 다른 곳에서 먼저 수정된 할 일은 서버 내용이 유지됩니다.
+   */
+  const handleSynced = useCallback(
+    async ({ applied, conflicts, failures, isInterrupted }: ReplayResult) => {
+      if (conflicts.length > 0) {
+        toast.warning(
+          `다른 곳에서 먼저 수정된 할 일은 최신 내용을 유지했습니다: ${conflicts
+            .map((todo) => todo.title)
+            .join(", ")}`
+        );
+      }
+      failures.forEach((message) => toast.error(message));
+      if (applied > 0 && !isInterrupted) {
+        toast.success(`오프라인에서 변경한 내용 ${applied}건을 동기화했습니다.`);
+      }
+      await resyncTodos();
+    },
+    [resyncTodos]
+  );
+
+  // 오프라인에서는 변경을 목록에 바로 반영하고 큐에 보관했다가 연결되면 재전송합니다.
+  const {
+    isOnline,
+    isSyncing,
+    pendingCount,
+    pendingTodoIds,
+    queueCreate,
+    queueUpdate,
+    queueToggle,
+    queueDelete,
+    flushQueue,
+  } = useOfflineTodos({
+    userId,
+    workspaceId,
+    todos,
+    isLoadingTodos,
+    setTodos,
+    onSynced: handleSynced,
+  });
+
+  // 다른 탭/기기/멤버의 변경을 할 일 목록에 실시간으로 반영합니다.
+  useRealtimeTodos({
+    userId,
+    workspaceId,
+    setTodos,
+    onResync: resyncTodos,
+  });
+
+  // 검색어를 해석하고, 제목/설명 조건은 서버에서 검색합니다. (오프라인이면 불러온 목록에서 검색)
+  const {
+    search,
+    matchIds: searchMatchIds,
+    isSearching,
+  } = useTodoSearch(searchQuery, workspaceId, todos, isOnline);
+
   /**
-   * 사용자 인증 상태를 확인하고 할 일 목록을 조회합니다.
+   * 사용자 인증 상태를 확인합니다.
    */
   useEffect(() => {
-    const checkUserAndFetchTodos = async () => {
+    const checkUser = async () => {
       const supabase = createClient();
 
       // 현재 로그인한 사용자 정보 가져오기
       const {
-        data: { user },
+        data: { user: currentUser },
+        error,
       } = await supabase.auth.getUser();
 
+      // 오프라인이면 서버 확인 대신 저장된 세션의 사용자로 계속합니다.
+      const user =
+        currentUser ||
+        (error && !navigator.onLine
+          ? (await supabase.auth.getSession()).data.session?.user
+          : null);
+
       if (!user) {
         // 로그인하지 않은 경우 로그인 페이지로 리다이렉트
         router.push("/login");
@@ -76,80 +288,81 @@ const HomePage = () => {
       }
 
       setUser(user);
-      await fetchTodos(user.id);
     };
 
-    checkUserAndFetchTodos();
+    checkUser();
   }, [router]);
 
   /**
-   * Supabase에서 할 일 목록을 조회합니다.
+   * 공유된 내용을 AI 입력란에 채운 뒤 새로고침해도 다시 채워지지 않도록 주소에서 제거합니다.
    */
-  const fetchTodos = async (userId: string) => {
-    setIsLoadingTodos(true);
-    try {
-      const supabase = createClient();
+  useEffect(() => {
+    if (sharedText) {
+      router.replace("/");
+    }
+  }, [sharedText, router]);
 
-      const { data, error } = await supabase
-        .from("todos")
-        .select("*")
-        .eq("user_id", userId)
-        .order("created_date", { ascending: false });
+  /**
+   * 로그인을 확인했거나 워크스페이스가 바뀌면 할 일 목록을 조회합니다.
+   */
+  useEffect(() => {
+    if (!user) {
+      return;
+    }
 
-      if (error) {
-        throw error;
-      }
+    const load = async () => {
+      await fetchTodos();
+    };
+    load();
+  }, [user, fetchTodos]);
 
-      setTodos(data || []);
-    } catch (error) {
-      console.error("할 일 조회 실패:", error);
-      alert("할 일 목록을 불러오는 중 오류가 발생했습니다.");
-    } finally {
-      setIsLoadingTodos(false);
-    }
+  /**
+   * 워크스페이스를 전환합니다. 보기, 수정 중인 할 일, 담당자 필터를 초기화합니다.
+   */
+  const handleWorkspaceChange = (nextWorkspaceId: string | null) => {
+    setWorkspaceId(nextWorkspaceId);
+    setTodos([]);
+    setIsLoadingTodos(true);
+    setProjectView("all");
+    setEditingTodo(null);
+    setAssigneeFilter("all");
   };
 
   /**
    * 할 일 목록을 필터링하고 정렬합니다.
    */
   const filteredAndSortedTodos = useMemo(() => {
-    let filtered = [...todos];
+    let filtered = todos.filter((todo) => matchesProjectView(todo, projectView));
 
-    // 검색 필터 (제목에서만 검색)
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
+    // 검색 필터 (제목과 설명, 서버 결과가 없으면 불러온 목록에서 직접 검색)
+    if (hasSearchText(search)) {
       filtered = filtered.filter((todo) =>
-        todo.title.toLowerCase().includes(query)
+        searchMatchIds ? searchMatchIds.has(todo.id) : matchesSearchQuery(todo, search)
       );
     }
 
-    // 상태 필터
+    // 검색창 필터와 상태/우선순위/담당자 선택 필터 (같은 규칙으로 적용)
+    const filters: TodoSearchFilter[] = [...search.filters];
     if (statusFilter !== "전체") {
-      const now = new Date();
-      filtered = filtered.filter((todo) => {
-        if (statusFilter === "완료") {
-          return todo.completed;
-        }
-        if (statusFilter === "진행 중") {
-          return (
-            !todo.completed &&
-            (!todo.due_date || new Date(todo.due_date) >= now)
-          );
-        }
-        if (statusFilter === "지연") {
-          return (
-            !todo.completed &&
-            todo.due_date &&
-            new Date(todo.due_date) < now
-          );
-        }
-        return true;
+      filters.push({
+        field: "is",
+        value: TODO_STATUS_SEARCH_STATES[statusFilter],
+        negated: false,
       });
     }
-
-    // 우선순위 필터
     if (priorityFilter !== "전체") {
-      filtered = filtered.filter((todo) => todo.priority === priorityFilter);
+      filters.push({ field: "priority", value: priorityFilter, negated: false });
+    }
+    if (assigneeFilter !== "all") {
+      filters.push({
+        field: "assignee",
+        value: assigneeFilter === "me" ? "me" : "none",
+        negated: false,
+      });
+    }
+    if (filters.length > 0) {
+      const context = { userId: user?.id ?? null, now: new Date() };
+      filtered = filtered.filter((todo) => matchesSearchFilters(todo, filters, context));
     }
 
     // 정렬
@@ -178,7 +391,54 @@ const HomePage = () => {
     });
 
     return filtered;
-  }, [todos, searchQuery, statusFilter, priorityFilter, sortBy]);
+  }, [
+    todos,
+    projectView,
+    search,
+    searchMatchIds,
+    statusFilter,
+    priorityFilter,
+    assigneeFilter,
+    user,
+    sortBy,
+  ]);
+
+  /**
+   * 사이드바에 표시할 보기별 미완료/지연 할 일 개수입니다.
+   */
+  const projectCounts = useMemo(() => getProjectCounts(todos), [todos]);
+
+  const selectedProject = projects.find((project) => project.id === projectView);
+  const projectViewTitle =
+    projectView === "all"
+      ? "전체 할 일"
+      : projectView === "inbox"
+        ? "받은 편지함"
+        : selectedProject?.name || "할 일 목록";
+
+  /**
+   * 온라인이면 서버에 바로 반영하고, 오프라인이거나 네트워크 오류가 나면 변경을 큐에 보관합니다.
+   * 동기화 대기 중인 할 일은 변경 순서가 뒤바뀌지 않도록 항상 큐에 보관합니다.
+   */
+  const runOrQueue = async (
+    todoId: string | null,
+    run: () => Promise<void>,
+    queue: () => Promise<void>
+  ) => {
+    if (!isOnline || (todoId && pendingTodoIds.has(todoId))) {
+      await queue();
+      return;
+    }
+
+    try {
+      await run();
+    } catch (error) {
+      if (!isNetworkError(error)) {
+        throw error;
+      }
+      await queue();
+    }
+  };
 
   /**
    * 할 일 추가/수정을 처리합니다.
@@ -191,46 +451,31 @@ const HomePage = () => {
 
     setIsFormLoading(true);
     try {
-      const supabase = createClient();
-
+      // 서버가 반환한 할 일을 목록에 병합 (전체 목록을 다시 조회하지 않음)
       if (editingTodo) {
         // 수정
-        const { error } = await supabase
-          .from("todos")
-          .update({
-            title: data.title,
-            description: data.description || null,
-            due_date: data.due_date || null,
-            priority: data.priority || "medium",
-            category: data.category || [],
-          })
-          .eq("id", editingTodo.id)
-          .eq("user_id", user.id); // 본인 소유의 할 일만 수정
-
-        if (error) {
-          throw error;
-        }
-
+        const todo = editingTodo;
+        await runOrQueue(
+          todo.id,
+          async () => {
+            const updated = await updateTodo(todo.id, data);
+            setTodos((prev) => mergeTodos(prev, [updated]));
+          },
+          () => queueUpdate(todo, data)
+        );
         setEditingTodo(null);
       } else {
-        // 추가
-        const { error } = await supabase.from("todos").insert({
-          user_id: user.id,
-          title: data.title,
-          description: data.description || null,
-          due_date: data.due_date || null,
-          priority: data.priority || "medium",
-          category: data.category || [],
-          completed: false,
-        });
-
-        if (error) {
-          throw error;
-        }
+        // 추가 (현재 워크스페이스에 생성)
+        const input = { ...data, workspace_id: workspaceId };
+        await runOrQueue(
+          null,
+          async () => {
+            const created = await createTodo(input);
+            setTodos((prev) => mergeTodos(prev, [created]));
+          },
+          () => queueCreate(input)
+        );
       }
-
-      // 목록 갱신
-      await fetchTodos(user.id);
     } catch (error) {
       console.error("할 일 저장 실패:", error);
       alert("할 일을 저장하는 중 오류가 발생했습니다.");
@@ -239,6 +484,74 @@ const HomePage = () => {
     }
   };
 
+  /**
+   * AI가 추출한 여러 할 일을 한 번에 추가합니다.
+   */
+  const handleBulkSubmit = async (items: TodoInput[]): Promise<boolean> => {
+    if (!user) {
+      alert("로그인이 필요합니다.");
+      return false;
+    }
+
+    setIsFormLoading(true);
+    try {
+      const inputs = items.map((item) => ({ ...item, workspace_id: workspaceId }));
+      await runOrQueue(
+        null,
+        async () => {
+          const created = await createTodos(inputs);
+          setTodos((prev) => mergeTodos(prev, created));
+        },
+        async () => {
+          for (const input of inputs) {
+            await queueCreate(input);
+          }
+        }
+      );
+      return true;
+    } catch (error) {
+      console.error("할 일 일괄 저장 실패:", error);
+      alert("할 일을 저장하는 중 오류가 발생했습니다.");
+      return false;
+    } finally {
+      setIsFormLoading(false);
+    }
+  };
+
+  /**
+   * AI가 분해한 단계를 상위 할 일에 연결된 할 일로 추가합니다.
+   */
+  const handleBreakdownConfirm = async (items: TodoInput[]): Promise<boolean> => {
+    const isSaved = await handleBulkSubmit(items);
+    if (isSaved) {
+      toast.success(`${items.length}개의 하위 할 일이 추가되었습니다!`);
+      setBreakdownTodo(null);
+    }
+    return isSaved;
+  };
+
+  /**
+   * 파일(.ics, CSV, JSON, 다른 앱 내보내기)에서 가져온 할 일을 추가합니다.
+   */
+  const handleImportConfirm = async (items: TodoInput[]): Promise<boolean> => {
+    const isSaved = await handleBulkSubmit(items);
+    if (isSaved) {
+      toast.success(`${items.length}개의 할 일을 가져왔습니다!`);
+    }
+    return isSaved;
+  };
+
+  /**
+   * 반복 할 일을 완료해 다음 할 일이 생성되었으면 알림을 표시합니다.
+   */
+  const notifyNextTodo = (nextTodo: Todo | null | undefined) => {
+    if (nextTodo?.recurrence) {
+      toast.success(
+        `다음 반복 할 일이 추가되었습니다. (${describeRecurrence(nextTodo.recurrence)})`
+      );
+    }
+  };
+
   /**
    * 할 일 완료 상태를 토글합니다.
    */
@@ -249,34 +562,150 @@ const HomePage = () => {
     }
 
     try {
-      const supabase = createClient();
       const todo = todos.find((t) => t.id === id);
 
       if (!todo) {
         return;
       }
 
-      const { error } = await supabase
-        .from("todos")
-        .update({ completed: !todo.completed })
-        .eq("id", id)
-        .eq("user_id", user.id); // 본인 소유의 할 일만 수정
+      await runOrQueue(
+        id,
+        async () => {
+          const { todo: updated, next_todo: nextTodo } = await toggleTodo(id);
 
-      if (error) {
-        throw error;
-      }
+          // 서버가 반환한 최신 상태로 로컬 상태 업데이트
+          setTodos((prev) => {
+            const next = prev.map((t) => (t.id === id ? updated : t));
+            return nextTodo ? [nextTodo, ...next] : next;
+          });
 
-      // 로컬 상태 즉시 업데이트 (낙관적 업데이트)
-      setTodos((prev) =>
-        prev.map((t) => (t.id === id ? { ...t, completed: !t.completed } : t))
+          notifyNextTodo(nextTodo);
+        },
+        () => queueToggle(todo)
       );
     } catch (error) {
       console.error("할 일 상태 변경 실패:", error);
       alert("할 일 상태를 변경하는 중 오류가 발생했습니다.");
       // 오류 발생 시 목록 다시 조회
-      if (user) {
-        await fetchTodos(user.id);
-      }
+      await fetchTodos();
+    }
+  };
+
+  /**
+   * 체크리스트 변경 결과를 로컬 상태에 반영합니다.
+   * 자동 완료로 할 일의 완료 상태가 바뀌었으면 서버가 반환한 할 일로 교체합니다.
+   */
+  const applyItemChange = (
+    todoId: string,
+    updateItems: (items: TodoItem[]) => TodoItem[],
+    result: TodoItemChangeResult
+  ) => {
+    setTodos((prev) => {
+      const next = prev.map((t) =>
+        t.id !== todoId
+          ? t
+          : result.todo || { ...t, items: updateItems(t.items || []) }
+      );
+      return result.next_todo ? [result.next_todo, ...next] : next;
+    });
+    notifyNextTodo(result.next_todo);
+  };
+
+  /**
+   * 체크리스트는 서버에서 바로 변경하므로 오프라인이거나 동기화 대기 중인 할 일이면 막습니다.
+   */
+  const canChangeChecklist = (todoId: string) => {
+    if (isOnline && !pendingTodoIds.has(todoId)) {
+      return true;
+    }
+
+    toast.error(
+      "오프라인 상태이거나 동기화 대기 중인 할 일은 체크리스트를 변경할 수 없습니다."
+    );
+    return false;
+  };
+
+  /**
+   * 체크리스트 항목을 추가합니다.
+   */
+  const handleAddItem = async (todoId: string, title: string) => {
+    if (!canChangeChecklist(todoId)) {
+      return;
+    }
+
+    try {
+      const result = await createTodoItem(todoId, title);
+      applyItemChange(todoId, (items) => [...items, result.item], result);
+    } catch (error) {
+      console.error("체크리스트 항목 추가 실패:", error);
+      alert("체크리스트 항목을 추가하는 중 오류가 발생했습니다.");
+    }
+  };
+
+  /**
+   * 체크리스트 항목을 수정합니다.
+   */
+  const handleUpdateItem = async (
+    todoId: string,
+    itemId: string,
+    changes: Partial<Pick<TodoItem, "title" | "completed">>
+  ) => {
+    if (!canChangeChecklist(todoId)) {
+      return;
+    }
+
+    try {
+      const result = await updateTodoItem(todoId, itemId, changes);
+      applyItemChange(
+        todoId,
+        (items) => items.map((item) => (item.id === itemId ? result.item : item)),
+        result
+      );
+    } catch (error) {
+      console.error("체크리스트 항목 수정 실패:", error);
+      alert("체크리스트 항목을 수정하는 중 오류가 발생했습니다.");
+    }
+  };
+
+  /**
+   * 체크리스트 항목을 삭제합니다.
+   */
+  const handleDeleteItem = async (todoId: string, itemId: string) => {
+    if (!canChangeChecklist(todoId)) {
+      return;
+    }
+
+    try {
+      const result = await deleteTodoItem(todoId, itemId);
+      applyItemChange(
+        todoId,
+        (items) => items.filter((item) => item.id !== itemId),
+        result
+      );
+    } catch (error) {
+      console.error("체크리스트 항목 삭제 실패:", error);
+      alert("체크리스트 항목을 삭제하는 중 오류가 발생했습니다.");
+    }
+  };
+
+  /**
+   * 체크리스트 자동 완료 설정을 변경합니다.
+   */
+  const handleAutoCompleteChange = async (todoId: string, enabled: boolean) => {
+    if (!canChangeChecklist(todoId)) {
+      return;
+    }
+
+    try {
+      const { todo, next_todo: nextTodo } = await setTodoAutoComplete(todoId, enabled);
+      setTodos((prev) => {
+        const next = prev.map((t) => (t.id === todoId ? todo : t));
+        return nextTodo ? [nextTodo, ...next] : next;
+      });
+      notifyNextTodo(nextTodo);
+    } catch (error) {
+      console.error("자동 완료 설정 변경 실패:", error);
+      alert("자동 완료 설정을 변경하는 중 오류가 발생했습니다.");
     }
   };
 
@@ -307,21 +736,23 @@ const HomePage = () => {
       return;
     }
 
-    try {
-      const supabase = createClient();
+    const todo = todos.find((t) => t.id === id);
 
-      const { error } = await supabase
-        .from("todos")
-        .delete()
-        .eq("id", id)
-        .eq("user_id", user.id); // 본인 소유의 할 일만 삭제
+    if (!todo) {
+      return;
+    }
 
-      if (error) {
-        throw error;
-      }
+    try {
+      await runOrQueue(
+        id,
+        async () => {
+          await deleteTodo(id);
 
-      // 로컬 상태에서 제거
-      setTodos((prev) => prev.filter((todo) => todo.id !== id));
+          // 로컬 상태에서 제거
+          setTodos((prev) => prev.filter((t) => t.id !== id));
+        },
+        () => queueDelete(todo)
+      );
 
       if (editingTodo?.id === id) {
         setEditingTodo(null);
@@ -332,11 +763,135 @@ const HomePage = () => {
     }
   };
 
+  /**
+   * 새 프로젝트를 추가하고 해당 프로젝트 보기로 이동합니다.
+   */
+  const handleCreateProject = async (input: ProjectInput): Promise<boolean> => {
+    setIsProjectSaving(true);
+    try {
+      const project = await createProject({ ...input, workspace_id: workspaceId });
+      setProjects((prev) => [...prev, project]);
+      setProjectView(project.id);
+      toast.success("프로젝트가 추가되었습니다.");
+      return true;
+    } catch (error) {
+      console.error("프로젝트 추가 실패:", error);
+      toast.error(error instanceof Error ? error.message : "프로젝트를 추가하지 못했습니다.");
+      return false;
+    } finally {
+      setIsProjectSaving(false);
+    }
+  };
+
+  /**
+   * 프로젝트 이름과 색상을 수정합니다.
+   */
+  const handleUpdateProject = async (
+    id: string,
+    input: ProjectInput
+  ): Promise<boolean> => {
+    setIsProjectSaving(true);
+    try {
+      const project = await updateProject(id, input);
+      setProjects((prev) => prev.map((p) => (p.id === id ? project : p)));
+      toast.success("프로젝트가 수정되었습니다.");
+      return true;
+    } catch (error) {
+      console.error("프로젝트 수정 실패:", error);
+      toast.error(error instanceof Error ? error.message : "프로젝트를 수정하지 못했습니다.");
+      return false;
+    } finally {
+      setIsProjectSaving(false);
+    }
+  };
+
+  /**
+   * 프로젝트를 삭제합니다. 프로젝트에 속한 할 일은 받은 편지함으로 이동합니다.
+   */
+  const handleDeleteProject = async (project: Project) => {
+    if (
+      !confirm(
+        `"${project.name}" 프로젝트를 삭제하시겠습니까?\n프로젝트의 할 일은 받은 편지함으로 이동합니다.`
+      )
+    ) {
+      return;
+    }
+
+    setIsProjectSaving(true);
+    try {
+      await deleteProject(project.id);
+      setProjects((prev) => prev.filter((p) => p.id !== project.id));
+      setTodos((prev) =>
+        prev.map((todo) =>
+          todo.project_id === project.id ? { ...todo, project_id: null } : todo
+        )
+      );
+      if (projectView === project.id) {
+        setProjectView("inbox");
+      }
+      toast.success("프로젝트가 삭제되었습니다.");
+    } catch (error) {
+      console.error("프로젝트 삭제 실패:", error);
+      toast.error(error instanceof Error ? error.message : "프로젝트를 삭제하지 못했습니다.");
+    } finally {
+      setIsProjectSaving(false);
+    }
+  };
+
+  /**
+   * 현재 필터가 적용된 목록을 CSV 또는 JSON 파일로 내려받습니다.
+   */
+  const handleExportList = (format: TodoExportFormat) => {
+    if (filteredAndSortedTodos.length === 0) {
+      toast.error("내보낼 할 일이 없습니다.");
+      return;
+    }
+
+    downloadFile(
+      format === "csv"
+        ? buildTodosCsv(filteredAndSortedTodos)
+        : buildTodosJson(filteredAndSortedTodos),
+      getExportFileName(format),
+      format === "csv" ? "text/csv;charset=utf-8" : "application/json;charset=utf-8"
+    );
+    toast.success(`할 일 ${filteredAndSortedTodos.length}개를 내보냈습니다.`);
+  };
+
+  /**
+   * 현재 필터가 적용된 목록 중 마감일이 있는 할 일을 .ics 파일로 내려받습니다.
+   */
+  const handleExportCalendar = () => {
+    const exportTodos = filteredAndSortedTodos.filter((todo) => todo.due_date);
+
+    if (exportTodos.length === 0) {
+      toast.error("마감일이 있는 할 일이 없습니다.");
+      return;
+    }
+
+    downloadFile(
+      buildICalendar(exportTodos, { name: projectViewTitle, url: window.location.origin }),
+      getExportFileName("ics"),
+      "text/calendar;charset=utf-8"
+    );
+    toast.success(`할 일 ${exportTodos.length}개를 캘린더 파일로 내보냈습니다.`);
+  };
+
   /**
    * 로그아웃을 처리합니다.
    */
   const handleLogout = async () => {
-    if (!confirm("로그아웃하시겠습니까?")) {
+    // 로그아웃하면 오프라인 변경 큐가 삭제되므로 먼저 재전송하고, 남은 변경이 있으면 알립니다.
+    setIsLoggingOut(true);
+    const pending = await flushQueue();
+    setIsLoggingOut(false);
+
+    if (
+      !confirm(
+        pending > 0
+          ? `아직 동기화되지 않은 변경 ${pending}건이 있습니다. 로그아웃하면 이 변경은 삭제됩니다. 로그아웃하시겠습니까?`
+          : "로그아웃하시겠습니까?"
+      )
+    ) {
       return;
     }
 
@@ -350,6 +905,13 @@ const HomePage = () => {
         throw signOutError;
       }
 
+      // 같은 기기의 다른 사람이 볼 수 없도록 오프라인 데이터 삭제 (실패해도 로그아웃은 계속)
+      if (userId) {
+        await clearOfflineData(userId).catch((error) =>
+          console.error("오프라인 데이터 삭제 실패:", error)
+        );
+      }
+
       // 로그아웃 성공 시 로그인 페이지로 리다이렉트
       router.push("/login");
       router.refresh(); // 세션 정보 갱신
@@ -364,9 +926,40 @@ const HomePage = () => {
     }
   };
 
+  const displayName = profile?.name || user?.email || "사용자";
+
   return (
     <div className="flex min-h-screen flex-col bg-background">
       <Toaster position="top-right" richColors />
+      <TodoBreakdownDialog
+        todo={breakdownTodo}
+        onClose={() => setBreakdownTodo(null)}
+        onConfirm={handleBreakdownConfirm}
+        isLoading={isFormLoading}
+      />
+      <TodoImportDialog
+        open={importType === "ics"}
+        onClose={() => setImportType(null)}
+        categories={categories}
+        onConfirm={handleImportConfirm}
+        isLoading={isFormLoading}
+      />
+      <TodoDataImportDialog
+        open={importType === "data"}
+        onClose={() => setImportType(null)}
+        categories={categories}
+        existingTodos={todos}
+        onConfirm={handleImportConfirm}
+        isLoading={isFormLoading}
+      />
+      <TodoAppImportDialog
+        open={importType === "app"}
+        onClose={() => setImportType(null)}
+        categories={categories}
+        projects={projects}
+        onConfirm={handleImportConfirm}
+        isLoading={isFormLoading}
+      />
       {/* 헤더 */}
       <header 
         className="sticky top-0 z-50 w-full border-b shadow-md"
@@ -387,9 +980,35 @@ const HomePage = () => {
           {/* 사용자 정보 및 로그아웃 */}
           <div className="flex items-center gap-4">
             <div className="flex items-center gap-2 text-sm text-primary-foreground/90">
-              <UserIcon className="size-4" />
-              <span>{user?.email || "사용자"}</span>
+              <UserAvatar
+                name={displayName}
+                avatarUrl={profile?.avatar_url}
+                className="size-7 border border-primary-foreground/20"
+              />
+              <span>{displayName}</span>
             </div>
+            <Button
+              asChild
+              variant="secondary"
+              size="sm"
+              className="bg-primary-foreground/10 text-primary-foreground hover:bg-primary-foreground/20 border-primary-foreground/20"
+            >
+              <Link href="/stats">
+                <BarChart3 className="size-4 mr-2" />
+                통계
+              </Link>
+            </Button>
+            <Button
+              asChild
+              variant="secondary"
+              size="sm"
+              className="bg-primary-foreground/10 text-primary-foreground hover:bg-primary-foreground/20 border-primary-foreground/20"
+            >
+              <Link href="/settings">
+                <Settings className="size-4 mr-2" />
+                설정
+              </Link>
+            </Button>
             <Button
               variant="secondary"
               size="sm"
@@ -404,132 +1023,287 @@ const HomePage = () => {
         </div>
       </header>
 
-      {/* 메인 컨텐츠 */}
-      <main className="container flex-1 px-4 py-6">
-        <div className="flex flex-col gap-6 lg:flex-row lg:items-start">
-          {/* 좌측: 할 일 폼 */}
-          <aside className="w-full lg:w-96 lg:sticky lg:top-20">
-            <div className="rounded-lg border bg-card p-6">
-              <h2 className="mb-4 text-lg font-semibold">
-                {editingTodo ? "할 일 수정" : "새 할 일 추가"}
-              </h2>
-              <TodoForm
-                initialData={editingTodo}
-                onSubmit={handleSubmit}
-                onCancel={editingTodo ? handleCancelEdit : undefined}
-                isLoading={isFormLoading}
-              />
-            </div>
-          </aside>
-
-          {/* 우측: 할 일 목록 및 툴바 */}
-          <div className="flex-1 space-y-6">
-            {/* 툴바 */}
-            <div className="rounded-lg border bg-card p-4">
-              <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
-                {/* 검색 */}
-                <div className="relative flex-1 max-w-md">
-                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 size-4 text-muted-foreground" />
-                  <Input
-                    type="text"
-                    placeholder="제목 또는 설명으로 검색..."
+      <SidebarProvider className="min-h-0 flex-1">
+        {/* 프로젝트 사이드바 (헤더 아래에 고정) */}
+        <ProjectSidebar
+          projects={projects}
+          counts={projectCounts}
+          view={projectView}
+          onViewChange={setProjectView}
+          onCreate={handleCreateProject}
+          onUpdate={handleUpdateProject}
+          onDelete={handleDeleteProject}
+          isSaving={isProjectSaving}
+          canEdit={canEdit}
+          header={
+            <WorkspaceSwitcher
+              workspaces={workspaces}
+              value={workspaceId}
+              onChange={handleWorkspaceChange}
+            />
+          }
+          className="top-16 h-[calc(100svh-4rem)]"
+        />
+
+        {/* 메인 컨텐츠 */}
+        <SidebarInset className="container min-w-0 px-4 py-6">
+          <div className="flex flex-col gap-6 lg:flex-row lg:items-start">
+            {/* 좌측: 할 일 폼 */}
+            <aside className="w-full lg:w-96 lg:sticky lg:top-20">
+              <div className="rounded-lg border bg-card p-6">
+                {canEdit ? (
+                  <>
+                    <h2 className="mb-4 text-lg font-semibold">
+                      {editingTodo ? "할 일 수정" : "새 할 일 추가"}
+                    </h2>
+                    {/* 워크스페이스를 바꾸면 입력 중인 프로젝트/담당자를 초기화합니다. */}
+                    <TodoForm
+                      key={workspaceId || "personal"}
+                      initialData={editingTodo}
+                      categories={categories}
+                      projects={projects}
+                      defaultProjectId={selectedProject?.id || null}
+                      members={members}
+                      initialAiInput={sharedText}
+                      onSubmit={handleSubmit}
+                      onBulkSubmit={handleBulkSubmit}
+                      onCancel={editingTodo ? handleCancelEdit : undefined}
+                      isLoading={isFormLoading}
+                    />
+                  </>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    이 워크스페이스에서는 뷰어 권한이라 할 일을 조회만 할 수 있습니다.
+                  </p>
+                )}
+              </div>
+
+              {/* AI 요약 */}
+              <TodoSummaryPanel className="mt-6" />
+            </aside>
+
+            {/* 우측: 할 일 목록 및 툴바 */}
+            <div className="flex-1 space-y-6">
+              {/* 툴바 */}
+              <div className="rounded-lg border bg-card p-4">
+                <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+                  {/* 검색 (단어, "구문", -제외어, 필드:값 필터) */}
+                  <TodoSearchInput
                     value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                    className="pl-9"
+                    onValueChange={setSearchQuery}
+                    categories={categories}
+                    invalidFilters={search.invalid}
+                    isSearching={isSearching}
+                    className="flex-1 max-w-md"
                   />
-                </div>
 
-                {/* 필터 및 정렬 */}
-                <div className="flex flex-wrap items-center gap-2">
-                  {/* 상태 필터 */}
-                  <Select
-                    value={statusFilter}
-                    onValueChange={(value) =>
-                      setStatusFilter(value as TodoStatus | "전체")
-                    }
-                  >
-                    <SelectTrigger className="w-[140px]">
-                      <Filter className="size-4 mr-2" />
-                      <SelectValue placeholder="상태" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="전체">전체</SelectItem>
-                      <SelectItem value="진행 중">진행 중</SelectItem>
-                      <SelectItem value="완료">완료</SelectItem>
-                      <SelectItem value="지연">지연</SelectItem>
-                    </SelectContent>
-                  </Select>
-
-                  {/* 우선순위 필터 */}
-                  <Select
-                    value={priorityFilter}
-                    onValueChange={(value) =>
-                      setPriorityFilter(value as TodoPriority | "전체")
-                    }
-                  >
-                    <SelectTrigger className="w-[140px]">
-                      <SelectValue placeholder="우선순위" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="전체">전체</SelectItem>
-                      <SelectItem value="high">높음</SelectItem>
-                      <SelectItem value="medium">중간</SelectItem>
-                      <SelectItem value="low">낮음</SelectItem>
-                    </SelectContent>
-                  </Select>
-
-                  {/* 정렬 */}
-                  <Select
-                    value={sortBy}
-                    onValueChange={(value) =>
-                      setSortBy(
-                        value as "priority" | "due_date" | "created_date" | "title"
-                      )
-                    }
-                  >
-                    <SelectTrigger className="w-[140px]">
-                      <ArrowUpDown className="size-4 mr-2" />
-                      <SelectValue placeholder="정렬" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="created_date">생성일순</SelectItem>
-                      <SelectItem value="due_date">마감일순</SelectItem>
-                      <SelectItem value="priority">우선순위순</SelectItem>
-                      <SelectItem value="title">제목순</SelectItem>
-                    </SelectContent>
-                  </Select>
+                  {/* 필터 및 정렬 */}
+                  <div className="flex flex-wrap items-center gap-2">
+                    {/* 상태 필터 */}
+                    <Select
+                      value={statusFilter}
+                      onValueChange={(value) =>
+                        setStatusFilter(value as TodoStatus | "전체")
+                      }
+                    >
+                      <SelectTrigger className="w-[140px]">
+                        <Filter className="size-4 mr-2" />
+                        <SelectValue placeholder="상태" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="전체">전체</SelectItem>
+                        <SelectItem value="진행 중">진행 중</SelectItem>
+                        <SelectItem value="완료">완료</SelectItem>
+                        <SelectItem value="지연">지연</SelectItem>
+                      </SelectContent>
+                    </Select>
+
+                    {/* 우선순위 필터 */}
+                    <Select
+                      value={priorityFilter}
+                      onValueChange={(value) =>
+                        setPriorityFilter(value as TodoPriority | "전체")
+                      }
+                    >
+                      <SelectTrigger className="w-[140px]">
+                        <SelectValue placeholder="우선순위" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="전체">전체</SelectItem>
+                        <SelectItem value="high">높음</SelectItem>
+                        <SelectItem value="medium">중간</SelectItem>
+                        <SelectItem value="low">낮음</SelectItem>
+                      </SelectContent>
+                    </Select>
+
+                    {/* 담당자 필터 (워크스페이스) */}
+                    {workspaceId && (
+                      <Select
+                        value={assigneeFilter}
+                        onValueChange={(value) =>
+                          setAssigneeFilter(value as AssigneeFilter)
+                        }
+                      >
+                        <SelectTrigger className="w-[140px]">
+                          <UserRound className="size-4 mr-2" />
+                          <SelectValue placeholder="담당자" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">전체 담당자</SelectItem>
+                          <SelectItem value="me">나에게 할당</SelectItem>
+                          <SelectItem value="unassigned">미지정</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    )}
+
+                    {/* 정렬 */}
+                    <Select
+                      value={sortBy}
+                      onValueChange={(value) =>
+                        setSortBy(
+                          value as "priority" | "due_date" | "created_date" | "title"
+                        )
+                      }
+                    >
+                      <SelectTrigger className="w-[140px]">
+                        <ArrowUpDown className="size-4 mr-2" />
+                        <SelectValue placeholder="정렬" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="created_date">생성일순</SelectItem>
+                        <SelectItem value="due_date">마감일순</SelectItem>
+                        <SelectItem value="priority">우선순위순</SelectItem>
+                        <SelectItem value="title">제목순</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
               </div>
-            </div>
 
-            {/* 할 일 목록 */}
-            <div>
-              <div className="mb-4 flex items-center justify-between">
-                <h2 className="text-lg font-semibold">
-                  할 일 목록 ({filteredAndSortedTodos.length})
-                </h2>
-              </div>
-              {isLoadingTodos ? (
-                <div className="flex items-center justify-center py-12">
-                  <div className="text-center">
-                    <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-current border-r-transparent align-[-0.125em] motion-reduce:animate-[spin_1.5s_linear_infinite]" />
-                    <p className="mt-4 text-sm text-muted-foreground">
-                      할 일 목록을 불러오는 중입니다...
-                    </p>
-                  </div>
+              {/* 할 일 목록 */}
+              <div>
+                <div className="mb-4 flex flex-wrap items-center gap-2">
+                  <SidebarTrigger aria-label="프로젝트 목록 열기/닫기" />
+                  <h2 className="text-lg font-semibold">
+                    {projectViewTitle} ({filteredAndSortedTodos.length})
+                  </h2>
+                  {projectCounts[projectView]?.overdue > 0 && (
+                    <span className="text-sm text-destructive">
+                      지연 {projectCounts[projectView].overdue}개
+                    </span>
+                  )}
+                  {/* 오프라인/동기화 상태 */}
+                  {(!isOnline || pendingCount > 0) && (
+                    <span className="ml-auto flex items-center gap-1.5 text-sm text-muted-foreground">
+                      {isSyncing ? (
+                        <RefreshCw className="size-4 animate-spin" />
+                      ) : (
+                        <CloudOff className="size-4" />
+                      )}
+                      {isSyncing ? "동기화 중..." : isOnline ? "온라인" : "오프라인"}
+                      {pendingCount > 0 && ` · 동기화 대기 ${pendingCount}건`}
+                    </span>
+                  )}
+                  {/* 파일 가져오기 */}
+                  {canEdit && (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className={cn(isOnline && pendingCount === 0 && "ml-auto")}
+                        >
+                          <Upload className="size-4 mr-2" />
+                          가져오기
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onSelect={() => setImportType("data")}>
+                          <FileUp className="size-4" />
+                          CSV/JSON 파일
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onSelect={() => setImportType("ics")}>
+                          <CalendarArrowUp className="size-4" />
+                          캘린더 파일 (.ics)
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onSelect={() => setImportType("app")}>
+                          <Import className="size-4" />
+                          다른 앱 (Todoist, To Do, Trello)
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  )}
+                  {/* 파일 내보내기 */}
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={isLoadingTodos}
+                        className={cn(!canEdit && isOnline && pendingCount === 0 && "ml-auto")}
+                      >
+                        <Download className="size-4 mr-2" />
+                        내보내기
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuLabel>현재 목록</DropdownMenuLabel>
+                      <DropdownMenuItem onSelect={() => handleExportList("csv")}>
+                        CSV
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onSelect={() => handleExportList("json")}>
+                        JSON
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onSelect={handleExportCalendar}>
+                        <CalendarArrowDown className="size-4" />
+                        캘린더 파일 (.ics)
+                      </DropdownMenuItem>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuLabel>전체 계정</DropdownMenuLabel>
+                      <DropdownMenuItem asChild>
+                        <a href="/api/todos/export?format=csv" download>
+                          CSV
+                        </a>
+                      </DropdownMenuItem>
+                      <DropdownMenuItem asChild>
+                        <a href="/api/todos/export?format=json" download>
+                          JSON
+                        </a>
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
                 </div>
-              ) : (
-                <TodoList
-                  todos={filteredAndSortedTodos}
-                  onToggleComplete={handleToggleComplete}
-                  onEdit={handleEdit}
-                  onDelete={handleDelete}
-                />
-              )}
+                {isLoadingTodos ? (
+                  <div className="flex items-center justify-center py-12">
+                    <div className="text-center">
+                      <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-current border-r-transparent align-[-0.125em] motion-reduce:animate-[spin_1.5s_linear_infinite]" />
+                      <p className="mt-4 text-sm text-muted-foreground">
+                        할 일 목록을 불러오는 중입니다...
+                      </p>
+                    </div>
+                  </div>
+                ) : (
+                  <TodoList
+                    todos={filteredAndSortedTodos}
+                    categories={categories}
+                    members={members}
+                    pendingTodoIds={pendingTodoIds}
+                    highlightTerms={search.terms}
+                    onToggleComplete={canEdit ? handleToggleComplete : undefined}
+                    onEdit={canEdit ? handleEdit : undefined}
+                    onDelete={canEdit ? handleDelete : undefined}
+                    onBreakdown={canEdit && isOnline ? setBreakdownTodo : undefined}
+                    onAddItem={canEdit ? handleAddItem : undefined}
+                    onUpdateItem={canEdit ? handleUpdateItem : undefined}
+                    onDeleteItem={canEdit ? handleDeleteItem : undefined}
+                    onAutoCompleteChange={canEdit ? handleAutoCompleteChange : undefined}
+                  />
+                )}
+              </div>
             </div>
           </div>
-        </div>
-      </main>
+        </SidebarInset>
+      </SidebarProvider>
     </div>
   );
 };
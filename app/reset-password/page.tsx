@@ -0,0 +1,165 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { KeyRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { createClient } from "@/lib/supabase/client";
+import { getAuthErrorMessage, validateNewPassword } from "@/lib/auth-errors";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+/**
+ * 비밀번호 재설정 페이지 컴포넌트입니다.
+ * 재설정 메일의 링크로 들어온 사용자가 새 비밀번호를 설정합니다.
+ */
+const ResetPasswordPage = () => {
+  const router = useRouter();
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  /**
+   * 새 비밀번호 저장을 처리합니다.
+   */
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+
+    const validationError = validateNewPassword(password, confirmPassword);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const supabase = createClient();
+      const { error: updateError } = await supabase.auth.updateUser({
+        password,
+      });
+
+      if (updateError) {
+        throw updateError;
+      }
+
+      setSuccessMessage("비밀번호가 변경되었습니다! 잠시 후 메인 페이지로 이동합니다.");
+      setTimeout(() => {
+        router.push("/");
+        router.refresh(); // 세션 정보 갱신
+      }, 1500);
+    } catch (err) {
+      setError(
+        getAuthErrorMessage(
+          err,
+          "비밀번호 변경 중 오류가 발생했습니다. 다시 시도해주세요."
+        )
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background p-4">
+      <div className="w-full max-w-md space-y-8">
+        {/* 로고 및 안내 */}
+        <div className="flex flex-col items-center space-y-4 text-center">
+          <div className="flex items-center justify-center size-16 rounded-full bg-primary/10">
+            <KeyRound className="size-8 text-primary" />
+          </div>
+          <div className="space-y-2">
+            <h1 className="text-3xl font-bold tracking-tight">새 비밀번호 설정</h1>
+            <p className="text-muted-foreground">
+              앞으로 로그인할 때 사용할 새 비밀번호를 입력해주세요
+            </p>
+          </div>
+        </div>
+
+        {/* 새 비밀번호 폼 */}
+        <Card>
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-2xl">비밀번호 재설정</CardTitle>
+            <CardDescription>새 비밀번호는 최소 6자 이상이어야 합니다</CardDescription>
+          </CardHeader>
+          <form onSubmit={handleSubmit}>
+            <CardContent className="space-y-4">
+              {/* 오류 메시지 */}
+              {error && (
+                <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive border border-destructive/20">
+                  {error}
+                </div>
+              )}
+
+              {/* 성공 메시지 */}
+              {successMessage && (
+                <div className="rounded-md bg-green-50 p-3 text-sm text-green-800 border border-green-200">
+                  {successMessage}
+                </div>
+              )}
+
+              {/* 새 비밀번호 입력 */}
+              <div className="space-y-2">
+                <Label htmlFor="password">새 비밀번호</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  placeholder="새 비밀번호를 입력하세요 (최소 6자)"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  disabled={isLoading || !!successMessage}
+                  autoComplete="new-password"
+                  aria-required="true"
+                  minLength={6}
+                />
+              </div>
+
+              {/* 새 비밀번호 확인 입력 */}
+              <div className="space-y-2">
+                <Label htmlFor="confirmPassword">새 비밀번호 확인</Label>
+                <Input
+                  id="confirmPassword"
+                  type="password"
+                  placeholder="새 비밀번호를 다시 입력하세요"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                  disabled={isLoading || !!successMessage}
+                  autoComplete="new-password"
+                  aria-required="true"
+                />
+              </div>
+            </CardContent>
+
+            {/* 액션 버튼 */}
+            <CardFooter className="flex flex-col space-y-4 pt-6">
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={
+                  isLoading || !!successMessage || !password || !confirmPassword
+                }
+              >
+                {isLoading ? "변경 중..." : "비밀번호 변경"}
+              </Button>
+            </CardFooter>
+          </form>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default ResetPasswordPage;
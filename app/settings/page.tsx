@@ -0,0 +1,157 @@
+"use client";
+
+import Link from "next/link";
+import { ArrowLeft, Settings } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Toaster } from "sonner";
+import { ChangePasswordForm } from "@/components/auth/change-password-form";
+import { CalendarFeedSettings } from "@/components/calendar";
+import { CategoryManager } from "@/components/category";
+import { NotificationSettings } from "@/components/notification";
+import { ProfileForm } from "@/components/profile";
+import { WorkspaceManager } from "@/components/workspace";
+import { useProfile } from "@/hooks/use-profile";
+
+/**
+ * 계정 설정 페이지 컴포넌트입니다.
+ * 프로필(이름, 프로필 이미지) 수정, 카테고리 관리, 워크스페이스 관리, 비밀번호 변경 등
+ * 계정 관련 설정을 제공합니다.
+ */
+const SettingsPage = () => {
+  const { user, profile, setProfile, isLoading, error } = useProfile();
+
+  return (
+    <div className="flex min-h-screen flex-col bg-background">
+      <Toaster position="top-right" richColors />
+      {/* 헤더 */}
+      <header className="border-b">
+        <div className="container flex h-16 items-center gap-3 px-4">
+          <Button asChild variant="ghost" size="icon" aria-label="메인으로 돌아가기">
+            <Link href="/">
+              <ArrowLeft className="size-5" />
+            </Link>
+          </Button>
+          <Settings className="size-5 text-primary" />
+          <h1 className="text-xl font-bold">계정 설정</h1>
+        </div>
+      </header>
+
+      <main className="container flex-1 px-4 py-6">
+        <div className="mx-auto max-w-2xl space-y-6">
+          {/* 프로필 */}
+          <Card>
+            <CardHeader>
+              <CardTitle>프로필</CardTitle>
+              <CardDescription>
+                화면에 표시될 이름과 프로필 이미지를 설정합니다.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <p className="text-sm text-muted-foreground">
+                  프로필을 불러오는 중입니다...
+                </p>
+              ) : error ? (
+                <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive border border-destructive/20">
+                  {error}
+                </div>
+              ) : (
+                user && (
+                  <ProfileForm
+                    userId={user.id}
+                    email={user.email || profile?.email || ""}
+                    profile={profile}
+                    onSaved={setProfile}
+                  />
+                )
+              )}
+            </CardContent>
+          </Card>
+
+          {/* 카테고리 관리 */}
+          <Card id="categories">
+            <CardHeader>
+              <CardTitle>카테고리</CardTitle>
+              <CardDescription>
+                할 일을 분류할 카테고리와 색상, 아이콘을 관리합니다. AI 할 일 생성도
+                이 카테고리로 분류합니다.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <CategoryManager />
+            </CardContent>
+          </Card>
+
+          {/* 알림 설정 */}
+          <Card id="notifications">
+            <CardHeader>
+              <CardTitle>알림</CardTitle>
+              <CardDescription>
+                할 일에 설정한 마감 알림을 받을 방법을 선택합니다.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {user && !isLoading && (
+                <NotificationSettings
+                  userId={user.id}
+                  email={user.email || profile?.email || ""}
+                  profile={profile}
+                  onSaved={setProfile}
+                />
+              )}
+            </CardContent>
+          </Card>
+
+          {/* 캘린더 구독 */}
+          <Card id="calendar">
+            <CardHeader>
+              <CardTitle>캘린더 연동</CardTitle>
+              <CardDescription>
+                마감일이 있는 할 일을 사용하는 캘린더 앱에서 구독합니다.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <CalendarFeedSettings />
+            </CardContent>
+          </Card>
+
+          {/* 워크스페이스 관리 */}
+          <Card id="workspaces">
+            <CardHeader>
+              <CardTitle>워크스페이스</CardTitle>
+              <CardDescription>
+                팀원을 초대해 할 일과 프로젝트를 함께 관리합니다. 편집자는 할 일을 수정할 수
+                있고, 뷰어는 조회만 할 수 있습니다.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <WorkspaceManager currentUserId={user?.id} />
+            </CardContent>
+          </Card>
+
+          {/* 비밀번호 변경 */}
+          <Card>
+            <CardHeader>
+              <CardTitle>비밀번호 변경</CardTitle>
+              <CardDescription>
+                현재 비밀번호를 확인한 후 새 비밀번호로 변경합니다.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChangePasswordForm />
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default SettingsPage;
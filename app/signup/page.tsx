@@ -16,10 +16,11 @@ import {
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { OAuthButtons } from "@/components/auth/oauth-buttons";
 
 /**
  * 회원가입 페이지 컴포넌트입니다.
- * 이메일/비밀번호 기반 회원가입 폼을 제공하고, 로그인 페이지로 이동할 수 있는 링크를 포함합니다.
+ * 이메일/비밀번호 기반 회원가입 폼과 소셜 로그인(Google, GitHub)을 제공하고, 로그인 페이지로 이동할 수 있는 링크를 포함합니다.
  */
 const SignupPage = () => {
   const router = useRouter();
@@ -230,6 +231,22 @@ const SignupPage = () => {
                 {isLoading ? "가입 중..." : "회원가입"}
               </Button>
 
+              {/* 구분선 */}
+              <div className="relative w-full">
+                <div className="absolute inset-0 flex items-center">
+                  <div className="w-full border-t border-gray-200 dark:border-gray-700"></div>
+                </div>
+                <div className="relative flex justify-center text-xs uppercase">
+                  <span className="bg-card px-2 text-muted-foreground">또는</span>
+                </div>
+              </div>
+
+              {/* 소셜 로그인 */}
+              <OAuthButtons
+                disabled={isLoading}
+                onError={setError}
+              />
+
               {/* 로그인 링크 */}
               <div className="text-center text-sm text-muted-foreground">
                 이미 계정이 있으신가요?{" "}
@@ -0,0 +1,217 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { ArrowLeft, BarChart3 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  CompletionTrendChart,
+  DistributionChart,
+  WeeklyActivityChart,
+} from "@/components/stats";
+import { PRIORITY_LABELS } from "@/lib/todo-input";
+import type { TodoStats } from "@/types/stats";
+import type { TodoPriority } from "@/types/todo";
+
+/**
+ * 통계 및 분석 페이지 컴포넌트입니다.
+ * 주간 활동량, 완료율 추이, 우선순위/카테고리별 분포를 차트로 표시합니다.
+ */
+const StatsPage = () => {
+  const [weeks, setWeeks] = useState("8");
+  const [stats, setStats] = useState<TodoStats | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * 선택한 기간의 통계를 조회합니다.
+   */
+  useEffect(() => {
+    const fetchStats = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const params = new URLSearchParams({
+          weeks,
+          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        });
+        const response = await fetch(`/api/todo-stats?${params.toString()}`);
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || "통계를 불러오지 못했습니다.");
+        }
+
+        setStats(await response.json());
+      } catch (err) {
+        console.error("통계 조회 실패:", err);
+        setError(
+          err instanceof Error ? err.message : "통계를 불러오는 중 오류가 발생했습니다."
+        );
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchStats();
+  }, [weeks]);
+
+  const completionRate =
+    stats && stats.total > 0
+      ? Math.round((stats.completed / stats.total) * 100)
+      : 0;
+
+  return (
+    <div className="flex min-h-screen flex-col bg-background">
+      {/* 헤더 */}
+      <header className="border-b">
+        <div className="container flex h-16 items-center justify-between px-4">
+          <div className="flex items-center gap-3">
+            <Button asChild variant="ghost" size="icon" aria-label="메인으로 돌아가기">
+              <Link href="/">
+                <ArrowLeft className="size-5" />
+              </Link>
+            </Button>
+            <BarChart3 className="size-5 text-primary" />
+            <h1 className="text-xl font-bold">통계 및 분석</h1>
+          </div>
+          <Select value={weeks} onValueChange={setWeeks}>
+            <SelectTrigger className="w-[140px]" aria-label="집계 기간">
+              <SelectValue placeholder="기간" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="4">최근 4주</SelectItem>
+              <SelectItem value="8">최근 8주</SelectItem>
+              <SelectItem value="12">최근 12주</SelectItem>
+              <SelectItem value="26">최근 26주</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </header>
+
+      <main className="container flex-1 px-4 py-6 space-y-6">
+        {error && (
+          <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive border border-destructive/20">
+            {error}
+          </div>
+        )}
+
+        {isLoading && !stats ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="text-center">
+              <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-current border-r-transparent align-[-0.125em] motion-reduce:animate-[spin_1.5s_linear_infinite]" />
+              <p className="mt-4 text-sm text-muted-foreground">
+                통계를 불러오는 중입니다...
+              </p>
+            </div>
+          </div>
+        ) : stats && stats.total === 0 ? (
+          <div className="rounded-lg border bg-card p-12 text-center">
+            <p className="font-medium">아직 통계를 표시할 할 일이 없습니다</p>
+            <p className="mt-2 text-sm text-muted-foreground">
+              할 일을 추가하고 완료하면 이곳에서 활동을 확인할 수 있습니다.
+            </p>
+          </div>
+        ) : (
+          stats && (
+            <>
+              {/* 요약 지표 */}
+              <div className="grid gap-4 sm:grid-cols-3">
+                <Card>
+                  <CardHeader>
+                    <CardDescription>전체 할 일</CardDescription>
+                    <CardTitle className="text-3xl">{stats.total}</CardTitle>
+                  </CardHeader>
+                </Card>
+                <Card>
+                  <CardHeader>
+                    <CardDescription>완료한 할 일</CardDescription>
+                    <CardTitle className="text-3xl">{stats.completed}</CardTitle>
+                  </CardHeader>
+                </Card>
+                <Card>
+                  <CardHeader>
+                    <CardDescription>전체 완료율</CardDescription>
+                    <CardTitle className="text-3xl">{completionRate}%</CardTitle>
+                  </CardHeader>
+                </Card>
+              </div>
+
+              <div className="grid gap-6 lg:grid-cols-2">
+                {/* 주간 활동량 */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle>주간 활동량</CardTitle>
+                    <CardDescription>주별로 생성하고 완료한 할 일 수</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <WeeklyActivityChart data={stats.weekly_activity} />
+                  </CardContent>
+                </Card>
+
+                {/* 완료율 추이 */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle>완료율 추이</CardTitle>
+                    <CardDescription>
+                      해당 주에 예정된 할 일 중 기한 안에 완료한 비율
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <CompletionTrendChart data={stats.completion_trend} />
+                  </CardContent>
+                </Card>
+
+                {/* 우선순위별 분포 */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle>우선순위별 분포</CardTitle>
+                    <CardDescription>전체 할 일의 우선순위별 진행 현황</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <DistributionChart
+                      data={stats.priority_distribution}
+                      getLabel={(key) => PRIORITY_LABELS[key as TodoPriority] || key}
+                    />
+                  </CardContent>
+                </Card>
+
+                {/* 카테고리별 분포 */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle>카테고리별 분포</CardTitle>
+                    <CardDescription>전체 할 일의 카테고리별 진행 현황</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <DistributionChart data={stats.category_distribution} />
+                  </CardContent>
+                </Card>
+              </div>
+
+              <p className="text-xs text-muted-foreground">
+                기준 타임존: {stats.time_zone}
+              </p>
+            </>
+          )
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default StatsPage;
@@ -0,0 +1,151 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { createClient } from "@/lib/supabase/client";
+import { getAuthErrorMessage, validateNewPassword } from "@/lib/auth-errors";
+
+/**
+ * 비밀번호 변경 폼 컴포넌트
+ * 현재 비밀번호를 확인한 뒤 새 비밀번호로 변경합니다.
+ */
+export const ChangePasswordForm = () => {
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+    setSuccessMessage(null);
+
+    const validationError = validateNewPassword(password, confirmPassword);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const supabase = createClient();
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user?.email) {
+        setError("로그인이 필요합니다.");
+        return;
+      }
+
+      // 현재 비밀번호 확인
+      const { error: verifyError } = await supabase.auth.signInWithPassword({
+        email: user.email,
+        password: currentPassword,
+      });
+
+      if (verifyError) {
+        setError("현재 비밀번호가 올바르지 않습니다.");
+        return;
+      }
+
+      const { error: updateError } = await supabase.auth.updateUser({
+        password,
+      });
+
+      if (updateError) {
+        throw updateError;
+      }
+
+      setSuccessMessage("비밀번호가 변경되었습니다.");
+      setCurrentPassword("");
+      setPassword("");
+      setConfirmPassword("");
+    } catch (err) {
+      setError(
+        getAuthErrorMessage(
+          err,
+          "비밀번호 변경 중 오류가 발생했습니다. 다시 시도해주세요."
+        )
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {/* 오류 메시지 */}
+      {error && (
+        <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive border border-destructive/20">
+          {error}
+        </div>
+      )}
+
+      {/* 성공 메시지 */}
+      {successMessage && (
+        <div className="rounded-md bg-green-50 p-3 text-sm text-green-800 border border-green-200">
+          {successMessage}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="currentPassword">현재 비밀번호</Label>
+        <Input
+          id="currentPassword"
+          type="password"
+          value={currentPassword}
+          onChange={(e) => setCurrentPassword(e.target.value)}
+          required
+          disabled={isLoading}
+          autoComplete="current-password"
+          aria-required="true"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="newPassword">새 비밀번호</Label>
+        <Input
+          id="newPassword"
+          type="password"
+          placeholder="최소 6자"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          required
+          disabled={isLoading}
+          autoComplete="new-password"
+          aria-required="true"
+          minLength={6}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="confirmNewPassword">새 비밀번호 확인</Label>
+        <Input
+          id="confirmNewPassword"
+          type="password"
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          required
+          disabled={isLoading}
+          autoComplete="new-password"
+          aria-required="true"
+        />
+      </div>
+
+      <div className="flex justify-end">
+        <Button
+          type="submit"
+          disabled={isLoading || !currentPassword || !password || !confirmPassword}
+        >
+          {isLoading ? "변경 중..." : "비밀번호 변경"}
+        </Button>
+      </div>
+    </form>
+  );
+};
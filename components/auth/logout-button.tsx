@@ -4,6 +4,7 @@ import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { LogOut } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { clearOfflineData, listQueuedMutations } from "@/lib/offline-db";
 import { createClient } from "@/lib/supabase/client";
 
 interface LogoutButtonProps {
@@ -35,12 +36,37 @@ export const LogoutButton = ({
 
     try {
       const supabase = createClient();
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+
+      // 로그아웃하면 오프라인 변경 큐가 삭제되므로, 동기화되지 않은 변경이 있으면 확인합니다.
+      const pending = session
+        ? (await listQueuedMutations(session.user.id).catch(() => [])).length
+        : 0;
+
+      if (
+        pending > 0 &&
+        !confirm(
+          `아직 동기화되지 않은 변경 ${pending}건이 있습니다. 로그아웃하면 이 변경은 삭제됩니다. 로그아웃하시겠습니까?`
+        )
+      ) {
+        return;
+      }
+
       const { error: signOutError } = await supabase.auth.signOut();
 
       if (signOutError) {
         throw signOutError;
       }
 
+      // 같은 기기의 다른 사람이 볼 수 없도록 오프라인 데이터 삭제 (실패해도 로그아웃은 계속)
+      if (session) {
+        await clearOfflineData(session.user.id).catch((error) =>
+          console.error("오프라인 데이터 삭제 실패:", error)
+        );
+      }
+
       // 로그아웃 성공 시 로그인 페이지로 리다이렉트
       router.push("/login");
       router.refresh(); // 세션 정보 갱신
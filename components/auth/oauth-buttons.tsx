@@ -0,0 +1,110 @@
+"use client";
+
+import { useState } from "react";
+import type { Provider } from "@supabase/supabase-js";
+import { Github } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { createClient } from "@/lib/supabase/client";
+
+/**
+ * 지원하는 소셜 로그인 공급자 타입
+ */
+type OAuthProvider = Extract<Provider, "google" | "github">;
+
+interface OAuthButtonsProps {
+  /** 로그인 후 이동할 경로 */
+  next?: string;
+  /** 버튼 비활성화 여부 */
+  disabled?: boolean;
+  /** 오류 발생 시 호출되는 핸들러 (한글 메시지 전달) */
+  onError?: (message: string) => void;
+}
+
+/**
+ * Google 로고 아이콘 (lucide-react에 브랜드 아이콘이 없어 직접 정의)
+ */
+const GoogleIcon = ({ className }: { className?: string }) => (
+  <svg viewBox="0 0 24 24" className={className} aria-hidden="true">
+    <path
+      fill="#4285F4"
+      d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92a5.06 5.06 0 0 1-2.2 3.32v2.77h3.57c2.08-1.92 3.27-4.74 3.27-8.1z"
+    />
+    <path
+      fill="#34A853"
+      d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84A11 11 0 0 0 12 23z"
+    />
+    <path
+      fill="#FBBC05"
+      d="M5.84 14.1A6.6 6.6 0 0 1 5.5 12c0-.73.13-1.44.34-2.1V7.07H2.18A11 11 0 0 0 1 12c0 1.78.43 3.45 1.18 4.93l3.66-2.83z"
+    />
+    <path
+      fill="#EA4335"
+      d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1A11 11 0 0 0 2.18 7.07l3.66 2.84C6.71 7.31 9.14 5.38 12 5.38z"
+    />
+  </svg>
+);
+
+/**
+ * 소셜 로그인(Google, GitHub) 버튼 컴포넌트
+ * Supabase OAuth로 로그인한 뒤 /auth/callback을 거쳐 원래 경로로 돌아옵니다.
+ */
+export const OAuthButtons = ({
+  next = "/",
+  disabled = false,
+  onError,
+}: OAuthButtonsProps) => {
+  const [loadingProvider, setLoadingProvider] = useState<OAuthProvider | null>(
+    null
+  );
+
+  const handleSignIn = async (provider: OAuthProvider) => {
+    setLoadingProvider(provider);
+
+    try {
+      const supabase = createClient();
+      const redirectTo = new URL("/auth/callback", window.location.origin);
+      redirectTo.searchParams.set("next", next);
+
+      const { error: signInError } = await supabase.auth.signInWithOAuth({
+        provider,
+        options: {
+          redirectTo: redirectTo.toString(),
+        },
+      });
+
+      if (signInError) {
+        throw signInError;
+      }
+      // 성공 시 공급자 로그인 페이지로 이동하므로 로딩 상태를 유지합니다.
+    } catch (err) {
+      console.error("OAuth sign-in error:", err);
+      onError?.("소셜 로그인 중 오류가 발생했습니다. 다시 시도해주세요.");
+      setLoadingProvider(null);
+    }
+  };
+
+  const isDisabled = disabled || loadingProvider !== null;
+
+  return (
+    <div className="grid w-full grid-cols-2 gap-2">
+      <Button
+        type="button"
+        variant="outline"
+        onClick={() => handleSignIn("google")}
+        disabled={isDisabled}
+      >
+        <GoogleIcon className="mr-2 size-4" />
+        {loadingProvider === "google" ? "이동 중..." : "Google"}
+      </Button>
+      <Button
+        type="button"
+        variant="outline"
+        onClick={() => handleSignIn("github")}
+        disabled={isDisabled}
+      >
+        <Github className="mr-2 size-4" />
+        {loadingProvider === "github" ? "이동 중..." : "GitHub"}
+      </Button>
+    </div>
+  );
+};
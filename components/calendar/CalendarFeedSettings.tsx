@@ -0,0 +1,141 @@
+"use client";
+
+import { useState } from "react";
+import { CalendarPlus, Copy, RefreshCw, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useCalendarFeed } from "@/hooks/use-calendar-feed";
+import { createCalendarFeed, deleteCalendarFeed } from "@/lib/calendar-api";
+import { getCalendarFeedUrl } from "@/lib/ical";
+
+/**
+ * 캘린더 앱에서 구독할 수 있는 .ics 피드 주소를 만들고 관리하는 컴포넌트입니다.
+ * 주소를 아는 사람은 누구나 할 일을 볼 수 있으므로, 노출되면 새 주소를 발급합니다.
+ */
+const CalendarFeedSettings = () => {
+  const { feed, setFeed, isLoading, error } = useCalendarFeed();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const feedUrl = feed ? getCalendarFeedUrl(window.location.origin, feed.token) : "";
+
+  /**
+   * 피드를 만들거나 새 주소를 발급합니다.
+   */
+  const handleCreate = async () => {
+    if (
+      feed &&
+      !confirm("새 주소를 발급하시겠습니까?\n이전 주소로 구독한 캘린더는 더 이상 갱신되지 않습니다.")
+    ) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      setFeed(await createCalendarFeed());
+      toast.success(feed ? "새 구독 주소를 발급했습니다." : "캘린더 구독 주소를 만들었습니다.");
+    } catch (err) {
+      console.error("캘린더 피드 생성 실패:", err);
+      toast.error(err instanceof Error ? err.message : "캘린더 피드를 만들지 못했습니다.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /**
+   * 피드를 삭제합니다.
+   */
+  const handleDelete = async () => {
+    if (!confirm("캘린더 구독을 끄시겠습니까?\n구독한 캘린더는 더 이상 갱신되지 않습니다.")) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await deleteCalendarFeed();
+      setFeed(null);
+      toast.success("캘린더 구독을 껐습니다.");
+    } catch (err) {
+      console.error("캘린더 피드 삭제 실패:", err);
+      toast.error(err instanceof Error ? err.message : "캘린더 피드를 삭제하지 못했습니다.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /**
+   * 구독 주소를 클립보드에 복사합니다.
+   */
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast.success("구독 주소를 복사했습니다.");
+    } catch (err) {
+      console.error("구독 주소 복사 실패:", err);
+      toast.error("구독 주소를 복사하지 못했습니다.");
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <p className="text-sm text-muted-foreground">캘린더 피드를 불러오는 중입니다...</p>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive border border-destructive/20">
+        {error}
+      </div>
+    );
+  }
+
+  if (!feed) {
+    return (
+      <Button onClick={handleCreate} disabled={isSaving}>
+        <CalendarPlus className="size-4 mr-2" />
+        {isSaving ? "만드는 중..." : "구독 주소 만들기"}
+      </Button>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <Input value={feedUrl} readOnly onFocus={(e) => e.target.select()} aria-label="구독 주소" />
+        <Button variant="outline" size="icon" onClick={handleCopy} aria-label="구독 주소 복사">
+          <Copy className="size-4" />
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Google 캘린더, Apple 캘린더, Outlook 등에서 &apos;URL로 구독&apos;에 붙여넣으세요. 마감일이
+        있는 개인 할 일과 나에게 할당된 할 일이 표시됩니다. 할 일(VTODO)을 지원하는 앱에서는 주소
+        끝에 ?type=todo를 붙일 수 있습니다.
+      </p>
+      <div className="flex flex-wrap gap-2">
+        <Button asChild variant="outline" size="sm">
+          <a href={feedUrl.replace(/^https?:/, "webcal:")}>
+            <CalendarPlus className="size-4 mr-2" />
+            캘린더 앱에서 열기
+          </a>
+        </Button>
+        <Button variant="outline" size="sm" onClick={handleCreate} disabled={isSaving}>
+          <RefreshCw className="size-4 mr-2" />
+          새 주소 발급
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleDelete}
+          disabled={isSaving}
+          className="text-destructive hover:text-destructive"
+        >
+          <Trash2 className="size-4 mr-2" />
+          구독 끄기
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default CalendarFeedSettings;
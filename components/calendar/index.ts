@@ -0,0 +1,4 @@
+/**
+ * 캘린더 연동 컴포넌트들을 한 곳에서 export합니다.
+ */
+export { default as CalendarFeedSettings } from "./CalendarFeedSettings";
@@ -0,0 +1,38 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import type { Category } from "@/types/category";
+import CategoryIcon from "./CategoryIcon";
+
+/**
+ * 카테고리 배지 컴포넌트의 Props 타입
+ */
+interface CategoryBadgeProps {
+  /** 할 일에 저장된 카테고리 이름 */
+  name: string;
+  /** 이름에 해당하는 사용자 카테고리 (없으면 기본 스타일로 표시) */
+  category?: Category;
+  /** 추가 클래스명 */
+  className?: string;
+}
+
+/**
+ * 카테고리를 색상과 아이콘이 있는 배지로 표시하는 컴포넌트입니다.
+ */
+const CategoryBadge = ({ name, category, className }: CategoryBadgeProps) => (
+  <Badge
+    variant="outline"
+    className={cn("gap-1 text-xs", className)}
+    style={
+      category
+        ? { borderColor: category.color, backgroundColor: `${category.color}14` }
+        : undefined
+    }
+  >
+    {category && (
+      <CategoryIcon name={category.icon} color={category.color} className="size-3" />
+    )}
+    {name}
+  </Badge>
+);
+
+export default CategoryBadge;
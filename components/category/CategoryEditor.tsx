@@ -0,0 +1,132 @@
+"use client";
+
+import { useState } from "react";
+import { Check } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { CATEGORY_COLORS, CATEGORY_ICON_NAMES } from "@/lib/category";
+import { cn } from "@/lib/utils";
+import type { CategoryInput } from "@/types/category";
+import CategoryIcon from "./CategoryIcon";
+
+/**
+ * 카테고리 편집 폼 컴포넌트의 Props 타입
+ */
+interface CategoryEditorProps {
+  /** 초기 값 (수정 모드) */
+  initialValue?: CategoryInput;
+  /** 저장 버튼 문구 */
+  submitLabel: string;
+  /** 저장 핸들러 (저장 성공 여부 반환) */
+  onSubmit: (input: CategoryInput) => Promise<boolean>;
+  /** 취소 핸들러 */
+  onCancel?: () => void;
+  /** 로딩 상태 */
+  isLoading?: boolean;
+}
+
+/**
+ * 카테고리 이름, 색상, 아이콘을 입력받는 폼 컴포넌트입니다.
+ */
+const CategoryEditor = ({
+  initialValue,
+  submitLabel,
+  onSubmit,
+  onCancel,
+  isLoading = false,
+}: CategoryEditorProps) => {
+  const [value, setValue] = useState<CategoryInput>(
+    initialValue || { name: "", color: CATEGORY_COLORS[5], icon: "tag" }
+  );
+
+  /**
+   * 카테고리를 저장합니다. 새 카테고리 추가에 성공하면 이름을 비웁니다.
+   */
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!value.name.trim()) {
+      return;
+    }
+
+    const isSaved = await onSubmit({ ...value, name: value.name.trim() });
+    if (isSaved && !initialValue) {
+      setValue((prev) => ({ ...prev, name: "" }));
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 rounded-md border p-3">
+      <div className="flex items-center gap-2">
+        <CategoryIcon name={value.icon} color={value.color} className="size-5 shrink-0" />
+        <Input
+          value={value.name}
+          onChange={(e) => setValue((prev) => ({ ...prev, name: e.target.value }))}
+          placeholder="카테고리 이름"
+          maxLength={20}
+          disabled={isLoading}
+          aria-label="카테고리 이름"
+          className="h-8"
+        />
+      </div>
+
+      {/* 색상 */}
+      <div className="flex flex-wrap gap-1.5" role="radiogroup" aria-label="색상">
+        {CATEGORY_COLORS.map((color) => (
+          <button
+            key={color}
+            type="button"
+            role="radio"
+            aria-checked={value.color === color}
+            aria-label={color}
+            onClick={() => setValue((prev) => ({ ...prev, color }))}
+            disabled={isLoading}
+            className="flex size-6 items-center justify-center rounded-full"
+            style={{ backgroundColor: color }}
+          >
+            {value.color === color && <Check className="size-3.5 text-white" />}
+          </button>
+        ))}
+      </div>
+
+      {/* 아이콘 */}
+      <div className="flex flex-wrap gap-1" role="radiogroup" aria-label="아이콘">
+        {CATEGORY_ICON_NAMES.map((icon) => (
+          <button
+            key={icon}
+            type="button"
+            role="radio"
+            aria-checked={value.icon === icon}
+            aria-label={icon}
+            onClick={() => setValue((prev) => ({ ...prev, icon }))}
+            disabled={isLoading}
+            className={cn(
+              "flex size-8 items-center justify-center rounded-md border",
+              value.icon === icon ? "border-primary bg-primary/10" : "border-transparent"
+            )}
+          >
+            <CategoryIcon name={icon} className="size-4" />
+          </button>
+        ))}
+      </div>
+
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={onCancel}
+            disabled={isLoading}
+          >
+            취소
+          </Button>
+        )}
+        <Button type="submit" size="sm" disabled={isLoading || !value.name.trim()}>
+          {isLoading ? "저장 중..." : submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default CategoryEditor;
@@ -0,0 +1,56 @@
+import {
+  BookOpen,
+  Briefcase,
+  Code,
+  Dumbbell,
+  Heart,
+  Home,
+  Plane,
+  ShoppingCart,
+  Star,
+  Tag,
+  User,
+  Wallet,
+  type LucideIcon,
+} from "lucide-react";
+import type { CategoryIconName } from "@/lib/category";
+
+/**
+ * 아이콘 이름별 lucide 아이콘 컴포넌트
+ */
+const ICONS: Record<CategoryIconName, LucideIcon> = {
+  tag: Tag,
+  briefcase: Briefcase,
+  user: User,
+  "book-open": BookOpen,
+  home: Home,
+  heart: Heart,
+  dumbbell: Dumbbell,
+  "shopping-cart": ShoppingCart,
+  code: Code,
+  wallet: Wallet,
+  plane: Plane,
+  star: Star,
+};
+
+/**
+ * 카테고리 아이콘 컴포넌트의 Props 타입
+ */
+interface CategoryIconProps {
+  /** 아이콘 이름 (알 수 없는 이름이면 태그 아이콘 표시) */
+  name: string;
+  /** 아이콘 색상 */
+  color?: string;
+  /** 추가 클래스명 */
+  className?: string;
+}
+
+/**
+ * 카테고리 아이콘 이름에 해당하는 아이콘을 표시하는 컴포넌트입니다.
+ */
+const CategoryIcon = ({ name, color, className }: CategoryIconProps) => {
+  const Icon = ICONS[name as CategoryIconName] || Tag;
+  return <Icon className={className} style={color ? { color } : undefined} aria-hidden />;
+};
+
+export default CategoryIcon;
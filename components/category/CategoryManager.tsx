@@ -0,0 +1,220 @@
+"use client";
+
+import { useState } from "react";
+import { ArrowDown, ArrowUp, Pencil, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { useCategories } from "@/hooks/use-categories";
+import { MAX_CATEGORIES } from "@/lib/category";
+import {
+  createCategory,
+  deleteCategory,
+  updateCategory,
+} from "@/lib/category-api";
+import type { CategoryInput } from "@/types/category";
+import CategoryEditor from "./CategoryEditor";
+import CategoryIcon from "./CategoryIcon";
+
+/**
+ * 사용자 정의 카테고리를 추가/수정/삭제하고 순서를 바꾸는 관리 컴포넌트입니다.
+ */
+const CategoryManager = () => {
+  const { categories, setCategories, isLoading, error } = useCategories();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  /**
+   * 새 카테고리를 추가합니다.
+   */
+  const handleCreate = async (input: CategoryInput): Promise<boolean> => {
+    setIsSaving(true);
+    try {
+      const category = await createCategory(input);
+      setCategories((prev) => [...prev, category]);
+      toast.success("카테고리가 추가되었습니다.");
+      return true;
+    } catch (err) {
+      console.error("카테고리 추가 실패:", err);
+      toast.error(err instanceof Error ? err.message : "카테고리를 추가하지 못했습니다.");
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /**
+   * 카테고리를 수정합니다.
+   */
+  const handleUpdate = async (id: string, input: CategoryInput): Promise<boolean> => {
+    setIsSaving(true);
+    try {
+      const category = await updateCategory(id, input);
+      setCategories((prev) => prev.map((c) => (c.id === id ? category : c)));
+      setEditingId(null);
+      toast.success("카테고리가 수정되었습니다.");
+      return true;
+    } catch (err) {
+      console.error("카테고리 수정 실패:", err);
+      toast.error(err instanceof Error ? err.message : "카테고리를 수정하지 못했습니다.");
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /**
+   * 카테고리를 삭제합니다. 할 일에 지정된 해당 카테고리도 함께 제거됩니다.
+   */
+  const handleDelete = async (id: string, name: string) => {
+    if (!confirm(`"${name}" 카테고리를 삭제하시겠습니까?\n할 일에 지정된 카테고리도 함께 제거됩니다.`)) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await deleteCategory(id);
+      setCategories((prev) => prev.filter((c) => c.id !== id));
+      toast.success("카테고리가 삭제되었습니다.");
+    } catch (err) {
+      console.error("카테고리 삭제 실패:", err);
+      toast.error(err instanceof Error ? err.message : "카테고리를 삭제하지 못했습니다.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /**
+   * 카테고리의 순서를 이웃한 카테고리와 바꿉니다.
+   */
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= categories.length) {
+      return;
+    }
+
+    const reordered = [...categories];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    const previous = categories;
+    setCategories(reordered.map((c, position) => ({ ...c, position })));
+
+    try {
+      await Promise.all([
+        updateCategory(reordered[index].id, { position: index }),
+        updateCategory(reordered[target].id, { position: target }),
+      ]);
+    } catch (err) {
+      console.error("카테고리 순서 변경 실패:", err);
+      toast.error("카테고리 순서를 변경하지 못했습니다.");
+      setCategories(previous);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <p className="text-sm text-muted-foreground">카테고리를 불러오는 중입니다...</p>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive border border-destructive/20">
+        {error}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {categories.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          아직 카테고리가 없습니다. 아래에서 새 카테고리를 추가해보세요.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {categories.map((category, index) =>
+            editingId === category.id ? (
+              <li key={category.id}>
+                <CategoryEditor
+                  initialValue={{
+                    name: category.name,
+                    color: category.color,
+                    icon: category.icon,
+                  }}
+                  submitLabel="저장"
+                  onSubmit={(input) => handleUpdate(category.id, input)}
+                  onCancel={() => setEditingId(null)}
+                  isLoading={isSaving}
+                />
+              </li>
+            ) : (
+              <li
+                key={category.id}
+                className="flex items-center gap-3 rounded-md border px-3 py-2"
+              >
+                <span
+                  className="flex size-8 shrink-0 items-center justify-center rounded-full"
+                  style={{ backgroundColor: `${category.color}1f` }}
+                >
+                  <CategoryIcon
+                    name={category.icon}
+                    color={category.color}
+                    className="size-4"
+                  />
+                </span>
+                <span className="flex-1 truncate text-sm font-medium">
+                  {category.name}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="size-8"
+                  onClick={() => handleMove(index, -1)}
+                  disabled={isSaving || index === 0}
+                  aria-label={`${category.name} 위로 이동`}
+                >
+                  <ArrowUp className="size-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="size-8"
+                  onClick={() => handleMove(index, 1)}
+                  disabled={isSaving || index === categories.length - 1}
+                  aria-label={`${category.name} 아래로 이동`}
+                >
+                  <ArrowDown className="size-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="size-8"
+                  onClick={() => setEditingId(category.id)}
+                  disabled={isSaving}
+                  aria-label={`${category.name} 수정`}
+                >
+                  <Pencil className="size-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="size-8 text-destructive hover:text-destructive"
+                  onClick={() => handleDelete(category.id, category.name)}
+                  disabled={isSaving}
+                  aria-label={`${category.name} 삭제`}
+                >
+                  <Trash2 className="size-4" />
+                </Button>
+              </li>
+            )
+          )}
+        </ul>
+      )}
+
+      {categories.length < MAX_CATEGORIES && (
+        <CategoryEditor submitLabel="추가" onSubmit={handleCreate} isLoading={isSaving} />
+      )}
+    </div>
+  );
+};
+
+export default CategoryManager;
@@ -0,0 +1,6 @@
+/**
+ * 카테고리 컴포넌트들을 한 곳에서 export합니다.
+ */
+export { default as CategoryIcon } from "./CategoryIcon";
+export { default as CategoryBadge } from "./CategoryBadge";
+export { default as CategoryManager } from "./CategoryManager";
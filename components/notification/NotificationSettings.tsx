@@ -0,0 +1,112 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { usePushNotifications } from "@/hooks/use-push-notifications";
+import { saveProfile } from "@/lib/profile";
+import type { UserProfile } from "@/types/user";
+
+/**
+ * 알림 설정 컴포넌트의 Props 타입
+ */
+interface NotificationSettingsProps {
+  /** 사용자 ID */
+  userId: string;
+  /** 사용자 이메일 */
+  email: string;
+  /** 현재 프로필 */
+  profile: UserProfile | null;
+  /** 저장 완료 핸들러 */
+  onSaved?: (profile: UserProfile) => void;
+}
+
+/**
+ * 마감 알림을 받을 방법(이 기기의 웹 푸시, 이메일)을 설정하는 컴포넌트입니다.
+ * 웹 푸시는 기기(브라우저)마다, 이메일은 계정 단위로 설정합니다.
+ */
+const NotificationSettings = ({
+  userId,
+  email,
+  profile,
+  onSaved,
+}: NotificationSettingsProps) => {
+  const push = usePushNotifications();
+  const [emailReminders, setEmailReminders] = useState(profile?.email_reminders ?? true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  /**
+   * 이 기기의 웹 푸시 알림을 켜거나 끕니다.
+   */
+  const handlePushChange = async (enabled: boolean) => {
+    if (enabled) {
+      await push.subscribe();
+    } else {
+      await push.unsubscribe();
+    }
+  };
+
+  /**
+   * 이메일 알림 수신 여부를 저장합니다.
+   */
+  const handleEmailChange = async (enabled: boolean) => {
+    setEmailReminders(enabled);
+    setIsSaving(true);
+
+    try {
+      const saved = await saveProfile(userId, email, { email_reminders: enabled });
+      onSaved?.(saved);
+      toast.success(enabled ? "이메일 알림을 켰습니다." : "이메일 알림을 껐습니다.");
+    } catch (error) {
+      console.error("알림 설정 저장 실패:", error);
+      setEmailReminders(!enabled);
+      toast.error("알림 설정을 저장하는 중 오류가 발생했습니다.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* 웹 푸시 */}
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="push-reminders">이 기기에서 푸시 알림 받기</Label>
+          <p className="text-xs text-muted-foreground">
+            {push.isSupported
+              ? "브라우저를 닫아도 마감 알림을 받습니다. 기기마다 따로 설정합니다."
+              : "이 브라우저에서는 푸시 알림을 사용할 수 없습니다."}
+          </p>
+        </div>
+        <Switch
+          id="push-reminders"
+          checked={push.isSubscribed}
+          onCheckedChange={handlePushChange}
+          disabled={!push.isSupported || push.isLoading}
+        />
+      </div>
+      {push.error && (
+        <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive border border-destructive/20">
+          {push.error}
+        </div>
+      )}
+
+      {/* 이메일 */}
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="email-reminders">이메일로 알림 받기</Label>
+          <p className="text-xs text-muted-foreground">{email}(으)로 마감 알림을 보냅니다.</p>
+        </div>
+        <Switch
+          id="email-reminders"
+          checked={emailReminders}
+          onCheckedChange={handleEmailChange}
+          disabled={isSaving}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default NotificationSettings;
@@ -0,0 +1,169 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Upload } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { saveProfile, uploadAvatar, validateAvatarFile } from "@/lib/profile";
+import type { UserProfile } from "@/types/user";
+import UserAvatar from "./UserAvatar";
+
+/**
+ * 프로필 폼 컴포넌트의 Props 타입
+ */
+interface ProfileFormProps {
+  /** 사용자 ID */
+  userId: string;
+  /** 사용자 이메일 */
+  email: string;
+  /** 현재 프로필 (없으면 새로 생성) */
+  profile: UserProfile | null;
+  /** 저장 완료 핸들러 */
+  onSaved?: (profile: UserProfile) => void;
+}
+
+/**
+ * 표시 이름과 프로필 이미지를 수정하는 폼 컴포넌트입니다.
+ * 이미지는 Supabase Storage에 업로드한 뒤 공개 URL을 프로필에 저장합니다.
+ */
+const ProfileForm = ({ userId, email, profile, onSaved }: ProfileFormProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [name, setName] = useState(profile?.name || "");
+  const [avatarUrl, setAvatarUrl] = useState(profile?.avatar_url || null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  /**
+   * 선택한 이미지를 업로드하고 미리보기를 갱신합니다.
+   */
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // 같은 파일을 다시 선택할 수 있도록 초기화
+
+    if (!file) {
+      return;
+    }
+
+    const validationError = validateAvatarFile(file);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const url = await uploadAvatar(userId, file);
+      setAvatarUrl(url);
+      toast.success("이미지를 업로드했습니다. 저장 버튼을 눌러 적용해주세요.");
+    } catch (error) {
+      console.error("프로필 이미지 업로드 실패:", error);
+      toast.error("이미지를 업로드하는 중 오류가 발생했습니다.");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  /**
+   * 프로필 저장을 처리합니다.
+   */
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const trimmedName = name.trim();
+    if (trimmedName.length > 50) {
+      toast.error("이름은 50자 이하로 입력해주세요.");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const saved = await saveProfile(userId, email, {
+        name: trimmedName || null,
+        avatar_url: avatarUrl,
+      });
+      onSaved?.(saved);
+      toast.success("프로필이 저장되었습니다.");
+    } catch (error) {
+      console.error("프로필 저장 실패:", error);
+      toast.error("프로필을 저장하는 중 오류가 발생했습니다.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isBusy = isUploading || isSaving;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {/* 프로필 이미지 */}
+      <div className="flex items-center gap-4">
+        <UserAvatar name={name || email} avatarUrl={avatarUrl} className="size-16" />
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isBusy}
+            >
+              <Upload className="size-4 mr-2" />
+              {isUploading ? "업로드 중..." : "이미지 변경"}
+            </Button>
+            {avatarUrl && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setAvatarUrl(null)}
+                disabled={isBusy}
+              >
+                삭제
+              </Button>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">JPG, PNG, GIF (최대 2MB)</p>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            className="hidden"
+            onChange={handleFileChange}
+            aria-label="프로필 이미지 선택"
+          />
+        </div>
+      </div>
+
+      {/* 이메일 (읽기 전용) */}
+      <div className="space-y-2">
+        <Label htmlFor="profile-email">이메일</Label>
+        <Input id="profile-email" type="email" value={email} disabled readOnly />
+      </div>
+
+      {/* 표시 이름 */}
+      <div className="space-y-2">
+        <Label htmlFor="profile-name">이름</Label>
+        <Input
+          id="profile-name"
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="화면에 표시될 이름을 입력하세요"
+          maxLength={50}
+          disabled={isBusy}
+          autoComplete="name"
+        />
+      </div>
+
+      <div className="flex justify-end">
+        <Button type="submit" disabled={isBusy}>
+          {isSaving ? "저장 중..." : "저장"}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default ProfileForm;
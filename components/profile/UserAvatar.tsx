@@ -0,0 +1,33 @@
+"use client";
+
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { cn } from "@/lib/utils";
+
+/**
+ * 사용자 아바타 컴포넌트의 Props 타입
+ */
+interface UserAvatarProps {
+  /** 표시 이름 (이미지가 없을 때 첫 글자를 표시) */
+  name?: string | null;
+  /** 프로필 이미지 URL */
+  avatarUrl?: string | null;
+  /** 추가 클래스명 */
+  className?: string;
+}
+
+/**
+ * 사용자 프로필 이미지를 표시하는 컴포넌트입니다.
+ * 이미지가 없거나 불러오지 못하면 이름의 첫 글자를 표시합니다.
+ */
+const UserAvatar = ({ name, avatarUrl, className }: UserAvatarProps) => {
+  const initial = name?.trim().charAt(0).toUpperCase() || "?";
+
+  return (
+    <Avatar className={cn("size-8", className)}>
+      {avatarUrl && <AvatarImage src={avatarUrl} alt={name || "프로필 이미지"} />}
+      <AvatarFallback className="text-sm font-medium">{initial}</AvatarFallback>
+    </Avatar>
+  );
+};
+
+export default UserAvatar;
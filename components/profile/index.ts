@@ -0,0 +1,5 @@
+/**
+ * 프로필 컴포넌트들을 한 곳에서 export합니다.
+ */
+export { default as UserAvatar } from "./UserAvatar";
+export { default as ProfileForm } from "./ProfileForm";
@@ -0,0 +1,128 @@
+"use client";
+
+import { useState } from "react";
+import { Check } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CATEGORY_COLORS } from "@/lib/category";
+import type { Project, ProjectInput } from "@/types/project";
+
+/**
+ * 프로젝트 편집 다이얼로그의 Props 타입
+ */
+interface ProjectDialogProps {
+  /** 다이얼로그 열림 여부 */
+  open: boolean;
+  /** 수정할 프로젝트 (없으면 새 프로젝트 추가) */
+  project?: Project | null;
+  /** 다이얼로그 열림 상태 변경 핸들러 */
+  onOpenChange: (open: boolean) => void;
+  /** 저장 핸들러 (저장 성공 여부 반환) */
+  onSubmit: (input: ProjectInput) => Promise<boolean>;
+  /** 로딩 상태 */
+  isLoading?: boolean;
+}
+
+/**
+ * 프로젝트 이름과 색상을 입력받는 다이얼로그입니다.
+ * 입력값은 마운트될 때 수정할 프로젝트 값으로 초기화됩니다.
+ */
+const ProjectDialog = ({
+  open,
+  project,
+  onOpenChange,
+  onSubmit,
+  isLoading = false,
+}: ProjectDialogProps) => {
+  const [value, setValue] = useState<ProjectInput>(
+    project
+      ? { name: project.name, color: project.color }
+      : { name: "", color: CATEGORY_COLORS[5] }
+  );
+
+  /**
+   * 프로젝트를 저장하고 성공하면 다이얼로그를 닫습니다.
+   */
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!value.name.trim()) {
+      return;
+    }
+
+    const isSaved = await onSubmit({ ...value, name: value.name.trim() });
+    if (isSaved) {
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{project ? "프로젝트 수정" : "새 프로젝트"}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="project-name">이름</Label>
+            <Input
+              id="project-name"
+              value={value.name}
+              onChange={(e) => setValue((prev) => ({ ...prev, name: e.target.value }))}
+              placeholder="예: 고객사 A, 3월 스프린트"
+              maxLength={40}
+              disabled={isLoading}
+              autoFocus
+            />
+          </div>
+
+          {/* 색상 */}
+          <div className="space-y-2">
+            <Label>색상</Label>
+            <div className="flex flex-wrap gap-1.5" role="radiogroup" aria-label="색상">
+              {CATEGORY_COLORS.map((color) => (
+                <button
+                  key={color}
+                  type="button"
+                  role="radio"
+                  aria-checked={value.color === color}
+                  aria-label={color}
+                  onClick={() => setValue((prev) => ({ ...prev, color }))}
+                  disabled={isLoading}
+                  className="flex size-6 items-center justify-center rounded-full"
+                  style={{ backgroundColor: color }}
+                >
+                  {value.color === color && <Check className="size-3.5 text-white" />}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isLoading}
+            >
+              취소
+            </Button>
+            <Button type="submit" disabled={isLoading || !value.name.trim()}>
+              {isLoading ? "저장 중..." : project ? "수정" : "추가"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProjectDialog;
@@ -0,0 +1,243 @@
+"use client";
+
+import { useState } from "react";
+import { Inbox, ListTodo, MoreHorizontal, Pencil, Plus, Trash2 } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupAction,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuBadge,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  useSidebar,
+} from "@/components/ui/sidebar";
+import { cn } from "@/lib/utils";
+import type { Project, ProjectCounts, ProjectInput, ProjectView } from "@/types/project";
+import ProjectDialog from "./ProjectDialog";
+
+/**
+ * 프로젝트 사이드바 컴포넌트의 Props 타입
+ */
+interface ProjectSidebarProps {
+  /** 프로젝트 목록 */
+  projects: Project[];
+  /** 보기별(all, inbox, 프로젝트 ID) 미완료/지연 할 일 개수 */
+  counts: Record<string, ProjectCounts>;
+  /** 현재 선택한 보기 */
+  view: ProjectView;
+  /** 보기 변경 핸들러 */
+  onViewChange: (view: ProjectView) => void;
+  /** 프로젝트 추가 핸들러 (저장 성공 여부 반환) */
+  onCreate: (input: ProjectInput) => Promise<boolean>;
+  /** 프로젝트 수정 핸들러 (저장 성공 여부 반환) */
+  onUpdate: (id: string, input: ProjectInput) => Promise<boolean>;
+  /** 프로젝트 삭제 핸들러 */
+  onDelete: (project: Project) => void | Promise<void>;
+  /** 저장 중 상태 */
+  isSaving?: boolean;
+  /** 프로젝트를 추가/수정/삭제할 수 있는지 여부 (뷰어는 조회만 가능) */
+  canEdit?: boolean;
+  /** 사이드바 상단에 표시할 내용 (워크스페이스 전환 등) */
+  header?: React.ReactNode;
+  /** 사이드바 컨테이너 클래스 */
+  className?: string;
+}
+
+/**
+ * 미완료 할 일 수와 지연된 할 일 수를 표시하는 배지입니다.
+ */
+const CountBadge = ({
+  counts,
+  className,
+}: {
+  counts?: ProjectCounts;
+  className?: string;
+}) => {
+  if (!counts || counts.open === 0) {
+    return null;
+  }
+
+  return (
+    <SidebarMenuBadge className={cn("gap-1", className)}>
+      {counts.overdue > 0 && (
+        <span className="text-destructive">
+          {counts.overdue}
+          <span className="sr-only">개 지연,</span>
+        </span>
+      )}
+      <span>
+        {counts.open}
+        <span className="sr-only">개 남음</span>
+      </span>
+    </SidebarMenuBadge>
+  );
+};
+
+/**
+ * 전체 할 일, 받은 편지함, 프로젝트 목록을 보여주고 보기를 전환하는 사이드바입니다.
+ * 프로젝트 추가/이름 변경/삭제와 프로젝트별 미완료·지연 개수를 함께 제공합니다.
+ */
+const ProjectSidebar = ({
+  projects,
+  counts,
+  view,
+  onViewChange,
+  onCreate,
+  onUpdate,
+  onDelete,
+  isSaving = false,
+  canEdit = true,
+  header,
+  className,
+}: ProjectSidebarProps) => {
+  const { isMobile, setOpenMobile } = useSidebar();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingProject, setEditingProject] = useState<Project | null>(null);
+
+  /**
+   * 보기를 선택합니다. 모바일에서는 선택 후 사이드바를 닫습니다.
+   */
+  const selectView = (next: ProjectView) => {
+    onViewChange(next);
+    if (isMobile) {
+      setOpenMobile(false);
+    }
+  };
+
+  /**
+   * 프로젝트 추가/수정 다이얼로그를 엽니다.
+   */
+  const openDialog = (project: Project | null) => {
+    setEditingProject(project);
+    setIsDialogOpen(true);
+  };
+
+  return (
+    <Sidebar className={className}>
+      {header && <SidebarHeader>{header}</SidebarHeader>}
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              <SidebarMenuItem>
+                <SidebarMenuButton
+                  isActive={view === "all"}
+                  onClick={() => selectView("all")}
+                >
+                  <ListTodo />
+                  <span>전체 할 일</span>
+                </SidebarMenuButton>
+                <CountBadge counts={counts.all} />
+              </SidebarMenuItem>
+              <SidebarMenuItem>
+                <SidebarMenuButton
+                  isActive={view === "inbox"}
+                  onClick={() => selectView("inbox")}
+                >
+                  <Inbox />
+                  <span>받은 편지함</span>
+                </SidebarMenuButton>
+                <CountBadge counts={counts.inbox} />
+              </SidebarMenuItem>
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+
+        <SidebarGroup>
+          <SidebarGroupLabel>프로젝트</SidebarGroupLabel>
+          {canEdit && (
+            <SidebarGroupAction
+              onClick={() => openDialog(null)}
+              disabled={isSaving}
+              title="새 프로젝트"
+            >
+              <Plus />
+              <span className="sr-only">새 프로젝트</span>
+            </SidebarGroupAction>
+          )}
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {projects.length === 0 && (
+                <p className="px-2 py-1.5 text-xs text-muted-foreground">
+                  {canEdit ? "프로젝트를 만들어 할 일을 묶어보세요." : "프로젝트가 없습니다."}
+                </p>
+              )}
+              {projects.map((project) => (
+                <SidebarMenuItem key={project.id}>
+                  <SidebarMenuButton
+                    isActive={view === project.id}
+                    onClick={() => selectView(project.id)}
+                  >
+                    <span
+                      className="ml-0.5 size-2.5 shrink-0 rounded-full"
+                      style={{ backgroundColor: project.color }}
+                      aria-hidden="true"
+                    />
+                    <span>{project.name}</span>
+                  </SidebarMenuButton>
+                  {/* 메뉴 버튼이 나타나면 개수 배지를 숨깁니다. */}
+                  <CountBadge
+                    counts={counts[project.id]}
+                    className={cn(
+                      canEdit &&
+                        "right-7 md:right-1 md:group-hover/menu-item:opacity-0 md:group-focus-within/menu-item:opacity-0"
+                    )}
+                  />
+                  {canEdit && (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <SidebarMenuAction showOnHover disabled={isSaving}>
+                          <MoreHorizontal />
+                          <span className="sr-only">{project.name} 메뉴</span>
+                        </SidebarMenuAction>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent side="right" align="start">
+                        <DropdownMenuItem onClick={() => openDialog(project)}>
+                          <Pencil className="size-4" />
+                          수정
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          variant="destructive"
+                          onClick={() => onDelete(project)}
+                        >
+                          <Trash2 className="size-4" />
+                          삭제
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  )}
+                </SidebarMenuItem>
+              ))}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+
+      {isDialogOpen && (
+        <ProjectDialog
+          open={isDialogOpen}
+          project={editingProject}
+          onOpenChange={setIsDialogOpen}
+          onSubmit={(input) =>
+            editingProject ? onUpdate(editingProject.id, input) : onCreate(input)
+          }
+          isLoading={isSaving}
+        />
+      )}
+    </Sidebar>
+  );
+};
+
+export default ProjectSidebar;
@@ -0,0 +1,4 @@
+/**
+ * 프로젝트 컴포넌트들을 한 곳에서 export합니다.
+ */
+export { default as ProjectSidebar } from "./ProjectSidebar";
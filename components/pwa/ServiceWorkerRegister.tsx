@@ -0,0 +1,23 @@
+"use client";
+
+import { useEffect } from "react";
+
+/**
+ * 서비스 워커(/sw.js)를 등록하는 컴포넌트입니다.
+ * 개발 중에는 캐시가 변경 사항을 가리지 않도록 프로덕션 빌드에서만 등록합니다.
+ */
+const ServiceWorkerRegister = () => {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) {
+      return;
+    }
+
+    navigator.serviceWorker.register("/sw.js").catch((error) => {
+      console.error("서비스 워커 등록 실패:", error);
+    });
+  }, []);
+
+  return null;
+};
+
+export default ServiceWorkerRegister;
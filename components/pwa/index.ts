@@ -0,0 +1,4 @@
+/**
+ * PWA 컴포넌트들을 한 곳에서 export합니다.
+ */
+export { default as ServiceWorkerRegister } from "./ServiceWorkerRegister";
@@ -0,0 +1,68 @@
+"use client";
+
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import type { CompletionTrendPoint } from "@/types/stats";
+import { formatWeekLabel } from "./WeeklyActivityChart";
+
+/**
+ * 완료율 추이 차트 컴포넌트의 Props 타입
+ */
+interface CompletionTrendChartProps {
+  /** 주간 완료율 추이 데이터 */
+  data: CompletionTrendPoint[];
+}
+
+const chartConfig = {
+  completion_rate: {
+    label: "완료율 (%)",
+    color: "var(--chart-3)",
+  },
+} satisfies ChartConfig;
+
+/**
+ * 주별 완료율 추이를 선 그래프로 표시하는 컴포넌트입니다.
+ */
+const CompletionTrendChart = ({ data }: CompletionTrendChartProps) => {
+  return (
+    <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+      <LineChart data={data}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="week_start"
+          tickFormatter={formatWeekLabel}
+          tickLine={false}
+          axisLine={false}
+        />
+        <YAxis
+          domain={[0, 100]}
+          tickFormatter={(value) => `${value}%`}
+          tickLine={false}
+          axisLine={false}
+          width={40}
+        />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(label) => `${formatWeekLabel(String(label))} 주`}
+            />
+          }
+        />
+        <Line
+          type="monotone"
+          dataKey="completion_rate"
+          stroke="var(--color-completion_rate)"
+          strokeWidth={2}
+          dot={{ r: 3 }}
+        />
+      </LineChart>
+    </ChartContainer>
+  );
+};
+
+export default CompletionTrendChart;
@@ -0,0 +1,71 @@
+"use client";
+
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import type { DistributionItem } from "@/types/stats";
+
+/**
+ * 분포 차트 컴포넌트의 Props 타입
+ */
+interface DistributionChartProps {
+  /** 라벨 → 분포 데이터 */
+  data: Record<string, DistributionItem>;
+  /** 데이터 키를 표시명으로 변환하는 함수 */
+  getLabel?: (key: string) => string;
+}
+
+const chartConfig = {
+  open: {
+    label: "진행 중",
+    color: "var(--chart-4)",
+  },
+  completed: {
+    label: "완료",
+    color: "var(--chart-1)",
+  },
+} satisfies ChartConfig;
+
+/**
+ * 항목별(우선순위, 카테고리 등) 할 일 분포를 누적 가로 막대 그래프로 표시하는 컴포넌트입니다.
+ */
+const DistributionChart = ({ data, getLabel }: DistributionChartProps) => {
+  const chartData = Object.entries(data).map(([key, item]) => ({
+    name: getLabel ? getLabel(key) : key,
+    open: item.total - item.completed,
+    completed: item.completed,
+  }));
+
+  return (
+    <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+      <BarChart data={chartData} layout="vertical">
+        <CartesianGrid horizontal={false} />
+        <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+        <YAxis
+          type="category"
+          dataKey="name"
+          tickLine={false}
+          axisLine={false}
+          width={64}
+        />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Bar dataKey="open" stackId="status" fill="var(--color-open)" />
+        <Bar
+          dataKey="completed"
+          stackId="status"
+          fill="var(--color-completed)"
+          radius={[0, 4, 4, 0]}
+        />
+      </BarChart>
+    </ChartContainer>
+  );
+};
+
+export default DistributionChart;
@@ -0,0 +1,69 @@
+"use client";
+
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import type { WeeklyActivity } from "@/types/stats";
+
+/**
+ * 주간 활동량 차트 컴포넌트의 Props 타입
+ */
+interface WeeklyActivityChartProps {
+  /** 주간 활동량 데이터 */
+  data: WeeklyActivity[];
+}
+
+const chartConfig = {
+  created: {
+    label: "생성",
+    color: "var(--chart-2)",
+  },
+  completed: {
+    label: "완료",
+    color: "var(--chart-1)",
+  },
+} satisfies ChartConfig;
+
+/**
+ * 주 시작 날짜(YYYY-MM-DD)를 축 라벨(MM/DD)로 변환합니다.
+ */
+export const formatWeekLabel = (weekStart: string): string =>
+  weekStart.slice(5).replace("-", "/");
+
+/**
+ * 주별로 생성/완료한 할 일 수를 막대 그래프로 표시하는 컴포넌트입니다.
+ */
+const WeeklyActivityChart = ({ data }: WeeklyActivityChartProps) => {
+  return (
+    <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+      <BarChart data={data}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="week_start"
+          tickFormatter={formatWeekLabel}
+          tickLine={false}
+          axisLine={false}
+        />
+        <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(label) => `${formatWeekLabel(String(label))} 주`}
+            />
+          }
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Bar dataKey="created" fill="var(--color-created)" radius={4} />
+        <Bar dataKey="completed" fill="var(--color-completed)" radius={4} />
+      </BarChart>
+    </ChartContainer>
+  );
+};
+
+export default WeeklyActivityChart;
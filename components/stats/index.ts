@@ -0,0 +1,6 @@
+/**
+ * 통계 컴포넌트들을 한 곳에서 export합니다.
+ */
+export { default as WeeklyActivityChart } from "./WeeklyActivityChart";
+export { default as CompletionTrendChart } from "./CompletionTrendChart";
+export { default as DistributionChart } from "./DistributionChart";
@@ -0,0 +1,386 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { ko } from "date-fns/locale/ko";
+import { Import } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  IMPORT_APPS,
+  detectImportApp,
+  mapExternalTodos,
+  parseAppExport,
+  summarizeUnmapped,
+} from "@/lib/app-import";
+import { PRIORITY_LABELS } from "@/lib/todo-input";
+import { cn } from "@/lib/utils";
+import type { Category } from "@/types/category";
+import type { Project } from "@/types/project";
+import type { TodoInput } from "@/types/todo";
+import type { ExternalTodo, TodoImportApp } from "@/types/transfer";
+
+/**
+ * 다른 앱 가져오기 다이얼로그의 Props 타입
+ */
+interface TodoAppImportDialogProps {
+  /** 열림 여부 */
+  open: boolean;
+  /** 다이얼로그 닫기 핸들러 */
+  onClose: () => void;
+  /** 사용자 카테고리 (이름이 같은 라벨만 연결) */
+  categories: Category[];
+  /** 현재 공간의 프로젝트 (이름이 같은 프로젝트만 연결) */
+  projects: Project[];
+  /** 선택한 할 일을 저장하는 핸들러 (저장 성공 여부 반환) */
+  onConfirm: (items: TodoInput[]) => Promise<boolean>;
+  /** 저장 중 상태 */
+  isLoading?: boolean;
+}
+
+/**
+ * 파일 내용으로 앱을 추정함을 나타내는 Select 값
+ */
+const AUTO_DETECT = "auto";
+
+/**
+ * Todoist, Microsoft To Do, Trello의 JSON 내보내기 파일에서 할 일을 가져오는 다이얼로그입니다.
+ * 프로젝트·라벨·우선순위·마감일을 할 일 필드와 카테고리에 연결하고,
+ * 옮길 수 없는 항목을 알려준 뒤 선택한 항목만 추가합니다.
+ */
+const TodoAppImportDialog = ({
+  open,
+  onClose,
+  categories,
+  projects,
+  onConfirm,
+  isLoading = false,
+}: TodoAppImportDialogProps) => {
+  const [app, setApp] = useState<TodoImportApp | typeof AUTO_DETECT>(AUTO_DETECT);
+  const [detectedApp, setDetectedApp] = useState<TodoImportApp | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [todos, setTodos] = useState<ExternalTodo[]>([]);
+  const [selectedIndexes, setSelectedIndexes] = useState<Set<number>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+
+  const items = useMemo(
+    () => mapExternalTodos(todos, { categories, projects }),
+    [todos, categories, projects]
+  );
+  const unmappedSummary = useMemo(() => summarizeUnmapped(items), [items]);
+
+  const allSelected = items.length > 0 && selectedIndexes.size === items.length;
+  const detectedLabel = IMPORT_APPS.find((item) => item.app === detectedApp)?.label;
+
+  /**
+   * 다이얼로그를 닫고 상태를 초기화합니다.
+   */
+  const handleClose = () => {
+    setApp(AUTO_DETECT);
+    setDetectedApp(null);
+    setFileName("");
+    setTodos([]);
+    setSelectedIndexes(new Set());
+    setError(null);
+    onClose();
+  };
+
+  /**
+   * 선택한 내보내기 파일을 읽습니다. 완료된 항목은 기본으로 선택 해제됩니다.
+   */
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // 같은 파일을 다시 선택할 수 있도록 초기화
+
+    if (!file) {
+      return;
+    }
+
+    setFileName(file.name);
+    setError(null);
+
+    try {
+      let data: unknown;
+      try {
+        data = JSON.parse(await file.text());
+      } catch {
+        throw new Error("JSON 형식의 내보내기 파일이 아닙니다.");
+      }
+
+      const nextApp = app === AUTO_DETECT ? detectImportApp(data) : app;
+      if (!nextApp) {
+        throw new Error("어느 앱의 파일인지 알 수 없습니다. 앱을 직접 선택해 주세요.");
+      }
+
+      const nextTodos = parseAppExport(nextApp, data);
+      setDetectedApp(nextApp);
+      setTodos(nextTodos);
+      setSelectedIndexes(
+        new Set(
+          nextTodos.flatMap((todo, index) => (todo.completed ? [] : [index]))
+        )
+      );
+    } catch (err) {
+      console.error("다른 앱 내보내기 파일 읽기 실패:", err);
+      setDetectedApp(null);
+      setTodos([]);
+      setSelectedIndexes(new Set());
+      setError(err instanceof Error ? err.message : "파일을 읽는 중 오류가 발생했습니다.");
+    }
+  };
+
+  /**
+   * 항목의 선택 여부를 바꿉니다.
+   */
+  const toggleItem = (index: number, selected: boolean) => {
+    setSelectedIndexes((prev) => {
+      const next = new Set(prev);
+      if (selected) {
+        next.add(index);
+      } else {
+        next.delete(index);
+      }
+      return next;
+    });
+  };
+
+  /**
+   * 전체 선택 여부를 바꿉니다.
+   */
+  const toggleAll = (selected: boolean) => {
+    setSelectedIndexes(selected ? new Set(items.map((_, index) => index)) : new Set());
+  };
+
+  /**
+   * 선택한 항목을 할 일로 추가합니다.
+   */
+  const handleConfirm = async () => {
+    const inputs = items
+      .filter((_, index) => selectedIndexes.has(index))
+      .map((item) => item.input);
+
+    if (inputs.length === 0) {
+      return;
+    }
+
+    if (await onConfirm(inputs)) {
+      handleClose();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => !nextOpen && handleClose()}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Import className="size-5" />
+            다른 앱에서 가져오기
+          </DialogTitle>
+          <DialogDescription>
+            Todoist, Microsoft To Do, Trello에서 내보낸 JSON 파일을 선택하세요. 현재 보고 있는
+            공간에 추가됩니다.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-3 sm:grid-cols-[12rem_1fr]">
+          <div className="space-y-2">
+            <Label htmlFor="app-import-source">앱</Label>
+            <Select
+              value={app}
+              onValueChange={(value) => setApp(value as TodoImportApp | typeof AUTO_DETECT)}
+            >
+              <SelectTrigger id="app-import-source" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={AUTO_DETECT}>자동 감지</SelectItem>
+                {IMPORT_APPS.map((item) => (
+                  <SelectItem key={item.app} value={item.app}>
+                    {item.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="app-import-file">내보내기 파일</Label>
+            <Input
+              id="app-import-file"
+              type="file"
+              accept=".json,application/json"
+              onChange={handleFileChange}
+              disabled={isLoading}
+            />
+          </div>
+        </div>
+
+        {app !== AUTO_DETECT && (
+          <p className="text-xs text-muted-foreground">
+            {IMPORT_APPS.find((item) => item.app === app)?.description}
+          </p>
+        )}
+
+        {error && (
+          <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive border border-destructive/20">
+            {error}
+          </div>
+        )}
+
+        {items.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex flex-wrap gap-3 text-sm">
+              <span>
+                {fileName} · {detectedLabel} {items.length}개
+              </span>
+              <span className="ml-auto text-xs text-muted-foreground">
+                {selectedIndexes.size}개 선택됨
+              </span>
+            </div>
+
+            {/* 옮길 수 없는 항목 */}
+            {unmappedSummary.length > 0 && (
+              <div className="rounded-md border p-3 text-xs">
+                <p className="mb-2 text-muted-foreground">
+                  다음 항목은 가져오지 않습니다. 같은 이름의 프로젝트나 카테고리를 먼저 만들면
+                  연결됩니다.
+                </p>
+                <div className="flex flex-wrap gap-1">
+                  {unmappedSummary.map(([name, count]) => (
+                    <Badge key={name} variant="secondary" className="text-xs">
+                      {name} ({count})
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="max-h-80 overflow-y-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10">
+                      <Checkbox
+                        checked={allSelected}
+                        onCheckedChange={(checked) => toggleAll(checked === true)}
+                        disabled={isLoading}
+                        aria-label="전체 선택"
+                      />
+                    </TableHead>
+                    <TableHead>제목</TableHead>
+                    <TableHead>프로젝트</TableHead>
+                    <TableHead>마감일</TableHead>
+                    <TableHead>우선순위</TableHead>
+                    <TableHead>카테고리</TableHead>
+                    <TableHead>제외 항목</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {items.map((item, index) => {
+                    const isSelected = selectedIndexes.has(index);
+                    const project = projects.find(
+                      (project) => project.id === item.input.project_id
+                    );
+
+                    return (
+                      <TableRow
+                        key={index}
+                        data-state={isSelected ? "selected" : undefined}
+                        className={cn(!isSelected && "opacity-60")}
+                      >
+                        <TableCell>
+                          <Checkbox
+                            checked={isSelected}
+                            onCheckedChange={(checked) => toggleItem(index, checked === true)}
+                            disabled={isLoading}
+                            aria-label={`${item.input.title} 선택`}
+                          />
+                        </TableCell>
+                        <TableCell className="max-w-56 whitespace-normal">
+                          <span className="line-clamp-2">{item.input.title}</span>
+                          {item.source.completed && (
+                            <Badge variant="outline" className="mt-1 text-xs">
+                              완료됨
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {project?.name || "-"}
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {item.input.due_date
+                            ? format(new Date(item.input.due_date), "yyyy.MM.dd HH:mm", {
+                                locale: ko,
+                              })
+                            : "-"}
+                        </TableCell>
+                        <TableCell>
+                          {item.input.priority ? PRIORITY_LABELS[item.input.priority] : "-"}
+                        </TableCell>
+                        <TableCell className="whitespace-normal">
+                          <div className="flex flex-wrap gap-1">
+                            {item.input.category?.map((category) => (
+                              <Badge key={category} variant="outline" className="text-xs">
+                                {category}
+                              </Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell className="max-w-48 whitespace-normal text-xs text-muted-foreground">
+                          {item.unmapped.join(", ") || "-"}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              완료된 항목은 기본으로 선택 해제되며, 선택하면 진행 중인 할 일로 추가됩니다.
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={handleClose} disabled={isLoading}>
+            취소
+          </Button>
+          <Button
+            type="button"
+            onClick={handleConfirm}
+            disabled={isLoading || selectedIndexes.size === 0}
+          >
+            {isLoading ? "추가 중..." : `선택한 ${selectedIndexes.size}개 추가`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TodoAppImportDialog;
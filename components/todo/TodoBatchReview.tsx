@@ -0,0 +1,189 @@
+"use client";
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { describeRecurrence } from "@/lib/recurrence";
+import { cn } from "@/lib/utils";
+import type { TodoInput, TodoPriority } from "@/types/todo";
+
+/**
+ * 일괄 검토 컴포넌트의 Props 타입
+ */
+interface TodoBatchReviewProps {
+  /** AI가 제안한 할 일 목록 */
+  items: TodoInput[];
+  /** 선택한 할 일 추가 핸들러 */
+  onConfirm: (items: TodoInput[]) => void | Promise<void>;
+  /** 검토 취소 핸들러 */
+  onCancel: () => void;
+  /** 로딩 상태 */
+  isLoading?: boolean;
+}
+
+/**
+ * 검토 중인 할 일 항목 타입
+ */
+interface ReviewItem extends TodoInput {
+  selected: boolean;
+}
+
+/**
+ * AI가 한 문단에서 추출한 여러 할 일을 검토하는 컴포넌트입니다.
+ * 각 항목을 수정하거나 선택 해제한 뒤, 선택한 항목만 한 번에 추가할 수 있습니다.
+ */
+const TodoBatchReview = ({
+  items,
+  onConfirm,
+  onCancel,
+  isLoading = false,
+}: TodoBatchReviewProps) => {
+  const [reviewItems, setReviewItems] = useState<ReviewItem[]>(() =>
+    items.map((item) => ({ ...item, selected: true }))
+  );
+
+  const selectedItems = reviewItems.filter(
+    (item) => item.selected && item.title.trim()
+  );
+
+  /**
+   * 검토 항목의 필드 값을 업데이트합니다.
+   */
+  const updateItem = (index: number, changes: Partial<ReviewItem>) => {
+    setReviewItems((prev) =>
+      prev.map((item, i) => (i === index ? { ...item, ...changes } : item))
+    );
+  };
+
+  /**
+   * 선택한 항목을 추가합니다.
+   */
+  const handleConfirm = async () => {
+    if (selectedItems.length === 0) {
+      return;
+    }
+    await onConfirm(
+      selectedItems.map((item) => ({
+        title: item.title,
+        description: item.description,
+        due_date: item.due_date,
+        priority: item.priority,
+        category: item.category,
+        recurrence: item.recurrence,
+        project_id: item.project_id,
+        assignee_id: item.assignee_id,
+      }))
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">
+          AI가 {reviewItems.length}개의 할 일을 찾았습니다
+        </p>
+        <span className="text-xs text-muted-foreground">
+          {selectedItems.length}개 선택됨
+        </span>
+      </div>
+
+      <ul className="space-y-2 max-h-96 overflow-y-auto pr-1">
+        {reviewItems.map((item, index) => (
+          <li
+            key={index}
+            className={cn(
+              "space-y-2 rounded-md border bg-white p-3 dark:bg-gray-950",
+              !item.selected && "opacity-50"
+            )}
+          >
+            <div className="flex items-center gap-2">
+              <Checkbox
+                checked={item.selected}
+                onCheckedChange={(checked) =>
+                  updateItem(index, { selected: checked === true })
+                }
+                disabled={isLoading}
+                aria-label={`${item.title || "할 일"} 선택`}
+              />
+              <Input
+                value={item.title}
+                onChange={(e) => updateItem(index, { title: e.target.value })}
+                placeholder="할 일 제목"
+                disabled={isLoading || !item.selected}
+                aria-label="제목"
+                className="h-8"
+              />
+            </div>
+            <div className="flex flex-wrap items-center gap-2 pl-6">
+              <Input
+                type="datetime-local"
+                value={item.due_date || ""}
+                onChange={(e) => updateItem(index, { due_date: e.target.value })}
+                disabled={isLoading || !item.selected}
+                aria-label="마감일"
+                className="h-8 w-auto flex-1"
+              />
+              <Select
+                value={item.priority || "medium"}
+                onValueChange={(value) =>
+                  updateItem(index, { priority: value as TodoPriority })
+                }
+                disabled={isLoading || !item.selected}
+              >
+                <SelectTrigger size="sm" className="w-[88px]" aria-label="우선순위">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="high">높음</SelectItem>
+                  <SelectItem value="medium">중간</SelectItem>
+                  <SelectItem value="low">낮음</SelectItem>
+                </SelectContent>
+              </Select>
+              {item.recurrence && (
+                <Badge variant="secondary" className="text-xs">
+                  {describeRecurrence(item.recurrence)}
+                </Badge>
+              )}
+              {item.category?.map((category) => (
+                <Badge key={category} variant="outline" className="text-xs">
+                  {category}
+                </Badge>
+              ))}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex justify-end gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={onCancel}
+          disabled={isLoading}
+        >
+          취소
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          onClick={handleConfirm}
+          disabled={isLoading || selectedItems.length === 0}
+        >
+          {isLoading ? "추가 중..." : `선택한 ${selectedItems.length}개 추가`}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default TodoBatchReview;
@@ -0,0 +1,251 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Plus, RefreshCw, Sparkles, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { formatMinutes } from "@/lib/duration";
+import type { Todo, TodoBreakdownStep, TodoInput } from "@/types/todo";
+
+/**
+ * AI 단계 분해 다이얼로그의 Props 타입
+ */
+interface TodoBreakdownDialogProps {
+  /** 분해할 할 일 (null이면 닫힘) */
+  todo: Todo | null;
+  /** 다이얼로그 닫기 핸들러 */
+  onClose: () => void;
+  /** 검토를 마친 단계들을 연결된 할 일로 저장하는 핸들러 (저장 성공 여부 반환) */
+  onConfirm: (items: TodoInput[]) => Promise<boolean>;
+  /** 저장 중 상태 */
+  isLoading?: boolean;
+}
+
+/**
+ * 기존 할 일을 AI가 제안한 단계로 분해하고 검토하는 다이얼로그입니다.
+ * 단계의 제목과 예상 소요 시간을 수정하거나 삭제/추가한 뒤 연결된 할 일로 저장합니다.
+ */
+const TodoBreakdownDialog = ({
+  todo,
+  onClose,
+  onConfirm,
+  isLoading = false,
+}: TodoBreakdownDialogProps) => {
+  const [steps, setSteps] = useState<TodoBreakdownStep[]>([]);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [requestKey, setRequestKey] = useState(0);
+
+  /**
+   * 다이얼로그가 열리면 AI에게 단계 분해를 요청합니다.
+   */
+  useEffect(() => {
+    if (!todo) {
+      return;
+    }
+
+    const fetchSteps = async () => {
+      setIsGenerating(true);
+      setError(null);
+      setSteps([]);
+
+      try {
+        const response = await fetch("/api/breakdown-todo", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ todoId: todo.id }),
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || "단계 분해에 실패했습니다.");
+        }
+
+        const result: { steps: TodoBreakdownStep[] } = await response.json();
+        setSteps(result.steps);
+      } catch (err) {
+        console.error("AI breakdown error:", err);
+        setError(
+          err instanceof Error ? err.message : "단계 분해 중 오류가 발생했습니다."
+        );
+      } finally {
+        setIsGenerating(false);
+      }
+    };
+
+    fetchSteps();
+  }, [todo, requestKey]);
+
+  const validSteps = steps.filter((step) => step.title.trim());
+  const totalMinutes = validSteps.reduce(
+    (sum, step) => sum + (step.estimated_minutes || 0),
+    0
+  );
+
+  /**
+   * 단계의 필드 값을 업데이트합니다.
+   */
+  const updateStep = (index: number, changes: Partial<TodoBreakdownStep>) => {
+    setSteps((prev) =>
+      prev.map((step, i) => (i === index ? { ...step, ...changes } : step))
+    );
+  };
+
+  /**
+   * 검토한 단계를 상위 할 일에 연결된 할 일로 저장합니다.
+   * 우선순위, 카테고리, 프로젝트, 워크스페이스는 상위 할 일의 값을 그대로 이어받습니다.
+   */
+  const handleConfirm = async () => {
+    if (!todo || validSteps.length === 0) {
+      return;
+    }
+
+    const isSaved = await onConfirm(
+      validSteps.map((step) => ({
+        title: step.title.trim(),
+        description: step.description || "",
+        priority: todo.priority || "medium",
+        category: todo.category || [],
+        parent_id: todo.id,
+        project_id: todo.project_id || null,
+        workspace_id: todo.workspace_id || null,
+        estimated_minutes: step.estimated_minutes || null,
+      }))
+    );
+
+    if (isSaved) {
+      setSteps([]);
+    }
+  };
+
+  return (
+    <Dialog open={!!todo} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Sparkles className="size-5 text-blue-600 dark:text-blue-400" />
+            AI 단계 분해
+          </DialogTitle>
+          <DialogDescription className="line-clamp-2">
+            {todo?.title}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive border border-destructive/20">
+            {error}
+          </div>
+        )}
+
+        {isGenerating ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="text-center">
+              <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-current border-r-transparent align-[-0.125em] motion-reduce:animate-[spin_1.5s_linear_infinite]" />
+              <p className="mt-4 text-sm text-muted-foreground">
+                AI가 단계를 나누는 중입니다...
+              </p>
+            </div>
+          </div>
+        ) : (
+          steps.length > 0 && (
+            <div className="space-y-3">
+              <ol className="space-y-2 max-h-96 overflow-y-auto pr-1">
+                {steps.map((step, index) => (
+                  <li key={index} className="flex items-center gap-2">
+                    <span className="w-5 text-right text-sm text-muted-foreground">
+                      {index + 1}.
+                    </span>
+                    <Input
+                      value={step.title}
+                      onChange={(e) => updateStep(index, { title: e.target.value })}
+                      placeholder="단계 제목"
+                      disabled={isLoading}
+                      aria-label={`${index + 1}단계 제목`}
+                      className="h-8 flex-1"
+                    />
+                    <Input
+                      type="number"
+                      min={1}
+                      value={step.estimated_minutes || ""}
+                      onChange={(e) =>
+                        updateStep(index, {
+                          estimated_minutes: Math.max(0, Number(e.target.value) || 0),
+                        })
+                      }
+                      disabled={isLoading}
+                      aria-label={`${index + 1}단계 예상 소요 시간(분)`}
+                      className="h-8 w-20"
+                    />
+                    <span className="text-xs text-muted-foreground">분</span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() =>
+                        setSteps((prev) => prev.filter((_, i) => i !== index))
+                      }
+                      disabled={isLoading}
+                      className="size-8"
+                      aria-label={`${index + 1}단계 삭제`}
+                    >
+                      <X className="size-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ol>
+
+              <div className="flex items-center justify-between">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    setSteps((prev) => [...prev, { title: "", estimated_minutes: 30 }])
+                  }
+                  disabled={isLoading}
+                >
+                  <Plus className="size-4 mr-1" />
+                  단계 추가
+                </Button>
+                <span className="text-sm text-muted-foreground">
+                  총 예상 시간: {formatMinutes(totalMinutes)}
+                </span>
+              </div>
+            </div>
+          )
+        )}
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => setRequestKey((key) => key + 1)}
+            disabled={isLoading || isGenerating}
+          >
+            <RefreshCw className="size-4 mr-2" />
+            다시 제안
+          </Button>
+          <Button
+            type="button"
+            onClick={handleConfirm}
+            disabled={isLoading || isGenerating || validSteps.length === 0}
+          >
+            {isLoading ? "추가 중..." : `${validSteps.length}개 할 일로 추가`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TodoBreakdownDialog;
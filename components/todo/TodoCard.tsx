@@ -1,6 +1,17 @@
 "use client";
 
-import { Calendar, Clock, Tag } from "lucide-react";
+import {
+  Bell,
+  Calendar,
+  Clock,
+  CloudOff,
+  CornerDownRight,
+  ListTree,
+  Repeat,
+  Sparkles,
+  Tag,
+  Timer,
+} from "lucide-react";
 import { format } from "date-fns";
 import { ko } from "date-fns/locale/ko";
 import { Badge } from "@/components/ui/badge";
@@ -14,8 +25,18 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
+import { CategoryBadge } from "@/components/category";
+import { UserAvatar } from "@/components/profile";
+import { findCategory } from "@/lib/category";
+import { formatMinutes } from "@/lib/duration";
+import { describeRecurrence } from "@/lib/recurrence";
+import { formatReminderOffset } from "@/lib/reminder";
 import { cn } from "@/lib/utils";
-import type { Todo, TodoPriority, TodoCategory } from "@/types/todo";
+import type { Todo, TodoItem, TodoPriority, TodoCategory } from "@/types/todo";
+import type { Category } from "@/types/category";
+import type { WorkspaceMember } from "@/types/workspace";
+import TodoChecklist from "./TodoChecklist";
+import TodoHighlight from "./TodoHighlight";
 
 /**
  * 할 일 카드 컴포넌트의 Props 타입
@@ -23,24 +44,61 @@ import type { Todo, TodoPriority, TodoCategory } from "@/types/todo";
 interface TodoCardProps {
   /** 표시할 할 일 데이터 */
   todo: Todo;
+  /** 카테고리 색상/아이콘 표시용 사용자 카테고리 목록 */
+  categories?: Category[];
+  /** 연결된 상위 할 일 제목 */
+  parentTitle?: string;
+  /** 연결된 하위 할 일 진행 현황 */
+  subtaskProgress?: { completed: number; total: number };
+  /** 담당자 프로필 (워크스페이스 할 일) */
+  assignee?: WorkspaceMember["user"];
+  /** 서버에 아직 반영되지 않은 오프라인 변경이 있는지 여부 */
+  isPending?: boolean;
+  /** 제목과 설명에서 강조할 검색 단어/구문 */
+  highlightTerms?: string[];
   /** 완료 상태 토글 핸들러 */
   onToggleComplete?: (id: string) => void;
   /** 할 일 수정 핸들러 */
   onEdit?: (todo: Todo) => void;
   /** 할 일 삭제 핸들러 */
   onDelete?: (id: string) => void;
+  /** AI 단계 분해 핸들러 */
+  onBreakdown?: (todo: Todo) => void;
+  /** 체크리스트 항목 추가 핸들러 */
+  onAddItem?: (todoId: string, title: string) => void | Promise<void>;
+  /** 체크리스트 항목 수정 핸들러 */
+  onUpdateItem?: (
+    todoId: string,
+    itemId: string,
+    changes: Partial<Pick<TodoItem, "title" | "completed">>
+  ) => void | Promise<void>;
+  /** 체크리스트 항목 삭제 핸들러 */
+  onDeleteItem?: (todoId: string, itemId: string) => void | Promise<void>;
+  /** 체크리스트 자동 완료 설정 변경 핸들러 */
+  onAutoCompleteChange?: (todoId: string, enabled: boolean) => void | Promise<void>;
 }
 
 /**
  * 개별 할 일을 표시하는 카드 컴포넌트입니다.
- * 할 일의 제목, 설명, 마감일, 우선순위, 카테고리 정보를 표시하고,
+ * 할 일의 제목, 설명, 마감일, 우선순위, 카테고리, 체크리스트 정보를 표시하고,
  * 완료 토글, 수정, 삭제 기능을 제공합니다.
  */
 const TodoCard = ({
   todo,
+  categories = [],
+  parentTitle,
+  subtaskProgress,
+  assignee,
+  isPending = false,
+  highlightTerms,
   onToggleComplete,
   onEdit,
   onDelete,
+  onBreakdown,
+  onAddItem,
+  onUpdateItem,
+  onDeleteItem,
+  onAutoCompleteChange,
 }: TodoCardProps) => {
   /**
    * 우선순위에 따른 배지 스타일을 반환합니다.
@@ -151,6 +209,7 @@ const TodoCard = ({
             <Checkbox
               checked={todo.completed}
               onCheckedChange={() => onToggleComplete?.(todo.id)}
+              disabled={!onToggleComplete}
               className="mt-1"
               aria-label={todo.completed ? "완료 취소" : "완료 처리"}
             />
@@ -161,11 +220,17 @@ const TodoCard = ({
                   todo.completed && "line-through text-muted-foreground"
                 )}
               >
-                {todo.title}
+                <TodoHighlight text={todo.title} terms={highlightTerms} />
               </CardTitle>
+              {parentTitle && (
+                <p className="mt-1 flex items-center gap-1 text-xs text-muted-foreground">
+                  <CornerDownRight className="size-3.5" />
+                  <span className="truncate">{parentTitle}</span>
+                </p>
+              )}
               {todo.description && (
                 <CardDescription className="mt-2 line-clamp-2">
-                  {todo.description}
+                  <TodoHighlight text={todo.description} terms={highlightTerms} />
                 </CardDescription>
               )}
             </div>
@@ -184,16 +249,24 @@ const TodoCard = ({
           {todo.category && todo.category.length > 0 && (
             <div className="flex items-center gap-1.5 flex-wrap">
               <Tag className="size-3.5 text-muted-foreground" />
-              {todo.category.map((cat, index) => (
-                <Badge key={index} variant="outline" className="text-xs">
-                  {cat}
-                </Badge>
+              {todo.category.map((cat) => (
+                <CategoryBadge
+                  key={cat}
+                  name={cat}
+                  category={findCategory(categories, cat)}
+                />
               ))}
             </div>
           )}
           {overdue && !todo.completed && (
             <Badge variant="destructive">지연</Badge>
           )}
+          {isPending && (
+            <Badge variant="outline" className="gap-1 text-muted-foreground">
+              <CloudOff className="size-3" />
+              동기화 대기
+            </Badge>
+          )}
         </div>
 
         {/* 마감일 */}
@@ -206,6 +279,70 @@ const TodoCard = ({
           </div>
         )}
 
+        {/* 담당자 */}
+        {assignee && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <UserAvatar
+              name={assignee.name || assignee.email}
+              avatarUrl={assignee.avatar_url}
+              className="size-5 [&_span]:text-[10px]"
+            />
+            <span>담당: {assignee.name || assignee.email}</span>
+          </div>
+        )}
+
+        {/* 예상 소요 시간 및 하위 할 일 */}
+        {(todo.estimated_minutes || subtaskProgress) && (
+          <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+            {todo.estimated_minutes && (
+              <span className="flex items-center gap-2">
+                <Timer className="size-4" />
+                예상 {formatMinutes(todo.estimated_minutes)}
+              </span>
+            )}
+            {subtaskProgress && (
+              <span className="flex items-center gap-2">
+                <ListTree className="size-4" />
+                하위 할 일 {subtaskProgress.completed}/{subtaskProgress.total}
+              </span>
+            )}
+          </div>
+        )}
+
+        {/* 반복 */}
+        {todo.recurrence && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Repeat className="size-4" />
+            <span>
+              {describeRecurrence(todo.recurrence)}
+              {(todo.recurrence_index || 1) > 1 && ` · ${todo.recurrence_index}번째`}
+            </span>
+          </div>
+        )}
+
+        {/* 마감 알림 */}
+        {todo.due_date && !todo.completed && !!todo.reminder_offsets?.length && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Bell className="size-4" />
+            <span>
+              {todo.reminder_offsets.map(formatReminderOffset).join(", ")} 알림
+            </span>
+          </div>
+        )}
+
+        {/* 체크리스트 */}
+        {onAddItem && onUpdateItem && onDeleteItem && onAutoCompleteChange && (
+          <TodoChecklist
+            todoId={todo.id}
+            items={todo.items || []}
+            autoComplete={todo.auto_complete ?? false}
+            onAdd={(title) => onAddItem(todo.id, title)}
+            onUpdate={(itemId, changes) => onUpdateItem(todo.id, itemId, changes)}
+            onDelete={(itemId) => onDeleteItem(todo.id, itemId)}
+            onAutoCompleteChange={(enabled) => onAutoCompleteChange(todo.id, enabled)}
+          />
+        )}
+
         {/* 생성일 */}
         <div className="flex items-center gap-2 text-xs text-muted-foreground">
           <Clock className="size-3.5" />
@@ -216,8 +353,20 @@ const TodoCard = ({
       </CardContent>
 
       {/* 액션 버튼 */}
-      {(onEdit || onDelete) && (
+      {(onEdit || onDelete || onBreakdown) && (
         <CardFooter className="flex justify-end gap-2 pt-0">
+          {onBreakdown && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onBreakdown(todo)}
+              disabled={todo.completed}
+              className="mr-auto text-blue-600 hover:text-blue-700 dark:text-blue-400"
+            >
+              <Sparkles className="size-4 mr-1" />
+              AI 단계 분해
+            </Button>
+          )}
           {onEdit && (
             <Button
               variant="outline"
@@ -0,0 +1,219 @@
+"use client";
+
+import { useState } from "react";
+import { ListChecks, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { cn } from "@/lib/utils";
+import type { TodoItem } from "@/types/todo";
+
+/**
+ * 체크리스트 컴포넌트의 Props 타입
+ */
+interface TodoChecklistProps {
+  /** 체크리스트를 표시할 할 일 ID */
+  todoId: string;
+  /** 체크리스트 항목 목록 */
+  items: TodoItem[];
+  /** 모든 항목 완료 시 할 일 자동 완료 여부 */
+  autoComplete: boolean;
+  /** 항목 추가 핸들러 */
+  onAdd: (title: string) => void | Promise<void>;
+  /** 항목 수정 핸들러 */
+  onUpdate: (
+    itemId: string,
+    changes: Partial<Pick<TodoItem, "title" | "completed">>
+  ) => void | Promise<void>;
+  /** 항목 삭제 핸들러 */
+  onDelete: (itemId: string) => void | Promise<void>;
+  /** 자동 완료 설정 변경 핸들러 */
+  onAutoCompleteChange: (enabled: boolean) => void | Promise<void>;
+}
+
+/**
+ * 할 일의 하위 작업을 체크리스트로 표시하고 편집하는 컴포넌트입니다.
+ * 진행률 표시, 항목 추가/삭제, 제목 인라인 편집을 지원합니다.
+ */
+const TodoChecklist = ({
+  todoId,
+  items,
+  autoComplete,
+  onAdd,
+  onUpdate,
+  onDelete,
+  onAutoCompleteChange,
+}: TodoChecklistProps) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const [newTitle, setNewTitle] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState("");
+
+  const completedCount = items.filter((item) => item.completed).length;
+  const progress =
+    items.length > 0 ? Math.round((completedCount / items.length) * 100) : 0;
+
+  /**
+   * 새 항목을 추가합니다.
+   */
+  const handleAdd = async () => {
+    const title = newTitle.trim();
+    if (!title) {
+      return;
+    }
+    setNewTitle("");
+    await onAdd(title);
+  };
+
+  /**
+   * 항목 제목 편집을 시작합니다.
+   */
+  const startEditing = (item: TodoItem) => {
+    setEditingId(item.id);
+    setEditingTitle(item.title);
+  };
+
+  /**
+   * 편집한 제목을 저장합니다. 내용이 비어 있거나 바뀌지 않았으면 편집만 종료합니다.
+   */
+  const saveEditing = async (item: TodoItem) => {
+    const title = editingTitle.trim();
+    setEditingId(null);
+    if (title && title !== item.title) {
+      await onUpdate(item.id, { title });
+    }
+  };
+
+  if (items.length === 0 && !isAdding) {
+    return (
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={() => setIsAdding(true)}
+        className="h-7 px-2 text-xs text-muted-foreground"
+      >
+        <ListChecks className="size-3.5 mr-1" />
+        체크리스트 추가
+      </Button>
+    );
+  }
+
+  return (
+    <div className="space-y-2 rounded-md border bg-background/60 p-3">
+      {/* 진행률 */}
+      {items.length > 0 && (
+        <div className="flex items-center gap-3">
+          <Progress value={progress} className="h-1.5 flex-1" aria-label="체크리스트 진행률" />
+          <span className="text-xs text-muted-foreground whitespace-nowrap">
+            {completedCount}/{items.length}
+          </span>
+        </div>
+      )}
+
+      {/* 항목 목록 */}
+      <ul className="space-y-1">
+        {items.map((item) => (
+          <li key={item.id} className="group flex items-center gap-2">
+            <Checkbox
+              checked={item.completed}
+              onCheckedChange={(checked) =>
+                onUpdate(item.id, { completed: checked === true })
+              }
+              aria-label={item.completed ? "항목 완료 취소" : "항목 완료 처리"}
+            />
+            {editingId === item.id ? (
+              <Input
+                value={editingTitle}
+                onChange={(e) => setEditingTitle(e.target.value)}
+                onBlur={() => saveEditing(item)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    saveEditing(item);
+                  } else if (e.key === "Escape") {
+                    setEditingId(null);
+                  }
+                }}
+                autoFocus
+                aria-label="항목 내용"
+                className="h-7 text-sm"
+              />
+            ) : (
+              <button
+                type="button"
+                onClick={() => startEditing(item)}
+                className={cn(
+                  "flex-1 truncate text-left text-sm",
+                  item.completed && "line-through text-muted-foreground"
+                )}
+                title="클릭하여 수정"
+              >
+                {item.title}
+              </button>
+            )}
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => onDelete(item.id)}
+              className="size-6 opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+              aria-label={`${item.title} 삭제`}
+            >
+              <X className="size-3.5" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+
+      {/* 항목 추가 */}
+      <div className="flex items-center gap-2">
+        <Input
+          value={newTitle}
+          onChange={(e) => setNewTitle(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+          placeholder="항목 추가"
+          autoFocus={items.length === 0}
+          aria-label="새 체크리스트 항목"
+          className="h-7 text-sm"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          onClick={handleAdd}
+          disabled={!newTitle.trim()}
+          className="size-7"
+          aria-label="항목 추가"
+        >
+          <Plus className="size-3.5" />
+        </Button>
+      </div>
+
+      {/* 자동 완료 설정 */}
+      <div className="flex items-center gap-2 pt-1">
+        <Switch
+          id={`auto-complete-${todoId}`}
+          checked={autoComplete}
+          onCheckedChange={onAutoCompleteChange}
+        />
+        <Label
+          htmlFor={`auto-complete-${todoId}`}
+          className="text-xs font-normal text-muted-foreground cursor-pointer"
+        >
+          모든 항목을 완료하면 할 일도 완료
+        </Label>
+      </div>
+    </div>
+  );
+};
+
+export default TodoChecklist;
@@ -0,0 +1,407 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { ko } from "date-fns/locale/ko";
+import { FileUp } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  TODO_IMPORT_FIELDS,
+  buildTodoImportPreview,
+  guessTodoImportMapping,
+  readTodoImportSource,
+} from "@/lib/todo-transfer";
+import { cn } from "@/lib/utils";
+import type { Category } from "@/types/category";
+import type { Todo, TodoInput } from "@/types/todo";
+import type { TodoImportMapping, TodoImportSource } from "@/types/transfer";
+
+/**
+ * CSV/JSON 가져오기 다이얼로그의 Props 타입
+ */
+interface TodoDataImportDialogProps {
+  /** 열림 여부 */
+  open: boolean;
+  /** 다이얼로그 닫기 핸들러 */
+  onClose: () => void;
+  /** 사용자 카테고리 (이름이 같은 카테고리만 지정) */
+  categories: Category[];
+  /** 현재 공간의 할 일 (중복 확인용) */
+  existingTodos: Todo[];
+  /** 선택한 할 일을 저장하는 핸들러 (저장 성공 여부 반환) */
+  onConfirm: (items: TodoInput[]) => Promise<boolean>;
+  /** 저장 중 상태 */
+  isLoading?: boolean;
+}
+
+/**
+ * 가져오기 단계 (파일 선택 → 열 연결 → 미리보기)
+ */
+type ImportStep = "file" | "mapping" | "preview";
+
+/**
+ * 열을 연결하지 않음을 나타내는 Select 값
+ */
+const NO_COLUMN = "__none__";
+
+/**
+ * CSV 또는 JSON 파일에서 할 일을 가져오는 마법사 다이얼로그입니다.
+ * 파일의 열을 할 일 필드에 연결한 뒤, 저장하지 않고 결과를 미리 확인(dry-run)합니다.
+ * 오류가 있는 행은 추가할 수 없고, 제목과 마감일이 같은 중복 행은 기본으로 선택 해제됩니다.
+ */
+const TodoDataImportDialog = ({
+  open,
+  onClose,
+  categories,
+  existingTodos,
+  onConfirm,
+  isLoading = false,
+}: TodoDataImportDialogProps) => {
+  const [step, setStep] = useState<ImportStep>("file");
+  const [fileName, setFileName] = useState("");
+  const [source, setSource] = useState<TodoImportSource | null>(null);
+  const [mapping, setMapping] = useState<TodoImportMapping | null>(null);
+  const [selectedRows, setSelectedRows] = useState<Set<number>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+
+  const previewRows = useMemo(
+    () =>
+      source && mapping
+        ? buildTodoImportPreview(source, mapping, { categories, existingTodos })
+        : [],
+    [source, mapping, categories, existingTodos]
+  );
+
+  const errorCount = previewRows.filter((row) => row.errors.length > 0).length;
+  const duplicateCount = previewRows.filter(
+    (row) => row.errors.length === 0 && row.duplicate
+  ).length;
+  const selectedInputs = previewRows
+    .filter((row) => row.errors.length === 0 && selectedRows.has(row.row))
+    .map((row) => row.input);
+
+  /**
+   * 다이얼로그를 닫고 마법사를 초기화합니다.
+   */
+  const handleClose = () => {
+    setStep("file");
+    setFileName("");
+    setSource(null);
+    setMapping(null);
+    setSelectedRows(new Set());
+    setError(null);
+    onClose();
+  };
+
+  /**
+   * 선택한 파일을 읽고 열을 자동으로 연결합니다.
+   */
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // 같은 파일을 다시 선택할 수 있도록 초기화
+
+    if (!file) {
+      return;
+    }
+
+    setFileName(file.name);
+    setError(null);
+
+    try {
+      const nextSource = readTodoImportSource(await file.text(), file.name);
+      setSource(nextSource);
+      setMapping(guessTodoImportMapping(nextSource.columns));
+      setStep("mapping");
+    } catch (err) {
+      console.error("가져오기 파일 읽기 실패:", err);
+      setSource(null);
+      setError(err instanceof Error ? err.message : "파일을 읽는 중 오류가 발생했습니다.");
+    }
+  };
+
+  /**
+   * 미리보기로 이동합니다. 오류와 중복이 없는 행만 기본으로 선택합니다.
+   */
+  const handlePreview = () => {
+    if (!source || !mapping) {
+      return;
+    }
+
+    const rows = buildTodoImportPreview(source, mapping, { categories, existingTodos });
+    setSelectedRows(
+      new Set(
+        rows.filter((row) => row.errors.length === 0 && !row.duplicate).map((row) => row.row)
+      )
+    );
+    setStep("preview");
+  };
+
+  /**
+   * 행의 선택 여부를 바꿉니다.
+   */
+  const toggleRow = (row: number, selected: boolean) => {
+    setSelectedRows((prev) => {
+      const next = new Set(prev);
+      if (selected) {
+        next.add(row);
+      } else {
+        next.delete(row);
+      }
+      return next;
+    });
+  };
+
+  /**
+   * 선택한 행을 할 일로 추가합니다.
+   */
+  const handleConfirm = async () => {
+    if (selectedInputs.length === 0) {
+      return;
+    }
+
+    if (await onConfirm(selectedInputs)) {
+      handleClose();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => !nextOpen && handleClose()}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileUp className="size-5" />
+            CSV/JSON 가져오기
+          </DialogTitle>
+          <DialogDescription>
+            {step === "file" &&
+              "내보내기한 파일이나 스프레드시트의 CSV 파일을 선택하세요. 현재 보고 있는 공간에 추가됩니다."}
+            {step === "mapping" && `${fileName}의 열을 할 일 항목에 연결하세요.`}
+            {step === "preview" &&
+              "아직 저장되지 않았습니다. 결과를 확인하고 추가할 항목을 선택하세요."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive border border-destructive/20">
+            {error}
+          </div>
+        )}
+
+        {/* 1단계: 파일 선택 */}
+        {step === "file" && (
+          <Input
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            onChange={handleFileChange}
+            aria-label="가져올 파일 선택"
+          />
+        )}
+
+        {/* 2단계: 열 연결 */}
+        {step === "mapping" && source && mapping && (
+          <div className="space-y-3">
+            {TODO_IMPORT_FIELDS.map(({ field, label, required }) => {
+              const column = mapping[field];
+              const sample = column ? source.rows[0]?.[column] : "";
+
+              return (
+                <div key={field} className="grid grid-cols-[10rem_1fr] items-center gap-3">
+                  <Label htmlFor={`import-${field}`}>
+                    {label}
+                    {required && <span className="text-destructive">*</span>}
+                  </Label>
+                  <div className="flex min-w-0 items-center gap-3">
+                    <Select
+                      value={column ?? NO_COLUMN}
+                      onValueChange={(value) =>
+                        setMapping((prev) =>
+                          prev && { ...prev, [field]: value === NO_COLUMN ? null : value }
+                        )
+                      }
+                    >
+                      <SelectTrigger id={`import-${field}`} className="w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_COLUMN}>사용 안 함</SelectItem>
+                        {source.columns.map((name) => (
+                          <SelectItem key={name} value={name}>
+                            {name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {sample && (
+                      <span className="truncate text-xs text-muted-foreground">
+                        예: {sample}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+            <p className="text-xs text-muted-foreground">
+              총 {source.rows.length}개 행. 카테고리와 마감 알림은 세미콜론(;)으로 구분하며, 완료
+              여부·반복 규칙·프로젝트는 가져오지 않습니다.
+            </p>
+          </div>
+        )}
+
+        {/* 3단계: 미리보기 (dry-run) */}
+        {step === "preview" && (
+          <div className="space-y-2">
+            <div className="flex flex-wrap gap-3 text-sm">
+              <span>전체 {previewRows.length}개</span>
+              <span className="text-muted-foreground">중복 {duplicateCount}개</span>
+              <span className={cn(errorCount > 0 && "text-destructive")}>
+                오류 {errorCount}개
+              </span>
+              <span className="ml-auto text-xs text-muted-foreground">
+                {selectedInputs.length}개 선택됨
+              </span>
+            </div>
+            <div className="max-h-96 overflow-y-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <TableHead className="w-12">행</TableHead>
+                    <TableHead>제목</TableHead>
+                    <TableHead>마감일</TableHead>
+                    <TableHead>카테고리</TableHead>
+                    <TableHead>상태</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {previewRows.map((row) => {
+                    const hasError = row.errors.length > 0;
+                    const isSelected = !hasError && selectedRows.has(row.row);
+
+                    return (
+                      <TableRow
+                        key={row.row}
+                        data-state={isSelected ? "selected" : undefined}
+                        className={cn(!isSelected && "opacity-60")}
+                      >
+                        <TableCell>
+                          <Checkbox
+                            checked={isSelected}
+                            onCheckedChange={(checked) => toggleRow(row.row, checked === true)}
+                            disabled={isLoading || hasError}
+                            aria-label={`${row.row}행 선택`}
+                          />
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">{row.row}</TableCell>
+                        <TableCell className="max-w-56 whitespace-normal">
+                          <span className="line-clamp-2">{row.input.title || "-"}</span>
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {row.input.due_date
+                            ? format(new Date(row.input.due_date), "yyyy.MM.dd HH:mm", {
+                                locale: ko,
+                              })
+                            : "-"}
+                        </TableCell>
+                        <TableCell className="whitespace-normal">
+                          <div className="flex flex-wrap gap-1">
+                            {row.input.category?.map((category) => (
+                              <Badge key={category} variant="outline" className="text-xs">
+                                {category}
+                              </Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell className="max-w-64 whitespace-normal text-xs">
+                          {hasError ? (
+                            <ul className="text-destructive">
+                              {row.errors.map((message) => (
+                                <li key={message}>{message}</li>
+                              ))}
+                            </ul>
+                          ) : (
+                            <div className="space-y-1">
+                              {row.duplicate ? (
+                                <Badge variant="secondary">중복</Badge>
+                              ) : (
+                                <Badge variant="outline">추가</Badge>
+                              )}
+                              {row.warnings.map((message) => (
+                                <p key={message} className="text-muted-foreground">
+                                  {message}
+                                </p>
+                              ))}
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step !== "file" && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setStep(step === "preview" ? "mapping" : "file")}
+              disabled={isLoading}
+              className="sm:mr-auto"
+            >
+              이전
+            </Button>
+          )}
+          <Button type="button" variant="outline" onClick={handleClose} disabled={isLoading}>
+            취소
+          </Button>
+          {step === "mapping" && (
+            <Button type="button" onClick={handlePreview} disabled={!mapping?.title}>
+              미리보기
+            </Button>
+          )}
+          {step === "preview" && (
+            <Button
+              type="button"
+              onClick={handleConfirm}
+              disabled={isLoading || selectedInputs.length === 0}
+            >
+              {isLoading ? "추가 중..." : `선택한 ${selectedInputs.length}개 추가`}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TodoDataImportDialog;
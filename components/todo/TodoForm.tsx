@@ -1,7 +1,8 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { CalendarIcon, Sparkles } from "lucide-react";
+import Link from "next/link";
+import { CalendarIcon, Inbox, ListChecks, Sparkles, UserRound } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -15,7 +16,24 @@ import {
 import { Textarea } from "@/components/ui/textarea";
 import { Checkbox } from "@/components/ui/checkbox";
 import { toast } from "sonner";
-import type { Todo, TodoInput, TodoPriority, TodoCategory } from "@/types/todo";
+import { CategoryIcon } from "@/components/category";
+import { UserAvatar } from "@/components/profile";
+import { findCategory } from "@/lib/category";
+import { parsedTodoToInput } from "@/lib/todo-input";
+import type {
+  ParsedTodo,
+  Todo,
+  TodoInput,
+  TodoPriority,
+  TodoCategory,
+  TodoRecurrence,
+} from "@/types/todo";
+import type { Category } from "@/types/category";
+import type { Project } from "@/types/project";
+import type { WorkspaceMember } from "@/types/workspace";
+import TodoBatchReview from "./TodoBatchReview";
+import TodoRecurrenceFields from "./TodoRecurrenceFields";
+import TodoReminderFields from "./TodoReminderFields";
 
 /**
  * 할 일 폼 컴포넌트의 Props 타입
@@ -23,8 +41,20 @@ import type { Todo, TodoInput, TodoPriority, TodoCategory } from "@/types/todo";
 interface TodoFormProps {
   /** 초기 할 일 데이터 (수정 모드) */
   initialData?: Todo | null;
+  /** 선택할 수 있는 사용자 카테고리 목록 */
+  categories?: Category[];
+  /** 선택할 수 있는 프로젝트 목록 */
+  projects?: Project[];
+  /** 새 할 일에 기본으로 지정할 프로젝트 ID (없으면 받은 편지함) */
+  defaultProjectId?: string | null;
+  /** 담당자로 지정할 수 있는 워크스페이스 멤버 목록 (개인 공간이면 비어 있음) */
+  members?: WorkspaceMember[];
+  /** AI 입력란의 초기 내용 (다른 앱에서 공유한 텍스트) */
+  initialAiInput?: string;
   /** 폼 제출 핸들러 */
   onSubmit: (data: TodoInput) => void | Promise<void>;
+  /** 여러 할 일 일괄 추가 핸들러 (저장 성공 여부 반환) */
+  onBulkSubmit?: (data: TodoInput[]) => Promise<boolean>;
   /** 취소 핸들러 */
   onCancel?: () => void;
   /** 로딩 상태 */
@@ -33,11 +63,17 @@ interface TodoFormProps {
 
 /**
  * 할 일 추가/편집 폼 컴포넌트입니다.
- * 제목, 설명, 마감일, 우선순위, 카테고리 정보를 입력받습니다.
+ * 제목, 설명, 마감일, 우선순위, 프로젝트, 담당자, 카테고리, 반복 정보를 입력받습니다.
  */
 const TodoForm = ({
   initialData,
+  categories = [],
+  projects = [],
+  defaultProjectId = null,
+  members = [],
+  initialAiInput = "",
   onSubmit,
+  onBulkSubmit,
   onCancel,
   isLoading = false,
 }: TodoFormProps) => {
@@ -47,14 +83,24 @@ const TodoForm = ({
     due_date: "",
     priority: "medium",
     category: [],
+    recurrence: null,
+    project_id: defaultProjectId,
+    reminder_offsets: [],
   });
 
   const [selectedCategories, setSelectedCategories] = useState<
     TodoCategory[]
   >([]);
 
-  const [aiInput, setAiInput] = useState("");
+  const [aiInput, setAiInput] = useState(initialAiInput);
   const [isAiGenerating, setIsAiGenerating] = useState(false);
+  const [batchItems, setBatchItems] = useState<TodoInput[] | null>(null);
+
+  // 삭제되었거나 목록에 없는 카테고리도 선택 해제할 수 있도록 함께 표시합니다.
+  const categoryNames = [
+    ...categories.map((category) => category.name),
+    ...selectedCategories.filter((name) => !findCategory(categories, name)),
+  ];
 
   /**
    * 초기 데이터가 변경되면 폼 데이터를 업데이트합니다.
@@ -69,17 +115,30 @@ const TodoForm = ({
           : "",
         priority: initialData.priority || "medium",
         category: initialData.category || [],
+        recurrence: initialData.recurrence || null,
+        project_id: initialData.project_id || null,
+        assignee_id: initialData.assignee_id || null,
+        reminder_offsets: initialData.reminder_offsets || [],
       });
       setSelectedCategories(initialData.category || []);
     }
   }, [initialData]);
 
+  /**
+   * 새 할 일을 작성 중일 때 선택한 프로젝트가 바뀌면 기본 프로젝트를 맞춥니다.
+   */
+  useEffect(() => {
+    if (!initialData) {
+      setFormData((prev) => ({ ...prev, project_id: defaultProjectId }));
+    }
+  }, [defaultProjectId, initialData]);
+
   /**
    * 폼 필드 값을 업데이트합니다.
    */
   const handleChange = (
     field: keyof TodoInput,
-    value: string | TodoPriority | TodoCategory[]
+    value: string | TodoPriority | TodoCategory[] | TodoRecurrence | number[] | null
   ) => {
     setFormData((prev) => ({
       ...prev,
@@ -128,6 +187,9 @@ const TodoForm = ({
       due_date: "",
       priority: "medium",
       category: [],
+      recurrence: null,
+      project_id: defaultProjectId,
+      reminder_offsets: [],
     });
     setSelectedCategories([]);
   };
@@ -157,30 +219,19 @@ const TodoForm = ({
         throw new Error(errorData.error || "할 일 생성에 실패했습니다.");
       }
 
-      const result = await response.json();
+      const result: ParsedTodo = await response.json();
 
       // due_date와 due_time을 결합하여 datetime-local 형식으로 변환
-      let dueDateValue = "";
-      if (result.due_date) {
-        dueDateValue = result.due_date;
-        if (result.due_time) {
-          dueDateValue += `T${result.due_time}`;
-        } else {
-          dueDateValue += "T09:00";
-        }
-      }
-
+      // 프로젝트와 담당자는 AI가 판단하지 않고 현재 선택한 값을 유지합니다.
       const generatedData: TodoInput = {
-        title: result.title || "",
-        description: result.description || "",
-        due_date: dueDateValue,
-        priority: result.priority || "medium",
-        category: result.category || [],
+        ...parsedTodoToInput(result),
+        project_id: formData.project_id,
+        assignee_id: formData.assignee_id,
       };
 
       // 폼 데이터 업데이트
       setFormData(generatedData);
-      setSelectedCategories(result.category || []);
+      setSelectedCategories(generatedData.category || []);
 
       if (autoSubmit) {
         // 자동으로 DB에 저장
@@ -208,6 +259,71 @@ const TodoForm = ({
     }
   };
 
+  /**
+   * AI를 사용하여 한 문단에서 여러 할 일을 추출하고 검토 단계로 전환합니다.
+   */
+  const handleAiBatchGenerate = async () => {
+    if (!aiInput.trim()) {
+      toast.error("할 일 내용을 입력해주세요.");
+      return;
+    }
+
+    setIsAiGenerating(true);
+
+    try {
+      const response = await fetch("/api/parse-todo", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ input: aiInput, mode: "batch" }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "할 일 추출에 실패했습니다.");
+      }
+
+      const result: { todos: ParsedTodo[] } = await response.json();
+
+      if (result.todos.length === 0) {
+        toast.error("입력에서 할 일을 찾지 못했습니다. 내용을 조금 더 구체적으로 입력해주세요.");
+        return;
+      }
+
+      setBatchItems(
+        result.todos.map((todo) => ({
+          ...parsedTodoToInput(todo),
+          project_id: formData.project_id,
+          assignee_id: formData.assignee_id,
+        }))
+      );
+    } catch (error) {
+      console.error("AI batch generation error:", error);
+      toast.error(
+        error instanceof Error ? error.message : "할 일 추출 중 오류가 발생했습니다."
+      );
+    } finally {
+      setIsAiGenerating(false);
+    }
+  };
+
+  /**
+   * 검토를 마친 할 일들을 일괄 추가합니다.
+   */
+  const handleBatchConfirm = async (items: TodoInput[]) => {
+    if (!onBulkSubmit) {
+      return;
+    }
+
+    const isSaved = await onBulkSubmit(items);
+    if (isSaved) {
+      toast.success(`${items.length}개의 할 일이 추가되었습니다!`);
+      setBatchItems(null);
+      setAiInput("");
+    }
+  };
+
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
       {/* AI 입력 섹션 */}
@@ -218,39 +334,63 @@ const TodoForm = ({
             AI로 할 일 생성
           </Label>
         </div>
-        <Textarea
-          id="ai-input"
-          value={aiInput}
-          onChange={(e) => setAiInput(e.target.value)}
-          placeholder="예: 내일 오후 3시까지 중요한 팀 회의 준비하기"
-          rows={2}
-          disabled={isLoading || isAiGenerating}
-          className="resize-none bg-white dark:bg-gray-950"
-        />
-        <p className="text-xs text-muted-foreground">
-          💡 <strong>생성</strong>: 폼에 채우기 | <strong>바로 추가</strong>: 자동으로 저장
-        </p>
-        <div className="grid grid-cols-2 gap-2">
-          <Button
-            type="button"
-            onClick={() => handleAiGenerate(false)}
-            disabled={isLoading || isAiGenerating || !aiInput.trim()}
-            variant="outline"
-            className="border-blue-600 text-blue-600 hover:bg-blue-50 dark:border-blue-400 dark:text-blue-400 dark:hover:bg-blue-950/20"
-          >
-            <Sparkles className="size-4 mr-2" />
-            {isAiGenerating ? "생성 중..." : "생성"}
-          </Button>
-          <Button
-            type="button"
-            onClick={() => handleAiGenerate(true)}
-            disabled={isLoading || isAiGenerating || !aiInput.trim()}
-            className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
-          >
-            <Sparkles className="size-4 mr-2" />
-            {isAiGenerating ? "추가 중..." : "바로 추가"}
-          </Button>
-        </div>
+        {batchItems ? (
+          <TodoBatchReview
+            items={batchItems}
+            onConfirm={handleBatchConfirm}
+            onCancel={() => setBatchItems(null)}
+            isLoading={isLoading}
+          />
+        ) : (
+          <>
+            <Textarea
+              id="ai-input"
+              value={aiInput}
+              onChange={(e) => setAiInput(e.target.value)}
+              placeholder="예: 내일 오후 3시까지 중요한 팀 회의 준비하기"
+              rows={2}
+              disabled={isLoading || isAiGenerating}
+              className="resize-none bg-white dark:bg-gray-950"
+            />
+            <p className="text-xs text-muted-foreground">
+              💡 <strong>생성</strong>: 폼에 채우기 | <strong>바로 추가</strong>: 자동으로 저장
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                type="button"
+                onClick={() => handleAiGenerate(false)}
+                disabled={isLoading || isAiGenerating || !aiInput.trim()}
+                variant="outline"
+                className="border-blue-600 text-blue-600 hover:bg-blue-50 dark:border-blue-400 dark:text-blue-400 dark:hover:bg-blue-950/20"
+              >
+                <Sparkles className="size-4 mr-2" />
+                {isAiGenerating ? "생성 중..." : "생성"}
+              </Button>
+              <Button
+                type="button"
+                onClick={() => handleAiGenerate(true)}
+                disabled={isLoading || isAiGenerating || !aiInput.trim()}
+                className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+              >
+                <Sparkles className="size-4 mr-2" />
+                {isAiGenerating ? "추가 중..." : "바로 추가"}
+              </Button>
+            </div>
+            {onBulkSubmit && !initialData && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={handleAiBatchGenerate}
+                disabled={isLoading || isAiGenerating || !aiInput.trim()}
+                className="w-full text-blue-600 hover:text-blue-700 dark:text-blue-400"
+              >
+                <ListChecks className="size-4 mr-2" />
+                {isAiGenerating ? "추출 중..." : "여러 할 일 한 번에 추출"}
+              </Button>
+            )}
+          </>
+        )}
       </div>
 
       {/* 구분선 */}
@@ -309,6 +449,22 @@ const TodoForm = ({
         </div>
       </div>
 
+      {/* 반복 */}
+      <TodoRecurrenceFields
+        value={formData.recurrence}
+        onChange={(recurrence) => handleChange("recurrence", recurrence)}
+        dueDate={formData.due_date}
+        disabled={isLoading}
+      />
+
+      {/* 마감 알림 */}
+      <TodoReminderFields
+        value={formData.reminder_offsets}
+        onChange={(offsets) => handleChange("reminder_offsets", offsets)}
+        dueDate={formData.due_date}
+        disabled={isLoading}
+      />
+
       {/* 우선순위 */}
       <div className="space-y-2">
         <Label htmlFor="priority">우선순위</Label>
@@ -328,26 +484,115 @@ const TodoForm = ({
         </Select>
       </div>
 
+      {/* 프로젝트 */}
+      {projects.length > 0 && (
+        <div className="space-y-2">
+          <Label htmlFor="project">프로젝트</Label>
+          <Select
+            value={formData.project_id || "inbox"}
+            onValueChange={(value) =>
+              handleChange("project_id", value === "inbox" ? null : value)
+            }
+            disabled={isLoading}
+          >
+            <SelectTrigger id="project">
+              <SelectValue placeholder="프로젝트를 선택하세요" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="inbox">
+                <Inbox className="size-4" />
+                받은 편지함
+              </SelectItem>
+              {projects.map((project) => (
+                <SelectItem key={project.id} value={project.id}>
+                  <span
+                    className="size-2.5 rounded-full"
+                    style={{ backgroundColor: project.color }}
+                    aria-hidden="true"
+                  />
+                  {project.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {/* 담당자 */}
+      {members.length > 0 && (
+        <div className="space-y-2">
+          <Label htmlFor="assignee">담당자</Label>
+          <Select
+            value={formData.assignee_id || "none"}
+            onValueChange={(value) =>
+              handleChange("assignee_id", value === "none" ? null : value)
+            }
+            disabled={isLoading}
+          >
+            <SelectTrigger id="assignee">
+              <SelectValue placeholder="담당자를 선택하세요" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">
+                <UserRound className="size-4" />
+                미지정
+              </SelectItem>
+              {members.map((member) => {
+                const memberName = member.user?.name || member.user?.email || "알 수 없는 사용자";
+                return (
+                  <SelectItem key={member.user_id} value={member.user_id}>
+                    <UserAvatar
+                      name={memberName}
+                      avatarUrl={member.user?.avatar_url}
+                      className="size-5 [&_span]:text-[10px]"
+                    />
+                    {memberName}
+                  </SelectItem>
+                );
+              })}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
       {/* 카테고리 */}
       <div className="space-y-2">
         <Label>카테고리</Label>
+        {categoryNames.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            등록된 카테고리가 없습니다.{" "}
+            <Link href="/settings#categories" className="text-primary hover:underline">
+              설정에서 카테고리 추가하기
+            </Link>
+          </p>
+        )}
         <div className="flex flex-wrap gap-3">
-          {(["업무", "개인", "학습"] as TodoCategory[]).map((category) => (
-            <div key={category} className="flex items-center space-x-2">
-              <Checkbox
-                id={`category-${category}`}
-                checked={selectedCategories.includes(category)}
-                onCheckedChange={() => toggleCategory(category)}
-                disabled={isLoading}
-              />
-              <Label
-                htmlFor={`category-${category}`}
-                className="text-sm font-normal cursor-pointer"
-              >
-                {category}
-              </Label>
-            </div>
-          ))}
+          {categoryNames.map((name) => {
+            const category = findCategory(categories, name);
+            return (
+              <div key={name} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`category-${name}`}
+                  checked={selectedCategories.includes(name)}
+                  onCheckedChange={() => toggleCategory(name)}
+                  disabled={isLoading}
+                />
+                <Label
+                  htmlFor={`category-${name}`}
+                  className="text-sm font-normal cursor-pointer"
+                >
+                  {category && (
+                    <CategoryIcon
+                      name={category.icon}
+                      color={category.color}
+                      className="size-3.5"
+                    />
+                  )}
+                  {name}
+                </Label>
+              </div>
+            );
+          })}
         </div>
       </div>
 
@@ -0,0 +1,41 @@
+"use client";
+
+import { splitHighlights } from "@/lib/todo-search";
+
+/**
+ * 검색어 강조 텍스트 컴포넌트의 Props 타입
+ */
+interface TodoHighlightProps {
+  /** 표시할 텍스트 */
+  text: string;
+  /** 강조할 검색 단어/구문 (없으면 텍스트를 그대로 표시) */
+  terms?: string[];
+}
+
+/**
+ * 텍스트에서 검색어와 일치하는 부분을 강조해 표시하는 컴포넌트입니다.
+ */
+const TodoHighlight = ({ text, terms = [] }: TodoHighlightProps) => {
+  if (terms.length === 0) {
+    return <>{text}</>;
+  }
+
+  return (
+    <>
+      {splitHighlights(text, terms).map((part, index) =>
+        part.match ? (
+          <mark
+            key={index}
+            className="rounded-sm bg-yellow-200 px-0.5 text-inherit dark:bg-yellow-500/40"
+          >
+            {part.text}
+          </mark>
+        ) : (
+          part.text
+        )
+      )}
+    </>
+  );
+};
+
+export default TodoHighlight;
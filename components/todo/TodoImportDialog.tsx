@@ -0,0 +1,270 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { ko } from "date-fns/locale/ko";
+import { CalendarArrowUp } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { icalEntryToTodoInput, parseICalendar } from "@/lib/ical";
+import { PRIORITY_LABELS } from "@/lib/todo-input";
+import { cn } from "@/lib/utils";
+import type { Category } from "@/types/category";
+import type { TodoInput } from "@/types/todo";
+
+/**
+ * .ics 가져오기 다이얼로그의 Props 타입
+ */
+interface TodoImportDialogProps {
+  /** 열림 여부 */
+  open: boolean;
+  /** 다이얼로그 닫기 핸들러 */
+  onClose: () => void;
+  /** 사용자 카테고리 (이름이 같은 카테고리만 지정) */
+  categories: Category[];
+  /** 선택한 할 일을 저장하는 핸들러 (저장 성공 여부 반환) */
+  onConfirm: (items: TodoInput[]) => Promise<boolean>;
+  /** 저장 중 상태 */
+  isLoading?: boolean;
+}
+
+/**
+ * 미리보기 중인 가져오기 항목 타입
+ */
+interface ImportItem {
+  input: TodoInput;
+  /** 원본 항목이 완료 상태인지 여부 (기본으로 선택 해제) */
+  completed: boolean;
+  selected: boolean;
+}
+
+/**
+ * .ics 파일의 VTODO/VEVENT 항목을 할 일로 가져오는 다이얼로그입니다.
+ * 파일을 읽어 표로 미리 보여주고, 선택한 항목만 한 번에 추가합니다.
+ * 이미 완료된 항목은 기본으로 선택 해제됩니다.
+ */
+const TodoImportDialog = ({
+  open,
+  onClose,
+  categories,
+  onConfirm,
+  isLoading = false,
+}: TodoImportDialogProps) => {
+  const [items, setItems] = useState<ImportItem[]>([]);
+  const [fileName, setFileName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedItems = items.filter((item) => item.selected);
+  const isAllSelected = items.length > 0 && selectedItems.length === items.length;
+
+  /**
+   * 다이얼로그를 닫고 미리보기를 초기화합니다.
+   */
+  const handleClose = () => {
+    setItems([]);
+    setFileName("");
+    setError(null);
+    onClose();
+  };
+
+  /**
+   * 선택한 .ics 파일을 읽어 미리보기 항목을 만듭니다.
+   */
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // 같은 파일을 다시 선택할 수 있도록 초기화
+
+    if (!file) {
+      return;
+    }
+
+    setFileName(file.name);
+    setError(null);
+
+    try {
+      const entries = parseICalendar(await file.text());
+
+      if (entries.length === 0) {
+        setItems([]);
+        setError("파일에 가져올 일정이나 할 일이 없습니다.");
+        return;
+      }
+
+      setItems(
+        entries.map((entry) => ({
+          input: icalEntryToTodoInput(entry, categories),
+          completed: entry.completed,
+          selected: !entry.completed,
+        }))
+      );
+    } catch (err) {
+      console.error(".ics 파일 읽기 실패:", err);
+      setItems([]);
+      setError(err instanceof Error ? err.message : "파일을 읽는 중 오류가 발생했습니다.");
+    }
+  };
+
+  /**
+   * 항목의 선택 여부를 바꿉니다.
+   */
+  const toggleItem = (index: number, selected: boolean) => {
+    setItems((prev) => prev.map((item, i) => (i === index ? { ...item, selected } : item)));
+  };
+
+  /**
+   * 선택한 항목을 할 일로 추가합니다.
+   */
+  const handleConfirm = async () => {
+    if (selectedItems.length === 0) {
+      return;
+    }
+
+    if (await onConfirm(selectedItems.map((item) => item.input))) {
+      handleClose();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => !nextOpen && handleClose()}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarArrowUp className="size-5" />
+            캘린더 파일 가져오기
+          </DialogTitle>
+          <DialogDescription>
+            다른 캘린더 앱에서 내보낸 .ics 파일의 일정과 할 일을 추가합니다. 카테고리는 이름이
+            같은 카테고리만 지정됩니다.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Input
+          type="file"
+          accept=".ics,text/calendar"
+          onChange={handleFileChange}
+          disabled={isLoading}
+          aria-label=".ics 파일 선택"
+        />
+
+        {error && (
+          <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive border border-destructive/20">
+            {error}
+          </div>
+        )}
+
+        {items.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium">
+                {fileName}에서 {items.length}개를 찾았습니다
+              </span>
+              <span className="text-xs text-muted-foreground">
+                {selectedItems.length}개 선택됨
+              </span>
+            </div>
+            <div className="max-h-96 overflow-y-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10">
+                      <Checkbox
+                        checked={isAllSelected}
+                        onCheckedChange={(checked) =>
+                          setItems((prev) =>
+                            prev.map((item) => ({ ...item, selected: checked === true }))
+                          )
+                        }
+                        disabled={isLoading}
+                        aria-label="전체 선택"
+                      />
+                    </TableHead>
+                    <TableHead>제목</TableHead>
+                    <TableHead>마감일</TableHead>
+                    <TableHead>우선순위</TableHead>
+                    <TableHead>카테고리</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {items.map((item, index) => (
+                    <TableRow
+                      key={index}
+                      data-state={item.selected ? "selected" : undefined}
+                      className={cn(!item.selected && "opacity-50")}
+                    >
+                      <TableCell>
+                        <Checkbox
+                          checked={item.selected}
+                          onCheckedChange={(checked) => toggleItem(index, checked === true)}
+                          disabled={isLoading}
+                          aria-label={`${item.input.title} 선택`}
+                        />
+                      </TableCell>
+                      <TableCell className="max-w-64 whitespace-normal">
+                        <span className="line-clamp-2">{item.input.title}</span>
+                        {item.completed && (
+                          <Badge variant="secondary" className="mt-1 text-xs">
+                            완료됨
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {item.input.due_date
+                          ? format(new Date(item.input.due_date), "yyyy.MM.dd HH:mm", {
+                              locale: ko,
+                            })
+                          : "-"}
+                      </TableCell>
+                      <TableCell>{PRIORITY_LABELS[item.input.priority || "medium"]}</TableCell>
+                      <TableCell className="whitespace-normal">
+                        <div className="flex flex-wrap gap-1">
+                          {item.input.category?.map((category) => (
+                            <Badge key={category} variant="outline" className="text-xs">
+                              {category}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={handleClose} disabled={isLoading}>
+            취소
+          </Button>
+          <Button
+            type="button"
+            onClick={handleConfirm}
+            disabled={isLoading || selectedItems.length === 0}
+          >
+            {isLoading ? "추가 중..." : `선택한 ${selectedItems.length}개 추가`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TodoImportDialog;
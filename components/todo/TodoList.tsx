@@ -8,7 +8,9 @@ import {
   EmptyTitle,
 } from "@/components/ui/empty";
 import { cn } from "@/lib/utils";
-import type { Todo } from "@/types/todo";
+import type { Todo, TodoItem } from "@/types/todo";
+import type { Category } from "@/types/category";
+import type { WorkspaceMember } from "@/types/workspace";
 import TodoCard from "./TodoCard";
 
 /**
@@ -17,12 +19,34 @@ import TodoCard from "./TodoCard";
 interface TodoListProps {
   /** 표시할 할 일 목록 */
   todos: Todo[];
+  /** 카테고리 색상/아이콘 표시용 사용자 카테고리 목록 */
+  categories?: Category[];
+  /** 담당자 표시용 워크스페이스 멤버 목록 */
+  members?: WorkspaceMember[];
+  /** 서버에 아직 반영되지 않은 오프라인 변경이 있는 할 일 ID */
+  pendingTodoIds?: Set<string>;
+  /** 제목과 설명에서 강조할 검색 단어/구문 */
+  highlightTerms?: string[];
   /** 완료 상태 토글 핸들러 */
   onToggleComplete?: (id: string) => void;
   /** 할 일 수정 핸들러 */
   onEdit?: (todo: Todo) => void;
   /** 할 일 삭제 핸들러 */
   onDelete?: (id: string) => void;
+  /** AI 단계 분해 핸들러 */
+  onBreakdown?: (todo: Todo) => void;
+  /** 체크리스트 항목 추가 핸들러 */
+  onAddItem?: (todoId: string, title: string) => void | Promise<void>;
+  /** 체크리스트 항목 수정 핸들러 */
+  onUpdateItem?: (
+    todoId: string,
+    itemId: string,
+    changes: Partial<Pick<TodoItem, "title" | "completed">>
+  ) => void | Promise<void>;
+  /** 체크리스트 항목 삭제 핸들러 */
+  onDeleteItem?: (todoId: string, itemId: string) => void | Promise<void>;
+  /** 체크리스트 자동 완료 설정 변경 핸들러 */
+  onAutoCompleteChange?: (todoId: string, enabled: boolean) => void | Promise<void>;
   /** 추가 클래스명 */
   className?: string;
 }
@@ -33,11 +57,34 @@ interface TodoListProps {
  */
 const TodoList = ({
   todos,
+  categories,
+  members = [],
+  pendingTodoIds,
+  highlightTerms,
   onToggleComplete,
   onEdit,
   onDelete,
+  onBreakdown,
+  onAddItem,
+  onUpdateItem,
+  onDeleteItem,
+  onAutoCompleteChange,
   className,
 }: TodoListProps) => {
+  /**
+   * 상위 할 일 제목과 하위 할 일 진행 현황을 계산합니다.
+   */
+  const titleById = new Map(todos.map((todo) => [todo.id, todo.title]));
+  const subtaskProgress = new Map<string, { completed: number; total: number }>();
+  todos.forEach((todo) => {
+    if (!todo.parent_id) return;
+    const progress = subtaskProgress.get(todo.parent_id) || { completed: 0, total: 0 };
+    progress.total += 1;
+    if (todo.completed) progress.completed += 1;
+    subtaskProgress.set(todo.parent_id, progress);
+  });
+  const memberById = new Map(members.map((member) => [member.user_id, member.user]));
+
   /**
    * 할 일 목록이 비어있는지 확인합니다.
    */
@@ -58,9 +105,20 @@ const TodoList = ({
         <TodoCard
           key={todo.id}
           todo={todo}
+          categories={categories}
+          parentTitle={todo.parent_id ? titleById.get(todo.parent_id) : undefined}
+          subtaskProgress={subtaskProgress.get(todo.id)}
+          assignee={todo.assignee_id ? memberById.get(todo.assignee_id) : undefined}
+          isPending={pendingTodoIds?.has(todo.id)}
+          highlightTerms={highlightTerms}
           onToggleComplete={onToggleComplete}
           onEdit={onEdit}
           onDelete={onDelete}
+          onBreakdown={onBreakdown}
+          onAddItem={onAddItem}
+          onUpdateItem={onUpdateItem}
+          onDeleteItem={onDeleteItem}
+          onAutoCompleteChange={onAutoCompleteChange}
         />
       ))}
     </div>
@@ -0,0 +1,232 @@
+"use client";
+
+import { Repeat } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { WEEKDAY_LABELS, describeRecurrence } from "@/lib/recurrence";
+import type { RecurrenceFrequency, TodoRecurrence } from "@/types/todo";
+
+/**
+ * 반복 설정 필드 컴포넌트의 Props 타입
+ */
+interface TodoRecurrenceFieldsProps {
+  /** 현재 반복 규칙 (반복 안 함이면 null) */
+  value: TodoRecurrence | null | undefined;
+  /** 반복 규칙 변경 핸들러 */
+  onChange: (value: TodoRecurrence | null) => void;
+  /** 마감일 (datetime-local 형식, 기본 요일/날짜 계산용) */
+  dueDate?: string;
+  /** 비활성화 여부 */
+  disabled?: boolean;
+}
+
+type RecurrenceEnd = "never" | "until" | "count";
+
+/**
+ * 할 일 반복 규칙(매일/매주/매월, 간격, 종료 조건)을 입력받는 컴포넌트입니다.
+ */
+const TodoRecurrenceFields = ({
+  value,
+  onChange,
+  dueDate,
+  disabled = false,
+}: TodoRecurrenceFieldsProps) => {
+  const end: RecurrenceEnd = value?.until ? "until" : value?.count ? "count" : "never";
+
+  /**
+   * 반복 규칙의 일부를 변경합니다.
+   */
+  const update = (changes: Partial<TodoRecurrence>) => {
+    if (value) {
+      onChange({ ...value, ...changes });
+    }
+  };
+
+  /**
+   * 반복 주기를 변경합니다. 마감일을 기준으로 기본 요일/날짜를 채웁니다.
+   */
+  const handleFrequencyChange = (frequency: RecurrenceFrequency | "none") => {
+    if (frequency === "none") {
+      onChange(null);
+      return;
+    }
+
+    const baseDate = dueDate ? new Date(dueDate) : new Date();
+    onChange({
+      frequency,
+      interval: value?.interval || 1,
+      weekdays: frequency === "weekly" ? [baseDate.getDay()] : null,
+      month_day: frequency === "monthly" ? baseDate.getDate() : null,
+      until: value?.until || null,
+      count: value?.count || null,
+    });
+  };
+
+  /**
+   * 반복 종료 조건을 변경합니다.
+   */
+  const handleEndChange = (nextEnd: RecurrenceEnd) => {
+    update({
+      until:
+        nextEnd === "until"
+          ? value?.until || (dueDate || new Date().toISOString()).slice(0, 10)
+          : null,
+      count: nextEnd === "count" ? value?.count || 10 : null,
+    });
+  };
+
+  const unitLabel =
+    value?.frequency === "weekly" ? "주" : value?.frequency === "monthly" ? "개월" : "일";
+
+  return (
+    <div className="space-y-3">
+      <Label htmlFor="recurrence-frequency" className="flex items-center gap-1">
+        <Repeat className="size-4" />
+        반복
+      </Label>
+      <Select
+        value={value?.frequency || "none"}
+        onValueChange={(next) =>
+          handleFrequencyChange(next as RecurrenceFrequency | "none")
+        }
+        disabled={disabled}
+      >
+        <SelectTrigger id="recurrence-frequency">
+          <SelectValue placeholder="반복 안 함" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">반복 안 함</SelectItem>
+          <SelectItem value="daily">매일</SelectItem>
+          <SelectItem value="weekly">매주</SelectItem>
+          <SelectItem value="monthly">매월</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {value && (
+        <div className="space-y-3 rounded-md border p-3">
+          {/* 반복 간격 */}
+          <div className="flex items-center gap-2 text-sm">
+            <Input
+              type="number"
+              min={1}
+              max={365}
+              value={value.interval}
+              onChange={(e) =>
+                update({ interval: Math.max(1, Number(e.target.value) || 1) })
+              }
+              disabled={disabled}
+              aria-label="반복 간격"
+              className="h-8 w-20"
+            />
+            <span>{unitLabel}마다</span>
+          </div>
+
+          {/* 반복 요일 */}
+          {value.frequency === "weekly" && (
+            <ToggleGroup
+              type="multiple"
+              variant="outline"
+              size="sm"
+              value={(value.weekdays || []).map(String)}
+              onValueChange={(days) => {
+                if (days.length > 0) {
+                  update({ weekdays: days.map(Number).sort((a, b) => a - b) });
+                }
+              }}
+              disabled={disabled}
+              aria-label="반복 요일"
+            >
+              {WEEKDAY_LABELS.map((label, weekday) => (
+                <ToggleGroupItem key={label} value={String(weekday)} aria-label={`${label}요일`}>
+                  {label}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          )}
+
+          {/* 반복 날짜 */}
+          {value.frequency === "monthly" && (
+            <div className="flex items-center gap-2 text-sm">
+              <span>매월</span>
+              <Input
+                type="number"
+                min={1}
+                max={31}
+                value={value.month_day || 1}
+                onChange={(e) =>
+                  update({
+                    month_day: Math.min(31, Math.max(1, Number(e.target.value) || 1)),
+                  })
+                }
+                disabled={disabled}
+                aria-label="반복 날짜"
+                className="h-8 w-20"
+              />
+              <span>일</span>
+            </div>
+          )}
+
+          {/* 종료 조건 */}
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <Select
+              value={end}
+              onValueChange={(next) => handleEndChange(next as RecurrenceEnd)}
+              disabled={disabled}
+            >
+              <SelectTrigger size="sm" className="w-[120px]" aria-label="반복 종료">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="never">계속 반복</SelectItem>
+                <SelectItem value="until">종료일 지정</SelectItem>
+                <SelectItem value="count">횟수 지정</SelectItem>
+              </SelectContent>
+            </Select>
+            {end === "until" && (
+              <Input
+                type="date"
+                value={value.until || ""}
+                onChange={(e) => e.target.value && update({ until: e.target.value })}
+                disabled={disabled}
+                aria-label="반복 종료일"
+                className="h-8 w-auto"
+              />
+            )}
+            {end === "count" && (
+              <>
+                <Input
+                  type="number"
+                  min={1}
+                  max={1000}
+                  value={value.count || 1}
+                  onChange={(e) =>
+                    update({ count: Math.max(1, Number(e.target.value) || 1) })
+                  }
+                  disabled={disabled}
+                  aria-label="반복 횟수"
+                  className="h-8 w-20"
+                />
+                <span>회</span>
+              </>
+            )}
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            {describeRecurrence(value)}
+            {!dueDate && " · 마감일을 지정해야 다음 할 일이 자동으로 생성됩니다."}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TodoRecurrenceFields;
@@ -0,0 +1,79 @@
+"use client";
+
+import Link from "next/link";
+import { Bell } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  MAX_REMINDERS,
+  REMINDER_OFFSET_OPTIONS,
+  normalizeReminderOffsets,
+} from "@/lib/reminder";
+
+/**
+ * 마감 알림 설정 필드 컴포넌트의 Props 타입
+ */
+interface TodoReminderFieldsProps {
+  /** 선택한 알림 시점 (마감일 몇 분 전) */
+  value: number[] | undefined;
+  /** 알림 시점 변경 핸들러 */
+  onChange: (value: number[]) => void;
+  /** 마감일 (datetime-local 형식, 없으면 알림을 설정할 수 없음) */
+  dueDate?: string;
+  /** 비활성화 여부 */
+  disabled?: boolean;
+}
+
+/**
+ * 마감 전에 받을 알림 시점(예: 1일 전, 1시간 전)을 선택하는 컴포넌트입니다.
+ * 알림은 설정의 웹 푸시/이메일 수신 설정에 따라 발송됩니다.
+ */
+const TodoReminderFields = ({
+  value = [],
+  onChange,
+  dueDate,
+  disabled = false,
+}: TodoReminderFieldsProps) => {
+  if (!dueDate) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label className="flex items-center gap-1.5">
+        <Bell className="size-4" />
+        마감 알림
+      </Label>
+      <ToggleGroup
+        type="multiple"
+        variant="outline"
+        size="sm"
+        spacing={1}
+        value={value.map(String)}
+        onValueChange={(offsets) => {
+          if (offsets.length <= MAX_REMINDERS) {
+            onChange(normalizeReminderOffsets(offsets.map(Number)));
+          }
+        }}
+        disabled={disabled}
+        className="w-full flex-wrap"
+        aria-label="마감 알림 시점"
+      >
+        {REMINDER_OFFSET_OPTIONS.map((option) => (
+          <ToggleGroupItem key={option.value} value={String(option.value)} className="px-2">
+            {option.label}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+      <p className="text-xs text-muted-foreground">
+        최대 {MAX_REMINDERS}개까지 선택할 수 있습니다. 알림 받을 방법은{" "}
+        <Link href="/settings#notifications" className="text-primary hover:underline">
+          설정
+        </Link>
+        에서 변경합니다.
+      </p>
+    </div>
+  );
+};
+
+export default TodoReminderFields;
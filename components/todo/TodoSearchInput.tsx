@@ -0,0 +1,121 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  Command,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Spinner } from "@/components/ui/spinner";
+import {
+  MAX_SEARCH_QUERY_LENGTH,
+  applySearchSuggestion,
+  getSearchSuggestions,
+} from "@/lib/todo-search";
+import { cn } from "@/lib/utils";
+import type { Category } from "@/types/category";
+
+/**
+ * 할 일 검색창 컴포넌트의 Props 타입
+ */
+interface TodoSearchInputProps {
+  /** 검색어 */
+  value: string;
+  /** 검색어 변경 핸들러 */
+  onValueChange: (value: string) => void;
+  /** category: 값으로 제안할 사용자 카테고리 */
+  categories?: Category[];
+  /** 값을 해석할 수 없어 무시한 필터 (검색창 아래에 표시) */
+  invalidFilters?: string[];
+  /** 서버 검색 중 상태 */
+  isSearching?: boolean;
+  /** 추가 클래스명 */
+  className?: string;
+}
+
+/**
+ * 단어, "구문", -제외어와 필드:값 필터를 입력하는 할 일 검색창입니다.
+ * 입력 중인 필드 이름과 값을 자동 완성하며, 방향키와 Enter로 선택할 수 있습니다.
+ */
+const TodoSearchInput = ({
+  value,
+  onValueChange,
+  categories = [],
+  invalidFilters = [],
+  isSearching = false,
+  className,
+}: TodoSearchInputProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const suggestions = useMemo(
+    () =>
+      getSearchSuggestions(
+        value,
+        categories.map((category) => category.name)
+      ),
+    [value, categories]
+  );
+
+  return (
+    <div className={className}>
+      <Command
+        shouldFilter={false}
+        loop
+        className="border-input dark:bg-input/30 relative overflow-visible border bg-transparent shadow-xs transition-[color,box-shadow] focus-within:border-ring focus-within:ring-[3px] focus-within:ring-ring/50 **:data-[slot=command-input-wrapper]:border-0"
+      >
+        <CommandInput
+          value={value}
+          onValueChange={(nextValue) => {
+            onValueChange(nextValue);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setIsOpen(false)}
+          onKeyDown={(e) => {
+            if (e.key === "Escape") {
+              setIsOpen(false);
+            }
+          }}
+          placeholder="검색 또는 필터... (예: 회의 priority:high -is:completed)"
+          maxLength={MAX_SEARCH_QUERY_LENGTH}
+          aria-label="할 일 검색"
+          className={cn("h-9", isSearching && "pr-6")}
+        />
+        {isSearching && (
+          <Spinner className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+        )}
+        {isOpen && suggestions.length > 0 && (
+          <CommandList
+            // 항목을 누르는 동안 입력창 포커스가 빠져 목록이 닫히지 않도록 합니다.
+            onMouseDown={(e) => e.preventDefault()}
+            className="absolute top-full left-0 z-50 mt-1 w-full rounded-md border bg-popover shadow-md"
+          >
+            <CommandGroup heading="검색 필터">
+              {suggestions.map((suggestion) => (
+                <CommandItem
+                  key={suggestion.value}
+                  value={suggestion.value}
+                  onSelect={() => onValueChange(applySearchSuggestion(value, suggestion))}
+                >
+                  <span className="font-mono">{suggestion.label}</span>
+                  <span className="ml-auto truncate text-xs text-muted-foreground">
+                    {suggestion.description}
+                  </span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        )}
+      </Command>
+      {invalidFilters.length > 0 && (
+        <p className="mt-1 text-xs text-destructive">
+          해석할 수 없는 필터: {invalidFilters.join(", ")}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default TodoSearchInput;
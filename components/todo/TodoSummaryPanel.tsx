@@ -0,0 +1,210 @@
+"use client";
+
+import { useState } from "react";
+import { BarChart3, CheckCircle2, Circle, Sparkles } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { cn } from "@/lib/utils";
+import type { TodoSummaryItem, TodoSummaryResponse } from "@/types/summary";
+
+/**
+ * AI 요약 패널 컴포넌트의 Props 타입
+ */
+interface TodoSummaryPanelProps {
+  /** 추가 클래스명 */
+  className?: string;
+}
+
+/**
+ * 요약 항목 목록을 표시합니다.
+ */
+const SummaryItemList = ({
+  items,
+  completed,
+}: {
+  items: TodoSummaryItem[];
+  completed?: boolean;
+}) => {
+  if (items.length === 0) {
+    return <p className="text-xs text-muted-foreground">해당하는 할 일이 없습니다.</p>;
+  }
+
+  return (
+    <ul className="space-y-1">
+      {items.map((item) => (
+        <li key={item.id} className="flex items-center gap-2 text-sm">
+          {completed ? (
+            <CheckCircle2 className="size-3.5 shrink-0 text-primary" />
+          ) : (
+            <Circle className="size-3.5 shrink-0 text-muted-foreground" />
+          )}
+          <span className={cn("truncate", completed && "text-muted-foreground line-through")}>
+            {item.title}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+/**
+ * AI 일일/주간 요약 패널 컴포넌트입니다.
+ * 버튼 클릭 시 서버에서 사용자 로컬 타임존 기준으로 할 일을 분석하여 요약을 표시합니다.
+ */
+const TodoSummaryPanel = ({ className }: TodoSummaryPanelProps) => {
+  const [result, setResult] = useState<TodoSummaryResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * AI 요약을 요청합니다.
+   */
+  const handleSummarize = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/summarize-todos", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "요약 생성에 실패했습니다.");
+      }
+
+      setResult(await response.json());
+    } catch (err) {
+      console.error("AI summary error:", err);
+      setError(
+        err instanceof Error ? err.message : "요약 생성 중 오류가 발생했습니다."
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className={cn("rounded-lg border bg-card p-6 space-y-4", className)}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <BarChart3 className="size-5 text-primary" />
+          <h2 className="text-lg font-semibold">AI 요약</h2>
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={handleSummarize}
+          disabled={isLoading}
+        >
+          <Sparkles className="size-4 mr-2" />
+          {isLoading ? "분석 중..." : result ? "다시 요약" : "요약하기"}
+        </Button>
+      </div>
+
+      {/* 오류 메시지 */}
+      {error && (
+        <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive border border-destructive/20">
+          {error}
+        </div>
+      )}
+
+      {/* 빈 상태 */}
+      {!result && !error && !isLoading && (
+        <p className="text-sm text-muted-foreground">
+          버튼을 누르면 AI가 오늘과 이번 주의 할 일을 분석해드립니다.
+        </p>
+      )}
+
+      {/* 로딩 상태 */}
+      {isLoading && !result && (
+        <p className="text-sm text-muted-foreground">할 일을 분석하는 중입니다...</p>
+      )}
+
+      {result && (
+        <Tabs defaultValue="daily" className={cn(isLoading && "opacity-60")}>
+          <TabsList className="w-full">
+            <TabsTrigger value="daily">오늘</TabsTrigger>
+            <TabsTrigger value="weekly">이번 주</TabsTrigger>
+          </TabsList>
+
+          {/* 일일 요약 */}
+          <TabsContent value="daily" className="space-y-4 pt-2">
+            <p className="text-sm font-medium">{result.summary.daily.headline}</p>
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium">완료한 할 일</span>
+                <Badge variant="secondary">{result.stats.daily.completed.length}</Badge>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {result.summary.daily.completed_summary}
+              </p>
+              <SummaryItemList items={result.stats.daily.completed} completed />
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium">남은 할 일</span>
+                <Badge variant="outline">{result.stats.daily.remaining.length}</Badge>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {result.summary.daily.remaining_summary}
+              </p>
+              <SummaryItemList items={result.stats.daily.remaining} />
+            </div>
+          </TabsContent>
+
+          {/* 주간 요약 */}
+          <TabsContent value="weekly" className="space-y-4 pt-2">
+            <p className="text-sm font-medium">{result.summary.weekly.headline}</p>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span>
+                  완료 {result.stats.weekly.completed} / 전체 {result.stats.weekly.total}
+                </span>
+                <span className="font-semibold">
+                  {result.stats.weekly.completion_rate}%
+                </span>
+              </div>
+              <Progress value={result.stats.weekly.completion_rate} />
+              <p className="text-sm text-muted-foreground">
+                {result.summary.weekly.completion_insight}
+              </p>
+            </div>
+            <div className="space-y-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant="default">
+                  높음 {result.stats.weekly.priority_distribution.high}
+                </Badge>
+                <Badge variant="secondary">
+                  중간 {result.stats.weekly.priority_distribution.medium}
+                </Badge>
+                <Badge variant="outline">
+                  낮음 {result.stats.weekly.priority_distribution.low}
+                </Badge>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {result.summary.weekly.priority_insight}
+              </p>
+            </div>
+            <p className="rounded-md bg-muted p-3 text-sm">
+              💡 {result.summary.weekly.suggestion}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {result.stats.weekly.week_start} ~ {result.stats.weekly.week_end} ({result.stats.time_zone})
+            </p>
+          </TabsContent>
+        </Tabs>
+      )}
+    </div>
+  );
+};
+
+export default TodoSummaryPanel;
@@ -5,3 +5,9 @@ export { default as TodoCard } from "./TodoCard";
 export { default as TodoList } from "./TodoList";
 export { default as TodoForm } from "./TodoForm";
 
+export { default as TodoSummaryPanel } from "./TodoSummaryPanel";
+export { default as TodoBreakdownDialog } from "./TodoBreakdownDialog";
+export { default as TodoImportDialog } from "./TodoImportDialog";
+export { default as TodoDataImportDialog } from "./TodoDataImportDialog";
+export { default as TodoAppImportDialog } from "./TodoAppImportDialog";
+export { default as TodoSearchInput } from "./TodoSearchInput";
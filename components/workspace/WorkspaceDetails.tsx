@@ -0,0 +1,413 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { LogOut, Mail, Trash2, UserMinus, X } from "lucide-react";
+import { format } from "date-fns";
+import { ko } from "date-fns/locale/ko";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { UserAvatar } from "@/components/profile";
+import { useWorkspaceMembers } from "@/hooks/use-workspace-members";
+import { WORKSPACE_ROLE_LABELS } from "@/lib/workspace";
+import {
+  cancelWorkspaceInvitation,
+  deleteWorkspace,
+  inviteWorkspaceMember,
+  listWorkspaceInvitations,
+  removeWorkspaceMember,
+  updateWorkspace,
+  updateWorkspaceMember,
+} from "@/lib/workspace-api";
+import type {
+  Workspace,
+  WorkspaceInvitation,
+  WorkspaceInviteRole,
+} from "@/types/workspace";
+
+/**
+ * 워크스페이스 상세 관리 컴포넌트의 Props 타입
+ */
+interface WorkspaceDetailsProps {
+  /** 관리할 워크스페이스 */
+  workspace: Workspace;
+  /** 로그인한 사용자 ID */
+  currentUserId?: string;
+  /** 워크스페이스가 수정되었을 때 호출되는 핸들러 */
+  onUpdated: (workspace: Workspace) => void;
+  /** 워크스페이스를 삭제했거나 나갔을 때 호출되는 핸들러 */
+  onRemoved: (workspaceId: string) => void;
+}
+
+/**
+ * 워크스페이스 이름, 멤버 역할, 초대를 관리하는 컴포넌트입니다.
+ * 관리 기능은 소유자에게만 표시되며, 다른 멤버는 목록 조회와 나가기만 할 수 있습니다.
+ */
+const WorkspaceDetails = ({
+  workspace,
+  currentUserId,
+  onUpdated,
+  onRemoved,
+}: WorkspaceDetailsProps) => {
+  const isOwner = workspace.role === "owner";
+  const { members, setMembers, isLoading, error } = useWorkspaceMembers(workspace.id);
+  const [invitations, setInvitations] = useState<WorkspaceInvitation[]>([]);
+  const [name, setName] = useState(workspace.name);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<WorkspaceInviteRole>("editor");
+  const [isSaving, setIsSaving] = useState(false);
+
+  /**
+   * 대기 중인 초대 목록을 다시 조회합니다. (소유자만)
+   */
+  const refreshInvitations = useCallback(async () => {
+    if (!isOwner) {
+      return;
+    }
+
+    try {
+      setInvitations(await listWorkspaceInvitations(workspace.id));
+    } catch (err) {
+      console.error("초대 목록 조회 실패:", err);
+      toast.error(err instanceof Error ? err.message : "초대 목록을 불러오지 못했습니다.");
+    }
+  }, [isOwner, workspace.id]);
+
+  useEffect(() => {
+    const load = async () => {
+      await refreshInvitations();
+    };
+    load();
+  }, [refreshInvitations]);
+
+  /**
+   * 워크스페이스 이름을 변경합니다.
+   */
+  const handleRename = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!name.trim() || name.trim() === workspace.name) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      onUpdated(await updateWorkspace(workspace.id, name.trim()));
+      toast.success("워크스페이스 이름이 변경되었습니다.");
+    } catch (err) {
+      console.error("워크스페이스 수정 실패:", err);
+      toast.error(err instanceof Error ? err.message : "워크스페이스를 수정하지 못했습니다.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /**
+   * 멤버의 역할을 변경합니다.
+   */
+  const handleRoleChange = async (userId: string, role: WorkspaceInviteRole) => {
+    setIsSaving(true);
+    try {
+      const member = await updateWorkspaceMember(workspace.id, userId, role);
+      setMembers((prev) => prev.map((m) => (m.user_id === userId ? member : m)));
+      toast.success("멤버 역할이 변경되었습니다.");
+    } catch (err) {
+      console.error("멤버 역할 변경 실패:", err);
+      toast.error(err instanceof Error ? err.message : "멤버 역할을 변경하지 못했습니다.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /**
+   * 멤버를 내보냅니다. 본인을 지정하면 워크스페이스를 나갑니다.
+   */
+  const handleRemoveMember = async (userId: string, memberName: string) => {
+    const isSelf = userId === currentUserId;
+    const message = isSelf
+      ? `"${workspace.name}" 워크스페이스에서 나가시겠습니까?`
+      : `${memberName}님을 워크스페이스에서 내보내시겠습니까?`;
+
+    if (!confirm(message)) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await removeWorkspaceMember(workspace.id, userId);
+      if (isSelf) {
+        toast.success("워크스페이스에서 나갔습니다.");
+        onRemoved(workspace.id);
+        return;
+      }
+      setMembers((prev) => prev.filter((m) => m.user_id !== userId));
+      toast.success("멤버를 내보냈습니다.");
+    } catch (err) {
+      console.error("멤버 내보내기 실패:", err);
+      toast.error(err instanceof Error ? err.message : "멤버를 내보내지 못했습니다.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /**
+   * 이메일로 멤버를 초대합니다.
+   */
+  const handleInvite = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!inviteEmail.trim()) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const invitation = await inviteWorkspaceMember(workspace.id, {
+        email: inviteEmail.trim(),
+        role: inviteRole,
+      });
+      setInvitations((prev) => [
+        invitation,
+        ...prev.filter((i) => i.id !== invitation.id),
+      ]);
+      setInviteEmail("");
+      toast.success(`${invitation.email}님을 초대했습니다.`);
+    } catch (err) {
+      console.error("멤버 초대 실패:", err);
+      toast.error(err instanceof Error ? err.message : "멤버를 초대하지 못했습니다.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /**
+   * 대기 중인 초대를 취소합니다.
+   */
+  const handleCancelInvitation = async (invitation: WorkspaceInvitation) => {
+    setIsSaving(true);
+    try {
+      await cancelWorkspaceInvitation(workspace.id, invitation.id);
+      setInvitations((prev) => prev.filter((i) => i.id !== invitation.id));
+      toast.success("초대를 취소했습니다.");
+    } catch (err) {
+      console.error("초대 취소 실패:", err);
+      toast.error(err instanceof Error ? err.message : "초대를 취소하지 못했습니다.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /**
+   * 워크스페이스를 삭제합니다. 워크스페이스의 할 일과 프로젝트도 함께 삭제됩니다.
+   */
+  const handleDelete = async () => {
+    if (
+      !confirm(
+        `"${workspace.name}" 워크스페이스를 삭제하시겠습니까?\n워크스페이스의 할 일과 프로젝트가 모두 삭제됩니다.`
+      )
+    ) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await deleteWorkspace(workspace.id);
+      toast.success("워크스페이스가 삭제되었습니다.");
+      onRemoved(workspace.id);
+    } catch (err) {
+      console.error("워크스페이스 삭제 실패:", err);
+      toast.error(err instanceof Error ? err.message : "워크스페이스를 삭제하지 못했습니다.");
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 border-t px-3 py-3">
+      {/* 이름 변경 */}
+      {isOwner && (
+        <form onSubmit={handleRename} className="flex items-end gap-2">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor={`workspace-name-${workspace.id}`}>이름</Label>
+            <Input
+              id={`workspace-name-${workspace.id}`}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={50}
+              disabled={isSaving}
+            />
+          </div>
+          <Button
+            type="submit"
+            variant="outline"
+            disabled={isSaving || !name.trim() || name.trim() === workspace.name}
+          >
+            저장
+          </Button>
+        </form>
+      )}
+
+      {/* 멤버 */}
+      <div className="space-y-2">
+        <Label>멤버</Label>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">멤버를 불러오는 중입니다...</p>
+        ) : error ? (
+          <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive border border-destructive/20">
+            {error}
+          </div>
+        ) : (
+          <ul className="space-y-2">
+            {members.map((member) => {
+              const memberName =
+                member.user?.name || member.user?.email || "알 수 없는 사용자";
+              const canManage = isOwner && member.role !== "owner";
+
+              return (
+                <li key={member.user_id} className="flex items-center gap-3">
+                  <UserAvatar name={memberName} avatarUrl={member.user?.avatar_url} />
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate text-sm font-medium">
+                      {memberName}
+                      {member.user_id === currentUserId && (
+                        <span className="ml-1 text-xs text-muted-foreground">(나)</span>
+                      )}
+                    </p>
+                    {member.user?.name && (
+                      <p className="truncate text-xs text-muted-foreground">
+                        {member.user.email}
+                      </p>
+                    )}
+                  </div>
+                  {canManage ? (
+                    <>
+                      <Select
+                        value={member.role}
+                        onValueChange={(value) =>
+                          handleRoleChange(member.user_id, value as WorkspaceInviteRole)
+                        }
+                        disabled={isSaving}
+                      >
+                        <SelectTrigger className="w-[100px]" aria-label={`${memberName} 역할`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="editor">{WORKSPACE_ROLE_LABELS.editor}</SelectItem>
+                          <SelectItem value="viewer">{WORKSPACE_ROLE_LABELS.viewer}</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="size-8 text-destructive hover:text-destructive"
+                        onClick={() => handleRemoveMember(member.user_id, memberName)}
+                        disabled={isSaving}
+                        aria-label={`${memberName} 내보내기`}
+                      >
+                        <UserMinus className="size-4" />
+                      </Button>
+                    </>
+                  ) : (
+                    <span className="text-xs text-muted-foreground">
+                      {WORKSPACE_ROLE_LABELS[member.role]}
+                    </span>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      {/* 초대 */}
+      {isOwner && (
+        <div className="space-y-2">
+          <Label htmlFor={`workspace-invite-${workspace.id}`}>멤버 초대</Label>
+          <form onSubmit={handleInvite} className="flex gap-2">
+            <Input
+              id={`workspace-invite-${workspace.id}`}
+              type="email"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              placeholder="초대할 이메일 주소"
+              disabled={isSaving}
+              className="flex-1"
+            />
+            <Select
+              value={inviteRole}
+              onValueChange={(value) => setInviteRole(value as WorkspaceInviteRole)}
+              disabled={isSaving}
+            >
+              <SelectTrigger className="w-[100px]" aria-label="초대할 역할">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="editor">{WORKSPACE_ROLE_LABELS.editor}</SelectItem>
+                <SelectItem value="viewer">{WORKSPACE_ROLE_LABELS.viewer}</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button type="submit" disabled={isSaving || !inviteEmail.trim()}>
+              <Mail className="size-4 mr-1" />
+              초대
+            </Button>
+          </form>
+          {invitations.length > 0 && (
+            <ul className="space-y-1">
+              {invitations.map((invitation) => (
+                <li
+                  key={invitation.id}
+                  className="flex items-center gap-2 rounded-md bg-muted/50 px-3 py-1.5 text-sm"
+                >
+                  <span className="flex-1 truncate">{invitation.email}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {WORKSPACE_ROLE_LABELS[invitation.role]} ·{" "}
+                    {format(new Date(invitation.expires_at), "M월 d일", { locale: ko })}까지
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="size-7"
+                    onClick={() => handleCancelInvitation(invitation)}
+                    disabled={isSaving}
+                    aria-label={`${invitation.email} 초대 취소`}
+                  >
+                    <X className="size-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* 삭제 / 나가기 */}
+      <div className="flex justify-end">
+        {isOwner ? (
+          <Button variant="destructive" size="sm" onClick={handleDelete} disabled={isSaving}>
+            <Trash2 className="size-4 mr-1" />
+            워크스페이스 삭제
+          </Button>
+        ) : (
+          currentUserId && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleRemoveMember(currentUserId, "")}
+              disabled={isSaving}
+            >
+              <LogOut className="size-4 mr-1" />
+              나가기
+            </Button>
+          )
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WorkspaceDetails;
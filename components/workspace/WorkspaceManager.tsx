@@ -0,0 +1,224 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Check, ChevronDown, ChevronRight, Plus, Users, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useWorkspaces } from "@/hooks/use-workspaces";
+import { WORKSPACE_ROLE_LABELS } from "@/lib/workspace";
+import {
+  acceptInvitation,
+  createWorkspace,
+  declineInvitation,
+  listReceivedInvitations,
+} from "@/lib/workspace-api";
+import type { WorkspaceInvitation } from "@/types/workspace";
+import WorkspaceDetails from "./WorkspaceDetails";
+
+/**
+ * 워크스페이스 관리 컴포넌트의 Props 타입
+ */
+interface WorkspaceManagerProps {
+  /** 로그인한 사용자 ID */
+  currentUserId?: string;
+}
+
+/**
+ * 팀 워크스페이스를 만들고, 받은 초대를 수락/거절하고, 멤버와 초대를 관리하는 컴포넌트입니다.
+ */
+const WorkspaceManager = ({ currentUserId }: WorkspaceManagerProps) => {
+  const { workspaces, setWorkspaces, isLoading, error, refresh } = useWorkspaces();
+  const [receivedInvitations, setReceivedInvitations] = useState<WorkspaceInvitation[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [newName, setNewName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  /**
+   * 받은 초대 목록을 다시 조회합니다.
+   */
+  const refreshInvitations = useCallback(async () => {
+    try {
+      setReceivedInvitations(await listReceivedInvitations());
+    } catch (err) {
+      console.error("받은 초대 조회 실패:", err);
+      toast.error(err instanceof Error ? err.message : "받은 초대를 불러오지 못했습니다.");
+    }
+  }, []);
+
+  useEffect(() => {
+    const load = async () => {
+      await refreshInvitations();
+    };
+    load();
+  }, [refreshInvitations]);
+
+  /**
+   * 새 워크스페이스를 만들고 관리 화면을 펼칩니다.
+   */
+  const handleCreate = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!newName.trim()) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const workspace = await createWorkspace(newName.trim());
+      setWorkspaces((prev) => [...prev, workspace]);
+      setExpandedId(workspace.id);
+      setNewName("");
+      toast.success("워크스페이스가 만들어졌습니다.");
+    } catch (err) {
+      console.error("워크스페이스 생성 실패:", err);
+      toast.error(err instanceof Error ? err.message : "워크스페이스를 만들지 못했습니다.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /**
+   * 받은 초대를 수락하거나 거절합니다.
+   */
+  const handleRespond = async (invitation: WorkspaceInvitation, accept: boolean) => {
+    setIsSaving(true);
+    try {
+      if (accept) {
+        await acceptInvitation(invitation.id);
+        await refresh();
+        toast.success(`"${invitation.workspace?.name || "워크스페이스"}"에 참여했습니다.`);
+      } else {
+        await declineInvitation(invitation.id);
+        toast.success("초대를 거절했습니다.");
+      }
+      setReceivedInvitations((prev) => prev.filter((i) => i.id !== invitation.id));
+    } catch (err) {
+      console.error("초대 응답 실패:", err);
+      toast.error(err instanceof Error ? err.message : "초대에 응답하지 못했습니다.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading && workspaces.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">워크스페이스를 불러오는 중입니다...</p>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive border border-destructive/20">
+        {error}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* 받은 초대 */}
+      {receivedInvitations.length > 0 && (
+        <ul className="space-y-2">
+          {receivedInvitations.map((invitation) => (
+            <li
+              key={invitation.id}
+              className="flex items-center gap-3 rounded-md border border-primary/30 bg-primary/5 px-3 py-2"
+            >
+              <Users className="size-4 shrink-0 text-primary" />
+              <span className="flex-1 text-sm">
+                <span className="font-medium">
+                  {invitation.workspace?.name || "워크스페이스"}
+                </span>
+                에 {WORKSPACE_ROLE_LABELS[invitation.role]}(으)로 초대받았습니다.
+              </span>
+              <Button
+                size="sm"
+                onClick={() => handleRespond(invitation, true)}
+                disabled={isSaving}
+              >
+                <Check className="size-4 mr-1" />
+                수락
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleRespond(invitation, false)}
+                disabled={isSaving}
+              >
+                <X className="size-4 mr-1" />
+                거절
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* 워크스페이스 목록 */}
+      {workspaces.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          아직 참여한 워크스페이스가 없습니다. 워크스페이스를 만들어 팀원과 할 일을 공유해보세요.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {workspaces.map((workspace) => {
+            const isExpanded = expandedId === workspace.id;
+
+            return (
+              <li key={workspace.id} className="rounded-md border">
+                <button
+                  type="button"
+                  onClick={() => setExpandedId(isExpanded ? null : workspace.id)}
+                  className="flex w-full items-center gap-3 px-3 py-2 text-left"
+                  aria-expanded={isExpanded}
+                >
+                  {isExpanded ? (
+                    <ChevronDown className="size-4 text-muted-foreground" />
+                  ) : (
+                    <ChevronRight className="size-4 text-muted-foreground" />
+                  )}
+                  <span className="flex-1 truncate text-sm font-medium">{workspace.name}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {WORKSPACE_ROLE_LABELS[workspace.role]}
+                  </span>
+                </button>
+                {isExpanded && (
+                  <WorkspaceDetails
+                    workspace={workspace}
+                    currentUserId={currentUserId}
+                    onUpdated={(updated) =>
+                      setWorkspaces((prev) =>
+                        prev.map((w) => (w.id === updated.id ? updated : w))
+                      )
+                    }
+                    onRemoved={(workspaceId) => {
+                      setWorkspaces((prev) => prev.filter((w) => w.id !== workspaceId));
+                      setExpandedId(null);
+                    }}
+                  />
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {/* 새 워크스페이스 */}
+      <form onSubmit={handleCreate} className="flex gap-2">
+        <Input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="새 워크스페이스 이름"
+          maxLength={50}
+          disabled={isSaving}
+          aria-label="새 워크스페이스 이름"
+        />
+        <Button type="submit" disabled={isSaving || !newName.trim()}>
+          <Plus className="size-4 mr-1" />
+          만들기
+        </Button>
+      </form>
+    </div>
+  );
+};
+
+export default WorkspaceManager;
@@ -0,0 +1,75 @@
+"use client";
+
+import { Settings, User, Users } from "lucide-react";
+import Link from "next/link";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { WORKSPACE_ROLE_LABELS } from "@/lib/workspace";
+import { cn } from "@/lib/utils";
+import type { Workspace } from "@/types/workspace";
+
+/**
+ * 워크스페이스 전환 컴포넌트의 Props 타입
+ */
+interface WorkspaceSwitcherProps {
+  /** 속한 워크스페이스 목록 */
+  workspaces: Workspace[];
+  /** 현재 워크스페이스 ID (null이면 개인 공간) */
+  value: string | null;
+  /** 워크스페이스 변경 핸들러 */
+  onChange: (workspaceId: string | null) => void;
+  /** 추가 클래스명 */
+  className?: string;
+}
+
+/**
+ * 개인 공간과 팀 워크스페이스 사이를 전환하는 선택 컴포넌트입니다.
+ */
+const WorkspaceSwitcher = ({
+  workspaces,
+  value,
+  onChange,
+  className,
+}: WorkspaceSwitcherProps) => (
+  <div className={cn("space-y-2", className)}>
+    <Select
+      value={value || "personal"}
+      onValueChange={(next) => onChange(next === "personal" ? null : next)}
+    >
+      <SelectTrigger className="w-full bg-background" aria-label="워크스페이스 선택">
+        <SelectValue placeholder="워크스페이스" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="personal">
+          <User className="size-4" />
+          개인
+        </SelectItem>
+        {workspaces.length > 0 && <SelectSeparator />}
+        {workspaces.map((workspace) => (
+          <SelectItem key={workspace.id} value={workspace.id}>
+            <Users className="size-4" />
+            <span className="truncate">{workspace.name}</span>
+            <span className="text-xs text-muted-foreground">
+              {WORKSPACE_ROLE_LABELS[workspace.role]}
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+    <Link
+      href="/settings#workspaces"
+      className="flex items-center gap-1 px-1 text-xs text-muted-foreground hover:text-foreground"
+    >
+      <Settings className="size-3.5" />
+      워크스페이스 관리
+    </Link>
+  </div>
+);
+
+export default WorkspaceSwitcher;
@@ -0,0 +1,5 @@
+/**
+ * 워크스페이스 컴포넌트들을 한 곳에서 export합니다.
+ */
+export { default as WorkspaceManager } from "./WorkspaceManager";
+export { default as WorkspaceSwitcher } from "./WorkspaceSwitcher";
@@ -0,0 +1,44 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { getCalendarFeed } from "@/lib/calendar-api";
+import type { CalendarFeed } from "@/types/calendar";
+
+/**
+ * 로그인한 사용자의 캘린더 구독 피드를 조회하는 훅입니다.
+ *
+ * @returns {Object} 피드, 로딩/오류 상태 및 갱신 함수
+ */
+export const useCalendarFeed = () => {
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * 캘린더 피드를 다시 조회합니다.
+   */
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setFeed(await getCalendarFeed());
+    } catch (err) {
+      console.error("캘린더 피드 조회 실패:", err);
+      setError(
+        err instanceof Error ? err.message : "캘린더 피드를 불러오는 중 오류가 발생했습니다."
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const load = async () => {
+      await refresh();
+    };
+    load();
+  }, [refresh]);
+
+  return { feed, setFeed, isLoading, error, refresh };
+};
@@ -0,0 +1,44 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { listCategories } from "@/lib/category-api";
+import type { Category } from "@/types/category";
+
+/**
+ * 로그인한 사용자의 카테고리 목록을 조회하는 훅입니다.
+ *
+ * @returns {Object} 카테고리 목록, 로딩/오류 상태 및 목록 갱신 함수
+ */
+export const useCategories = () => {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * 카테고리 목록을 다시 조회합니다.
+   */
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setCategories(await listCategories());
+    } catch (err) {
+      console.error("카테고리 조회 실패:", err);
+      setError(
+        err instanceof Error ? err.message : "카테고리를 불러오는 중 오류가 발생했습니다."
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const load = async () => {
+      await refresh();
+    };
+    load();
+  }, [refresh]);
+
+  return { categories, setCategories, isLoading, error, refresh };
+};
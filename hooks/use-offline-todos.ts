@@ -0,0 +1,299 @@
+"use client";
+
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type Dispatch,
+  type SetStateAction,
+} from "react";
+import { useOnlineStatus } from "@/hooks/use-online-status";
+import {
+  enqueueMutation,
+  listQueuedMutations,
+  removeQueuedMutations,
+  saveTodoSnapshot,
+  updateQueuedMutation,
+} from "@/lib/offline-db";
+import {
+  applyTodoInput,
+  buildOfflineTodo,
+  createTempTodoId,
+  isTempTodoId,
+  replayMutations,
+  toggleOfflineTodo,
+} from "@/lib/offline-queue";
+import type { QueuedMutation, ReplayResult } from "@/types/offline";
+import type { Todo, TodoInput } from "@/types/todo";
+
+/**
+ * 오프라인 할 일 훅의 옵션 타입
+ */
+interface UseOfflineTodosOptions {
+  /** 로그인한 사용자 ID (없으면 큐와 스냅샷을 사용하지 않음) */
+  userId?: string | null;
+  /** 현재 워크스페이스 ID (null이면 개인 공간) */
+  workspaceId: string | null;
+  /** 현재 할 일 목록 (스냅샷으로 저장) */
+  todos: Todo[];
+  /** 할 일 목록을 불러오는 중인지 여부 (불러오는 중에는 스냅샷을 저장하지 않음) */
+  isLoadingTodos: boolean;
+  /** 할 일 목록 상태 변경 함수 (낙관적 반영) */
+  setTodos: Dispatch<SetStateAction<Todo[]>>;
+  /** 큐를 재전송한 뒤 호출 (결과 알림 및 목록 재조회) */
+  onSynced?: (result: ReplayResult) => void | Promise<void>;
+}
+
+/**
+ * 오프라인에서도 할 일을 변경할 수 있도록 IndexedDB 스냅샷과 변경 큐를 관리하는 훅입니다.
+ * 변경은 목록에 바로 반영하고 큐에 보관했다가, 연결이 복구되면 순서대로 서버에 재전송합니다.
+ *
+ * @returns {Object} 연결/동기화 상태, 동기화 대기 중인 할 일 ID, 변경을 큐에 추가하는 함수 및 큐 재전송 함수
+ */
+export const useOfflineTodos = ({
+  userId,
+  workspaceId,
+  todos,
+  isLoadingTodos,
+  setTodos,
+  onSynced,
+}: UseOfflineTodosOptions) => {
+  const isOnline = useOnlineStatus();
+  const [queue, setQueue] = useState<QueuedMutation[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const isSyncingRef = useRef(false);
+
+  /**
+   * 저장된 변경 큐를 다시 조회합니다.
+   */
+  const refreshQueue = useCallback(async () => {
+    if (!userId) {
+      setQueue([]);
+      return;
+    }
+
+    try {
+      setQueue(await listQueuedMutations(userId));
+    } catch (err) {
+      console.error("오프라인 변경 큐 조회 실패:", err);
+    }
+  }, [userId]);
+
+  /**
+   * 큐에 남은 변경을 서버에 재전송합니다.
+   * 재전송 중에 추가된 변경도 이어서 전송하고, 네트워크가 다시 끊기면 중단합니다.
+   */
+  const syncQueue = useCallback(async () => {
+    if (!userId || isSyncingRef.current) {
+      return;
+    }
+
+    isSyncingRef.current = true;
+    try {
+      let mutations = await listQueuedMutations(userId);
+
+      while (mutations.length > 0) {
+        setIsSyncing(true);
+        const result = await replayMutations(mutations);
+        await onSynced?.(result);
+
+        if (result.isInterrupted) {
+          break;
+        }
+        mutations = await listQueuedMutations(userId);
+      }
+    } catch (err) {
+      console.error("오프라인 변경 동기화 실패:", err);
+    } finally {
+      isSyncingRef.current = false;
+      setIsSyncing(false);
+      await refreshQueue();
+    }
+  }, [userId, onSynced, refreshQueue]);
+
+  /**
+   * 남은 변경을 지금 재전송하고, 재전송하지 못해 큐에 남은 변경 수를 반환합니다.
+   * (로그아웃하면 큐가 삭제되므로 로그아웃 전에 호출해 확인합니다.)
+   */
+  const flushQueue = useCallback(async (): Promise<number> => {
+    if (!userId) {
+      return 0;
+    }
+
+    if (isOnline) {
+      await syncQueue();
+    }
+
+    try {
+      return (await listQueuedMutations(userId)).length;
+    } catch (err) {
+      console.error("오프라인 변경 큐 조회 실패:", err);
+      return 0;
+    }
+  }, [userId, isOnline, syncQueue]);
+
+  useEffect(() => {
+    const load = async () => {
+      await refreshQueue();
+    };
+    load();
+  }, [refreshQueue]);
+
+  /**
+   * 온라인이 되면(또는 온라인 상태로 열면) 남은 변경을 재전송합니다.
+   */
+  useEffect(() => {
+    if (!isOnline) {
+      return;
+    }
+
+    const sync = async () => {
+      await syncQueue();
+    };
+    sync();
+  }, [isOnline, syncQueue]);
+
+  /**
+   * 할 일 목록이 바뀔 때마다 현재 공간의 스냅샷을 저장합니다.
+   */
+  useEffect(() => {
+    if (!userId || isLoadingTodos) {
+      return;
+    }
+
+    saveTodoSnapshot(userId, workspaceId, todos).catch((err) =>
+      console.error("할 일 스냅샷 저장 실패:", err)
+    );
+  }, [userId, workspaceId, todos, isLoadingTodos]);
+
+  /**
+   * 동기화 대기 중인 변경이 있는 할 일 ID
+   */
+  const pendingTodoIds = useMemo(
+    () => new Set(queue.map((mutation) => mutation.todo_id)),
+    [queue]
+  );
+
+  /**
+   * 변경을 큐에 추가합니다. 온라인이면 바로 재전송을 시도합니다.
+   */
+  const enqueue = async (mutation: QueuedMutation) => {
+    const saved = await enqueueMutation(mutation);
+    setQueue((prev) => [...prev, saved]);
+
+    if (isOnline) {
+      await syncQueue();
+    }
+  };
+
+  /**
+   * 할 일 추가를 큐에 보관하고 임시 ID로 목록에 표시합니다.
+   */
+  const queueCreate = async (input: TodoInput) => {
+    if (!userId) {
+      return;
+    }
+
+    const tempId = createTempTodoId();
+    setTodos((prev) => [buildOfflineTodo(tempId, userId, input), ...prev]);
+    await enqueue({
+      type: "create",
+      todo_id: tempId,
+      input,
+      user_id: userId,
+      queued_at: new Date().toISOString(),
+    });
+  };
+
+  /**
+   * 할 일 수정을 큐에 보관하고 목록에 반영합니다.
+   * 아직 서버에 추가되지 않은 할 일이면 추가할 내용에 합칩니다.
+   */
+  const queueUpdate = async (todo: Todo, input: Partial<TodoInput>) => {
+    if (!userId) {
+      return;
+    }
+
+    setTodos((prev) => prev.map((t) => (t.id === todo.id ? applyTodoInput(t, input) : t)));
+
+    const queuedCreate = queue.find(
+      (mutation) => mutation.type === "create" && mutation.todo_id === todo.id
+    );
+    if (queuedCreate?.type === "create") {
+      const merged = { ...queuedCreate, input: { ...queuedCreate.input, ...input } };
+      await updateQueuedMutation(merged);
+      setQueue((prev) => prev.map((mutation) => (mutation.id === merged.id ? merged : mutation)));
+      return;
+    }
+
+    await enqueue({
+      type: "update",
+      todo_id: todo.id,
+      input,
+      base_updated_at: todo.updated_at || null,
+      user_id: userId,
+      queued_at: new Date().toISOString(),
+    });
+  };
+
+  /**
+   * 할 일 완료 토글을 큐에 보관하고 목록에 반영합니다.
+   */
+  const queueToggle = async (todo: Todo) => {
+    if (!userId) {
+      return;
+    }
+
+    setTodos((prev) => prev.map((t) => (t.id === todo.id ? toggleOfflineTodo(t) : t)));
+    await enqueue({
+      type: "toggle",
+      todo_id: todo.id,
+      base_updated_at: todo.updated_at || null,
+      user_id: userId,
+      queued_at: new Date().toISOString(),
+    });
+  };
+
+  /**
+   * 할 일 삭제를 큐에 보관하고 목록에서 제거합니다.
+   * 아직 서버에 추가되지 않은 할 일이면 보관된 변경을 모두 버립니다.
+   */
+  const queueDelete = async (todo: Todo) => {
+    if (!userId) {
+      return;
+    }
+
+    setTodos((prev) => prev.filter((t) => t.id !== todo.id));
+
+    if (isTempTodoId(todo.id)) {
+      const ids = queue.flatMap((mutation) =>
+        mutation.todo_id === todo.id && mutation.id !== undefined ? [mutation.id] : []
+      );
+      await removeQueuedMutations(ids);
+      setQueue((prev) => prev.filter((mutation) => mutation.todo_id !== todo.id));
+      return;
+    }
+
+    await enqueue({
+      type: "delete",
+      todo_id: todo.id,
+      base_updated_at: todo.updated_at || null,
+      user_id: userId,
+      queued_at: new Date().toISOString(),
+    });
+  };
+
+  return {
+    isOnline,
+    isSyncing,
+    pendingCount: queue.length,
+    pendingTodoIds,
+    queueCreate,
+    queueUpdate,
+    queueToggle,
+    queueDelete,
+    flushQueue,
+  };
+};
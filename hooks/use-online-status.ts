@@ -0,0 +1,29 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+
+/**
+ * 브라우저의 online/offline 이벤트를 구독합니다.
+ */
+const subscribe = (onChange: () => void) => {
+  window.addEventListener("online", onChange);
+  window.addEventListener("offline", onChange);
+
+  return () => {
+    window.removeEventListener("online", onChange);
+    window.removeEventListener("offline", onChange);
+  };
+};
+
+/**
+ * 브라우저의 네트워크 연결 상태를 반환하는 훅입니다.
+ * 서버 렌더링 중에는 온라인으로 간주합니다.
+ *
+ * @returns {boolean} 온라인 여부
+ */
+export const useOnlineStatus = () =>
+  useSyncExternalStore(
+    subscribe,
+    () => navigator.onLine,
+    () => true
+  );
@@ -0,0 +1,51 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { User } from "@supabase/supabase-js";
+import { createClient } from "@/lib/supabase/client";
+import { fetchProfile } from "@/lib/profile";
+import type { UserProfile } from "@/types/user";
+
+/**
+ * 현재 로그인한 사용자와 프로필(public.users)을 조회하는 훅입니다.
+ *
+ * @returns {Object} 사용자, 프로필, 로딩/오류 상태 및 프로필 갱신 함수
+ */
+export const useProfile = () => {
+  const [user, setUser] = useState<User | null>(null);
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * 사용자와 프로필을 다시 조회합니다.
+   */
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const supabase = createClient();
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      setUser(user);
+      setProfile(user ? await fetchProfile(user.id) : null);
+    } catch (err) {
+      console.error("프로필 조회 실패:", err);
+      setError("프로필을 불러오는 중 오류가 발생했습니다.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const load = async () => {
+      await refresh();
+    };
+    load();
+  }, [refresh]);
+
+  return { user, profile, setProfile, isLoading, error, refresh };
+};
@@ -0,0 +1,46 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { listProjects } from "@/lib/project-api";
+import type { Project } from "@/types/project";
+
+/**
+ * 로그인한 사용자의 프로젝트 목록을 조회하는 훅입니다.
+ * 워크스페이스가 바뀌면 해당 워크스페이스의 프로젝트를 다시 조회합니다.
+ *
+ * @param workspaceId - 조회할 워크스페이스 ID (없으면 개인 프로젝트)
+ * @returns {Object} 프로젝트 목록, 로딩/오류 상태 및 목록 갱신 함수
+ */
+export const useProjects = (workspaceId?: string | null) => {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * 프로젝트 목록을 다시 조회합니다.
+   */
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setProjects(await listProjects(workspaceId));
+    } catch (err) {
+      console.error("프로젝트 조회 실패:", err);
+      setError(
+        err instanceof Error ? err.message : "프로젝트를 불러오는 중 오류가 발생했습니다."
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, [workspaceId]);
+
+  useEffect(() => {
+    const load = async () => {
+      await refresh();
+    };
+    load();
+  }, [refresh]);
+
+  return { projects, setProjects, isLoading, error, refresh };
+};
@@ -0,0 +1,89 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  getPushSubscription,
+  isPushSupported,
+  subscribePush,
+  unsubscribePush,
+} from "@/lib/push-api";
+
+/**
+ * 현재 브라우저의 웹 푸시 알림 구독 상태를 관리하는 훅입니다.
+ *
+ * @returns {Object} 지원 여부, 구독 여부, 로딩/오류 상태 및 구독/해제 함수
+ */
+export const usePushNotifications = () => {
+  const [isSupported, setIsSupported] = useState(false);
+  const [isSubscribed, setIsSubscribed] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * 브라우저의 구독 상태를 다시 확인합니다.
+   */
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const supported = isPushSupported();
+      setIsSupported(supported);
+      setIsSubscribed(supported && !!(await getPushSubscription()));
+    } catch (err) {
+      console.error("푸시 구독 상태 조회 실패:", err);
+      setError("푸시 알림 상태를 확인하는 중 오류가 발생했습니다.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const load = async () => {
+      await refresh();
+    };
+    load();
+  }, [refresh]);
+
+  /**
+   * 웹 푸시 알림을 구독합니다.
+   */
+  const subscribe = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await subscribePush();
+      setIsSubscribed(true);
+    } catch (err) {
+      console.error("푸시 구독 실패:", err);
+      setError(
+        err instanceof Error ? err.message : "푸시 알림을 켜는 중 오류가 발생했습니다."
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  /**
+   * 웹 푸시 알림 구독을 해제합니다.
+   */
+  const unsubscribe = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await unsubscribePush();
+      setIsSubscribed(false);
+    } catch (err) {
+      console.error("푸시 구독 해제 실패:", err);
+      setError(
+        err instanceof Error ? err.message : "푸시 알림을 끄는 중 오류가 발생했습니다."
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  return { isSupported, isSubscribed, isLoading, error, refresh, subscribe, unsubscribe };
+};
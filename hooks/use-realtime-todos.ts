@@ -0,0 +1,74 @@
+"use client";
+
+import { useEffect, type Dispatch, type SetStateAction } from "react";
+import { createClient } from "@/lib/supabase/client";
+import {
+  applyTodoChange,
+  applyTodoItemChange,
+  type RealtimeRowChange,
+} from "@/lib/todo-realtime";
+import type { Todo, TodoItem } from "@/types/todo";
+
+/**
+ * 실시간 할 일 동기화 훅의 옵션 타입
+ */
+interface UseRealtimeTodosOptions {
+  /** 로그인한 사용자 ID (없으면 구독하지 않음) */
+  userId?: string | null;
+  /** 현재 워크스페이스 ID (null이면 개인 공간) */
+  workspaceId: string | null;
+  /** 할 일 목록 상태 변경 함수 */
+  setTodos: Dispatch<SetStateAction<Todo[]>>;
+  /** 연결이 끊겼다가 다시 구독되었을 때 호출 (놓친 변경을 다시 조회) */
+  onResync?: () => void | Promise<void>;
+}
+
+/**
+ * Supabase Realtime으로 todos / todo_items 변경을 구독해 할 일 목록에 병합하는 훅입니다.
+ * 다른 탭이나 기기, 워크스페이스 멤버의 변경이 전체 목록을 다시 조회하지 않고 반영됩니다.
+ * (조회 가능한 행은 RLS가 거르고, 현재 공간에 속하는지는 클라이언트에서 확인합니다.)
+ */
+export const useRealtimeTodos = ({
+  userId,
+  workspaceId,
+  setTodos,
+  onResync,
+}: UseRealtimeTodosOptions) => {
+  useEffect(() => {
+    if (!userId) {
+      return;
+    }
+
+    const supabase = createClient();
+    let hasSubscribed = false;
+
+    const channel = supabase
+      .channel(`todos:${workspaceId || userId}`)
+      .on("postgres_changes", { event: "*", schema: "public", table: "todos" }, (payload) =>
+        setTodos((prev) =>
+          applyTodoChange(prev, payload as RealtimeRowChange<Todo>, workspaceId, userId)
+        )
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "todo_items" },
+        (payload) =>
+          setTodos((prev) => applyTodoItemChange(prev, payload as RealtimeRowChange<TodoItem>))
+      )
+      .subscribe((status) => {
+        if (status !== "SUBSCRIBED") {
+          return;
+        }
+
+        // 재연결된 경우 끊겨 있던 동안의 변경을 놓쳤을 수 있으므로 다시 조회합니다.
+        if (hasSubscribed) {
+          onResync?.();
+        }
+        hasSubscribed = true;
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, workspaceId, setTodos, onResync]);
+};
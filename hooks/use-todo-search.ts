@@ -0,0 +1,84 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { isNetworkError } from "@/lib/api-client";
+import { searchTodos } from "@/lib/todo-api";
+import { formatSearchText, hasSearchText, parseSearchQuery } from "@/lib/todo-search";
+import type { Todo } from "@/types/todo";
+
+/**
+ * 입력이 멈춘 뒤 서버에 검색을 요청하기까지 기다리는 시간 (ms)
+ */
+const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * 검색어를 해석하고, 제목/설명 조건을 서버에서 검색하는 훅입니다.
+ * 필터(priority:high 등)는 불러온 목록에 바로 적용하고, 단어/구문/제외어만 서버에 보냅니다.
+ * 입력이 멈추면 검색하고, 할 일 목록이 바뀌면(추가·수정·실시간 변경) 다시 검색합니다.
+ * 현재 검색어의 서버 결과가 없으면(응답 대기, 오프라인, 오류) matchIds는 null이며,
+ * 이때는 matchesSearchQuery로 불러온 목록에서 직접 찾습니다.
+ *
+ * @param query - 검색창에 입력한 검색어
+ * @param workspaceId - 검색할 워크스페이스 ID (없으면 개인 할 일)
+ * @param todos - 현재 불러온 할 일 목록 (변경 시 다시 검색)
+ * @param enabled - 서버 검색 여부 (오프라인이면 false)
+ * @returns {Object} 해석한 검색어, 검색 결과 ID, 검색 중/오류 상태
+ */
+export const useTodoSearch = (
+  query: string,
+  workspaceId: string | null,
+  todos: Todo[],
+  enabled = true
+) => {
+  const search = useMemo(() => parseSearchQuery(query), [query]);
+  const searchText = formatSearchText(search);
+  const isActive = enabled && hasSearchText(search);
+  const key = `${workspaceId}:${searchText}`;
+  const [result, setResult] = useState<{ key: string; ids: Set<string> } | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isActive) {
+      return;
+    }
+
+    let isCancelled = false;
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+
+      try {
+        const ids = await searchTodos(searchText, workspaceId);
+        if (!isCancelled) {
+          setResult({ key, ids: new Set(ids) });
+          setError(null);
+        }
+      } catch (err) {
+        if (isCancelled) {
+          return;
+        }
+        if (!isNetworkError(err)) {
+          console.error("할 일 검색 실패:", err);
+          setError(err instanceof Error ? err.message : "할 일을 검색하는 중 오류가 발생했습니다.");
+        }
+        setResult(null);
+      } finally {
+        if (!isCancelled) {
+          setIsSearching(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      isCancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isActive, key, searchText, workspaceId, todos]);
+
+  return {
+    search,
+    matchIds: isActive && result?.key === key ? result.ids : null,
+    isSearching: isActive && isSearching,
+    error: isActive ? error : null,
+  };
+};
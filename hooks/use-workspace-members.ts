@@ -0,0 +1,49 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { listWorkspaceMembers } from "@/lib/workspace-api";
+import type { WorkspaceMember } from "@/types/workspace";
+
+/**
+ * 워크스페이스 멤버 목록을 조회하는 훅입니다.
+ * 워크스페이스 ID가 없으면(개인 공간) 빈 목록을 반환합니다.
+ *
+ * @param workspaceId - 조회할 워크스페이스 ID
+ * @returns {Object} 멤버 목록, 로딩/오류 상태 및 목록 갱신 함수
+ */
+export const useWorkspaceMembers = (workspaceId?: string | null) => {
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * 멤버 목록을 다시 조회합니다.
+   */
+  const refresh = useCallback(async () => {
+    if (!workspaceId) {
+      setMembers([]);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setMembers(await listWorkspaceMembers(workspaceId));
+    } catch (err) {
+      console.error("멤버 조회 실패:", err);
+      setError(err instanceof Error ? err.message : "멤버를 불러오는 중 오류가 발생했습니다.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [workspaceId]);
+
+  useEffect(() => {
+    const load = async () => {
+      await refresh();
+    };
+    load();
+  }, [refresh]);
+
+  return { members, setMembers, isLoading, error, refresh };
+};
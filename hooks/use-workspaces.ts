@@ -0,0 +1,44 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { listWorkspaces } from "@/lib/workspace-api";
+import type { Workspace } from "@/types/workspace";
+
+/**
+ * 로그인한 사용자가 속한 워크스페이스 목록을 조회하는 훅입니다.
+ *
+ * @returns {Object} 워크스페이스 목록, 로딩/오류 상태 및 목록 갱신 함수
+ */
+export const useWorkspaces = () => {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * 워크스페이스 목록을 다시 조회합니다.
+   */
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setWorkspaces(await listWorkspaces());
+    } catch (err) {
+      console.error("워크스페이스 조회 실패:", err);
+      setError(
+        err instanceof Error ? err.message : "워크스페이스를 불러오는 중 오류가 발생했습니다."
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const load = async () => {
+      await refresh();
+    };
+    load();
+  }, [refresh]);
+
+  return { workspaces, setWorkspaces, isLoading, error, refresh };
+};
@@ -0,0 +1,51 @@
+/**
+ * API Route 요청 실패 오류
+ * 상태 코드와 응답 본문(예: 충돌 시 최신 할 일)을 함께 담습니다.
+ */
+export class ApiError extends Error {
+  /** HTTP 상태 코드 */
+  readonly status: number;
+  /** 서버 응답 본문 */
+  readonly body: Record<string, unknown>;
+
+  constructor(message: string, status: number, body: Record<string, unknown>) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.body = body;
+  }
+}
+
+/**
+ * 서버에 닿지 못한 네트워크 오류(오프라인 등)인지 확인합니다.
+ * 서버가 응답한 오류(ApiError)는 네트워크 오류가 아닙니다.
+ */
+export const isNetworkError = (error: unknown): boolean =>
+  !(error instanceof ApiError) &&
+  (error instanceof TypeError ||
+    (typeof navigator !== "undefined" && !navigator.onLine));
+
+/**
+ * API Route에 JSON 요청을 보내고 응답 본문을 반환합니다.
+ * 실패 시 서버가 보낸 한글 오류 메시지로 ApiError를 던집니다.
+ */
+export const request = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...init?.headers,
+    },
+  });
+  const body = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new ApiError(
+      body.error || "요청을 처리하는 중 오류가 발생했습니다.",
+      response.status,
+      body
+    );
+  }
+
+  return body as T;
+};
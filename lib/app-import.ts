@@ -0,0 +1,326 @@
+import { normalizeImportDate } from "@/lib/todo-transfer";
+import type { Category } from "@/types/category";
+import type { Project } from "@/types/project";
+import type { TodoPriority } from "@/types/todo";
+import type { ExternalImportItem, ExternalTodo, TodoImportApp } from "@/types/transfer";
+
+/**
+ * 가져오기를 지원하는 앱과 내보내기 파일을 얻는 방법입니다.
+ */
+export const IMPORT_APPS: { app: TodoImportApp; label: string; description: string }[] = [
+  {
+    app: "todoist",
+    label: "Todoist",
+    description: "Sync/REST API로 받은 JSON (items 또는 tasks, projects 포함)",
+  },
+  {
+    app: "microsoft-todo",
+    label: "Microsoft To Do",
+    description: "Microsoft Graph로 받은 목록과 작업 JSON (lists[].tasks 또는 value)",
+  },
+  {
+    app: "trello",
+    label: "Trello",
+    description: "보드 메뉴 → 인쇄, 내보내기 및 공유 → JSON으로 내보내기",
+  },
+];
+
+/**
+ * JSON 객체 타입 (외부 앱 파일은 형식이 정해져 있지 않으므로 필드를 하나씩 확인합니다)
+ */
+type JsonObject = Record<string, unknown>;
+
+/**
+ * 값이 JSON 객체인지 확인합니다.
+ */
+const isObject = (value: unknown): value is JsonObject =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+/**
+ * 값이 배열이면 그 안의 객체만, 아니면 빈 배열을 반환합니다.
+ */
+const toObjects = (value: unknown): JsonObject[] =>
+  Array.isArray(value) ? value.filter(isObject) : [];
+
+/**
+ * 값이 비어 있지 않은 문자열이면 공백을 제거해 반환합니다.
+ */
+const toText = (value: unknown): string | undefined =>
+  typeof value === "string" && value.trim() ? value.trim() : undefined;
+
+/**
+ * 마감일 값을 datetime-local 형식으로 바꿉니다. 해석할 수 없으면 undefined를 반환합니다.
+ */
+const toDueDate = (value: unknown): string | undefined => {
+  const text = toText(value);
+  return text ? normalizeImportDate(text) || undefined : undefined;
+};
+
+/**
+ * HTML 본문(Microsoft To Do)을 일반 텍스트로 바꿉니다.
+ */
+const stripHtml = (html: string): string =>
+  html
+    .replace(/<br\s*\/?>|<\/p>|<\/div>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, "&")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+/**
+ * Todoist 우선순위를 변환합니다.
+ * Todoist API는 4가 가장 높은 p1이고, 1(p4)은 우선순위를 지정하지 않은 기본값입니다.
+ * 4(p1)는 높음, 2(p3)는 낮음으로 옮기고, 3(p2)과 기본값 1(p4)은 이 앱의 기본값인 중간으로 둡니다.
+ */
+const toTodoistPriority = (priority: unknown): TodoPriority => {
+  if (priority === 4) return "high";
+  if (priority === 2) return "low";
+  return "medium";
+};
+
+/**
+ * Todoist JSON(Sync API의 items 또는 REST API의 tasks)을 읽습니다.
+ * 프로젝트 ID와 라벨 ID는 같은 파일의 projects/labels로 이름을 찾습니다.
+ */
+const parseTodoist = (data: unknown): ExternalTodo[] => {
+  const root = isObject(data) ? data : { items: data };
+  const projectNames = new Map(
+    toObjects(root.projects).map((project) => [String(project.id), toText(project.name)])
+  );
+  const labelNames = new Map(
+    toObjects(root.labels).map((label) => [String(label.id), toText(label.name)])
+  );
+
+  return toObjects(root.items ?? root.tasks).map((item) => {
+    const unmapped: string[] = [];
+    const due = isObject(item.due) ? item.due : null;
+    const duration = isObject(item.duration) ? item.duration : null;
+    const labels = (Array.isArray(item.labels) ? item.labels : [])
+      .map((label) => (typeof label === "string" ? label : labelNames.get(String(label))))
+      .filter((label): label is string => !!label);
+
+    if (due?.is_recurring) unmapped.push("반복 규칙");
+    if (item.parent_id) unmapped.push("상위 작업");
+    if (item.section_id) unmapped.push("섹션");
+    if (item.responsible_uid || item.assignee_id) unmapped.push("담당자");
+
+    return {
+      title: toText(item.content) || "",
+      description: toText(item.description),
+      due_date: toDueDate(due?.datetime) || toDueDate(due?.date),
+      priority: toTodoistPriority(item.priority),
+      project: projectNames.get(String(item.project_id)) || undefined,
+      labels,
+      estimated_minutes:
+        typeof duration?.amount === "number"
+          ? duration.amount * (duration.unit === "day" ? 1440 : 1)
+          : undefined,
+      completed: !!(item.checked || item.is_completed || item.completed_at),
+      unmapped,
+    };
+  });
+};
+
+/**
+ * Microsoft To Do 중요도를 변환합니다. (high / normal / low)
+ */
+const toMicrosoftPriority = (importance: unknown): TodoPriority => {
+  if (importance === "high") return "high";
+  if (importance === "low") return "low";
+  return "medium";
+};
+
+/**
+ * Microsoft To Do 작업 하나를 변환합니다.
+ * To Do의 마감일은 날짜만 의미가 있으므로 날짜 부분만 사용합니다.
+ */
+const toMicrosoftTodo = (task: JsonObject, listName?: string): ExternalTodo => {
+  const unmapped: string[] = [];
+  const body = isObject(task.body) ? task.body : null;
+  const content = toText(body?.content);
+  const due = isObject(task.dueDateTime) ? task.dueDateTime : null;
+  const dueDate = toText(due?.dateTime)?.slice(0, 10);
+
+  if (toObjects(task.checklistItems).length > 0) unmapped.push("체크리스트");
+  if (task.recurrence) unmapped.push("반복 규칙");
+  if (task.isReminderOn) unmapped.push("미리 알림");
+
+  return {
+    title: toText(task.title) || "",
+    description: content && body?.contentType === "html" ? stripHtml(content) : content,
+    due_date: toDueDate(dueDate),
+    priority: toMicrosoftPriority(task.importance),
+    project: listName,
+    labels: (Array.isArray(task.categories) ? task.categories : []).filter(
+      (category): category is string => typeof category === "string"
+    ),
+    completed: task.status === "completed",
+    unmapped,
+  };
+};
+
+/**
+ * Microsoft To Do JSON을 읽습니다.
+ * 목록 배열({ lists: [{ displayName, tasks }] }) 또는 Graph 응답({ value: [...] })을 받습니다.
+ */
+const parseMicrosoftTodo = (data: unknown): ExternalTodo[] => {
+  const root = isObject(data) ? data : { value: data };
+  const entries = toObjects(root.lists ?? root.value);
+
+  return entries.flatMap((entry) =>
+    Array.isArray(entry.tasks)
+      ? toObjects(entry.tasks).map((task) => toMicrosoftTodo(task, toText(entry.displayName)))
+      : entry.title !== undefined
+        ? [toMicrosoftTodo(entry)]
+        : []
+  );
+};
+
+/**
+ * Trello 보드 JSON을 읽습니다. 카드 하나를 할 일 하나로 가져오며, 보관된 카드는 제외합니다.
+ * 보드 이름을 프로젝트로, 카드 라벨을 카테고리로 사용합니다. (Trello에는 우선순위가 없음)
+ */
+const parseTrello = (data: unknown): ExternalTodo[] => {
+  if (!isObject(data)) {
+    return [];
+  }
+
+  const boardName = toText(data.name);
+  const labelNames = new Map(
+    toObjects(data.labels).map((label) => [String(label.id), toText(label.name)])
+  );
+  const closedLists = new Set(
+    toObjects(data.lists)
+      .filter((list) => list.closed)
+      .map((list) => String(list.id))
+  );
+  const checklistCards = new Set(
+    toObjects(data.checklists).map((checklist) => String(checklist.idCard))
+  );
+
+  return toObjects(data.cards)
+    .filter((card) => !card.closed && !closedLists.has(String(card.idList)))
+    .map((card) => {
+      const unmapped: string[] = [];
+      const labels = (Array.isArray(card.idLabels) ? card.idLabels : [])
+        .map((id) => labelNames.get(String(id)))
+        .filter((label): label is string => !!label);
+
+      if (checklistCards.has(String(card.id))) unmapped.push("체크리스트");
+      if (Array.isArray(card.idMembers) && card.idMembers.length > 0) unmapped.push("담당자");
+      if (toObjects(card.attachments).length > 0) unmapped.push("첨부 파일");
+
+      return {
+        title: toText(card.name) || "",
+        description: toText(card.desc),
+        due_date: toDueDate(card.due),
+        priority: "medium",
+        project: boardName,
+        labels,
+        completed: !!card.dueComplete,
+        unmapped,
+      };
+    });
+};
+
+/**
+ * 파일 내용을 보고 어느 앱의 내보내기인지 추정합니다. 알 수 없으면 null을 반환합니다.
+ */
+export const detectImportApp = (data: unknown): TodoImportApp | null => {
+  if (isObject(data) && Array.isArray(data.cards) && Array.isArray(data.lists)) {
+    return "trello";
+  }
+  if (isObject(data) && (Array.isArray(data.items) || Array.isArray(data.tasks))) {
+    return "todoist";
+  }
+  if (isObject(data) && (Array.isArray(data.lists) || Array.isArray(data.value))) {
+    return "microsoft-todo";
+  }
+  return null;
+};
+
+/**
+ * 앱의 내보내기 JSON을 읽어 공통 형태의 할 일 목록으로 변환합니다.
+ * 제목이 없는 항목은 제외하며, 읽을 항목이 없으면 오류를 던집니다.
+ */
+export const parseAppExport = (app: TodoImportApp, data: unknown): ExternalTodo[] => {
+  const parsers: Record<TodoImportApp, (data: unknown) => ExternalTodo[]> = {
+    todoist: parseTodoist,
+    "microsoft-todo": parseMicrosoftTodo,
+    trello: parseTrello,
+  };
+  const todos = parsers[app](data).filter((todo) => todo.title);
+
+  if (todos.length === 0) {
+    const label = IMPORT_APPS.find((item) => item.app === app)?.label;
+    throw new Error(`${label} 내보내기 파일에서 할 일을 찾지 못했습니다.`);
+  }
+
+  return todos;
+};
+
+/**
+ * 가져온 할 일을 할 일 입력으로 변환합니다.
+ * 프로젝트와 라벨은 이름이 같은(대소문자 무시) 프로젝트/카테고리에 연결하고,
+ * 연결하지 못한 이름은 제외 항목으로 보고합니다.
+ */
+export const mapExternalTodos = (
+  todos: ExternalTodo[],
+  { categories, projects }: { categories: Category[]; projects: Project[] }
+): ExternalImportItem[] =>
+  todos.map((todo) => {
+    const unmapped = [...todo.unmapped];
+    const project = todo.project
+      ? projects.find((item) => item.name.toLowerCase() === todo.project!.toLowerCase())
+      : undefined;
+
+    if (todo.project && !project) {
+      unmapped.push(`프로젝트: ${todo.project}`);
+    }
+
+    const category: string[] = [];
+    for (const label of todo.labels) {
+      const match = categories.find((item) => item.name.toLowerCase() === label.toLowerCase());
+      if (match && !category.includes(match.name)) {
+        category.push(match.name);
+      } else if (!match) {
+        unmapped.push(`라벨: ${label}`);
+      }
+    }
+
+    return {
+      source: todo,
+      input: {
+        title: todo.title.slice(0, 200),
+        description: todo.description?.slice(0, 5000) || "",
+        due_date: todo.due_date || "",
+        priority: todo.priority,
+        category: category.slice(0, 10),
+        estimated_minutes:
+          todo.estimated_minutes && todo.estimated_minutes <= 10080
+            ? todo.estimated_minutes
+            : null,
+        project_id: project?.id || null,
+      },
+      unmapped,
+    };
+  });
+
+/**
+ * 제외 항목을 종류별로 모아 개수와 함께 반환합니다. (예: [["반복 규칙", 3], ...])
+ */
+export const summarizeUnmapped = (items: ExternalImportItem[]): [string, number][] => {
+  const counts = new Map<string, number>();
+
+  for (const item of items) {
+    for (const name of item.unmapped) {
+      counts.set(name, (counts.get(name) || 0) + 1);
+    }
+  }
+
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]);
+};
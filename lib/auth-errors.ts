@@ -0,0 +1,86 @@
+/**
+ * 인증 콜백 오류 코드 타입
+ */
+export type AuthCallbackErrorCode =
+  | "access_denied"
+  | "link_expired"
+  | "missing_code"
+  | "exchange_failed";
+
+const AUTH_CALLBACK_ERROR_MESSAGES: Record<AuthCallbackErrorCode, string> = {
+  access_denied: "인증이 취소되었거나 거부되었습니다. 다시 시도해주세요.",
+  link_expired: "인증 링크가 만료되었거나 이미 사용되었습니다. 다시 요청해주세요.",
+  missing_code: "인증 정보가 올바르지 않습니다. 링크를 다시 확인해주세요.",
+  exchange_failed: "인증을 완료하지 못했습니다. 잠시 후 다시 시도해주세요.",
+};
+
+/**
+ * 인증 콜백 오류 코드에 해당하는 한글 메시지를 반환합니다.
+ * 알 수 없는 코드이면 null을 반환합니다.
+ */
+export const getAuthCallbackErrorMessage = (
+  code: string | null | undefined
+): string | null => {
+  if (!code || !(code in AUTH_CALLBACK_ERROR_MESSAGES)) {
+    return null;
+  }
+  return AUTH_CALLBACK_ERROR_MESSAGES[code as AuthCallbackErrorCode];
+};
+
+/**
+ * Supabase Auth 오류를 사용자에게 보여줄 한글 메시지로 변환합니다.
+ *
+ * @param {unknown} err - Supabase Auth에서 발생한 오류
+ * @param {string} fallback - 매핑되지 않은 오류에 사용할 기본 메시지
+ * @returns {string} 한글 오류 메시지
+ */
+export const getAuthErrorMessage = (err: unknown, fallback: string): string => {
+  if (!(err instanceof Error)) {
+    return "알 수 없는 오류가 발생했습니다.";
+  }
+
+  const errorMessage = err.message.toLowerCase();
+  if (
+    errorMessage.includes("invalid login credentials") ||
+    errorMessage.includes("invalid credentials") ||
+    errorMessage.includes("email not confirmed")
+  ) {
+    return "이메일 또는 비밀번호가 올바르지 않습니다.";
+  }
+  if (
+    errorMessage.includes("too many requests") ||
+    errorMessage.includes("rate limit")
+  ) {
+    return "너무 많은 요청이 있었습니다. 잠시 후 다시 시도해주세요.";
+  }
+  if (errorMessage.includes("should be different")) {
+    return "이전과 다른 비밀번호를 입력해주세요.";
+  }
+  if (errorMessage.includes("password should be")) {
+    return "비밀번호가 요구사항을 충족하지 않습니다.";
+  }
+  if (errorMessage.includes("auth session missing")) {
+    return "인증 세션이 만료되었습니다. 비밀번호 재설정 링크를 다시 요청해주세요.";
+  }
+  if (errorMessage.includes("invalid email")) {
+    return "유효하지 않은 이메일 주소입니다.";
+  }
+  return fallback;
+};
+
+/**
+ * 새 비밀번호와 비밀번호 확인 값을 검증합니다.
+ * 문제가 있으면 한글 오류 메시지를, 없으면 null을 반환합니다.
+ */
+export const validateNewPassword = (
+  password: string,
+  confirmPassword: string
+): string | null => {
+  if (password !== confirmPassword) {
+    return "비밀번호가 일치하지 않습니다.";
+  }
+  if (password.length < 6) {
+    return "비밀번호는 최소 6자 이상이어야 합니다.";
+  }
+  return null;
+};
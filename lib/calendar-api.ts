@@ -0,0 +1,27 @@
+import { request } from "@/lib/api-client";
+import type { CalendarFeed } from "@/types/calendar";
+
+/**
+ * 로그인한 사용자의 캘린더 구독 피드를 조회합니다.
+ */
+export const getCalendarFeed = async (): Promise<CalendarFeed | null> => {
+  const { feed } = await request<{ feed: CalendarFeed | null }>("/api/calendar");
+  return feed;
+};
+
+/**
+ * 캘린더 구독 피드를 만들거나 새 토큰을 발급합니다.
+ */
+export const createCalendarFeed = async (): Promise<CalendarFeed> => {
+  const { feed } = await request<{ feed: CalendarFeed }>("/api/calendar", {
+    method: "POST",
+  });
+  return feed;
+};
+
+/**
+ * 캘린더 구독 피드를 삭제합니다.
+ */
+export const deleteCalendarFeed = async (): Promise<void> => {
+  await request("/api/calendar", { method: "DELETE" });
+};
@@ -0,0 +1,42 @@
+import { request } from "@/lib/api-client";
+import type { Category, CategoryInput } from "@/types/category";
+
+/**
+ * 로그인한 사용자의 카테고리 목록을 조회합니다.
+ */
+export const listCategories = async (): Promise<Category[]> => {
+  const { categories } = await request<{ categories: Category[] }>("/api/categories");
+  return categories;
+};
+
+/**
+ * 카테고리를 생성합니다.
+ */
+export const createCategory = async (input: CategoryInput): Promise<Category> => {
+  const { category } = await request<{ category: Category }>("/api/categories", {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+  return category;
+};
+
+/**
+ * 카테고리를 수정합니다.
+ */
+export const updateCategory = async (
+  id: string,
+  input: Partial<CategoryInput> & { position?: number }
+): Promise<Category> => {
+  const { category } = await request<{ category: Category }>(`/api/categories/${id}`, {
+    method: "PATCH",
+    body: JSON.stringify(input),
+  });
+  return category;
+};
+
+/**
+ * 카테고리를 삭제합니다.
+ */
+export const deleteCategory = async (id: string): Promise<void> => {
+  await request<{ id: string }>(`/api/categories/${id}`, { method: "DELETE" });
+};
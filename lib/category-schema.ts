@@ -0,0 +1,31 @@
+import { z } from "zod";
+import { CATEGORY_ICON_NAMES } from "@/lib/category";
+import type { CategoryInput } from "@/types/category";
+
+/**
+ * 카테고리 생성 입력 검증 스키마입니다.
+ */
+export const categoryInputSchema = z.object({
+  name: z
+    .string({ message: "카테고리 이름은 문자열이어야 합니다." })
+    .trim()
+    .min(1, "카테고리 이름을 입력해주세요.")
+    .max(20, "카테고리 이름은 20자 이하로 입력해주세요."),
+  color: z
+    .string({ message: "색상 값이 올바르지 않습니다." })
+    .regex(/^#[0-9a-fA-F]{6}$/, "색상 값이 올바르지 않습니다."),
+  icon: z.enum(CATEGORY_ICON_NAMES, { message: "아이콘 값이 올바르지 않습니다." }),
+}) satisfies z.ZodType<CategoryInput>;
+
+/**
+ * 카테고리 수정 입력 검증 스키마입니다. (모든 필드 선택)
+ */
+export const categoryUpdateSchema = categoryInputSchema.partial().extend({
+  position: z.number({ message: "순서 값이 올바르지 않습니다." }).int().min(0).optional(),
+});
+
+/**
+ * Postgres 고유 제약조건 위반(같은 이름의 카테고리) 여부를 확인합니다.
+ */
+export const isDuplicateCategoryError = (error: unknown): boolean =>
+  !!error && typeof error === "object" && "code" in error && error.code === "23505";
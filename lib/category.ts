@@ -0,0 +1,62 @@
+import type { Category } from "@/types/category";
+
+/**
+ * 카테고리 색상 팔레트
+ */
+export const CATEGORY_COLORS = [
+  "#ef4444",
+  "#f97316",
+  "#eab308",
+  "#22c55e",
+  "#14b8a6",
+  "#3b82f6",
+  "#6366f1",
+  "#a855f7",
+  "#ec4899",
+  "#64748b",
+];
+
+/**
+ * 카테고리에 사용할 수 있는 아이콘 이름 목록
+ */
+export const CATEGORY_ICON_NAMES = [
+  "tag",
+  "briefcase",
+  "user",
+  "book-open",
+  "home",
+  "heart",
+  "dumbbell",
+  "shopping-cart",
+  "code",
+  "wallet",
+  "plane",
+  "star",
+] as const;
+
+/**
+ * 카테고리 아이콘 이름 타입
+ */
+export type CategoryIconName = (typeof CATEGORY_ICON_NAMES)[number];
+
+/**
+ * 한 사용자가 만들 수 있는 최대 카테고리 수
+ */
+export const MAX_CATEGORIES = 30;
+
+/**
+ * 기본 카테고리의 분류 힌트 (AI 파서 프롬프트용)
+ */
+export const DEFAULT_CATEGORY_HINTS: Record<string, string> = {
+  업무: '"회의", "팀", "프로젝트", "업무", "발표", "보고서" 등',
+  개인: '"집", "가족", "친구", "쇼핑", "운동", "건강" 등',
+  학습: '"공부", "강의", "독서", "코딩", "학습", "강좌" 등',
+};
+
+/**
+ * 이름으로 카테고리를 찾습니다. (할 일에는 카테고리 이름이 저장됩니다)
+ */
+export const findCategory = (
+  categories: Category[],
+  name: string
+): Category | undefined => categories.find((category) => category.name === name);
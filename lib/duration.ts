@@ -0,0 +1,13 @@
+/**
+ * 분 단위 시간을 "1시간 30분" 형식의 한글 문자열로 변환합니다.
+ */
+export const formatMinutes = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+
+  if (hours === 0) {
+    return `${rest}분`;
+  }
+
+  return rest === 0 ? `${hours}시간` : `${hours}시간 ${rest}분`;
+};
@@ -0,0 +1,86 @@
+/**
+ * 보낼 이메일 타입
+ */
+export interface EmailMessage {
+  /** 받는 사람 이메일 */
+  to: string;
+  subject: string;
+  /** 본문 (텍스트) */
+  text: string;
+  /** 본문 (HTML, 없으면 텍스트만 보냄) */
+  html?: string;
+}
+
+/**
+ * 이메일 발송 어댑터
+ * 발송 서비스를 바꾸거나 테스트에서 실제로 보내지 않도록 이 인터페이스로 주입합니다.
+ */
+export interface EmailSender {
+  /** 어댑터 이름 (로그용) */
+  name: string;
+  send: (message: EmailMessage) => Promise<void>;
+}
+
+/**
+ * Resend HTTP API로 이메일을 보내는 어댑터를 만듭니다.
+ * (https://resend.com/docs/api-reference/emails/send-email)
+ */
+export const createResendEmailSender = (apiKey: string, from: string): EmailSender => ({
+  name: "resend",
+  send: async (message) => {
+    const response = await fetch("https://api.resend.com/emails", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        from,
+        to: [message.to],
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`이메일 발송 실패 (${response.status}): ${await response.text()}`);
+    }
+  },
+});
+
+/**
+ * 실제로 보내지 않고 보낸 이메일을 기록만 하는 어댑터를 만듭니다.
+ * 로컬 개발과 테스트에서 사용하며, sent 배열로 보낸 내용을 확인할 수 있습니다.
+ */
+export const createStubEmailSender = (): EmailSender & { sent: EmailMessage[] } => {
+  const sent: EmailMessage[] = [];
+
+  return {
+    name: "stub",
+    sent,
+    send: async (message) => {
+      sent.push(message);
+      console.info(`[email:stub] ${message.to} - ${message.subject}`);
+    },
+  };
+};
+
+/**
+ * 환경 변수에 맞는 이메일 발송 어댑터를 반환합니다.
+ *
+ * - EMAIL_PROVIDER=resend (RESEND_API_KEY, EMAIL_FROM 필요)
+ * - EMAIL_PROVIDER=stub 또는 설정이 없으면 stub 어댑터
+ */
+export const getEmailSender = (): EmailSender => {
+  const provider = process.env.EMAIL_PROVIDER || (process.env.RESEND_API_KEY ? "resend" : "stub");
+
+  if (provider === "resend") {
+    if (!process.env.RESEND_API_KEY || !process.env.EMAIL_FROM) {
+      throw new Error("RESEND_API_KEY와 EMAIL_FROM 환경 변수를 설정해주세요.");
+    }
+    return createResendEmailSender(process.env.RESEND_API_KEY, process.env.EMAIL_FROM);
+  }
+
+  return createStubEmailSender();
+};
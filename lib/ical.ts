@@ -0,0 +1,406 @@
+import type { Category } from "@/types/category";
+import type { ICalComponent, ICalEntry } from "@/types/calendar";
+import type { Todo, TodoInput, TodoPriority } from "@/types/todo";
+
+/**
+ * 캘린더 앱에 표시되는 생성 프로그램 식별자
+ */
+const ICAL_PRODID = "-//AI Todo//AI 할 일 관리//KO";
+
+/**
+ * 마감 시각 일정(VEVENT)의 기본 길이 (분, 예상 소요 시간이 없을 때)
+ */
+const DEFAULT_EVENT_MINUTES = 30;
+
+/**
+ * 우선순위별 iCalendar PRIORITY 값 (1: 가장 높음, 9: 가장 낮음)
+ */
+const ICAL_PRIORITY: Record<TodoPriority, number> = {
+  high: 1,
+  medium: 5,
+  low: 9,
+};
+
+/**
+ * iCalendar 파일 생성 옵션
+ */
+interface ICalendarOptions {
+  /** 캘린더 이름 (캘린더 앱에 표시) */
+  name: string;
+  /** 항목 형식 (기본값: VEVENT) */
+  component?: ICalComponent;
+  /** 각 항목에 연결할 앱 주소 */
+  url?: string;
+  /** 구독 피드의 권장 새로고침 간격 (분) */
+  refreshMinutes?: number;
+  /** 생성 시각 (DTSTAMP) */
+  now?: Date;
+}
+
+/**
+ * 텍스트 값의 특수문자(\, ;, ,, 줄바꿈)를 이스케이프합니다.
+ */
+export const escapeICalText = (text: string): string =>
+  text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+/**
+ * 날짜를 UTC 형식(YYYYMMDDTHHmmssZ)으로 변환합니다.
+ */
+export const formatICalDate = (date: Date | string): string =>
+  new Date(date).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+/**
+ * 한 줄이 75바이트를 넘지 않도록 접습니다(RFC 5545 3.1).
+ * 한글처럼 여러 바이트인 문자가 잘리지 않도록 문자 단위로 나눕니다.
+ */
+export const foldICalLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let bytes = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // 이어지는 줄은 앞의 공백 1바이트를 포함해 75바이트
+    const limit = parts.length === 0 ? 75 : 74;
+
+    if (bytes + size > limit) {
+      parts.push(current);
+      current = "";
+      bytes = 0;
+    }
+
+    current += char;
+    bytes += size;
+  }
+
+  parts.push(current);
+  return parts.join("\r\n ");
+};
+
+/**
+ * 분 단위 시간을 iCalendar 기간 형식(예: PT90M)으로 변환합니다.
+ */
+const formatDuration = (minutes: number): string => `PT${minutes}M`;
+
+/**
+ * 마감 알림 시점을 VALARM 항목으로 변환합니다.
+ * VTODO는 DTSTART가 없으므로 마감(DUE) 기준으로 알립니다.
+ */
+const buildAlarms = (todo: Todo, component: ICalComponent): string[] =>
+  (todo.reminder_offsets || []).flatMap((offset) => [
+    "BEGIN:VALARM",
+    "ACTION:DISPLAY",
+    `DESCRIPTION:${escapeICalText(todo.title)}`,
+    component === "VTODO"
+      ? `TRIGGER;RELATED=END:-${formatDuration(offset)}`
+      : `TRIGGER:-${formatDuration(offset)}`,
+    "END:VALARM",
+  ]);
+
+/**
+ * 할 일 하나를 VEVENT 또는 VTODO 항목의 줄 목록으로 변환합니다.
+ * 마감일이 없는 할 일은 빈 배열을 반환합니다.
+ */
+const buildTodoComponent = (
+  todo: Todo,
+  component: ICalComponent,
+  { url, now }: { url?: string; now: Date }
+): string[] => {
+  if (!todo.due_date) {
+    return [];
+  }
+
+  const lines = [
+    `BEGIN:${component}`,
+    `UID:${todo.id}@ai-todo`,
+    `DTSTAMP:${formatICalDate(now)}`,
+    `CREATED:${formatICalDate(todo.created_date)}`,
+    `LAST-MODIFIED:${formatICalDate(todo.updated_at || todo.created_date)}`,
+  ];
+
+  if (component === "VTODO") {
+    lines.push(
+      `SUMMARY:${escapeICalText(todo.title)}`,
+      `DUE:${formatICalDate(todo.due_date)}`,
+      `STATUS:${todo.completed ? "COMPLETED" : "NEEDS-ACTION"}`
+    );
+    if (todo.completed) {
+      lines.push("PERCENT-COMPLETE:100");
+      if (todo.completed_at) {
+        lines.push(`COMPLETED:${formatICalDate(todo.completed_at)}`);
+      }
+    }
+  } else {
+    // 일정에는 완료 상태가 없으므로 제목에 표시하고 바쁨 시간에서 제외합니다.
+    lines.push(
+      `SUMMARY:${escapeICalText(todo.completed ? `✓ ${todo.title}` : todo.title)}`,
+      `DTSTART:${formatICalDate(todo.due_date)}`,
+      `DURATION:${formatDuration(todo.estimated_minutes || DEFAULT_EVENT_MINUTES)}`,
+      `TRANSP:${todo.completed ? "TRANSPARENT" : "OPAQUE"}`
+    );
+  }
+
+  if (todo.description) {
+    lines.push(`DESCRIPTION:${escapeICalText(todo.description)}`);
+  }
+  if (todo.priority) {
+    lines.push(`PRIORITY:${ICAL_PRIORITY[todo.priority]}`);
+  }
+  if (todo.category && todo.category.length > 0) {
+    lines.push(`CATEGORIES:${todo.category.map(escapeICalText).join(",")}`);
+  }
+  if (url) {
+    lines.push(`URL:${url}`);
+  }
+  if (!todo.completed) {
+    lines.push(...buildAlarms(todo, component));
+  }
+
+  lines.push(`END:${component}`);
+  return lines;
+};
+
+/**
+ * 마감일이 있는 할 일로 iCalendar(.ics) 문서를 만듭니다.
+ * 우선순위는 PRIORITY, 카테고리는 CATEGORIES, 완료 여부는 STATUS(VTODO)로 옮기고
+ * 마감 알림은 VALARM으로 추가합니다.
+ */
+export const buildICalendar = (
+  todos: Todo[],
+  { name, component = "VEVENT", url, refreshMinutes, now = new Date() }: ICalendarOptions
+): string => {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${ICAL_PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeICalText(name)}`,
+  ];
+
+  if (refreshMinutes) {
+    lines.push(
+      `REFRESH-INTERVAL;VALUE=DURATION:${formatDuration(refreshMinutes)}`,
+      `X-PUBLISHED-TTL:${formatDuration(refreshMinutes)}`
+    );
+  }
+
+  for (const todo of todos) {
+    lines.push(...buildTodoComponent(todo, component, { url, now }));
+  }
+
+  lines.push("END:VCALENDAR");
+  return `${lines.map(foldICalLine).join("\r\n")}\r\n`;
+};
+
+/**
+ * 캘린더 구독 피드 주소를 만듭니다.
+ */
+export const getCalendarFeedUrl = (origin: string, token: string): string =>
+  `${origin}/api/calendar/${token}.ics`;
+
+/**
+ * .ics 파일 한 줄(속성)을 이름과 값으로 나눈 결과 타입 (매개변수는 사용하지 않음)
+ */
+interface ICalProperty {
+  name: string;
+  value: string;
+}
+
+/**
+ * 접힌 줄을 펼쳐 속성 단위의 줄 목록으로 만듭니다.
+ */
+const unfoldICalLines = (text: string): string[] =>
+  text
+    .replace(/\r?\n[ \t]/g, "")
+    .split(/\r?\n/)
+    .filter((line) => line.length > 0);
+
+/**
+ * 속성 한 줄을 파싱합니다. (예: DUE;TZID=Asia/Seoul:20261020T090000 → DUE, 20261020T090000)
+ * 따옴표로 감싼 매개변수 값 안의 콜론은 구분자로 보지 않습니다.
+ */
+const parseICalProperty = (line: string): ICalProperty | null => {
+  let inQuotes = false;
+  let separator = -1;
+
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') {
+      inQuotes = !inQuotes;
+    } else if (line[i] === ":" && !inQuotes) {
+      separator = i;
+      break;
+    }
+  }
+
+  if (separator === -1) {
+    return null;
+  }
+
+  const [name] = line.slice(0, separator).split(";");
+  return { name: name.toUpperCase(), value: line.slice(separator + 1) };
+};
+
+/**
+ * 이스케이프된 텍스트 값을 원래 문자열로 되돌립니다.
+ */
+export const unescapeICalText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char
+  );
+
+/**
+ * 쉼표로 구분된 목록 값(CATEGORIES)을 나눕니다. 이스케이프된 쉼표는 나누지 않습니다.
+ */
+const splitICalList = (value: string): string[] =>
+  value
+    .split(/(?<!\\),/)
+    .map((item) => unescapeICalText(item).trim())
+    .filter((item) => item.length > 0);
+
+/**
+ * 날짜 값을 datetime-local 형식(YYYY-MM-DDTHH:MM)으로 변환합니다.
+ * 폼과 마찬가지로 적힌 시각을 그대로 사용하며(UTC·TZID 구분 없음),
+ * 날짜만 있는 값(VALUE=DATE)은 오전 9시로 설정합니다.
+ */
+const parseICalDate = (value: string): string | undefined => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})\d{2}Z?)?$/);
+
+  if (!match) {
+    return undefined;
+  }
+
+  const [, year, month, day, hour = "09", minute = "00"] = match;
+  return `${year}-${month}-${day}T${hour}:${minute}`;
+};
+
+/**
+ * .ics 파일에서 VTODO와 VEVENT 항목을 읽습니다.
+ * 항목 안의 VALARM 등 하위 구성 요소는 무시합니다.
+ */
+export const parseICalendar = (text: string): ICalEntry[] => {
+  const lines = unfoldICalLines(text.replace(/^\uFEFF/, ""));
+
+  if (lines[0]?.toUpperCase() !== "BEGIN:VCALENDAR") {
+    throw new Error("올바른 iCalendar(.ics) 파일이 아닙니다.");
+  }
+
+  const entries: ICalEntry[] = [];
+  let current: ICalEntry | null = null;
+  let depth = 0;
+
+  for (const line of lines) {
+    const property = parseICalProperty(line);
+
+    if (!property) {
+      continue;
+    }
+
+    const { name, value } = property;
+    const upperValue = value.toUpperCase();
+
+    if (name === "BEGIN") {
+      if (current) {
+        depth += 1;
+      } else if (upperValue === "VTODO" || upperValue === "VEVENT") {
+        current = { component: upperValue, summary: "", categories: [], completed: false };
+      }
+      continue;
+    }
+
+    if (name === "END") {
+      if (current && depth > 0) {
+        depth -= 1;
+      } else if (current && upperValue === current.component) {
+        entries.push(current);
+        current = null;
+      }
+      continue;
+    }
+
+    if (!current || depth > 0) {
+      continue;
+    }
+
+    switch (name) {
+      case "UID":
+        current.uid = value;
+        break;
+      case "SUMMARY":
+        current.summary = unescapeICalText(value).trim();
+        break;
+      case "DESCRIPTION":
+        current.description = unescapeICalText(value).trim();
+        break;
+      case "DUE":
+        current.due_date = parseICalDate(value) || current.due_date;
+        break;
+      case "DTSTART":
+        // VTODO는 DUE를 우선 사용하고, DUE가 없을 때만 시작일을 마감일로 사용합니다.
+        if (current.component === "VEVENT" || !current.due_date) {
+          current.due_date = parseICalDate(value) || current.due_date;
+        }
+        break;
+      case "PRIORITY":
+        current.priority = Number.parseInt(value, 10) || 0;
+        break;
+      case "CATEGORIES":
+        current.categories.push(...splitICalList(value));
+        break;
+      case "STATUS":
+        current.completed = upperValue === "COMPLETED";
+        break;
+      case "COMPLETED":
+        current.completed = true;
+        break;
+    }
+  }
+
+  return entries;
+};
+
+/**
+ * iCalendar PRIORITY 값을 우선순위로 변환합니다. (1~4: 높음, 5 또는 없음: 중간, 6~9: 낮음)
+ */
+const toTodoPriority = (priority?: number): TodoPriority => {
+  if (priority && priority <= 4) {
+    return "high";
+  }
+  if (priority && priority >= 6) {
+    return "low";
+  }
+  return "medium";
+};
+
+/**
+ * .ics 항목을 할 일 입력 데이터로 변환합니다.
+ * 카테고리는 이름이 같은(대소문자 무시) 사용자 카테고리만 지정하고 나머지는 버립니다.
+ */
+export const icalEntryToTodoInput = (
+  entry: ICalEntry,
+  categories: Category[]
+): TodoInput => {
+  const category = [
+    ...new Set(
+      entry.categories
+        .map(
+          (name) =>
+            categories.find((item) => item.name.toLowerCase() === name.toLowerCase())?.name
+        )
+        .filter((name): name is string => !!name)
+    ),
+  ].slice(0, 10);
+
+  return {
+    title: entry.summary.slice(0, 200) || "제목 없음",
+    description: entry.description?.slice(0, 5000) || "",
+    due_date: entry.due_date || "",
+    priority: toTodoPriority(entry.priority),
+    category,
+  };
+};
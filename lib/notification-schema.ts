@@ -0,0 +1,21 @@
+import { z } from "zod";
+import type { PushSubscriptionInput } from "@/types/notification";
+
+/**
+ * 웹 푸시 구독 등록 입력 검증 스키마입니다. (PushSubscription.toJSON() 형식)
+ */
+export const pushSubscriptionSchema = z.object({
+  endpoint: z.url({ message: "푸시 구독 주소가 올바르지 않습니다." }),
+  keys: z.object(
+    {
+      p256dh: z.string().min(1, "푸시 구독 키가 올바르지 않습니다."),
+      auth: z.string().min(1, "푸시 구독 키가 올바르지 않습니다."),
+    },
+    { message: "푸시 구독 키가 올바르지 않습니다." }
+  ),
+}) satisfies z.ZodType<PushSubscriptionInput>;
+
+/**
+ * 웹 푸시 구독 해제 입력 검증 스키마입니다.
+ */
+export const pushUnsubscribeSchema = pushSubscriptionSchema.pick({ endpoint: true });
@@ -0,0 +1,186 @@
+import type { QueuedMutation } from "@/types/offline";
+import type { Todo } from "@/types/todo";
+
+/**
+ * 오프라인 저장소 IndexedDB 이름과 버전
+ */
+const DB_NAME = "ai-todo-offline";
+const DB_VERSION = 1;
+
+/**
+ * 공간(개인/워크스페이스)별 할 일 목록 스냅샷 저장소
+ */
+const SNAPSHOT_STORE = "todo_snapshots";
+
+/**
+ * 오프라인 변경 큐 저장소 (자동 증가 키 순서 = 변경 순서)
+ */
+const MUTATION_STORE = "mutations";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * IndexedDB를 열고 필요한 저장소를 생성합니다. 연결은 재사용합니다.
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const openRequest = indexedDB.open(DB_NAME, DB_VERSION);
+
+      openRequest.onupgradeneeded = () => {
+        const db = openRequest.result;
+        if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+          db.createObjectStore(SNAPSHOT_STORE);
+        }
+        if (!db.objectStoreNames.contains(MUTATION_STORE)) {
+          db.createObjectStore(MUTATION_STORE, { keyPath: "id", autoIncrement: true });
+        }
+      };
+      openRequest.onsuccess = () => resolve(openRequest.result);
+      openRequest.onerror = () => {
+        dbPromise = null;
+        reject(openRequest.error);
+      };
+    });
+  }
+
+  return dbPromise;
+};
+
+/**
+ * 저장소 하나에 대한 요청을 트랜잭션으로 실행하고 결과를 반환합니다.
+ */
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const storeRequest = createRequest(transaction.objectStore(storeName));
+
+    transaction.oncomplete = () => resolve(storeRequest.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/**
+ * 사용자와 공간별 스냅샷 키를 만듭니다.
+ */
+const getSnapshotKey = (userId: string, workspaceId: string | null) =>
+  `${userId}:${workspaceId || "personal"}`;
+
+/**
+ * 마지막으로 저장한 할 일 목록 스냅샷을 불러옵니다. 없으면 null을 반환합니다.
+ */
+export const loadTodoSnapshot = async (
+  userId: string,
+  workspaceId: string | null
+): Promise<Todo[] | null> => {
+  const snapshot = await runRequest<Todo[] | undefined>(SNAPSHOT_STORE, "readonly", (store) =>
+    store.get(getSnapshotKey(userId, workspaceId))
+  );
+  return snapshot || null;
+};
+
+/**
+ * 할 일 목록 스냅샷을 저장합니다. (오프라인에서 열었을 때 표시)
+ */
+export const saveTodoSnapshot = async (
+  userId: string,
+  workspaceId: string | null,
+  todos: Todo[]
+): Promise<void> => {
+  await runRequest(SNAPSHOT_STORE, "readwrite", (store) =>
+    store.put(todos, getSnapshotKey(userId, workspaceId))
+  );
+};
+
+/**
+ * 사용자의 오프라인 변경 큐를 변경 순서대로 조회합니다.
+ */
+export const listQueuedMutations = async (userId: string): Promise<QueuedMutation[]> => {
+  const mutations = await runRequest<QueuedMutation[]>(MUTATION_STORE, "readonly", (store) =>
+    store.getAll()
+  );
+  return mutations.filter((mutation) => mutation.user_id === userId);
+};
+
+/**
+ * 변경을 큐에 추가하고 ID가 부여된 항목을 반환합니다.
+ */
+export const enqueueMutation = async (mutation: QueuedMutation): Promise<QueuedMutation> => {
+  const id = await runRequest(MUTATION_STORE, "readwrite", (store) => store.add(mutation));
+  return { ...mutation, id: id as number };
+};
+
+/**
+ * 큐에서 변경을 제거합니다.
+ */
+export const removeQueuedMutations = async (ids: number[]): Promise<void> => {
+  if (ids.length === 0) {
+    return;
+  }
+
+  const db = await openDatabase();
+
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(MUTATION_STORE, "readwrite");
+    const store = transaction.objectStore(MUTATION_STORE);
+    ids.forEach((id) => store.delete(id));
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/**
+ * 큐 항목을 수정합니다. (재전송 중 임시 ID를 서버 ID로 바꿀 때 사용)
+ */
+export const updateQueuedMutation = async (mutation: QueuedMutation): Promise<void> => {
+  await runRequest(MUTATION_STORE, "readwrite", (store) => store.put(mutation));
+};
+
+/**
+ * 서비스 워커의 앱 셸 캐시 이름 접두사 (public/sw.js의 CACHE_NAME과 같음)
+ */
+const SHELL_CACHE_PREFIX = "ai-todo-shell-";
+
+/**
+ * 사용자의 오프라인 데이터(할 일 스냅샷, 오프라인 변경 큐)와 앱 셸 캐시를 삭제합니다.
+ * 로그아웃한 뒤 같은 기기의 다른 사람이 이전 사용자의 할 일을 볼 수 없도록 로그아웃할 때 호출합니다.
+ * 동기화되지 않은 변경도 삭제되므로, 호출하기 전에 큐를 재전송하거나 사용자에게 확인을 받아야 합니다.
+ */
+export const clearOfflineData = async (userId: string): Promise<void> => {
+  const db = await openDatabase();
+
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction([SNAPSHOT_STORE, MUTATION_STORE], "readwrite");
+    const mutationStore = transaction.objectStore(MUTATION_STORE);
+    const mutationsRequest = mutationStore.getAll();
+
+    transaction
+      .objectStore(SNAPSHOT_STORE)
+      .delete(IDBKeyRange.bound(`${userId}:`, `${userId}:\uffff`));
+    mutationsRequest.onsuccess = () => {
+      (mutationsRequest.result as QueuedMutation[])
+        .filter((mutation) => mutation.user_id === userId && mutation.id !== undefined)
+        .forEach((mutation) => mutationStore.delete(mutation.id!));
+    };
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+  if ("caches" in window) {
+    const keys = await caches.keys();
+    await Promise.all(
+      keys.filter((key) => key.startsWith(SHELL_CACHE_PREFIX)).map((key) => caches.delete(key))
+    );
+  }
+};
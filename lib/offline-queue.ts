@@ -0,0 +1,163 @@
+import { ApiError, isNetworkError } from "@/lib/api-client";
+import { removeQueuedMutations, updateQueuedMutation } from "@/lib/offline-db";
+import { createTodo, deleteTodo, toggleTodo, updateTodo } from "@/lib/todo-api";
+import type { QueuedMutation, ReplayResult } from "@/types/offline";
+import type { Todo, TodoInput } from "@/types/todo";
+
+/**
+ * 오프라인에서 추가한 할 일의 임시 ID 접두사
+ */
+const TEMP_TODO_ID_PREFIX = "offline-";
+
+/**
+ * 오프라인에서 추가한 할 일의 임시 ID를 만듭니다.
+ */
+export const createTempTodoId = () => `${TEMP_TODO_ID_PREFIX}${crypto.randomUUID()}`;
+
+/**
+ * 아직 서버에 저장되지 않은 (임시 ID를 가진) 할 일인지 확인합니다.
+ */
+export const isTempTodoId = (id: string) => id.startsWith(TEMP_TODO_ID_PREFIX);
+
+/**
+ * 오프라인에서 추가한 할 일을 목록에 표시할 할 일로 만듭니다.
+ * (서버가 채우는 값은 재전송 후 서버 응답으로 교체됩니다.)
+ */
+export const buildOfflineTodo = (id: string, userId: string, input: TodoInput): Todo => {
+  const now = new Date().toISOString();
+
+  return {
+    ...input,
+    id,
+    user_id: userId,
+    description: input.description || null,
+    due_date: input.due_date || null,
+    created_date: now,
+    completed: false,
+    completed_at: null,
+    items: [],
+    updated_at: now,
+  };
+};
+
+/**
+ * 할 일에 수정 내용을 낙관적으로 반영합니다.
+ * updated_at은 그대로 두어 재전송할 때 충돌 검사의 기준으로 사용합니다.
+ */
+export const applyTodoInput = (todo: Todo, input: Partial<TodoInput>): Todo => ({
+  ...todo,
+  ...input,
+  ...(input.description !== undefined && { description: input.description || null }),
+  ...(input.due_date !== undefined && { due_date: input.due_date || null }),
+});
+
+/**
+ * 할 일의 완료 상태를 낙관적으로 토글합니다.
+ * (반복 할 일의 다음 할 일은 재전송할 때 서버가 생성합니다.)
+ */
+export const toggleOfflineTodo = (todo: Todo): Todo => ({
+  ...todo,
+  completed: !todo.completed,
+  completed_at: todo.completed ? null : new Date().toISOString(),
+});
+
+/**
+ * 오프라인 변경 큐를 순서대로 서버에 재전송합니다.
+ *
+ * - 임시 ID로 추가한 할 일은 서버 ID로 바꿔 이후 변경에 사용합니다.
+ * - 같은 할 일을 여러 번 변경했으면 앞선 변경의 응답(updated_at)을 다음 변경의 기준 버전으로 사용합니다.
+ * - 다른 곳에서 먼저 수정되었으면(409) 서버 내용을 유지하고 그 할 일의 남은 변경도 버립니다.
+ * - 네트워크가 다시 끊기면 중단하고 남은 변경은 큐에 보관합니다.
+ */
+export const replayMutations = async (mutations: QueuedMutation[]): Promise<ReplayResult> => {
+  const result: ReplayResult = { applied: 0, conflicts: [], failures: [], isInterrupted: false };
+  /** 임시 ID → 서버 ID */
+  const savedIds = new Map<string, string>();
+  /** 할 일 ID → 재전송 후 최신 updated_at */
+  const versions = new Map<string, string | null>();
+  /** 충돌하거나 추가에 실패해 남은 변경을 버릴 할 일 ID */
+  const skippedIds = new Set<string>();
+
+  for (const [index, mutation] of mutations.entries()) {
+    const todoId = savedIds.get(mutation.todo_id) || mutation.todo_id;
+
+    if (!skippedIds.has(todoId) && !(mutation.type !== "create" && isTempTodoId(todoId))) {
+      try {
+        if (mutation.type === "create") {
+          const todo = await createTodo(mutation.input);
+          savedIds.set(mutation.todo_id, todo.id);
+          versions.set(todo.id, todo.updated_at || null);
+        } else {
+          const version = versions.has(todoId)
+            ? versions.get(todoId)
+            : mutation.base_updated_at;
+
+          if (mutation.type === "update") {
+            const todo = await updateTodo(todoId, mutation.input, version);
+            versions.set(todoId, todo.updated_at || null);
+          } else if (mutation.type === "toggle") {
+            const { todo } = await toggleTodo(todoId, version);
+            versions.set(todoId, todo.updated_at || null);
+          } else {
+            await deleteTodo(todoId, version);
+          }
+        }
+        result.applied += 1;
+      } catch (error) {
+        if (isNetworkError(error)) {
+          result.isInterrupted = true;
+          await rebaseRemainingMutations(mutations.slice(index), savedIds, versions);
+          break;
+        }
+
+        skippedIds.add(todoId);
+
+        if (error instanceof ApiError && error.status === 409) {
+          if (error.body.todo) {
+            result.conflicts.push(error.body.todo as Todo);
+          }
+        } else {
+          console.error("오프라인 변경 재전송 실패:", error);
+          result.failures.push(
+            error instanceof Error ? error.message : "변경 내용을 저장하지 못했습니다."
+          );
+        }
+      }
+    }
+
+    // 처리한(또는 버린) 변경은 바로 큐에서 제거해 다시 전송되지 않도록 합니다.
+    if (mutation.id !== undefined) {
+      await removeQueuedMutations([mutation.id]);
+    }
+  }
+
+  return result;
+};
+
+/**
+ * 재전송이 중단되었을 때 남은 변경의 임시 ID와 기준 버전을 이미 반영된 서버 값으로 바꿉니다.
+ * (다음 재전송에서 같은 할 일을 다시 추가하거나 충돌로 잘못 판단하지 않도록 합니다.)
+ */
+const rebaseRemainingMutations = async (
+  remaining: QueuedMutation[],
+  savedIds: Map<string, string>,
+  versions: Map<string, string | null>
+) => {
+  for (const mutation of remaining) {
+    if (mutation.type === "create") {
+      continue;
+    }
+
+    const todoId = savedIds.get(mutation.todo_id) || mutation.todo_id;
+
+    if (todoId !== mutation.todo_id || versions.has(todoId)) {
+      await updateQueuedMutation({
+        ...mutation,
+        todo_id: todoId,
+        base_updated_at: versions.has(todoId)
+          ? versions.get(todoId) || null
+          : mutation.base_updated_at,
+      });
+    }
+  }
+};
@@ -0,0 +1,93 @@
+import { createClient } from "@/lib/supabase/client";
+import type { UserProfile, UserProfileInput } from "@/types/user";
+
+/**
+ * 프로필 이미지를 저장하는 Supabase Storage 버킷 이름
+ */
+export const AVATAR_BUCKET = "avatars";
+
+/**
+ * 프로필 이미지 최대 크기 (2MB)
+ */
+export const MAX_AVATAR_SIZE = 2 * 1024 * 1024;
+
+/**
+ * 사용자 프로필을 조회합니다. 프로필이 없으면 null을 반환합니다.
+ */
+export const fetchProfile = async (
+  userId: string
+): Promise<UserProfile | null> => {
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from("users")
+    .select("*")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+};
+
+/**
+ * 사용자 프로필을 저장합니다.
+ * 가입 트리거 이전에 생성된 계정처럼 프로필 행이 없으면 새로 만듭니다.
+ */
+export const saveProfile = async (
+  userId: string,
+  email: string,
+  input: UserProfileInput
+): Promise<UserProfile> => {
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from("users")
+    .upsert({ id: userId, email, ...input })
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+};
+
+/**
+ * 프로필 이미지 파일을 검증합니다.
+ * 문제가 있으면 한글 오류 메시지를, 없으면 null을 반환합니다.
+ */
+export const validateAvatarFile = (file: File): string | null => {
+  if (!file.type.startsWith("image/")) {
+    return "이미지 파일만 업로드할 수 있습니다.";
+  }
+  if (file.size > MAX_AVATAR_SIZE) {
+    return "이미지는 2MB 이하만 업로드할 수 있습니다.";
+  }
+  return null;
+};
+
+/**
+ * 프로필 이미지를 Supabase Storage에 업로드하고 공개 URL을 반환합니다.
+ * 파일은 사용자 ID 폴더 아래에 저장되어 Storage RLS 정책으로 보호됩니다.
+ */
+export const uploadAvatar = async (userId: string, file: File): Promise<string> => {
+  const supabase = createClient();
+  const extension = file.name.split(".").pop()?.toLowerCase() || "png";
+  const path = `${userId}/${Date.now()}.${extension}`;
+
+  const { error } = await supabase.storage
+    .from(AVATAR_BUCKET)
+    .upload(path, file, { cacheControl: "3600", upsert: false });
+
+  if (error) {
+    throw error;
+  }
+
+  const {
+    data: { publicUrl },
+  } = supabase.storage.from(AVATAR_BUCKET).getPublicUrl(path);
+
+  return publicUrl;
+};
@@ -0,0 +1,45 @@
+import { request } from "@/lib/api-client";
+import type { Project, ProjectInput } from "@/types/project";
+
+/**
+ * 로그인한 사용자의 프로젝트 목록을 조회합니다.
+ * 워크스페이스 ID를 넘기면 해당 워크스페이스의 프로젝트를 조회합니다.
+ */
+export const listProjects = async (workspaceId?: string | null): Promise<Project[]> => {
+  const { projects } = await request<{ projects: Project[] }>(
+    workspaceId ? `/api/projects?workspace=${workspaceId}` : "/api/projects"
+  );
+  return projects;
+};
+
+/**
+ * 프로젝트를 생성합니다.
+ */
+export const createProject = async (input: ProjectInput): Promise<Project> => {
+  const { project } = await request<{ project: Project }>("/api/projects", {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+  return project;
+};
+
+/**
+ * 프로젝트를 수정합니다.
+ */
+export const updateProject = async (
+  id: string,
+  input: Partial<Omit<ProjectInput, "workspace_id">> & { position?: number }
+): Promise<Project> => {
+  const { project } = await request<{ project: Project }>(`/api/projects/${id}`, {
+    method: "PATCH",
+    body: JSON.stringify(input),
+  });
+  return project;
+};
+
+/**
+ * 프로젝트를 삭제합니다.
+ */
+export const deleteProject = async (id: string): Promise<void> => {
+  await request<{ id: string }>(`/api/projects/${id}`, { method: "DELETE" });
+};
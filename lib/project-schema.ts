@@ -0,0 +1,33 @@
+import { z } from "zod";
+import type { ProjectInput } from "@/types/project";
+
+/**
+ * 프로젝트 생성 입력 검증 스키마입니다.
+ */
+export const projectInputSchema = z.object({
+  name: z
+    .string({ message: "프로젝트 이름은 문자열이어야 합니다." })
+    .trim()
+    .min(1, "프로젝트 이름을 입력해주세요.")
+    .max(40, "프로젝트 이름은 40자 이하로 입력해주세요."),
+  color: z
+    .string({ message: "색상 값이 올바르지 않습니다." })
+    .regex(/^#[0-9a-fA-F]{6}$/, "색상 값이 올바르지 않습니다."),
+  workspace_id: z
+    .uuid({ message: "워크스페이스 ID 형식이 올바르지 않습니다." })
+    .nullable()
+    .optional(),
+}) satisfies z.ZodType<ProjectInput>;
+
+/**
+ * 프로젝트 수정 입력 검증 스키마입니다. (모든 필드 선택, 워크스페이스는 변경 불가)
+ */
+export const projectUpdateSchema = projectInputSchema.omit({ workspace_id: true }).partial().extend({
+  position: z.number({ message: "순서 값이 올바르지 않습니다." }).int().min(0).optional(),
+});
+
+/**
+ * Postgres 고유 제약조건 위반(같은 이름의 프로젝트) 여부를 확인합니다.
+ */
+export const isDuplicateProjectError = (error: unknown): boolean =>
+  !!error && typeof error === "object" && "code" in error && error.code === "23505";
@@ -0,0 +1,52 @@
+import type { Todo } from "@/types/todo";
+import type { ProjectCounts, ProjectView } from "@/types/project";
+
+/**
+ * 사용자당 만들 수 있는 최대 프로젝트 수
+ */
+export const MAX_PROJECTS = 50;
+
+/**
+ * 할 일이 선택한 보기(전체/받은 편지함/프로젝트)에 속하는지 확인합니다.
+ */
+export const matchesProjectView = (todo: Todo, view: ProjectView): boolean => {
+  if (view === "all") {
+    return true;
+  }
+  if (view === "inbox") {
+    return !todo.project_id;
+  }
+  return todo.project_id === view;
+};
+
+/**
+ * 보기별(전체, 받은 편지함, 프로젝트 ID) 미완료/지연 할 일 개수를 계산합니다.
+ */
+export const getProjectCounts = (
+  todos: Todo[],
+  now: Date = new Date()
+): Record<string, ProjectCounts> => {
+  const counts: Record<string, ProjectCounts> = {
+    all: { open: 0, overdue: 0 },
+    inbox: { open: 0, overdue: 0 },
+  };
+
+  todos.forEach((todo) => {
+    if (todo.completed) {
+      return;
+    }
+
+    const isOverdue = !!todo.due_date && new Date(todo.due_date) < now;
+    const key = todo.project_id || "inbox";
+    counts[key] = counts[key] || { open: 0, overdue: 0 };
+
+    [counts.all, counts[key]].forEach((count) => {
+      count.open += 1;
+      if (isOverdue) {
+        count.overdue += 1;
+      }
+    });
+  });
+
+  return counts;
+};
@@ -0,0 +1,92 @@
+import { request } from "@/lib/api-client";
+import type { PushSubscriptionInput } from "@/types/notification";
+
+/**
+ * 브라우저에 전달할 VAPID 공개 키
+ */
+const VAPID_PUBLIC_KEY = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY || "";
+
+/**
+ * 현재 브라우저가 웹 푸시를 지원하고, 서버에 VAPID 키가 설정되어 있는지 확인합니다.
+ */
+export const isPushSupported = (): boolean =>
+  typeof window !== "undefined" &&
+  "serviceWorker" in navigator &&
+  "PushManager" in window &&
+  "Notification" in window &&
+  !!VAPID_PUBLIC_KEY;
+
+/**
+ * URL-safe Base64 문자열(VAPID 공개 키)을 Push API가 받는 바이트 배열로 변환합니다.
+ */
+const urlBase64ToUint8Array = (base64: string): Uint8Array<ArrayBuffer> => {
+  const padding = "=".repeat((4 - (base64.length % 4)) % 4);
+  const raw = atob((base64 + padding).replace(/-/g, "+").replace(/_/g, "/"));
+  const bytes = new Uint8Array(new ArrayBuffer(raw.length));
+
+  for (let i = 0; i < raw.length; i++) {
+    bytes[i] = raw.charCodeAt(i);
+  }
+
+  return bytes;
+};
+
+/**
+ * 서비스 워커 등록을 가져옵니다. 아직 등록되지 않았으면 등록합니다.
+ */
+const getServiceWorkerRegistration = async (): Promise<ServiceWorkerRegistration> => {
+  const registration = await navigator.serviceWorker.getRegistration();
+  return registration || navigator.serviceWorker.register("/sw.js");
+};
+
+/**
+ * 현재 브라우저의 푸시 구독을 조회합니다. 구독하지 않았으면 null을 반환합니다.
+ */
+export const getPushSubscription = async (): Promise<PushSubscription | null> => {
+  const registration = await navigator.serviceWorker.getRegistration();
+  return registration ? registration.pushManager.getSubscription() : null;
+};
+
+/**
+ * 알림 권한을 요청하고 웹 푸시를 구독한 뒤 서버에 등록합니다.
+ * 권한이 거부되면 오류를 던집니다.
+ */
+export const subscribePush = async (): Promise<PushSubscription> => {
+  const permission = await Notification.requestPermission();
+
+  if (permission !== "granted") {
+    throw new Error("브라우저 설정에서 알림 권한을 허용해주세요.");
+  }
+
+  const registration = await getServiceWorkerRegistration();
+  const subscription =
+    (await registration.pushManager.getSubscription()) ||
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY),
+    }));
+
+  await request("/api/push-subscriptions", {
+    method: "POST",
+    body: JSON.stringify(subscription.toJSON() as PushSubscriptionInput),
+  });
+
+  return subscription;
+};
+
+/**
+ * 현재 브라우저의 웹 푸시 구독을 해제하고 서버에서도 삭제합니다.
+ */
+export const unsubscribePush = async (): Promise<void> => {
+  const subscription = await getPushSubscription();
+
+  if (!subscription) {
+    return;
+  }
+
+  await request("/api/push-subscriptions", {
+    method: "DELETE",
+    body: JSON.stringify({ endpoint: subscription.endpoint }),
+  });
+  await subscription.unsubscribe();
+};
@@ -0,0 +1,159 @@
+import {
+  addDaysToDateKey,
+  getWeekStartKey,
+  toLocalDateKey,
+  toLocalTimeKey,
+  zonedDateTimeToUtc,
+} from "@/lib/timezone";
+import type { TodoRecurrence } from "@/types/todo";
+
+/**
+ * 요일 한글 표시명 (0: 일요일 ~ 6: 토요일)
+ */
+export const WEEKDAY_LABELS = ["일", "월", "화", "수", "목", "금", "토"];
+
+/**
+ * "YYYY-MM-DD" 문자열의 요일(0: 일요일 ~ 6: 토요일)을 반환합니다.
+ */
+const getWeekday = (dateKey: string): number => {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+};
+
+/**
+ * 두 날짜 사이의 일 수를 반환합니다.
+ */
+const daysBetween = (fromKey: string, toKey: string): number =>
+  Math.round(
+    (new Date(`${toKey}T00:00:00Z`).getTime() -
+      new Date(`${fromKey}T00:00:00Z`).getTime()) /
+      (24 * 60 * 60 * 1000)
+  );
+
+/**
+ * 반복 규칙에 따라 기준 날짜 다음의 반복 날짜("YYYY-MM-DD")를 계산합니다.
+ */
+const getNextDateKey = (dateKey: string, rule: TodoRecurrence): string => {
+  const interval = Math.max(1, rule.interval || 1);
+
+  if (rule.frequency === "weekly") {
+    const weekdays = rule.weekdays?.length ? rule.weekdays : [getWeekday(dateKey)];
+    const anchorWeek = getWeekStartKey(dateKey);
+    // 반복 간격을 만족하는 주의 지정된 요일 중 가장 가까운 날짜를 찾습니다.
+    for (let offset = 1; offset <= 7 * interval + 7; offset++) {
+      const candidate = addDaysToDateKey(dateKey, offset);
+      const weeksApart = daysBetween(anchorWeek, getWeekStartKey(candidate)) / 7;
+      if (weeksApart % interval === 0 && weekdays.includes(getWeekday(candidate))) {
+        return candidate;
+      }
+    }
+    return addDaysToDateKey(dateKey, 7 * interval);
+  }
+
+  if (rule.frequency === "monthly") {
+    const [year, month, day] = dateKey.split("-").map(Number);
+    const targetDay = rule.month_day || day;
+    const monthIndex = month - 1 + interval;
+    const targetYear = year + Math.floor(monthIndex / 12);
+    const targetMonth = monthIndex % 12;
+    const lastDay = new Date(Date.UTC(targetYear, targetMonth + 1, 0)).getUTCDate();
+    return new Date(Date.UTC(targetYear, targetMonth, Math.min(targetDay, lastDay)))
+      .toISOString()
+      .slice(0, 10);
+  }
+
+  return addDaysToDateKey(dateKey, interval);
+};
+
+/**
+ * 매월 반복 규칙에 반복할 날짜가 없으면 첫 마감일의 날짜로 채웁니다.
+ * 짧은 달의 말일로 당겨진 뒤에도(1월 31일 → 2월 28일) 다음 달에는 원래 날짜로 돌아오도록
+ * 반복 규칙을 만들 때 기준 날짜를 고정합니다. 날짜는 getNextOccurrence와 같이 사용자 타임존 기준입니다.
+ *
+ * @param {TodoRecurrence | null | undefined} rule - 반복 규칙
+ * @param {string | null | undefined} dueDate - 첫 마감 시각
+ * @param {string} timeZone - 사용자 타임존
+ * @returns {TodoRecurrence | null} 기준 날짜를 채운 반복 규칙
+ */
+export const anchorRecurrence = (
+  rule: TodoRecurrence | null | undefined,
+  dueDate: string | null | undefined,
+  timeZone: string
+): TodoRecurrence | null => {
+  if (!rule) {
+    return null;
+  }
+
+  if (
+    rule.frequency !== "monthly" ||
+    rule.month_day ||
+    !dueDate ||
+    Number.isNaN(new Date(dueDate).getTime())
+  ) {
+    return rule;
+  }
+
+  const [, , day] = toLocalDateKey(dueDate, timeZone).split("-").map(Number);
+  return { ...rule, month_day: day };
+};
+
+/**
+ * 반복 할 일이 완료되었을 때 다음 할 일의 마감 시각을 계산합니다.
+ * 반복이 끝났으면(종료일 또는 횟수 초과) null을 반환합니다.
+ *
+ * @param {string} dueDate - 현재 할 일의 마감 시각 (ISO 문자열)
+ * @param {TodoRecurrence} rule - 반복 규칙
+ * @param {number} index - 현재 할 일의 반복 순번 (1부터 시작)
+ * @param {string} timeZone - 사용자 타임존 (요일/날짜 계산 기준)
+ * @returns {Date | null} 다음 마감 시각
+ */
+export const getNextOccurrence = (
+  dueDate: string,
+  rule: TodoRecurrence,
+  index: number,
+  timeZone: string
+): Date | null => {
+  if (rule.count && index >= rule.count) {
+    return null;
+  }
+
+  const dateKey = toLocalDateKey(dueDate, timeZone);
+  const timeKey = toLocalTimeKey(dueDate, timeZone);
+  const nextDateKey = getNextDateKey(dateKey, rule);
+
+  if (rule.until && nextDateKey > rule.until) {
+    return null;
+  }
+
+  return zonedDateTimeToUtc(nextDateKey, timeKey, timeZone);
+};
+
+/**
+ * 반복 규칙을 사람이 읽을 수 있는 한글 문구로 변환합니다.
+ * 예: "매주 월, 수 (10회)", "3일마다 (2026-12-31까지)"
+ */
+export const describeRecurrence = (rule: TodoRecurrence): string => {
+  const interval = Math.max(1, rule.interval || 1);
+  let text: string;
+
+  if (rule.frequency === "weekly") {
+    const days = [...(rule.weekdays || [])]
+      .sort((a, b) => a - b)
+      .map((weekday) => WEEKDAY_LABELS[weekday])
+      .join(", ");
+    text = `${interval === 1 ? "매주" : `${interval}주마다`}${days ? ` ${days}` : ""}`;
+  } else if (rule.frequency === "monthly") {
+    const day = rule.month_day ? ` ${rule.month_day}일` : "";
+    text = `${interval === 1 ? "매월" : `${interval}개월마다`}${day}`;
+  } else {
+    text = interval === 1 ? "매일" : `${interval}일마다`;
+  }
+
+  if (rule.until) {
+    text += ` (${rule.until}까지)`;
+  } else if (rule.count) {
+    text += ` (${rule.count}회)`;
+  }
+
+  return text;
+};
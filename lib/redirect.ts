@@ -0,0 +1,32 @@
+/**
+ * 경로 검사에 사용하는 임시 기준 주소 (같은 출처로 해석되는지만 확인)
+ */
+const BASE_URL = "http://localhost";
+
+/**
+ * 리다이렉트 대상 경로가 같은 사이트 내부 경로인지 확인하고, 안전한 경로를 반환합니다.
+ * 외부 사이트로의 오픈 리다이렉트를 방지하기 위해 내부 경로가 아니면 "/"를 반환합니다.
+ * - "//evil.com"처럼 프로토콜 상대 주소는 거부합니다.
+ * - 브라우저가 "/"로 바꿔 해석하는 백슬래시("/\evil.com")나 제어 문자가 포함되면 거부합니다.
+ * - 그 외에도 기준 주소와 다른 출처로 해석되면 거부하고, 경로·쿼리·해시만 반환합니다.
+ */
+export const getSafeNextPath = (next: string | null | undefined): string => {
+  if (
+    !next ||
+    !next.startsWith("/") ||
+    next.startsWith("//") ||
+    /[\\\u0000-\u001f\u007f]/.test(next)
+  ) {
+    return "/";
+  }
+
+  try {
+    const url = new URL(next, BASE_URL);
+    if (url.origin !== BASE_URL) {
+      return "/";
+    }
+    return `${url.pathname}${url.search}${url.hash}`;
+  } catch {
+    return "/";
+  }
+};
@@ -0,0 +1,260 @@
+import type { EmailMessage, EmailSender } from "@/lib/email";
+import {
+  MAX_REMINDER_OFFSET,
+  REMINDER_LATE_LIMIT,
+  describeReminder,
+  findDueReminders,
+  getReminderKey,
+  type DueReminder,
+} from "@/lib/reminder";
+import type { createAdminClient } from "@/lib/supabase/admin";
+import { isWebPushEnabled, sendPushNotification } from "@/lib/web-push";
+import type { PushPayload, PushSubscriptionRecord, ReminderRunResult } from "@/types/notification";
+import type { Todo } from "@/types/todo";
+
+/**
+ * 서비스 역할 Supabase 클라이언트 타입
+ */
+type SupabaseAdminClient = ReturnType<typeof createAdminClient>;
+
+/**
+ * 마감 알림 발송 옵션 타입
+ */
+interface DeliverRemindersOptions {
+  /** 이메일 발송 어댑터 (테스트에서는 stub 어댑터 사용) */
+  emailSender: EmailSender;
+  /** 푸시 알림 전송 함수 (테스트에서 대체) */
+  sendPush?: typeof sendPushNotification;
+  /** 기준 시각 */
+  now?: Date;
+}
+
+/**
+ * 사이트 주소 (알림 이메일의 링크용)
+ */
+const getSiteUrl = () => process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000";
+
+/**
+ * 마감 알림 이메일을 만듭니다.
+ */
+const buildReminderEmail = (to: string, payload: PushPayload): EmailMessage => ({
+  to,
+  subject: payload.title,
+  text: [
+    payload.body,
+    "",
+    `할 일 확인하기: ${getSiteUrl()}${payload.url}`,
+    "",
+    `알림 수신 설정은 ${getSiteUrl()}/settings#notifications 에서 변경할 수 있습니다.`,
+  ].join("\n"),
+});
+
+/**
+ * 워크스페이스 할 일의 알림 중 받는 사람이 지금도 그 워크스페이스 멤버인 것만 남깁니다.
+ * service role은 RLS를 우회하므로, 나간 멤버에게 워크스페이스 할 일 내용이 전달되지 않도록 직접 확인합니다.
+ */
+const filterCurrentMembers = async (
+  supabase: SupabaseAdminClient,
+  reminders: DueReminder[]
+): Promise<DueReminder[]> => {
+  const workspaceIds = [
+    ...new Set(
+      reminders
+        .map((reminder) => reminder.todo.workspace_id)
+        .filter((id): id is string => !!id)
+    ),
+  ];
+
+  if (workspaceIds.length === 0) {
+    return reminders;
+  }
+
+  const { data: members, error } = await supabase
+    .from("workspace_members")
+    .select("workspace_id, user_id")
+    .in("workspace_id", workspaceIds)
+    .in("user_id", [...new Set(reminders.map((reminder) => reminder.user_id))]);
+
+  if (error) {
+    throw error;
+  }
+
+  const memberKeys = new Set(
+    (members || []).map((member) => `${member.workspace_id}:${member.user_id}`)
+  );
+
+  return reminders.filter(
+    (reminder) =>
+      !reminder.todo.workspace_id ||
+      memberKeys.has(`${reminder.todo.workspace_id}:${reminder.user_id}`)
+  );
+};
+
+/**
+ * 지금 보내야 할 마감 알림을 찾아 웹 푸시와 이메일로 보냅니다.
+ *
+ * 보내기 전에 reminder_deliveries에 기록(선점)하므로 작업이 겹쳐 실행되어도 같은 알림을 두 번 보내지 않습니다.
+ * 알림은 담당자(없으면 작성자)에게 보내며(워크스페이스 할 일은 현재 멤버에게만), 만료된 푸시 구독은 삭제합니다.
+ */
+export const deliverDueReminders = async (
+  supabase: SupabaseAdminClient,
+  { emailSender, sendPush = sendPushNotification, now = new Date() }: DeliverRemindersOptions
+): Promise<ReminderRunResult> => {
+  const result: ReminderRunResult = {
+    reminders: 0,
+    push_sent: 0,
+    email_sent: 0,
+    expired_subscriptions: 0,
+    failures: 0,
+  };
+
+  // 마감이 조금 지났거나 가장 이른 알림 시점 안에 있는 미완료 할 일만 조회
+  const { data: todos, error: todosError } = await supabase
+    .from("todos")
+    .select("*")
+    .eq("completed", false)
+    .neq("reminder_offsets", "{}")
+    .gte("due_date", new Date(now.getTime() - REMINDER_LATE_LIMIT * 60 * 1000).toISOString())
+    .lte("due_date", new Date(now.getTime() + MAX_REMINDER_OFFSET * 60 * 1000).toISOString());
+
+  if (todosError) {
+    throw todosError;
+  }
+
+  if (!todos || todos.length === 0) {
+    return result;
+  }
+
+  const { data: deliveries, error: deliveriesError } = await supabase
+    .from("reminder_deliveries")
+    .select("todo_id, offset_minutes, due_date")
+    .in(
+      "todo_id",
+      todos.map((todo: Todo) => todo.id)
+    );
+
+  if (deliveriesError) {
+    throw deliveriesError;
+  }
+
+  const deliveredKeys = new Set<string>(
+    (deliveries || []).map((delivery) =>
+      getReminderKey(delivery.todo_id, delivery.offset_minutes, delivery.due_date)
+    )
+  );
+  const dueReminders = await filterCurrentMembers(
+    supabase,
+    findDueReminders(todos as Todo[], deliveredKeys, now)
+  );
+
+  if (dueReminders.length === 0) {
+    return result;
+  }
+
+  // 발송 기록을 먼저 남겨 다른 작업이 이미 선점한 알림은 건너뜁니다.
+  const { data: claimed, error: claimError } = await supabase
+    .from("reminder_deliveries")
+    .upsert(
+      dueReminders.map((reminder) => ({
+        todo_id: reminder.todo.id,
+        offset_minutes: reminder.offset_minutes,
+        due_date: reminder.todo.due_date,
+        user_id: reminder.user_id,
+      })),
+      { onConflict: "todo_id,offset_minutes,due_date", ignoreDuplicates: true }
+    )
+    .select("todo_id, offset_minutes");
+
+  if (claimError) {
+    throw claimError;
+  }
+
+  const claimedKeys = new Set(
+    (claimed || []).map((row) => `${row.todo_id}:${row.offset_minutes}`)
+  );
+  const reminders = dueReminders.filter((reminder) =>
+    claimedKeys.has(`${reminder.todo.id}:${reminder.offset_minutes}`)
+  );
+  const userIds = [...new Set(reminders.map((reminder) => reminder.user_id))];
+
+  if (userIds.length === 0) {
+    return result;
+  }
+
+  const [usersResult, subscriptionsResult] = await Promise.all([
+    supabase.from("users").select("id, email, email_reminders").in("id", userIds),
+    isWebPushEnabled()
+      ? supabase
+          .from("push_subscriptions")
+          .select("id, user_id, endpoint, p256dh, auth")
+          .in("user_id", userIds)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+
+  if (usersResult.error) {
+    throw usersResult.error;
+  }
+  if (subscriptionsResult.error) {
+    throw subscriptionsResult.error;
+  }
+
+  const users: { id: string; email: string; email_reminders: boolean }[] = usersResult.data || [];
+  const subscriptions: Pick<
+    PushSubscriptionRecord,
+    "id" | "user_id" | "endpoint" | "p256dh" | "auth"
+  >[] = subscriptionsResult.data || [];
+  const expiredIds: string[] = [];
+
+  for (const reminder of reminders) {
+    const payload: PushPayload = {
+      title: `마감 알림: ${reminder.todo.title}`,
+      body: describeReminder(reminder.todo, now),
+      url: "/",
+      tag: `todo-${reminder.todo.id}`,
+    };
+    result.reminders += 1;
+
+    for (const subscription of subscriptions) {
+      if (subscription.user_id !== reminder.user_id || expiredIds.includes(subscription.id)) {
+        continue;
+      }
+
+      try {
+        if ((await sendPush(subscription, payload)) === "expired") {
+          expiredIds.push(subscription.id);
+        } else {
+          result.push_sent += 1;
+        }
+      } catch (error) {
+        console.error("푸시 알림 발송 실패:", error);
+        result.failures += 1;
+      }
+    }
+
+    const user = users.find((item) => item.id === reminder.user_id);
+
+    if (user?.email && user.email_reminders) {
+      try {
+        await emailSender.send(buildReminderEmail(user.email, payload));
+        result.email_sent += 1;
+      } catch (error) {
+        console.error("알림 이메일 발송 실패:", error);
+        result.failures += 1;
+      }
+    }
+  }
+
+  if (expiredIds.length > 0) {
+    const { error: deleteError } = await supabase
+      .from("push_subscriptions")
+      .delete()
+      .in("id", expiredIds);
+
+    if (deleteError) {
+      throw deleteError;
+    }
+    result.expired_subscriptions = expiredIds.length;
+  }
+
+  return result;
+};
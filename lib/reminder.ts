@@ -0,0 +1,130 @@
+import { formatMinutes } from "@/lib/duration";
+import type { Todo } from "@/types/todo";
+
+/**
+ * 선택할 수 있는 마감 알림 시점 (마감일 몇 분 전)
+ */
+export const REMINDER_OFFSET_OPTIONS: { value: number; label: string }[] = [
+  { value: 0, label: "마감 시각" },
+  { value: 10, label: "10분 전" },
+  { value: 30, label: "30분 전" },
+  { value: 60, label: "1시간 전" },
+  { value: 180, label: "3시간 전" },
+  { value: 1440, label: "1일 전" },
+  { value: 2880, label: "2일 전" },
+  { value: 10080, label: "1주 전" },
+];
+
+/**
+ * 가장 이른 알림 시점 (7일 전, 분)
+ */
+export const MAX_REMINDER_OFFSET = 10080;
+
+/**
+ * 할 일 하나에 설정할 수 있는 최대 알림 수
+ */
+export const MAX_REMINDERS = 5;
+
+/**
+ * 알림 작업이 늦게 실행되어도 마감 후 이 시간(분)까지는 알림을 보냅니다.
+ */
+export const REMINDER_LATE_LIMIT = 30;
+
+/**
+ * 알림 시점을 "1시간 전" 형식의 한글 문자열로 변환합니다.
+ */
+export const formatReminderOffset = (minutes: number): string => {
+  const option = REMINDER_OFFSET_OPTIONS.find((item) => item.value === minutes);
+
+  if (option) {
+    return option.label;
+  }
+
+  return minutes % 1440 === 0 ? `${minutes / 1440}일 전` : `${formatMinutes(minutes)} 전`;
+};
+
+/**
+ * 알림 시점의 중복을 제거하고 이른 알림부터(큰 값부터) 정렬합니다.
+ */
+export const normalizeReminderOffsets = (offsets: number[] | null | undefined): number[] =>
+  [...new Set(offsets || [])].sort((a, b) => b - a);
+
+/**
+ * 지금 보내야 할 마감 알림 타입
+ */
+export interface DueReminder {
+  todo: Todo;
+  /** 알림 시점 (마감일 몇 분 전) */
+  offset_minutes: number;
+  /** 알림을 받을 사용자 ID (담당자, 없으면 작성자) */
+  user_id: string;
+}
+
+/**
+ * 알림 발송 기록의 키를 만듭니다. (마감일이 바뀌면 다른 키가 되어 다시 알림)
+ */
+export const getReminderKey = (todoId: string, offsetMinutes: number, dueDate: string) =>
+  `${todoId}:${offsetMinutes}:${new Date(dueDate).getTime()}`;
+
+/**
+ * 지금 보내야 할 마감 알림을 찾습니다.
+ *
+ * 할 일마다 이미 지난 알림 시점 중 가장 최근 것 하나만 보냅니다.
+ * (예: 마감 12시간 전에 "1일 전, 1시간 전" 알림을 설정하면 1일 전 알림은 건너뜁니다.)
+ * 마감 후 REMINDER_LATE_LIMIT분이 지났거나 이미 보낸 알림은 제외합니다.
+ *
+ * @param todos - 알림이 설정된 미완료 할 일 목록
+ * @param deliveredKeys - 이미 보낸 알림 키 (getReminderKey)
+ */
+export const findDueReminders = (
+  todos: Todo[],
+  deliveredKeys: Set<string>,
+  now: Date = new Date()
+): DueReminder[] =>
+  todos.flatMap((todo) => {
+    if (todo.completed || !todo.due_date || !todo.reminder_offsets?.length) {
+      return [];
+    }
+
+    const due = new Date(todo.due_date).getTime();
+
+    if (now.getTime() > due + REMINDER_LATE_LIMIT * 60 * 1000) {
+      return [];
+    }
+
+    const passed = todo.reminder_offsets.filter(
+      (offset) => due - offset * 60 * 1000 <= now.getTime()
+    );
+
+    if (passed.length === 0) {
+      return [];
+    }
+
+    const offset = Math.min(...passed);
+
+    if (deliveredKeys.has(getReminderKey(todo.id, offset, todo.due_date))) {
+      return [];
+    }
+
+    return [{ todo, offset_minutes: offset, user_id: todo.assignee_id || todo.user_id }];
+  });
+
+/**
+ * 알림 내용(남은 시간)을 만듭니다.
+ */
+export const describeReminder = (todo: Todo, now: Date = new Date()): string => {
+  const minutesLeft = Math.round(
+    (new Date(todo.due_date || now).getTime() - now.getTime()) / (60 * 1000)
+  );
+
+  if (minutesLeft <= 0) {
+    return `"${todo.title}" 할 일의 마감 시각이 되었습니다.`;
+  }
+
+  const remaining =
+    minutesLeft >= 1440
+      ? `${Math.round(minutesLeft / 1440)}일`
+      : formatMinutes(minutesLeft);
+
+  return `"${todo.title}" 할 일의 마감까지 ${remaining} 남았습니다.`;
+};
@@ -0,0 +1,36 @@
+/**
+ * 다른 앱에서 공유한 내용을 받을 경로 (manifest의 share_target)
+ */
+export const SHARE_TARGET_ACTION = "/";
+
+/**
+ * 공유 내용이 담기는 쿼리 파라미터 이름
+ */
+export const SHARE_TARGET_PARAMS = {
+  title: "share_title",
+  text: "share_text",
+  url: "share_url",
+} as const;
+
+/**
+ * 공유된 제목/본문/링크를 AI 입력에 넣을 한 덩어리의 텍스트로 합칩니다.
+ * 본문에 링크가 이미 포함된 경우(안드로이드 등)에는 링크를 한 번만 넣습니다.
+ *
+ * @returns 공유된 내용이 없으면 빈 문자열
+ */
+export const getSharedText = (
+  searchParams: { [key: string]: string | string[] | undefined }
+): string => {
+  const read = (name: string) => {
+    const value = searchParams[name];
+    return (typeof value === "string" ? value : "").trim();
+  };
+
+  const title = read(SHARE_TARGET_PARAMS.title);
+  const text = read(SHARE_TARGET_PARAMS.text);
+  const url = read(SHARE_TARGET_PARAMS.url);
+
+  return [title, text, url && !text.includes(url) ? url : ""]
+    .filter((part, index, parts) => part && parts.indexOf(part) === index)
+    .join("\n");
+};
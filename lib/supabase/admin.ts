@@ -0,0 +1,18 @@
+import { createClient } from "@supabase/supabase-js";
+
+/**
+ * 서비스 역할 키로 RLS를 우회하는 Supabase 클라이언트를 생성합니다.
+ * 로그인 세션이 없는 예약 작업(마감 알림 등)의 API Route에서만 사용하며,
+ * 클라이언트 컴포넌트에서 가져오면 안 됩니다.
+ */
+export const createAdminClient = () =>
+  createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    }
+  );
@@ -0,0 +1,31 @@
+/**
+ * 한 번에 조회할 행 수 (Supabase API의 기본 최대 행 수 1000개를 넘지 않도록 나눠 조회)
+ */
+export const PAGE_SIZE = 1000;
+
+/**
+ * 조회 결과를 끝까지 나눠 가져와 하나의 배열로 반환합니다.
+ * 한 번의 조회는 최대 행 수에서 경고 없이 잘리므로, 덜 찬 페이지가 나올 때까지 range로 이어서 조회합니다.
+ * 페이지 사이에 순서가 바뀌지 않도록 fetchPage의 조회에는 id 같은 고유한 정렬 기준을 포함해야 합니다.
+ *
+ * @param fetchPage - from~to(포함) 범위를 조회하는 함수
+ * @returns 모든 페이지의 행
+ */
+export const fetchAllRows = async <T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> => {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw error;
+    }
+
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) {
+      return rows;
+    }
+  }
+};
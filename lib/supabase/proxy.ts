@@ -0,0 +1,92 @@
+import { createServerClient } from "@supabase/ssr";
+import { NextResponse, type NextRequest } from "next/server";
+
+/**
+ * 로그인 없이 접근할 수 있는 경로 접두사 목록
+ */
+const PUBLIC_PATHS = ["/login", "/signup", "/forgot-password", "/auth"];
+
+/**
+ * 로그인한 사용자가 접근하면 메인으로 돌려보낼 경로 목록
+ */
+const AUTH_PAGES = ["/login", "/signup"];
+
+/**
+ * 경로가 주어진 접두사 목록 중 하나에 해당하는지 확인합니다.
+ */
+const matchesPath = (pathname: string, paths: string[]): boolean =>
+  paths.some((path) => pathname === path || pathname.startsWith(`${path}/`));
+
+/**
+ * 요청마다 Supabase 세션을 갱신하고, 인증 상태에 따라 페이지 접근을 제어합니다.
+ * 프록시(proxy.ts)에서 호출합니다.
+ */
+export const updateSession = async (request: NextRequest) => {
+  let supabaseResponse = NextResponse.next({ request });
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_PUBLISHABLE_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return request.cookies.getAll();
+        },
+        setAll(cookiesToSet) {
+          // 갱신된 세션 쿠키를 요청과 응답 양쪽에 반영합니다.
+          cookiesToSet.forEach(({ name, value }) =>
+            request.cookies.set(name, value)
+          );
+          supabaseResponse = NextResponse.next({ request });
+          cookiesToSet.forEach(({ name, value, options }) =>
+            supabaseResponse.cookies.set(name, value, options)
+          );
+        },
+      },
+    }
+  );
+
+  // getUser()가 만료된 토큰을 갱신합니다. 이 호출과 createServerClient 사이에 다른 로직을 두지 않습니다.
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const { pathname, search } = request.nextUrl;
+
+  // API Route는 자체적으로 401을 반환하므로 세션 갱신만 수행합니다.
+  if (pathname.startsWith("/api")) {
+    return supabaseResponse;
+  }
+
+  /**
+   * 세션 쿠키를 유지한 채로 지정한 경로로 리다이렉트합니다.
+   */
+  const redirectTo = (url: URL) => {
+    const response = NextResponse.redirect(url);
+    supabaseResponse.cookies.getAll().forEach((cookie) =>
+      response.cookies.set(cookie)
+    );
+    return response;
+  };
+
+  if (!user && !matchesPath(pathname, PUBLIC_PATHS)) {
+    // 로그인하지 않은 사용자는 원래 경로(공유된 내용 등 쿼리 포함)를 기억한 채 로그인 페이지로 이동
+    const url = request.nextUrl.clone();
+    url.pathname = "/login";
+    url.search = "";
+    if (pathname !== "/" || search) {
+      url.searchParams.set("next", `${pathname}${search}`);
+    }
+    return redirectTo(url);
+  }
+
+  if (user && matchesPath(pathname, AUTH_PAGES)) {
+    // 이미 로그인한 사용자는 메인 페이지로 이동
+    const url = request.nextUrl.clone();
+    url.pathname = "/";
+    url.search = "";
+    return redirectTo(url);
+  }
+
+  return supabaseResponse;
+};
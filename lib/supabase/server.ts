@@ -23,8 +23,8 @@ export const createClient = async () => {
             );
           } catch {
             // The `setAll` method was called from a Server Component.
-            // This can be ignored if you have middleware refreshing
-            // user sessions.
+            // This can be ignored because proxy.ts refreshes
+            // user sessions on every request.
           }
         },
       },
@@ -0,0 +1,115 @@
+/**
+ * 타임존 기준 날짜 계산 유틸리티입니다.
+ * 서버(UTC)에서 사용자 로컬 타임존 기준의 날짜 경계를 계산할 때 사용합니다.
+ */
+
+/**
+ * 기본 타임존 (클라이언트가 타임존을 보내지 않은 경우 사용)
+ */
+export const DEFAULT_TIME_ZONE = "Asia/Seoul";
+
+/**
+ * 주어진 문자열이 유효한 IANA 타임존인지 확인합니다.
+ */
+export const isValidTimeZone = (timeZone: unknown): timeZone is string => {
+  if (typeof timeZone !== "string" || timeZone.trim().length === 0) {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * 날짜를 지정한 타임존 기준의 "YYYY-MM-DD" 문자열로 변환합니다.
+ */
+export const toLocalDateKey = (date: Date | string, timeZone: string): string => {
+  const value = typeof date === "string" ? new Date(date) : date;
+  // en-CA 로케일은 YYYY-MM-DD 형식으로 출력합니다.
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(value);
+};
+
+/**
+ * "YYYY-MM-DD" 문자열에 일 수를 더한 날짜 문자열을 반환합니다.
+ */
+export const addDaysToDateKey = (dateKey: string, days: number): string => {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * "YYYY-MM-DD" 문자열이 속한 주의 월요일 날짜 문자열을 반환합니다.
+ */
+export const getWeekStartKey = (dateKey: string): string => {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  // 일요일(0)은 주의 마지막 날로 취급합니다.
+  const offset = weekday === 0 ? -6 : 1 - weekday;
+  return addDaysToDateKey(dateKey, offset);
+};
+
+/**
+ * 날짜를 지정한 타임존 기준의 "HH:MM" 문자열로 변환합니다.
+ */
+export const toLocalTimeKey = (date: Date | string, timeZone: string): string => {
+  const value = typeof date === "string" ? new Date(date) : date;
+  return new Intl.DateTimeFormat("en-GB", {
+    timeZone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).format(value);
+};
+
+/**
+ * 특정 시각에서 타임존의 UTC 오프셋(밀리초)을 계산합니다.
+ */
+const getTimeZoneOffset = (date: Date, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+  const asUtc = Date.UTC(
+    get("year"),
+    get("month") - 1,
+    get("day"),
+    get("hour"),
+    get("minute"),
+    get("second")
+  );
+  return asUtc - (date.getTime() - date.getMilliseconds());
+};
+
+/**
+ * 타임존 기준의 날짜("YYYY-MM-DD")와 시각("HH:MM")을 UTC 시각으로 변환합니다.
+ */
+export const zonedDateTimeToUtc = (
+  dateKey: string,
+  timeKey: string,
+  timeZone: string
+): Date => {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  const [hour, minute] = timeKey.split(":").map(Number);
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  // 서머타임 경계를 고려해 오프셋을 한 번 더 보정합니다.
+  const firstOffset = getTimeZoneOffset(new Date(guess), timeZone);
+  const secondOffset = getTimeZoneOffset(new Date(guess - firstOffset), timeZone);
+  return new Date(guess - secondOffset);
+};
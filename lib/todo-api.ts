@@ -0,0 +1,189 @@
+import { request } from "@/lib/api-client";
+import { TODO_VERSION_HEADER } from "@/lib/todo-conflict";
+import { MAX_BULK_CREATE } from "@/lib/todo-input";
+import type { Todo, TodoInput, TodoItem } from "@/types/todo";
+
+/**
+ * 사용자 타임존 (반복 할 일의 다음 날짜와 매월 반복 기준 날짜 계산용)
+ */
+const getTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+/**
+ * 충돌 검사용 버전 헤더를 만듭니다.
+ * 버전(알고 있던 updated_at)이 없으면 충돌 검사 없이 요청합니다.
+ */
+const getVersionHeaders = (version?: string | null): HeadersInit | undefined =>
+  version ? { [TODO_VERSION_HEADER]: version } : undefined;
+
+/**
+ * 로그인한 사용자의 할 일 목록을 조회합니다.
+ * 워크스페이스 ID를 넘기면 해당 워크스페이스의 할 일을 조회합니다.
+ */
+export const listTodos = async (workspaceId?: string | null): Promise<Todo[]> => {
+  const { todos } = await request<{ todos: Todo[] }>(
+    workspaceId ? `/api/todos?workspace=${workspaceId}` : "/api/todos"
+  );
+  return todos;
+};
+
+/**
+ * 제목과 설명에서 할 일을 검색해 일치하는 할 일 ID 목록을 반환합니다. (구문 "...", 제외어 -단어 지원)
+ * 할 일 내용은 이미 불러온 목록에 있으므로 ID만 받습니다.
+ * 워크스페이스 ID를 넘기면 해당 워크스페이스의 할 일에서 검색합니다.
+ */
+export const searchTodos = async (
+  query: string,
+  workspaceId?: string | null
+): Promise<string[]> => {
+  const params = new URLSearchParams({ q: query, fields: "id" });
+  if (workspaceId) {
+    params.set("workspace", workspaceId);
+  }
+
+  const { ids } = await request<{ ids: string[] }>(`/api/todos?${params}`);
+  return ids;
+};
+
+/**
+ * 할 일을 생성합니다.
+ */
+export const createTodo = async (input: TodoInput): Promise<Todo> => {
+  const { todo } = await request<{ todo: Todo }>("/api/todos", {
+    method: "POST",
+    body: JSON.stringify({ ...input, timeZone: getTimeZone() }),
+  });
+  return todo;
+};
+
+/**
+ * 여러 할 일을 한 번에 생성합니다.
+ * 서버가 한 요청에 받는 개수(MAX_BULK_CREATE)를 넘으면 나눠서 보냅니다.
+ */
+export const createTodos = async (inputs: TodoInput[]): Promise<Todo[]> => {
+  const created: Todo[] = [];
+
+  for (let i = 0; i < inputs.length; i += MAX_BULK_CREATE) {
+    const params = new URLSearchParams({ timeZone: getTimeZone() });
+    const { todos } = await request<{ todos: Todo[] }>(`/api/todos?${params}`, {
+      method: "POST",
+      body: JSON.stringify(inputs.slice(i, i + MAX_BULK_CREATE)),
+    });
+    created.push(...todos);
+  }
+
+  return created;
+};
+
+/**
+ * 할 일을 수정합니다.
+ * 버전을 넘기면 그 이후에 다른 곳에서 수정된 경우 409 오류가 발생합니다.
+ */
+export const updateTodo = async (
+  id: string,
+  input: Partial<TodoInput>,
+  version?: string | null
+): Promise<Todo> => {
+  const { todo } = await request<{ todo: Todo }>(`/api/todos/${id}`, {
+    method: "PATCH",
+    body: JSON.stringify({ ...input, timeZone: getTimeZone() }),
+    headers: getVersionHeaders(version),
+  });
+  return todo;
+};
+
+/**
+ * 할 일을 삭제합니다.
+ * 버전을 넘기면 그 이후에 다른 곳에서 수정된 경우 409 오류가 발생합니다.
+ */
+export const deleteTodo = async (id: string, version?: string | null): Promise<void> => {
+  await request<{ id: string }>(`/api/todos/${id}`, {
+    method: "DELETE",
+    headers: getVersionHeaders(version),
+  });
+};
+
+/**
+ * 할 일 완료 토글 결과 타입
+ */
+export interface ToggleTodoResult {
+  /** 상태가 변경된 할 일 */
+  todo: Todo;
+  /** 반복 할 일을 완료해 새로 생성된 다음 할 일 */
+  next_todo: Todo | null;
+}
+
+/**
+ * 할 일의 완료 상태를 토글합니다.
+ * 반복 할 일을 완료하면 사용자 타임존 기준으로 다음 할 일이 생성됩니다.
+ * 버전을 넘기면 그 이후에 다른 곳에서 수정된 경우 409 오류가 발생합니다.
+ */
+export const toggleTodo = async (
+  id: string,
+  version?: string | null
+): Promise<ToggleTodoResult> =>
+  request<ToggleTodoResult>(`/api/todos/${id}/toggle`, {
+    method: "POST",
+    body: JSON.stringify({ timeZone: getTimeZone() }),
+    headers: getVersionHeaders(version),
+  });
+
+/**
+ * 체크리스트 변경 결과 타입
+ * 자동 완료가 켜진 할 일의 완료 상태가 바뀌면 todo/next_todo가 함께 반환됩니다.
+ */
+export interface TodoItemChangeResult {
+  /** 완료 상태가 변경된 할 일 (변경이 없으면 null) */
+  todo: Todo | null;
+  /** 반복 할 일을 완료해 새로 생성된 다음 할 일 */
+  next_todo: Todo | null;
+}
+
+/**
+ * 체크리스트 자동 완료 설정을 변경합니다.
+ * 설정을 켤 때 모든 항목이 완료되어 있으면 할 일도 바로 완료됩니다.
+ */
+export const setTodoAutoComplete = async (
+  id: string,
+  autoComplete: boolean
+): Promise<{ todo: Todo; next_todo?: Todo | null }> =>
+  request(`/api/todos/${id}`, {
+    method: "PATCH",
+    body: JSON.stringify({ auto_complete: autoComplete, timeZone: getTimeZone() }),
+  });
+
+/**
+ * 할 일에 체크리스트 항목을 추가합니다.
+ */
+export const createTodoItem = async (
+  todoId: string,
+  title: string
+): Promise<TodoItemChangeResult & { item: TodoItem }> =>
+  request(`/api/todos/${todoId}/items`, {
+    method: "POST",
+    body: JSON.stringify({ title, timeZone: getTimeZone() }),
+  });
+
+/**
+ * 체크리스트 항목을 수정합니다.
+ */
+export const updateTodoItem = async (
+  todoId: string,
+  itemId: string,
+  changes: Partial<Pick<TodoItem, "title" | "completed" | "position">>
+): Promise<TodoItemChangeResult & { item: TodoItem }> =>
+  request(`/api/todos/${todoId}/items/${itemId}`, {
+    method: "PATCH",
+    body: JSON.stringify({ ...changes, timeZone: getTimeZone() }),
+  });
+
+/**
+ * 체크리스트 항목을 삭제합니다.
+ */
+export const deleteTodoItem = async (
+  todoId: string,
+  itemId: string
+): Promise<TodoItemChangeResult> =>
+  request(`/api/todos/${todoId}/items/${itemId}`, {
+    method: "DELETE",
+    body: JSON.stringify({ timeZone: getTimeZone() }),
+  });
@@ -0,0 +1,160 @@
+import type { createClient } from "@/lib/supabase/server";
+import { getNextOccurrence } from "@/lib/recurrence";
+import { TODO_SELECT } from "@/lib/todo-schema";
+import { getAccessFilter } from "@/lib/workspace-access";
+import type { Todo } from "@/types/todo";
+
+/**
+ * 서버용 Supabase 클라이언트 타입
+ */
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * 할 일 완료 처리 결과 타입
+ */
+export interface TodoCompletionResult {
+  /** 완료 상태가 변경된 할 일 (변경이 없으면 null) */
+  todo: Todo | null;
+  /** 반복 할 일을 완료해 새로 생성된 다음 할 일 */
+  next_todo: Todo | null;
+}
+
+/**
+ * 완료된 반복 할 일의 다음 할 일을 생성합니다.
+ * 체크리스트 항목은 미완료 상태로 함께 복사합니다.
+ * 이미 다음 할 일이 생성되어 있거나(완료 → 미완료 → 완료 반복) 반복이 끝났으면 null을 반환합니다.
+ */
+export const createNextOccurrence = async (
+  supabase: SupabaseServerClient,
+  todo: Todo,
+  userId: string,
+  timeZone: string
+): Promise<Todo | null> => {
+  if (!todo.recurrence || !todo.due_date) {
+    return null;
+  }
+
+  const { data: existing, error: existingError } = await supabase
+    .from("todos")
+    .select("id")
+    .eq("recurrence_parent_id", todo.id)
+    .limit(1);
+
+  if (existingError) {
+    throw existingError;
+  }
+
+  if (existing && existing.length > 0) {
+    return null;
+  }
+
+  const index = todo.recurrence_index || 1;
+  const nextDueDate = getNextOccurrence(todo.due_date, todo.recurrence, index, timeZone);
+
+  if (!nextDueDate) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from("todos")
+    .insert({
+      user_id: userId,
+      title: todo.title,
+      description: todo.description || null,
+      due_date: nextDueDate.toISOString(),
+      priority: todo.priority,
+      category: todo.category,
+      recurrence: todo.recurrence,
+      recurrence_index: index + 1,
+      recurrence_parent_id: todo.id,
+      auto_complete: todo.auto_complete ?? false,
+      reminder_offsets: todo.reminder_offsets || [],
+      project_id: todo.project_id || null,
+      workspace_id: todo.workspace_id || null,
+      assignee_id: todo.assignee_id || null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!todo.items || todo.items.length === 0) {
+    return { ...data, items: [] };
+  }
+
+  const { data: items, error: itemsError } = await supabase
+    .from("todo_items")
+    .insert(
+      todo.items.map((item) => ({
+        todo_id: data.id,
+        user_id: userId,
+        title: item.title,
+        position: item.position,
+      }))
+    )
+    .select()
+    .order("position", { ascending: true });
+
+  if (itemsError) {
+    throw itemsError;
+  }
+
+  return { ...data, items: items || [] };
+};
+
+/**
+ * 체크리스트 변경 후 할 일의 완료 상태를 동기화합니다.
+ * 자동 완료가 켜진 할 일만 대상이며, 모든 항목이 완료되면 할 일을 완료하고
+ * 미완료 항목이 생기면 다시 미완료로 되돌립니다.
+ */
+export const syncAutoCompletion = async (
+  supabase: SupabaseServerClient,
+  todoId: string,
+  userId: string,
+  timeZone: string
+): Promise<TodoCompletionResult> => {
+  const accessFilter = await getAccessFilter(supabase, userId, "edit");
+  const { data: current, error: fetchError } = await supabase
+    .from("todos")
+    .select(TODO_SELECT)
+    .eq("id", todoId)
+    .or(accessFilter)
+    .maybeSingle();
+
+  if (fetchError) {
+    throw fetchError;
+  }
+
+  const todo = current as Todo | null;
+  const items = todo?.items || [];
+
+  if (!todo || !todo.auto_complete || items.length === 0) {
+    return { todo: null, next_todo: null };
+  }
+
+  const allCompleted = items.every((item) => item.completed);
+
+  if (allCompleted === todo.completed) {
+    return { todo: null, next_todo: null };
+  }
+
+  const { data, error } = await supabase
+    .from("todos")
+    .update({ completed: allCompleted })
+    .eq("id", todoId)
+    .or(accessFilter)
+    .select(TODO_SELECT)
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  const nextTodo = allCompleted
+    ? await createNextOccurrence(supabase, todo, userId, timeZone)
+    : null;
+
+  return { todo: data as Todo, next_todo: nextTodo };
+};
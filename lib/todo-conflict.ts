@@ -0,0 +1,29 @@
+/**
+ * 충돌 검사에 사용할 요청 헤더 이름
+ * (오프라인에서 변경할 때 알고 있던 할 일의 updated_at 값을 담습니다.)
+ */
+export const TODO_VERSION_HEADER = "If-Match";
+
+/**
+ * 변경 충돌 응답 메시지
+ */
+export const TODO_CONFLICT_MESSAGE =
+  "다른 곳에서 먼저 수정된 할 일입니다. 최신 내용을 확인한 뒤 다시 시도해주세요.";
+
+/**
+ * 요청 헤더에서 클라이언트가 알고 있던 할 일의 updated_at 값을 읽습니다.
+ * 헤더가 없으면 충돌 검사를 하지 않습니다.
+ */
+export const getExpectedVersion = (request: Request): string | null =>
+  request.headers.get(TODO_VERSION_HEADER);
+
+/**
+ * 클라이언트가 알고 있던 버전 이후에 할 일이 수정되었는지 확인합니다.
+ * (updated_at은 schema.sql의 트리거가 수정할 때마다 갱신합니다.)
+ */
+export const hasVersionConflict = (
+  updatedAt: string | null | undefined,
+  expected: string | null
+): boolean =>
+  !!expected &&
+  (!updatedAt || new Date(updatedAt).getTime() !== new Date(expected).getTime());
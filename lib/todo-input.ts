@@ -0,0 +1,35 @@
+import type { ParsedTodo, TodoInput, TodoPriority } from "@/types/todo";
+
+/**
+ * 한 번의 요청으로 생성할 수 있는 최대 할 일 수
+ */
+export const MAX_BULK_CREATE = 100;
+
+/**
+ * 우선순위 표시 이름
+ */
+export const PRIORITY_LABELS: Record<TodoPriority, string> = {
+  high: "높음",
+  medium: "중간",
+  low: "낮음",
+};
+
+/**
+ * AI가 추출한 할 일을 폼 입력 데이터로 변환합니다.
+ * due_date와 due_time을 결합하여 datetime-local 형식(YYYY-MM-DDTHH:MM)으로 만듭니다.
+ */
+export const parsedTodoToInput = (parsed: ParsedTodo): TodoInput => {
+  let dueDateValue = "";
+  if (parsed.due_date) {
+    dueDateValue = `${parsed.due_date}T${parsed.due_time || "09:00"}`;
+  }
+
+  return {
+    title: parsed.title || "",
+    description: parsed.description || "",
+    due_date: dueDateValue,
+    priority: parsed.priority || "medium",
+    category: parsed.category || [],
+    recurrence: parsed.recurrence || null,
+  };
+};
@@ -0,0 +1,166 @@
+import type { createClient } from "@/lib/supabase/server";
+import { canEditWorkspace } from "@/lib/workspace";
+import { getScopeFilter, getWorkspaceRoles } from "@/lib/workspace-access";
+
+/**
+ * 서버용 Supabase 클라이언트 타입
+ */
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * 할 일이 저장될 공간과 연결 대상 ID
+ */
+export interface TodoLinks {
+  /** 저장될 워크스페이스 ID (없으면 개인 공간) */
+  workspace_id?: string | null;
+  /** 연결할 상위 할 일 ID */
+  parent_id?: string | null;
+  /** 지정할 프로젝트 ID */
+  project_id?: string | null;
+  /** 지정할 담당자 ID */
+  assignee_id?: string | null;
+}
+
+/**
+ * 할 일 연결 검증 실패 정보
+ */
+export interface TodoLinkError {
+  error: string;
+  status: number;
+}
+
+/**
+ * 중복과 빈 값을 제거한 ID 목록을 반환합니다.
+ */
+const uniqueIds = (ids: (string | null | undefined)[]): string[] => [
+  ...new Set(ids.filter((id): id is string => !!id)),
+];
+
+/**
+ * 주어진 ID가 모두 해당 공간의 행인지 확인합니다.
+ */
+const hasAllInScope = async (
+  supabase: SupabaseServerClient,
+  table: "todos" | "projects",
+  ids: string[],
+  scopeFilter: string
+): Promise<boolean> => {
+  if (ids.length === 0) {
+    return true;
+  }
+
+  const { data, error } = await supabase
+    .from(table)
+    .select("id")
+    .in("id", ids)
+    .or(scopeFilter);
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).length === ids.length;
+};
+
+/**
+ * 상위 할 일로 지정할 할 일이 모두 해당 공간에 있고, 그 자신은 다른 할 일의 하위가 아닌지 확인합니다.
+ * (하위 할 일은 한 단계만 허용해 상위 할 일이 순환하지 않도록 합니다.)
+ */
+const findParentError = async (
+  supabase: SupabaseServerClient,
+  parentIds: string[],
+  scopeFilter: string
+): Promise<TodoLinkError | null> => {
+  if (parentIds.length === 0) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from("todos")
+    .select("id, parent_id")
+    .in("id", parentIds)
+    .or(scopeFilter);
+
+  if (error) {
+    throw error;
+  }
+
+  if ((data || []).length !== parentIds.length) {
+    return { error: "상위 할 일을 찾을 수 없습니다.", status: 400 };
+  }
+
+  if ((data || []).some((parent) => parent.parent_id)) {
+    return { error: "하위 할 일은 다른 할 일의 상위 할 일이 될 수 없습니다.", status: 400 };
+  }
+
+  return null;
+};
+
+/**
+ * 할 일이 저장될 공간(개인/워크스페이스)의 편집 권한과
+ * 연결 대상(상위 할 일, 프로젝트, 담당자)이 같은 공간에 속하는지 확인합니다.
+ * (RLS는 행 단위 권한만 검사하므로 다른 공간의 항목에 연결되는 것을 막습니다.)
+ */
+export const validateTodoLinks = async (
+  supabase: SupabaseServerClient,
+  userId: string,
+  links: TodoLinks[]
+): Promise<TodoLinkError | null> => {
+  const workspaceIds = uniqueIds(links.map((link) => link.workspace_id));
+  const roles = workspaceIds.length > 0 ? await getWorkspaceRoles(supabase, userId) : null;
+
+  if (workspaceIds.some((workspaceId) => !canEditWorkspace(roles?.get(workspaceId)))) {
+    return { error: "이 워크스페이스의 할 일을 편집할 권한이 없습니다.", status: 403 };
+  }
+
+  const scopes = [null, ...workspaceIds];
+
+  for (const workspaceId of scopes) {
+    const scopedLinks = links.filter((link) => (link.workspace_id || null) === workspaceId);
+    if (scopedLinks.length === 0) {
+      continue;
+    }
+
+    const scopeFilter = getScopeFilter(workspaceId, userId);
+    const parentIds = uniqueIds(scopedLinks.map((link) => link.parent_id));
+    const projectIds = uniqueIds(scopedLinks.map((link) => link.project_id));
+    const assigneeIds = uniqueIds(scopedLinks.map((link) => link.assignee_id));
+
+    const parentError = await findParentError(supabase, parentIds, scopeFilter);
+    if (parentError) {
+      return parentError;
+    }
+
+    if (!(await hasAllInScope(supabase, "projects", projectIds, scopeFilter))) {
+      return { error: "프로젝트를 찾을 수 없습니다.", status: 400 };
+    }
+
+    if (assigneeIds.length === 0) {
+      continue;
+    }
+
+    // 개인 할 일은 본인만, 워크스페이스 할 일은 멤버만 담당자로 지정할 수 있습니다.
+    if (!workspaceId) {
+      if (assigneeIds.some((assigneeId) => assigneeId !== userId)) {
+        return { error: "개인 할 일의 담당자는 본인만 지정할 수 있습니다.", status: 400 };
+      }
+      continue;
+    }
+
+    const { data: members, error } = await supabase
+      .from("workspace_members")
+      .select("user_id")
+      .eq("workspace_id", workspaceId)
+      .in("user_id", assigneeIds);
+
+    if (error) {
+      throw error;
+    }
+
+    if ((members || []).length !== assigneeIds.length) {
+      return { error: "담당자는 워크스페이스 멤버만 지정할 수 있습니다.", status: 400 };
+    }
+  }
+
+  return null;
+};
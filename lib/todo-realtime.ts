@@ -0,0 +1,114 @@
+import type { Todo, TodoItem } from "@/types/todo";
+
+/**
+ * Realtime으로 수신한 테이블 변경 이벤트
+ * (RLS가 켜진 테이블의 삭제 이벤트에는 이전 행의 기본 키만 포함됩니다.)
+ */
+export interface RealtimeRowChange<T> {
+  eventType: "INSERT" | "UPDATE" | "DELETE";
+  new: Partial<T>;
+  old: Partial<T>;
+}
+
+/**
+ * 할 일이 현재 보고 있는 공간(개인/워크스페이스)에 속하는지 확인합니다.
+ */
+export const isTodoInScope = (
+  todo: Partial<Todo>,
+  workspaceId: string | null,
+  userId: string
+): boolean =>
+  workspaceId
+    ? todo.workspace_id === workspaceId
+    : !todo.workspace_id && todo.user_id === userId;
+
+/**
+ * 더 최근에 수정된 할 일을 반환합니다.
+ * 저장 응답보다 늦게 도착한 이전 변경 이벤트가 최신 값을 덮어쓰지 않도록 updated_at을 비교합니다.
+ */
+const pickNewer = (current: Todo, incoming: Todo): Todo => {
+  if (
+    current.updated_at &&
+    incoming.updated_at &&
+    new Date(incoming.updated_at) < new Date(current.updated_at)
+  ) {
+    return current;
+  }
+
+  // Realtime 행에는 체크리스트가 없으므로 기존 항목을 유지합니다.
+  return { ...incoming, items: incoming.items ?? current.items };
+};
+
+/**
+ * 할 일 목록에 서버에서 받은 할 일을 병합합니다.
+ * 이미 있는 할 일은 최신 값으로 교체하고, 새 할 일은 목록 앞에 추가합니다.
+ */
+export const mergeTodos = (todos: Todo[], incoming: Todo[]): Todo[] => {
+  const incomingById = new Map(incoming.map((todo) => [todo.id, todo]));
+  const merged = todos.map((todo) => {
+    const next = incomingById.get(todo.id);
+    if (!next) {
+      return todo;
+    }
+    incomingById.delete(todo.id);
+    return pickNewer(todo, next);
+  });
+  const added = [...incomingById.values()].map((todo) => ({
+    ...todo,
+    items: todo.items ?? [],
+  }));
+
+  return [...added, ...merged];
+};
+
+/**
+ * todos 테이블 변경 이벤트를 할 일 목록에 반영합니다.
+ * 다른 공간으로 옮겨진 할 일은 목록에서 제거합니다.
+ */
+export const applyTodoChange = (
+  todos: Todo[],
+  change: RealtimeRowChange<Todo>,
+  workspaceId: string | null,
+  userId: string
+): Todo[] => {
+  if (change.eventType === "DELETE") {
+    return todos.filter((todo) => todo.id !== change.old.id);
+  }
+
+  const row = change.new as Todo;
+
+  if (!isTodoInScope(row, workspaceId, userId)) {
+    return todos.filter((todo) => todo.id !== row.id);
+  }
+
+  return mergeTodos(todos, [row]);
+};
+
+/**
+ * todo_items 테이블 변경 이벤트를 해당 할 일의 체크리스트에 반영합니다.
+ * 목록에 없는 할 일의 항목 변경은 무시합니다.
+ */
+export const applyTodoItemChange = (
+  todos: Todo[],
+  change: RealtimeRowChange<TodoItem>
+): Todo[] => {
+  if (change.eventType === "DELETE") {
+    const itemId = change.old.id;
+    return todos.map((todo) =>
+      todo.items?.some((item) => item.id === itemId)
+        ? { ...todo, items: todo.items.filter((item) => item.id !== itemId) }
+        : todo
+    );
+  }
+
+  const row = change.new as TodoItem;
+
+  return todos.map((todo) => {
+    if (todo.id !== row.todo_id) {
+      return todo;
+    }
+
+    const items = [...(todo.items || []).filter((item) => item.id !== row.id), row];
+    return { ...todo, items: items.sort((a, b) => a.position - b.position) };
+  });
+};
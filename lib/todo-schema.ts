@@ -0,0 +1,217 @@
+import { z } from "zod";
+import { anchorRecurrence } from "@/lib/recurrence";
+import { MAX_REMINDER_OFFSET, MAX_REMINDERS, normalizeReminderOffsets } from "@/lib/reminder";
+import { DEFAULT_TIME_ZONE } from "@/lib/timezone";
+import type { TodoInput } from "@/types/todo";
+
+/**
+ * 체크리스트 항목을 포함해 할 일을 조회하는 select 구문
+ */
+export const TODO_SELECT = "*, items:todo_items(*)";
+
+/**
+ * 반복 규칙 검증 스키마입니다.
+ */
+export const todoRecurrenceSchema = z
+  .object({
+    frequency: z.enum(["daily", "weekly", "monthly"], {
+      message: "반복 주기 값이 올바르지 않습니다.",
+    }),
+    interval: z
+      .number({ message: "반복 간격은 숫자여야 합니다." })
+      .int("반복 간격은 정수여야 합니다.")
+      .min(1, "반복 간격은 1 이상이어야 합니다.")
+      .max(365, "반복 간격은 365 이하로 입력해주세요."),
+    weekdays: z
+      .array(z.number().int().min(0).max(6), { message: "반복 요일 값이 올바르지 않습니다." })
+      .nullable()
+      .optional(),
+    month_day: z
+      .number({ message: "반복 날짜는 숫자여야 합니다." })
+      .int()
+      .min(1, "반복 날짜는 1~31 사이여야 합니다.")
+      .max(31, "반복 날짜는 1~31 사이여야 합니다.")
+      .nullable()
+      .optional(),
+    until: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "반복 종료일 형식이 올바르지 않습니다.")
+      .nullable()
+      .optional(),
+    count: z
+      .number({ message: "반복 횟수는 숫자여야 합니다." })
+      .int()
+      .min(1, "반복 횟수는 1 이상이어야 합니다.")
+      .max(1000, "반복 횟수는 1000 이하로 입력해주세요.")
+      .nullable()
+      .optional(),
+  })
+  .refine(
+    (rule) => rule.frequency !== "weekly" || !rule.weekdays || rule.weekdays.length > 0,
+    "반복할 요일을 하나 이상 선택해주세요."
+  );
+
+/**
+ * 할 일 생성 입력 검증 스키마입니다.
+ * TodoInput 타입과 동일한 계약을 가지며, API Route에서 요청 본문을 검증할 때 사용합니다.
+ */
+export const todoInputSchema = z.object({
+  title: z
+    .string({ message: "제목은 문자열이어야 합니다." })
+    .trim()
+    .min(1, "제목을 입력해주세요.")
+    .max(200, "제목은 200자 이하로 입력해주세요."),
+  description: z
+    .string({ message: "설명은 문자열이어야 합니다." })
+    .max(5000, "설명은 5000자 이하로 입력해주세요.")
+    .optional(),
+  due_date: z
+    .string({ message: "마감일 형식이 올바르지 않습니다." })
+    .refine(
+      (value) => value === "" || !Number.isNaN(new Date(value).getTime()),
+      "마감일 형식이 올바르지 않습니다."
+    )
+    .optional(),
+  priority: z
+    .enum(["high", "medium", "low"], { message: "우선순위 값이 올바르지 않습니다." })
+    .optional(),
+  category: z
+    .array(
+      z
+        .string({ message: "카테고리 값이 올바르지 않습니다." })
+        .trim()
+        .min(1, "카테고리 값이 올바르지 않습니다.")
+        .max(20, "카테고리 이름은 20자 이하로 입력해주세요."),
+      { message: "카테고리 값이 올바르지 않습니다." }
+    )
+    .max(10, "카테고리는 최대 10개까지 지정할 수 있습니다.")
+    .optional(),
+  recurrence: todoRecurrenceSchema.nullable().optional(),
+  auto_complete: z.boolean({ message: "자동 완료 설정 값이 올바르지 않습니다." }).optional(),
+  parent_id: z.uuid({ message: "상위 할 일 ID 형식이 올바르지 않습니다." }).nullable().optional(),
+  estimated_minutes: z
+    .number({ message: "예상 소요 시간은 숫자여야 합니다." })
+    .int("예상 소요 시간은 분 단위 정수여야 합니다.")
+    .min(1, "예상 소요 시간은 1분 이상이어야 합니다.")
+    .max(10080, "예상 소요 시간은 7일(10080분) 이하로 입력해주세요.")
+    .nullable()
+    .optional(),
+  project_id: z.uuid({ message: "프로젝트 ID 형식이 올바르지 않습니다." }).nullable().optional(),
+  workspace_id: z
+    .uuid({ message: "워크스페이스 ID 형식이 올바르지 않습니다." })
+    .nullable()
+    .optional(),
+  assignee_id: z.uuid({ message: "담당자 ID 형식이 올바르지 않습니다." }).nullable().optional(),
+  reminder_offsets: z
+    .array(
+      z
+        .number({ message: "알림 시점은 숫자여야 합니다." })
+        .int("알림 시점은 분 단위 정수여야 합니다.")
+        .min(0, "알림 시점은 마감 시각 이전이어야 합니다.")
+        .max(MAX_REMINDER_OFFSET, "알림은 마감 7일 전까지만 설정할 수 있습니다."),
+      { message: "알림 시점 값이 올바르지 않습니다." }
+    )
+    .max(MAX_REMINDERS, `알림은 최대 ${MAX_REMINDERS}개까지 설정할 수 있습니다.`)
+    .optional(),
+}) satisfies z.ZodType<TodoInput>;
+
+/**
+ * 할 일 수정 입력 검증 스키마입니다. (모든 필드 선택)
+ */
+export const todoUpdateSchema = todoInputSchema.partial();
+
+/**
+ * 할 일 수정 입력 타입
+ */
+export type TodoUpdateInput = z.infer<typeof todoUpdateSchema>;
+
+/**
+ * 체크리스트 항목 생성 입력 검증 스키마입니다.
+ */
+export const todoItemInputSchema = z.object({
+  title: z
+    .string({ message: "항목 내용은 문자열이어야 합니다." })
+    .trim()
+    .min(1, "항목 내용을 입력해주세요.")
+    .max(200, "항목 내용은 200자 이하로 입력해주세요."),
+});
+
+/**
+ * 체크리스트 항목 수정 입력 검증 스키마입니다.
+ */
+export const todoItemUpdateSchema = todoItemInputSchema.partial().extend({
+  completed: z.boolean({ message: "완료 상태 값이 올바르지 않습니다." }).optional(),
+  position: z.number({ message: "순서 값이 올바르지 않습니다." }).int().min(0).optional(),
+});
+
+/**
+ * 체크리스트 항목 수정 입력 타입
+ */
+export type TodoItemUpdateInput = z.infer<typeof todoItemUpdateSchema>;
+
+/**
+ * 검증 오류에서 사용자에게 보여줄 첫 번째 메시지를 반환합니다.
+ */
+export const getValidationMessage = (error: z.ZodError): string =>
+  error.issues[0]?.message || "입력값이 올바르지 않습니다.";
+
+/**
+ * 할 일 입력을 todos 테이블에 저장할 행 데이터로 변환합니다.
+ * 비어 있는 선택 필드에는 기본값을 채우고, 매월 반복은 사용자 타임존 기준 마감일의 날짜를 기준 날짜로 고정합니다.
+ */
+export const toTodoRow = (input: TodoInput, timeZone: string = DEFAULT_TIME_ZONE) => ({
+  title: input.title,
+  description: input.description || null,
+  due_date: input.due_date || null,
+  priority: input.priority || "medium",
+  category: input.category || [],
+  recurrence: anchorRecurrence(input.recurrence, input.due_date, timeZone),
+  auto_complete: input.auto_complete ?? false,
+  parent_id: input.parent_id || null,
+  estimated_minutes: input.estimated_minutes || null,
+  project_id: input.project_id || null,
+  workspace_id: input.workspace_id || null,
+  assignee_id: input.assignee_id || null,
+  reminder_offsets: normalizeReminderOffsets(input.reminder_offsets),
+});
+
+/**
+ * 할 일 수정 입력을 todos 테이블에 반영할 부분 행 데이터로 변환합니다.
+ * 요청에 포함된 필드만 변경합니다.
+ * 매월 반복의 기준 날짜는 함께 보낸 마감일, 없으면 저장된 마감일(savedDueDate)로 채웁니다.
+ */
+export const toTodoUpdateRow = (
+  input: TodoUpdateInput,
+  {
+    timeZone = DEFAULT_TIME_ZONE,
+    savedDueDate,
+  }: { timeZone?: string; savedDueDate?: string | null } = {}
+) => {
+  const row: Partial<ReturnType<typeof toTodoRow>> = {};
+
+  if (input.title !== undefined) row.title = input.title;
+  if (input.description !== undefined) row.description = input.description || null;
+  if (input.due_date !== undefined) row.due_date = input.due_date || null;
+  if (input.priority !== undefined) row.priority = input.priority;
+  if (input.category !== undefined) row.category = input.category;
+  if (input.recurrence !== undefined) {
+    row.recurrence = anchorRecurrence(
+      input.recurrence,
+      input.due_date !== undefined ? input.due_date : savedDueDate,
+      timeZone
+    );
+  }
+  if (input.auto_complete !== undefined) row.auto_complete = input.auto_complete;
+  if (input.parent_id !== undefined) row.parent_id = input.parent_id || null;
+  if (input.estimated_minutes !== undefined) {
+    row.estimated_minutes = input.estimated_minutes || null;
+  }
+  if (input.project_id !== undefined) row.project_id = input.project_id || null;
+  if (input.workspace_id !== undefined) row.workspace_id = input.workspace_id || null;
+  if (input.assignee_id !== undefined) row.assignee_id = input.assignee_id || null;
+  if (input.reminder_offsets !== undefined) {
+    row.reminder_offsets = normalizeReminderOffsets(input.reminder_offsets);
+  }
+
+  return row;
+};
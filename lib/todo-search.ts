@@ -0,0 +1,446 @@
+import { addDays, format, isValid, parseISO } from "date-fns";
+import type {
+  TodoSearchDateOperator,
+  TodoSearchField,
+  TodoSearchFilter,
+  TodoSearchQuery,
+  TodoSearchState,
+  TodoSearchSuggestion,
+} from "@/types/search";
+import type { Todo, TodoStatus } from "@/types/todo";
+
+/**
+ * 검색어 최대 길이
+ */
+export const MAX_SEARCH_QUERY_LENGTH = 200;
+
+/**
+ * 검색어에 쓸 수 있는 최대 단어/구문/필터 수 (제외어 포함)
+ */
+const MAX_SEARCH_TERMS = 10;
+
+/**
+ * 자동 완성 항목 최대 개수
+ */
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * 필터 값 정의 (영문 값, 한글 별칭, 자동 완성 설명)
+ */
+interface SearchValueDefinition {
+  value: string;
+  aliases: string[];
+  description: string;
+}
+
+/**
+ * 검색창에서 쓸 수 있는 필터 필드 정의
+ * 필드 이름과 값은 영문 또는 한글 별칭으로 입력할 수 있습니다. (예: priority:high, 우선순위:높음)
+ * category 값은 사용자 카테고리에서, due 값은 날짜로도 입력합니다.
+ */
+const SEARCH_FIELDS: {
+  field: TodoSearchField;
+  aliases: string[];
+  description: string;
+  values: SearchValueDefinition[];
+}[] = [
+  {
+    field: "priority",
+    aliases: ["우선순위"],
+    description: "우선순위 (high, medium, low)",
+    values: [
+      { value: "high", aliases: ["높음"], description: "우선순위 높음" },
+      { value: "medium", aliases: ["중간"], description: "우선순위 중간" },
+      { value: "low", aliases: ["낮음"], description: "우선순위 낮음" },
+    ],
+  },
+  {
+    field: "category",
+    aliases: ["카테고리"],
+    description: "카테고리 이름",
+    values: [],
+  },
+  {
+    field: "is",
+    aliases: ["상태"],
+    description: "상태 (open, completed, overdue)",
+    values: [
+      { value: "open", aliases: ["진행중"], description: "진행 중인 할 일" },
+      { value: "completed", aliases: ["완료", "done"], description: "완료한 할 일" },
+      { value: "overdue", aliases: ["지연"], description: "마감일이 지난 미완료 할 일" },
+    ],
+  },
+  {
+    field: "due",
+    aliases: ["마감"],
+    description: "마감일 (today, <yyyy-MM-dd, none)",
+    values: [
+      { value: "today", aliases: ["오늘"], description: "오늘 마감" },
+      { value: "tomorrow", aliases: ["내일"], description: "내일 마감" },
+      { value: "<today", aliases: [], description: "마감일이 오늘 이전" },
+      { value: ">=today", aliases: [], description: "마감일이 오늘 이후" },
+      { value: "none", aliases: ["없음"], description: "마감일 없음" },
+    ],
+  },
+  {
+    field: "assignee",
+    aliases: ["담당자"],
+    description: "담당자 (me, none)",
+    values: [
+      { value: "me", aliases: ["나"], description: "나에게 할당" },
+      { value: "none", aliases: ["미지정"], description: "담당자 미지정" },
+    ],
+  },
+];
+
+/**
+ * 상태 선택 필터 값에 해당하는 is: 필터 값
+ */
+export const TODO_STATUS_SEARCH_STATES: Record<TodoStatus, TodoSearchState> = {
+  "진행 중": "open",
+  완료: "completed",
+  지연: "overdue",
+};
+
+/**
+ * due: 필터에서 쓸 수 있는 상대 날짜 (오늘 기준 일수)
+ */
+const DUE_KEYWORDS = new Map<string, number>([
+  ["today", 0],
+  ["오늘", 0],
+  ["tomorrow", 1],
+  ["내일", 1],
+  ["yesterday", -1],
+  ["어제", -1],
+]);
+
+/**
+ * 비교용으로 문자열을 정규화합니다.
+ * macOS 등에서 입력된 한글이 자모 단위(NFD)로 분리되어 있어도 같은 글자로 비교되도록 NFC로 합칩니다.
+ */
+export const normalizeSearchText = (text: string): string =>
+  text.normalize("NFC").toLowerCase();
+
+/**
+ * 필드 이름 또는 별칭으로 필드 정의를 찾습니다.
+ */
+const findSearchField = (name: string) =>
+  SEARCH_FIELDS.find((definition) => [definition.field, ...definition.aliases].includes(name));
+
+/**
+ * 값 또는 별칭으로 필터 값을 찾습니다.
+ */
+const findSearchValue = (values: SearchValueDefinition[], value: string) =>
+  values.find((definition) => [definition.value, ...definition.aliases].includes(value))?.value;
+
+/**
+ * due: 필터 값을 해석합니다. (today, <2026-11-01, >=내일, none 등)
+ * 날짜는 사용자 로컬 기준 yyyy-MM-dd로 바꾸며, 해석할 수 없으면 null을 반환합니다.
+ */
+const parseDueFilter = (value: string, negated: boolean, now: Date): TodoSearchFilter | null => {
+  const [, operator = "=", target] = value.match(/^(<=|>=|<|>|=)?(.*)$/) || [];
+
+  if (target === "none" || target === "없음") {
+    return operator === "=" ? { field: "due", operator: "=", value: null, negated } : null;
+  }
+
+  const offset = DUE_KEYWORDS.get(target);
+  const date =
+    offset !== undefined
+      ? format(addDays(now, offset), "yyyy-MM-dd")
+      : /^\d{4}-\d{2}-\d{2}$/.test(target) && isValid(parseISO(target))
+        ? target
+        : null;
+
+  return date
+    ? { field: "due", operator: operator as TodoSearchDateOperator, value: date, negated }
+    : null;
+};
+
+/**
+ * 필드:값 하나를 필터로 해석합니다. 값이 올바르지 않으면 null을 반환합니다.
+ */
+const parseSearchFilter = (
+  field: TodoSearchField,
+  value: string,
+  negated: boolean,
+  now: Date
+): TodoSearchFilter | null => {
+  const definition = SEARCH_FIELDS.find((item) => item.field === field)!;
+
+  switch (field) {
+    case "priority": {
+      const priority = findSearchValue(definition.values, value);
+      return priority ? { field, value: priority as "high" | "medium" | "low", negated } : null;
+    }
+    case "category":
+      return { field, value, negated };
+    case "is": {
+      const state = findSearchValue(definition.values, value);
+      return state ? { field, value: state as TodoSearchState, negated } : null;
+    }
+    case "due":
+      return parseDueFilter(value, negated, now);
+    case "assignee": {
+      const assignee = findSearchValue(definition.values, value);
+      return assignee ? { field, value: assignee as "me" | "none", negated } : null;
+    }
+  }
+};
+
+/**
+ * 검색어를 단어, 구문, 제외어, 필터로 해석합니다.
+ * - 공백으로 구분한 단어는 모두 포함되어야 합니다. (AND)
+ * - "큰따옴표"로 감싼 구문은 공백을 포함해 그대로 찾습니다.
+ * - 필드:값은 필터입니다. (priority:high category:업무 due:<2026-11-01 is:overdue)
+ * - 앞에 -를 붙인 단어/구문/필터는 반대 조건입니다. (-취소, -is:completed)
+ * 한국어는 조사가 붙은 형태("회의를")도 찾을 수 있도록 부분 문자열로 비교합니다.
+ * 알 수 없는 필드 이름(예: 10:30, https://...)은 일반 단어로 검색합니다.
+ *
+ * @param query - 검색창에 입력한 검색어
+ * @param now - 상대 날짜(today 등)의 기준 시각
+ */
+export const parseSearchQuery = (query: string, now: Date = new Date()): TodoSearchQuery => {
+  const search: TodoSearchQuery = { terms: [], excluded: [], filters: [], invalid: [] };
+  const text = normalizeSearchText(query.slice(0, MAX_SEARCH_QUERY_LENGTH));
+  const pattern = /(-?)(?:([^\s:"]+):(?:"([^"]*)"?|(\S*))|"([^"]*)"?|(\S+))/g;
+
+  for (const match of text.matchAll(pattern)) {
+    const [raw, minus, fieldName, quotedValue, fieldValue, phrase, word] = match;
+    const negated = minus === "-";
+
+    if (search.terms.length + search.excluded.length + search.filters.length >= MAX_SEARCH_TERMS) {
+      break;
+    }
+
+    const definition = fieldName ? findSearchField(fieldName) : undefined;
+
+    if (definition) {
+      const value = (quotedValue ?? fieldValue).replace(/\s+/g, " ").trim();
+      if (!value) {
+        continue; // 값을 입력하는 중
+      }
+
+      const filter = parseSearchFilter(definition.field, value, negated, now);
+      if (filter) {
+        search.filters.push(filter);
+      } else if (!search.invalid.includes(raw)) {
+        search.invalid.push(raw);
+      }
+      continue;
+    }
+
+    const value = (
+      fieldName ? `${fieldName}:${quotedValue ?? fieldValue}` : (phrase ?? word)
+    )
+      .replace(/\s+/g, " ")
+      .trim();
+    const list = negated ? search.excluded : search.terms;
+
+    if (!value || value === "-" || list.includes(value)) {
+      continue;
+    }
+
+    list.push(value);
+  }
+
+  return search;
+};
+
+/**
+ * 해석한 검색어에 제목/설명 검색 조건(단어, 구문, 제외어)이 있는지 확인합니다.
+ */
+export const hasSearchText = (search: TodoSearchQuery): boolean =>
+  search.terms.length > 0 || search.excluded.length > 0;
+
+/**
+ * 해석한 검색어에서 제목/설명 검색 조건만 다시 검색어로 만듭니다. (서버 검색 요청용)
+ */
+export const formatSearchText = (search: TodoSearchQuery): string =>
+  [
+    ...search.terms.map((term) => `"${term}"`),
+    ...search.excluded.map((term) => `-"${term}"`),
+  ].join(" ");
+
+/**
+ * 할 일의 검색 대상 문자열입니다. (schema.sql의 todos.search_text와 같은 형식)
+ */
+const getSearchText = (todo: Pick<Todo, "title" | "description">): string =>
+  normalizeSearchText(`${todo.title}\n${todo.description || ""}`);
+
+/**
+ * 할 일이 검색어의 제목/설명 조건에 맞는지 확인합니다.
+ * 서버 검색과 같은 규칙이며, 서버 결과를 기다리는 동안이나 오프라인일 때 사용합니다.
+ */
+export const matchesSearchQuery = (
+  todo: Pick<Todo, "title" | "description">,
+  search: TodoSearchQuery
+): boolean => {
+  const text = getSearchText(todo);
+  return (
+    search.terms.every((term) => text.includes(term)) &&
+    !search.excluded.some((term) => text.includes(term))
+  );
+};
+
+/**
+ * 할 일이 필터 조건 하나에 맞는지 확인합니다. (반대 조건 여부는 제외)
+ */
+const matchesSearchFilter = (
+  todo: Todo,
+  filter: TodoSearchFilter,
+  { userId, now }: { userId: string | null; now: Date }
+): boolean => {
+  switch (filter.field) {
+    case "priority":
+      return todo.priority === filter.value;
+    case "category":
+      return !!todo.category?.some((name) => normalizeSearchText(name) === filter.value);
+    case "is": {
+      const isOverdue = !!todo.due_date && new Date(todo.due_date) < now;
+      if (filter.value === "completed") return todo.completed;
+      if (filter.value === "overdue") return !todo.completed && isOverdue;
+      return !todo.completed && !isOverdue;
+    }
+    case "due": {
+      if (!todo.due_date || !filter.value) {
+        return !todo.due_date && !filter.value;
+      }
+      const date = format(new Date(todo.due_date), "yyyy-MM-dd");
+      if (filter.operator === "<") return date < filter.value;
+      if (filter.operator === "<=") return date <= filter.value;
+      if (filter.operator === ">") return date > filter.value;
+      if (filter.operator === ">=") return date >= filter.value;
+      return date === filter.value;
+    }
+    case "assignee":
+      return filter.value === "me"
+        ? !!userId && todo.assignee_id === userId
+        : !todo.assignee_id;
+  }
+};
+
+/**
+ * 할 일이 모든 필터 조건에 맞는지 확인합니다.
+ * 검색창의 필터와 상태/우선순위/담당자 선택 필터가 같은 규칙으로 동작합니다.
+ */
+export const matchesSearchFilters = (
+  todo: Todo,
+  filters: TodoSearchFilter[],
+  context: { userId: string | null; now: Date }
+): boolean =>
+  filters.every((filter) => matchesSearchFilter(todo, filter, context) !== filter.negated);
+
+/**
+ * 검색어 끝에서 입력 중인 단어에 맞는 자동 완성 항목을 반환합니다.
+ * - 검색어가 비어 있으면 모든 필드를 보여줍니다.
+ * - 필드 이름을 입력 중이면 필드를, "필드:" 뒤를 입력 중이면 값을 제안합니다.
+ *
+ * @param query - 검색창에 입력한 검색어
+ * @param categories - category: 값으로 제안할 사용자 카테고리 이름
+ */
+export const getSearchSuggestions = (
+  query: string,
+  categories: string[] = []
+): TodoSearchSuggestion[] => {
+  if (!query.trim()) {
+    return SEARCH_FIELDS.map(({ field, description }) => ({
+      value: `${field}:`,
+      label: `${field}:`,
+      description,
+    }));
+  }
+
+  const token = query.match(/\S*$/)?.[0] || "";
+  const minus = token.startsWith("-") ? "-" : "";
+  const body = normalizeSearchText(token.slice(minus.length));
+  const colon = body.indexOf(":");
+
+  if (!body) {
+    return [];
+  }
+
+  // 필드 이름 입력 중
+  if (colon === -1) {
+    return SEARCH_FIELDS.filter(({ field, aliases }) =>
+      [field, ...aliases].some((name) => name.startsWith(body))
+    ).map(({ field, description }) => ({
+      value: `${minus}${field}:`,
+      label: `${minus}${field}:`,
+      description,
+    }));
+  }
+
+  // 필드 값 입력 중
+  const definition = findSearchField(body.slice(0, colon));
+  if (!definition) {
+    return [];
+  }
+
+  const partial = body.slice(colon + 1).replace(/^"/, "");
+  const values: SearchValueDefinition[] =
+    definition.field === "category"
+      ? categories.map((name) => ({
+          value: /\s/.test(name) ? `"${name}"` : name,
+          aliases: [normalizeSearchText(name)],
+          description: `${name} 카테고리`,
+        }))
+      : definition.values;
+
+  return values
+    .filter(
+      ({ value, aliases }) =>
+        value !== partial && [value, ...aliases].some((name) => name.startsWith(partial))
+    )
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ value, description }) => ({
+      value: `${minus}${definition.field}:${value} `,
+      label: `${minus}${definition.field}:${value}`,
+      description,
+    }));
+};
+
+/**
+ * 검색어 끝에서 입력 중인 단어를 자동 완성 항목으로 바꿉니다.
+ */
+export const applySearchSuggestion = (query: string, suggestion: TodoSearchSuggestion): string =>
+  query.replace(/\S*$/, suggestion.value);
+
+/**
+ * 단어/구문을 부분 일치 LIKE 패턴으로 바꿉니다.
+ * LIKE의 특수 문자(%, _, \)는 문자 그대로 찾도록 이스케이프합니다.
+ * PostgREST는 like/ilike 값의 *를 모두 %로 바꾸므로(이스케이프 불가), *는 아무 한 글자(_)로 바꿉니다.
+ * 이 경우 패턴이 더 넓게 일치하므로 결과를 matchesSearchQuery로 다시 확인해야 합니다. (hasWildcardTerm)
+ */
+export const toLikePattern = (term: string): string =>
+  `%${term.replace(/[\\%_]/g, "\\$&").replace(/\*/g, "_")}%`;
+
+/**
+ * 단어/구문에 LIKE 패턴으로 정확히 찾을 수 없는 *가 들어 있는지 확인합니다.
+ */
+export const hasWildcardTerm = (term: string): boolean => term.includes("*");
+
+/**
+ * 문자열에서 검색어와 일치하는 부분을 나눕니다. (검색 결과 강조 표시용)
+ * 긴 단어/구문을 먼저 찾으며, 대소문자는 구분하지 않습니다.
+ */
+export const splitHighlights = (
+  text: string,
+  terms: string[]
+): { text: string; match: boolean }[] => {
+  const patterns = [...terms]
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length)
+    .map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+
+  if (patterns.length === 0) {
+    return [{ text, match: false }];
+  }
+
+  // 캡처 그룹으로 나누면 홀수 번째 조각이 일치한 부분입니다.
+  return text
+    .normalize("NFC")
+    .split(new RegExp(`(${patterns.join("|")})`, "gi"))
+    .map((part, index) => ({ text: part, match: index % 2 === 1 }))
+    .filter((part) => part.text);
+};
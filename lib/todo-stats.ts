@@ -0,0 +1,135 @@
+import {
+  addDaysToDateKey,
+  getWeekStartKey,
+  toLocalDateKey,
+} from "@/lib/timezone";
+import type { Todo, TodoPriority } from "@/types/todo";
+import type {
+  CompletionTrendPoint,
+  DistributionItem,
+  TodoStats,
+  WeeklyActivity,
+} from "@/types/stats";
+
+/**
+ * 카테고리가 없는 할 일을 집계할 때 사용하는 이름
+ */
+export const UNCATEGORIZED_LABEL = "미분류";
+
+/**
+ * 할 일이 완료된 시점을 반환합니다.
+ * completed_at이 없는 과거 데이터는 마지막 수정 시각으로 근사합니다.
+ */
+export const getCompletedAt = (todo: Todo): string =>
+  todo.completed_at || todo.updated_at || todo.created_date;
+
+/**
+ * 할 일 목록으로부터 사용자 로컬 타임존 기준의 통계를 계산합니다.
+ *
+ * @param {Todo[]} todos - 집계할 할 일 목록
+ * @param {string} timeZone - 사용자 타임존 (IANA)
+ * @param {number} weeks - 집계할 최근 주 수 (이번 주 포함)
+ * @param {Date} now - 기준 시각
+ * @returns {TodoStats} 통계 데이터
+ */
+export const buildTodoStats = (
+  todos: Todo[],
+  timeZone: string,
+  weeks: number,
+  now: Date = new Date()
+): TodoStats => {
+  const currentWeekStart = getWeekStartKey(toLocalDateKey(now, timeZone));
+  const weekStarts = Array.from({ length: weeks }, (_, index) =>
+    addDaysToDateKey(currentWeekStart, (index - (weeks - 1)) * 7)
+  );
+
+  const activity = new Map<string, WeeklyActivity>(
+    weekStarts.map((weekStart) => [
+      weekStart,
+      { week_start: weekStart, created: 0, completed: 0 },
+    ])
+  );
+  const trend = new Map<string, CompletionTrendPoint>(
+    weekStarts.map((weekStart) => [
+      weekStart,
+      { week_start: weekStart, scheduled: 0, completed: 0, completion_rate: 0 },
+    ])
+  );
+
+  const priorityDistribution: Record<TodoPriority, DistributionItem> = {
+    high: { total: 0, completed: 0 },
+    medium: { total: 0, completed: 0 },
+    low: { total: 0, completed: 0 },
+  };
+  const categoryDistribution: Record<string, DistributionItem> = {};
+
+  todos.forEach((todo) => {
+    const createdWeek = getWeekStartKey(
+      toLocalDateKey(todo.created_date, timeZone)
+    );
+    const completedWeek = todo.completed
+      ? getWeekStartKey(toLocalDateKey(getCompletedAt(todo), timeZone))
+      : null;
+
+    // 주간 활동량
+    const createdActivity = activity.get(createdWeek);
+    if (createdActivity) {
+      createdActivity.created += 1;
+    }
+    const completedActivity = completedWeek ? activity.get(completedWeek) : null;
+    if (completedActivity) {
+      completedActivity.completed += 1;
+    }
+
+    // 완료율 추이 (마감일이 있으면 마감 주, 없으면 생성 주 기준)
+    const scheduledWeek = todo.due_date
+      ? getWeekStartKey(toLocalDateKey(todo.due_date, timeZone))
+      : createdWeek;
+    const trendPoint = trend.get(scheduledWeek);
+    if (trendPoint) {
+      trendPoint.scheduled += 1;
+      // 예정된 주가 끝나기 전에 완료한 경우만 해당 주의 완료로 집계합니다.
+      if (completedWeek && completedWeek <= scheduledWeek) {
+        trendPoint.completed += 1;
+      }
+    }
+
+    // 우선순위별 분포
+    const priority = priorityDistribution[todo.priority || "medium"];
+    priority.total += 1;
+    if (todo.completed) {
+      priority.completed += 1;
+    }
+
+    // 카테고리별 분포
+    const categories =
+      todo.category && todo.category.length > 0
+        ? todo.category
+        : [UNCATEGORIZED_LABEL];
+    categories.forEach((category) => {
+      const item = (categoryDistribution[category] ??= { total: 0, completed: 0 });
+      item.total += 1;
+      if (todo.completed) {
+        item.completed += 1;
+      }
+    });
+  });
+
+  const completionTrend = Array.from(trend.values()).map((point) => ({
+    ...point,
+    completion_rate:
+      point.scheduled > 0
+        ? Math.round((point.completed / point.scheduled) * 100)
+        : 0,
+  }));
+
+  return {
+    time_zone: timeZone,
+    total: todos.length,
+    completed: todos.filter((todo) => todo.completed).length,
+    weekly_activity: Array.from(activity.values()),
+    completion_trend: completionTrend,
+    priority_distribution: priorityDistribution,
+    category_distribution: categoryDistribution,
+  };
+};
@@ -0,0 +1,80 @@
+import {
+  addDaysToDateKey,
+  getWeekStartKey,
+  toLocalDateKey,
+} from "@/lib/timezone";
+import { getCompletedAt } from "@/lib/todo-stats";
+import type { Todo, TodoPriority } from "@/types/todo";
+import type { TodoSummaryItem, TodoSummaryStats } from "@/types/summary";
+
+/**
+ * 할 일을 요약용 항목으로 변환합니다.
+ */
+const toSummaryItem = (todo: Todo): TodoSummaryItem => ({
+  id: todo.id,
+  title: todo.title,
+  priority: todo.priority,
+  due_date: todo.due_date,
+});
+
+/**
+ * 할 일 목록으로부터 사용자 로컬 타임존 기준의 일일/주간 요약 통계를 계산합니다.
+ */
+export const buildTodoSummaryStats = (
+  todos: Todo[],
+  timeZone: string,
+  now: Date = new Date()
+): TodoSummaryStats => {
+  const todayKey = toLocalDateKey(now, timeZone);
+  const weekStartKey = getWeekStartKey(todayKey);
+  const weekEndKey = addDaysToDateKey(weekStartKey, 6);
+
+  // 일일 요약
+  const completedToday = todos.filter(
+    (todo) =>
+      todo.completed && toLocalDateKey(getCompletedAt(todo), timeZone) === todayKey
+  );
+  const remainingToday = todos.filter(
+    (todo) =>
+      !todo.completed &&
+      !!todo.due_date &&
+      toLocalDateKey(todo.due_date, timeZone) <= todayKey
+  );
+
+  // 주간 요약 (마감일이 이번 주이거나, 마감일 없이 이번 주에 생성된 할 일)
+  const weeklyTodos = todos.filter((todo) => {
+    const baseDate = todo.due_date || todo.created_date;
+    const dateKey = toLocalDateKey(baseDate, timeZone);
+    return dateKey >= weekStartKey && dateKey <= weekEndKey;
+  });
+  const weeklyCompleted = weeklyTodos.filter((todo) => todo.completed).length;
+
+  const priorityDistribution: Record<TodoPriority, number> = {
+    high: 0,
+    medium: 0,
+    low: 0,
+  };
+  weeklyTodos.forEach((todo) => {
+    priorityDistribution[todo.priority || "medium"] += 1;
+  });
+
+  return {
+    time_zone: timeZone,
+    daily: {
+      date: todayKey,
+      completed: completedToday.map(toSummaryItem),
+      remaining: remainingToday.map(toSummaryItem),
+    },
+    weekly: {
+      week_start: weekStartKey,
+      week_end: weekEndKey,
+      total: weeklyTodos.length,
+      completed: weeklyCompleted,
+      completion_rate:
+        weeklyTodos.length > 0
+          ? Math.round((weeklyCompleted / weeklyTodos.length) * 100)
+          : 0,
+      priority_distribution: priorityDistribution,
+    },
+  };
+};
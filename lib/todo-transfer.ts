@@ -0,0 +1,473 @@
+import { todoInputSchema, getValidationMessage } from "@/lib/todo-schema";
+import type { Category } from "@/types/category";
+import type { Todo, TodoInput, TodoPriority } from "@/types/todo";
+import type {
+  TodoExportRecord,
+  TodoImportField,
+  TodoImportMapping,
+  TodoImportPreviewRow,
+  TodoImportSource,
+} from "@/types/transfer";
+
+/**
+ * 내보내기 열과 Todo 필드의 대응표입니다.
+ * CSV 머리글과 JSON 키는 Todo 인터페이스의 필드 이름을 그대로 사용합니다.
+ * CSV에서 배열은 세미콜론(;)으로 구분하고, 반복 규칙은 JSON 문자열로 적습니다.
+ */
+export const TODO_EXPORT_COLUMNS: {
+  key: keyof TodoExportRecord;
+  label: string;
+  description: string;
+}[] = [
+  { key: "id", label: "ID", description: "할 일 고유 ID (가져오기에서는 사용하지 않음)" },
+  { key: "title", label: "제목", description: "할 일 제목" },
+  { key: "description", label: "설명", description: "할 일 설명" },
+  { key: "due_date", label: "마감일", description: "ISO 8601 형식 (UTC)" },
+  { key: "priority", label: "우선순위", description: "high / medium / low" },
+  { key: "category", label: "카테고리", description: "카테고리 이름, 세미콜론(;)으로 구분" },
+  { key: "completed", label: "완료 여부", description: "true / false" },
+  { key: "completed_at", label: "완료일", description: "ISO 8601 형식 (UTC)" },
+  { key: "created_date", label: "생성일", description: "ISO 8601 형식 (UTC)" },
+  { key: "estimated_minutes", label: "예상 소요 시간(분)", description: "분 단위 정수" },
+  { key: "recurrence", label: "반복 규칙", description: "TodoRecurrence JSON" },
+  { key: "reminder_offsets", label: "마감 알림(분 전)", description: "세미콜론(;)으로 구분" },
+  { key: "project_id", label: "프로젝트 ID", description: "소속 프로젝트 ID" },
+  { key: "workspace_id", label: "워크스페이스 ID", description: "소속 워크스페이스 ID" },
+  { key: "assignee_id", label: "담당자 ID", description: "담당자 사용자 ID" },
+];
+
+/**
+ * 가져오기에서 열을 연결할 수 있는 필드와 자동 연결에 사용할 열 이름 후보입니다.
+ * 완료 여부, 반복 규칙, 프로젝트, 워크스페이스는 가져오지 않으며 현재 보고 있는 공간에 새 할 일로 추가합니다.
+ */
+export const TODO_IMPORT_FIELDS: {
+  field: TodoImportField;
+  label: string;
+  required?: boolean;
+  aliases: string[];
+}[] = [
+  {
+    field: "title",
+    label: "제목",
+    required: true,
+    aliases: ["title", "제목", "name", "task", "content", "할 일"],
+  },
+  {
+    field: "description",
+    label: "설명",
+    aliases: ["description", "설명", "notes", "note", "memo", "메모"],
+  },
+  {
+    field: "due_date",
+    label: "마감일",
+    aliases: ["due_date", "마감일", "due", "due date", "deadline", "date"],
+  },
+  { field: "priority", label: "우선순위", aliases: ["priority", "우선순위"] },
+  {
+    field: "category",
+    label: "카테고리",
+    aliases: ["category", "카테고리", "categories", "labels", "tags", "태그"],
+  },
+  {
+    field: "estimated_minutes",
+    label: "예상 소요 시간(분)",
+    aliases: ["estimated_minutes", "예상 소요 시간(분)", "estimate", "duration"],
+  },
+  {
+    field: "reminder_offsets",
+    label: "마감 알림(분 전)",
+    aliases: ["reminder_offsets", "마감 알림(분 전)", "reminders"],
+  },
+];
+
+/**
+ * 한 번에 가져올 수 있는 최대 행 수
+ */
+export const MAX_IMPORT_ROWS = 1000;
+
+/**
+ * 스프레드시트가 수식으로 해석하는 시작 문자 (CSV 수식 삽입 방지)
+ */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * 우선순위로 인식하는 값 (영문/한글)
+ */
+const PRIORITY_VALUES: Record<string, TodoPriority> = {
+  high: "high",
+  medium: "medium",
+  low: "low",
+  높음: "high",
+  중간: "medium",
+  보통: "medium",
+  낮음: "low",
+};
+
+/**
+ * 할 일을 내보내기 항목으로 변환합니다.
+ */
+export const toExportRecord = (todo: Todo): TodoExportRecord => ({
+  id: todo.id,
+  title: todo.title,
+  description: todo.description || null,
+  due_date: todo.due_date || null,
+  priority: todo.priority || null,
+  category: todo.category || [],
+  completed: todo.completed,
+  completed_at: todo.completed_at || null,
+  created_date: todo.created_date,
+  estimated_minutes: todo.estimated_minutes || null,
+  recurrence: todo.recurrence || null,
+  reminder_offsets: todo.reminder_offsets || [],
+  project_id: todo.project_id || null,
+  workspace_id: todo.workspace_id || null,
+  assignee_id: todo.assignee_id || null,
+});
+
+/**
+ * 내보내기 값을 CSV 셀 문자열로 변환합니다.
+ */
+const toCsvValue = (value: TodoExportRecord[keyof TodoExportRecord]): string => {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  if (Array.isArray(value)) {
+    return value.join(";");
+  }
+  if (typeof value === "object") {
+    return JSON.stringify(value);
+  }
+  return String(value);
+};
+
+/**
+ * CSV 셀을 이스케이프합니다.
+ * 수식으로 시작하는 값은 작은따옴표를 붙여 스프레드시트에서 실행되지 않게 합니다.
+ */
+const escapeCsvCell = (value: string): string => {
+  const safe = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+/**
+ * 할 일 목록을 CSV 문서로 만듭니다. (Excel에서 한글이 깨지지 않도록 BOM 포함)
+ */
+export const buildTodosCsv = (todos: Todo[]): string => {
+  const header = TODO_EXPORT_COLUMNS.map((column) => column.key).join(",");
+  const rows = todos.map((todo) => {
+    const record = toExportRecord(todo);
+    return TODO_EXPORT_COLUMNS.map((column) =>
+      escapeCsvCell(toCsvValue(record[column.key]))
+    ).join(",");
+  });
+
+  return `\uFEFF${[header, ...rows].join("\r\n")}\r\n`;
+};
+
+/**
+ * 할 일 목록을 JSON 문서로 만듭니다.
+ */
+export const buildTodosJson = (todos: Todo[], exportedAt: Date = new Date()): string =>
+  JSON.stringify(
+    {
+      version: 1,
+      exported_at: exportedAt.toISOString(),
+      todos: todos.map(toExportRecord),
+    },
+    null,
+    2
+  );
+
+/**
+ * 내보내기 파일 이름을 만듭니다. (예: ai-todo-2026-10-19.csv)
+ */
+export const getExportFileName = (extension: string, date: Date = new Date()): string =>
+  `ai-todo-${date.toISOString().slice(0, 10)}.${extension}`;
+
+/**
+ * CSV 문서를 행과 셀로 나눕니다. (따옴표 안의 쉼표/줄바꿈, "" 이스케이프 지원)
+ * 빈 줄은 건너뜁니다.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  const pushRow = () => {
+    row.push(cell);
+    if (row.some((value) => value.trim().length > 0)) {
+      rows.push(row);
+    }
+    row = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      pushRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell.length > 0 || row.length > 0) {
+    pushRow();
+  }
+
+  return rows;
+};
+
+/**
+ * JSON 값을 가져오기용 문자열로 변환합니다. (배열은 세미콜론으로 구분)
+ */
+const toImportValue = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  if (Array.isArray(value)) {
+    return value.map(String).join(";");
+  }
+  if (typeof value === "object") {
+    return JSON.stringify(value);
+  }
+  return String(value);
+};
+
+/**
+ * CSV 또는 JSON 파일 내용을 열과 행으로 읽습니다.
+ * JSON은 할 일 배열 또는 내보내기 형식({ todos: [...] })을 받습니다.
+ */
+export const readTodoImportSource = (text: string, fileName: string): TodoImportSource => {
+  const content = text.replace(/^\uFEFF/, "");
+  const isJson =
+    fileName.toLowerCase().endsWith(".json") || /^\s*[[{]/.test(content);
+  let source: TodoImportSource;
+
+  if (isJson) {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      throw new Error("JSON 형식이 올바르지 않습니다.");
+    }
+
+    const items = Array.isArray(data)
+      ? data
+      : (data as { todos?: unknown } | null)?.todos;
+
+    if (!Array.isArray(items)) {
+      throw new Error("JSON 파일에 할 일 목록이 없습니다.");
+    }
+
+    const records = items.filter(
+      (item): item is Record<string, unknown> =>
+        !!item && typeof item === "object" && !Array.isArray(item)
+    );
+    const columns = [...new Set(records.flatMap((record) => Object.keys(record)))];
+
+    source = {
+      columns,
+      rows: records.map((record) =>
+        Object.fromEntries(columns.map((column) => [column, toImportValue(record[column])]))
+      ),
+    };
+  } else {
+    const [header, ...rows] = parseCsv(content);
+
+    if (!header) {
+      throw new Error("CSV 파일이 비어 있습니다.");
+    }
+
+    const columns = header.map((column) => column.trim());
+    source = {
+      columns,
+      rows: rows.map((cells) =>
+        Object.fromEntries(columns.map((column, i) => [column, cells[i] ?? ""]))
+      ),
+    };
+  }
+
+  if (source.rows.length === 0) {
+    throw new Error("파일에 가져올 할 일이 없습니다.");
+  }
+  if (source.rows.length > MAX_IMPORT_ROWS) {
+    throw new Error(`한 번에 최대 ${MAX_IMPORT_ROWS}개까지 가져올 수 있습니다.`);
+  }
+
+  return source;
+};
+
+/**
+ * 열 이름을 보고 할 일 필드와 자동으로 연결합니다.
+ */
+export const guessTodoImportMapping = (columns: string[]): TodoImportMapping => {
+  const normalized = columns.map((column) => column.trim().toLowerCase());
+
+  return Object.fromEntries(
+    TODO_IMPORT_FIELDS.map(({ field, aliases }) => {
+      const index = normalized.findIndex((column) => aliases.includes(column));
+      return [field, index === -1 ? null : columns[index]];
+    })
+  ) as TodoImportMapping;
+};
+
+/**
+ * 날짜 값을 datetime-local 형식(YYYY-MM-DDTHH:MM)으로 바꿉니다.
+ * 타임존이 없는 값은 적힌 시각을 그대로, 타임존이 있는 값(내보내기 형식)은 UTC 시각을 사용합니다.
+ * 날짜만 있으면 오전 9시로 설정하고, 해석할 수 없으면 null을 반환합니다.
+ */
+export const normalizeImportDate = (value: string): string | null => {
+  const match = value
+    .trim()
+    .match(/^(\d{4})[-./](\d{1,2})[-./](\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::\d{2}(?:\.\d+)?)?)?$/);
+
+  if (match) {
+    const [, year, month, day, hour = "9", minute = "00"] = match;
+    return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}T${hour.padStart(2, "0")}:${minute}`;
+  }
+
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString().slice(0, 16);
+};
+
+/**
+ * 중복 확인용 키 (제목 + 마감일)를 만듭니다.
+ */
+const getDuplicateKey = (title: string, dueDate?: string | null): string =>
+  `${title.trim().toLowerCase()}|${dueDate || ""}`;
+
+/**
+ * 세미콜론 또는 쉼표로 구분된 값을 나눕니다.
+ */
+const splitList = (value: string): string[] =>
+  value
+    .split(/[;,]/)
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+
+/**
+ * 가져오기 미리보기(dry-run)를 만듭니다. 아무것도 저장하지 않습니다.
+ * 각 행을 할 일 입력으로 변환해 검증하고, 기존 할 일이나 앞선 행과 제목·마감일이 같으면 중복으로 표시합니다.
+ */
+export const buildTodoImportPreview = (
+  source: TodoImportSource,
+  mapping: TodoImportMapping,
+  { categories, existingTodos }: { categories: Category[]; existingTodos: Todo[] }
+): TodoImportPreviewRow[] => {
+  const seenKeys = new Set(
+    existingTodos.map((todo) =>
+      getDuplicateKey(
+        todo.title,
+        todo.due_date ? new Date(todo.due_date).toISOString().slice(0, 16) : null
+      )
+    )
+  );
+
+  return source.rows.map((row, index) => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    /**
+     * 연결한 열의 값을 읽습니다. (수식 방지용 작은따옴표 제거)
+     */
+    const read = (field: TodoImportField): string => {
+      const column = mapping[field];
+      const value = column ? (row[column] ?? "").trim() : "";
+      return value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1))
+        ? value.slice(1)
+        : value;
+    };
+
+    const input: TodoInput = {
+      title: read("title"),
+      description: read("description"),
+      due_date: "",
+      priority: "medium",
+      category: [],
+    };
+
+    if (!input.title) {
+      errors.push("제목이 비어 있습니다.");
+    }
+
+    const dueDate = read("due_date");
+    if (dueDate) {
+      const normalized = normalizeImportDate(dueDate);
+      if (normalized) {
+        input.due_date = normalized;
+      } else {
+        errors.push(`마감일 형식이 올바르지 않습니다: ${dueDate}`);
+      }
+    }
+
+    const priority = read("priority");
+    if (priority) {
+      const value = PRIORITY_VALUES[priority.toLowerCase()];
+      if (value) {
+        input.priority = value;
+      } else {
+        errors.push(`우선순위 값이 올바르지 않습니다: ${priority}`);
+      }
+    }
+
+    const categoryNames = splitList(read("category"));
+    const unknownCategories: string[] = [];
+    for (const name of categoryNames) {
+      const category = categories.find(
+        (item) => item.name.toLowerCase() === name.toLowerCase()
+      );
+      if (category) {
+        input.category = [...new Set([...(input.category || []), category.name])];
+      } else {
+        unknownCategories.push(name);
+      }
+    }
+    if (unknownCategories.length > 0) {
+      warnings.push(`없는 카테고리는 제외합니다: ${unknownCategories.join(", ")}`);
+    }
+
+    const estimated = read("estimated_minutes");
+    if (estimated) {
+      input.estimated_minutes = Number(estimated);
+    }
+
+    const reminders = splitList(read("reminder_offsets"));
+    if (reminders.length > 0) {
+      input.reminder_offsets = reminders.map(Number);
+    }
+
+    // 나머지 형식(길이, 범위 등)은 서버와 같은 스키마로 검증합니다.
+    if (errors.length === 0) {
+      const parsed = todoInputSchema.safeParse(input);
+      if (!parsed.success) {
+        errors.push(getValidationMessage(parsed.error));
+      }
+    }
+
+    const key = getDuplicateKey(input.title, input.due_date);
+    const duplicate = !!input.title && seenKeys.has(key);
+    seenKeys.add(key);
+
+    return { row: index + 1, input, errors, warnings, duplicate };
+  });
+};
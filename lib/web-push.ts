@@ -0,0 +1,54 @@
+import webpush from "web-push";
+import type { PushPayload, PushSubscriptionRecord } from "@/types/notification";
+
+let isVapidConfigured = false;
+
+/**
+ * VAPID 키가 설정되어 웹 푸시를 보낼 수 있는지 확인합니다.
+ * 키는 `npx web-push generate-vapid-keys`로 생성합니다.
+ */
+export const isWebPushEnabled = () =>
+  !!process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY && !!process.env.VAPID_PRIVATE_KEY;
+
+/**
+ * 푸시 알림 전송 결과 ("expired": 구독이 만료되어 삭제해야 함)
+ */
+export type PushSendResult = "sent" | "expired";
+
+/**
+ * 저장된 구독으로 웹 푸시 알림을 보냅니다.
+ * 푸시 서비스가 404/410을 반환하면 만료된 구독으로 판단합니다.
+ */
+export const sendPushNotification = async (
+  subscription: Pick<PushSubscriptionRecord, "endpoint" | "p256dh" | "auth">,
+  payload: PushPayload
+): Promise<PushSendResult> => {
+  if (!isVapidConfigured) {
+    webpush.setVapidDetails(
+      process.env.VAPID_SUBJECT || "mailto:noreply@example.com",
+      process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY!,
+      process.env.VAPID_PRIVATE_KEY!
+    );
+    isVapidConfigured = true;
+  }
+
+  try {
+    await webpush.sendNotification(
+      {
+        endpoint: subscription.endpoint,
+        keys: { p256dh: subscription.p256dh, auth: subscription.auth },
+      },
+      JSON.stringify(payload),
+      { TTL: 60 * 60 }
+    );
+    return "sent";
+  } catch (error) {
+    if (
+      error instanceof webpush.WebPushError &&
+      (error.statusCode === 404 || error.statusCode === 410)
+    ) {
+      return "expired";
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,81 @@
+import type { createClient } from "@/lib/supabase/server";
+import { canEditWorkspace } from "@/lib/workspace";
+import type { WorkspaceRole } from "@/types/workspace";
+
+/**
+ * 서버용 Supabase 클라이언트 타입
+ */
+type SupabaseServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * 사용자가 속한 워크스페이스별 역할을 조회합니다.
+ */
+export const getWorkspaceRoles = async (
+  supabase: SupabaseServerClient,
+  userId: string
+): Promise<Map<string, WorkspaceRole>> => {
+  const { data, error } = await supabase
+    .from("workspace_members")
+    .select("workspace_id, role")
+    .eq("user_id", userId);
+
+  if (error) {
+    throw error;
+  }
+
+  return new Map(
+    (data || []).map((member) => [member.workspace_id as string, member.role as WorkspaceRole])
+  );
+};
+
+/**
+ * 사용자의 워크스페이스 역할을 조회합니다. 멤버가 아니면 null을 반환합니다.
+ */
+export const getWorkspaceRole = async (
+  supabase: SupabaseServerClient,
+  workspaceId: string,
+  userId: string
+): Promise<WorkspaceRole | null> => {
+  const { data, error } = await supabase
+    .from("workspace_members")
+    .select("role")
+    .eq("workspace_id", workspaceId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return (data?.role as WorkspaceRole | undefined) || null;
+};
+
+/**
+ * 한 공간(개인 또는 워크스페이스)의 할 일/프로젝트만 조회하는 PostgREST or 필터를 만듭니다.
+ * 개인 공간은 workspace_id가 없고 본인이 작성한 항목입니다.
+ */
+export const getScopeFilter = (workspaceId: string | null | undefined, userId: string): string =>
+  workspaceId
+    ? `workspace_id.eq.${workspaceId}`
+    : `and(workspace_id.is.null,user_id.eq.${userId})`;
+
+/**
+ * 사용자가 조회하거나 편집할 수 있는 할 일/프로젝트의 PostgREST or 필터를 만듭니다.
+ * 개인 항목은 작성자 본인, 워크스페이스 항목은 해당 권한이 있는 멤버만 접근할 수 있습니다.
+ * (RLS 정책과 같은 조건을 API에서도 명시적으로 적용합니다.)
+ */
+export const getAccessFilter = async (
+  supabase: SupabaseServerClient,
+  userId: string,
+  access: "view" | "edit"
+): Promise<string> => {
+  const roles = await getWorkspaceRoles(supabase, userId);
+  const workspaceIds = [...roles]
+    .filter(([, role]) => access === "view" || canEditWorkspace(role))
+    .map(([workspaceId]) => workspaceId);
+  const personal = getScopeFilter(null, userId);
+
+  return workspaceIds.length > 0
+    ? `${personal},workspace_id.in.(${workspaceIds.join(",")})`
+    : personal;
+};
@@ -0,0 +1,149 @@
+import { request } from "@/lib/api-client";
+import type { WorkspaceInviteInput } from "@/lib/workspace-schema";
+import type {
+  Workspace,
+  WorkspaceInvitation,
+  WorkspaceInviteRole,
+  WorkspaceMember,
+} from "@/types/workspace";
+
+/**
+ * 로그인한 사용자가 속한 워크스페이스 목록을 조회합니다.
+ */
+export const listWorkspaces = async (): Promise<Workspace[]> => {
+  const { workspaces } = await request<{ workspaces: Workspace[] }>("/api/workspaces");
+  return workspaces;
+};
+
+/**
+ * 워크스페이스를 생성합니다.
+ */
+export const createWorkspace = async (name: string): Promise<Workspace> => {
+  const { workspace } = await request<{ workspace: Workspace }>("/api/workspaces", {
+    method: "POST",
+    body: JSON.stringify({ name }),
+  });
+  return workspace;
+};
+
+/**
+ * 워크스페이스 이름을 변경합니다.
+ */
+export const updateWorkspace = async (id: string, name: string): Promise<Workspace> => {
+  const { workspace } = await request<{ workspace: Workspace }>(`/api/workspaces/${id}`, {
+    method: "PATCH",
+    body: JSON.stringify({ name }),
+  });
+  return workspace;
+};
+
+/**
+ * 워크스페이스를 삭제합니다.
+ */
+export const deleteWorkspace = async (id: string): Promise<void> => {
+  await request<{ id: string }>(`/api/workspaces/${id}`, { method: "DELETE" });
+};
+
+/**
+ * 워크스페이스 멤버 목록을 조회합니다.
+ */
+export const listWorkspaceMembers = async (workspaceId: string): Promise<WorkspaceMember[]> => {
+  const { members } = await request<{ members: WorkspaceMember[] }>(
+    `/api/workspaces/${workspaceId}/members`
+  );
+  return members;
+};
+
+/**
+ * 멤버의 역할을 변경합니다.
+ */
+export const updateWorkspaceMember = async (
+  workspaceId: string,
+  userId: string,
+  role: WorkspaceInviteRole
+): Promise<WorkspaceMember> => {
+  const { member } = await request<{ member: WorkspaceMember }>(
+    `/api/workspaces/${workspaceId}/members/${userId}`,
+    { method: "PATCH", body: JSON.stringify({ role }) }
+  );
+  return member;
+};
+
+/**
+ * 멤버를 내보내거나, 본인을 지정해 워크스페이스를 나갑니다.
+ */
+export const removeWorkspaceMember = async (
+  workspaceId: string,
+  userId: string
+): Promise<void> => {
+  await request<{ user_id: string }>(`/api/workspaces/${workspaceId}/members/${userId}`, {
+    method: "DELETE",
+  });
+};
+
+/**
+ * 워크스페이스의 대기 중인 초대 목록을 조회합니다.
+ */
+export const listWorkspaceInvitations = async (
+  workspaceId: string
+): Promise<WorkspaceInvitation[]> => {
+  const { invitations } = await request<{ invitations: WorkspaceInvitation[] }>(
+    `/api/workspaces/${workspaceId}/invitations`
+  );
+  return invitations;
+};
+
+/**
+ * 이메일로 멤버를 초대합니다.
+ */
+export const inviteWorkspaceMember = async (
+  workspaceId: string,
+  input: WorkspaceInviteInput
+): Promise<WorkspaceInvitation> => {
+  const { invitation } = await request<{ invitation: WorkspaceInvitation }>(
+    `/api/workspaces/${workspaceId}/invitations`,
+    { method: "POST", body: JSON.stringify(input) }
+  );
+  return invitation;
+};
+
+/**
+ * 대기 중인 초대를 취소합니다.
+ */
+export const cancelWorkspaceInvitation = async (
+  workspaceId: string,
+  invitationId: string
+): Promise<void> => {
+  await request<{ id: string }>(
+    `/api/workspaces/${workspaceId}/invitations/${invitationId}`,
+    { method: "DELETE" }
+  );
+};
+
+/**
+ * 로그인한 사용자가 받은 초대 목록을 조회합니다.
+ */
+export const listReceivedInvitations = async (): Promise<WorkspaceInvitation[]> => {
+  const { invitations } = await request<{ invitations: WorkspaceInvitation[] }>(
+    "/api/invitations"
+  );
+  return invitations;
+};
+
+/**
+ * 받은 초대를 수락하고 참여한 워크스페이스 ID를 반환합니다.
+ */
+export const acceptInvitation = async (id: string): Promise<string> => {
+  const { workspace_id } = await request<{ workspace_id: string }>(
+    `/api/invitations/${id}/accept`,
+    { method: "POST" }
+  );
+  return workspace_id;
+};
+
+/**
+ * 받은 초대를 거절합니다.
+ */
+export const declineInvitation = async (id: string): Promise<void> => {
+  await request<{ id: string }>(`/api/invitations/${id}`, { method: "DELETE" });
+};
@@ -0,0 +1,37 @@
+import { z } from "zod";
+
+/**
+ * 워크스페이스 생성/수정 입력 검증 스키마입니다.
+ */
+export const workspaceInputSchema = z.object({
+  name: z
+    .string({ message: "워크스페이스 이름은 문자열이어야 합니다." })
+    .trim()
+    .min(1, "워크스페이스 이름을 입력해주세요.")
+    .max(50, "워크스페이스 이름은 50자 이하로 입력해주세요."),
+});
+
+/**
+ * 워크스페이스 초대 입력 검증 스키마입니다.
+ * 이메일은 소문자로 정규화해 저장합니다.
+ */
+export const workspaceInviteSchema = z.object({
+  email: z
+    .string({ message: "이메일은 문자열이어야 합니다." })
+    .trim()
+    .toLowerCase()
+    .pipe(z.email({ message: "이메일 형식이 올바르지 않습니다." })),
+  role: z.enum(["editor", "viewer"], { message: "역할 값이 올바르지 않습니다." }),
+});
+
+/**
+ * 멤버 역할 변경 입력 검증 스키마입니다. (소유자 역할은 부여할 수 없음)
+ */
+export const workspaceMemberUpdateSchema = z.object({
+  role: z.enum(["editor", "viewer"], { message: "역할 값이 올바르지 않습니다." }),
+});
+
+/**
+ * 워크스페이스 초대 입력 타입
+ */
+export type WorkspaceInviteInput = z.infer<typeof workspaceInviteSchema>;
@@ -0,0 +1,21 @@
+import type { WorkspaceRole } from "@/types/workspace";
+
+/**
+ * 역할 한글 표시명
+ */
+export const WORKSPACE_ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: "소유자",
+  editor: "편집자",
+  viewer: "뷰어",
+};
+
+/**
+ * 할 일과 프로젝트를 편집할 수 있는 역할인지 확인합니다.
+ */
+export const canEditWorkspace = (role?: WorkspaceRole | null): boolean =>
+  role === "owner" || role === "editor";
+
+/**
+ * 초대 유효 기간 (일)
+ */
+export const INVITATION_EXPIRY_DAYS = 7;
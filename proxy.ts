@@ -0,0 +1,22 @@
+import type { NextRequest } from "next/server";
+import { updateSession } from "@/lib/supabase/proxy";
+
+/**
+ * 모든 페이지 요청 전에 Supabase 세션을 갱신하고 보호된 경로를 검사합니다.
+ */
+export async function proxy(request: NextRequest) {
+  return updateSession(request);
+}
+
+export const config = {
+  matcher: [
+    /*
+     * 다음 경로를 제외한 모든 요청에 적용합니다.
+     * - _next/static (정적 파일)
+     * - _next/image (이미지 최적화 파일)
+     * - favicon.ico 및 이미지 파일
+     * - manifest.webmanifest, sw.js (로그인 전에도 앱 설치와 서비스 워커 등록이 가능하도록)
+     */
+    "/((?!_next/static|_next/image|favicon.ico|manifest.webmanifest|sw.js|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)",
+  ],
+};
@@ -0,0 +1,130 @@
+/**
+ * AI 할 일 관리 서비스 워커
+ *
+ * - 앱 셸(페이지 HTML, Next.js 정적 파일, 아이콘)을 캐시해 오프라인에서도 앱을 열 수 있게 합니다.
+ * - 할 일 목록과 오프라인 변경은 페이지가 IndexedDB에 보관하므로 API 요청은 캐시하지 않습니다.
+ */
+
+/** 캐시 이름 (앱 셸 구성이 바뀌면 버전을 올립니다.) */
+const CACHE_NAME = "ai-todo-shell-v1";
+
+/**
+ * 설치할 때 미리 캐시할 경로
+ * (페이지는 로그인 상태에 따라 리다이렉트될 수 있으므로 방문할 때 캐시합니다.)
+ */
+const PRECACHE_URLS = ["/manifest.webmanifest", "/icons/icon-192.png", "/icons/icon-512.png"];
+
+/**
+ * 빌드마다 파일 이름이 바뀌는 정적 파일인지 확인합니다. (캐시 우선)
+ */
+const isStaticAsset = (url) =>
+  url.pathname.startsWith("/_next/static/") || url.pathname.startsWith("/icons/");
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE_NAME)
+      .then((cache) => cache.addAll(PRECACHE_URLS))
+      // 미리 캐시하지 못해도 설치는 계속합니다. (방문할 때 다시 캐시)
+      .catch((error) => console.error("앱 셸 캐시 실패:", error))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  // 이전 버전의 캐시를 삭제합니다.
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key)))
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+/**
+ * 정상 응답이면 캐시에 저장합니다.
+ * 리다이렉트된 응답(예: 로그인 페이지로 이동)과 오류 응답은 저장하지 않습니다.
+ */
+const putInCache = async (request, response) => {
+  if (response.ok && response.type === "basic" && !response.redirected) {
+    const cache = await caches.open(CACHE_NAME);
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+/**
+ * 캐시 우선: 캐시에 있으면 바로 반환하고, 없으면 네트워크에서 받아 저장합니다.
+ */
+const cacheFirst = async (request) =>
+  (await caches.match(request)) || putInCache(request, await fetch(request));
+
+/**
+ * 네트워크 우선: 최신 페이지를 받아 저장하고, 오프라인이면 캐시된 페이지를 반환합니다.
+ * 처음 여는 경로의 페이지 요청은 캐시된 메인 페이지로 대신합니다.
+ */
+const networkFirst = async (request) => {
+  try {
+    return await putInCache(request, await fetch(request));
+  } catch (error) {
+    const cached =
+      (await caches.match(request)) ||
+      (request.mode === "navigate" && (await caches.match("/", { ignoreSearch: true })));
+
+    if (cached) {
+      return cached;
+    }
+    throw error;
+  }
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  // 다른 출처(Supabase 등), 변경 요청, API 요청은 그대로 네트워크로 보냅니다.
+  if (
+    request.method !== "GET" ||
+    url.origin !== self.location.origin ||
+    url.pathname.startsWith("/api/") ||
+    url.pathname.startsWith("/auth/")
+  ) {
+    return;
+  }
+
+  event.respondWith(isStaticAsset(url) ? cacheFirst(request) : networkFirst(request));
+});
+
+self.addEventListener("push", (event) => {
+  // 마감 알림 등 서버가 보낸 푸시를 알림으로 표시합니다. ({ title, body, url, tag })
+  const payload = event.data ? event.data.json() : {};
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || "AI 할 일 관리", {
+      body: payload.body,
+      tag: payload.tag,
+      icon: "/icons/icon-192.png",
+      badge: "/icons/icon-192.png",
+      data: { url: payload.url || "/" },
+    })
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  // 알림을 누르면 열려 있는 앱 창으로 이동하고, 없으면 새 창을 엽니다.
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || "/", self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windowClients) => {
+      const client = windowClients.find((item) => item.url.startsWith(self.location.origin));
+
+      if (client) {
+        return client.navigate(url).then((navigated) => (navigated || client).focus());
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -26,6 +26,172 @@ CREATE TABLE IF NOT EXISTS public.todos (
   priority TEXT CHECK (priority IN ('high', 'medium', 'low')) DEFAULT 'medium',
   category TEXT[] DEFAULT '{}',
   completed BOOLEAN DEFAULT FALSE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  recurrence JSONB,
+  recurrence_index INTEGER DEFAULT 1 NOT NULL,
+  recurrence_parent_id UUID REFERENCES public.todos(id) ON DELETE SET NULL,
+  auto_complete BOOLEAN DEFAULT FALSE NOT NULL,
+  parent_id UUID REFERENCES public.todos(id) ON DELETE SET NULL,
+  estimated_minutes INTEGER CHECK (estimated_minutes > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- 기존 테이블에 완료 시각 컬럼 추가 (이미 생성된 DB 마이그레이션용)
+ALTER TABLE public.todos ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP WITH TIME ZONE;
+
+-- 기존 테이블에 반복 일정 컬럼 추가
+-- recurrence: { frequency, interval, weekdays, month_day, until, count } 형식의 반복 규칙
+ALTER TABLE public.todos ADD COLUMN IF NOT EXISTS recurrence JSONB;
+ALTER TABLE public.todos ADD COLUMN IF NOT EXISTS recurrence_index INTEGER DEFAULT 1 NOT NULL;
+ALTER TABLE public.todos ADD COLUMN IF NOT EXISTS recurrence_parent_id UUID REFERENCES public.todos(id) ON DELETE SET NULL;
+
+-- 기존 테이블에 체크리스트 자동 완료 컬럼 추가
+ALTER TABLE public.todos ADD COLUMN IF NOT EXISTS auto_complete BOOLEAN DEFAULT FALSE NOT NULL;
+
+-- 기존 테이블에 연결된 상위 할 일 및 예상 소요 시간 컬럼 추가 (AI 단계 분해용)
+ALTER TABLE public.todos ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES public.todos(id) ON DELETE SET NULL;
+ALTER TABLE public.todos ADD COLUMN IF NOT EXISTS estimated_minutes INTEGER CHECK (estimated_minutes > 0);
+
+-- 3. 체크리스트(하위 작업) 테이블 생성
+-- 하나의 할 일에 속한 단계별 작업 목록
+CREATE TABLE IF NOT EXISTS public.todo_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  todo_id UUID NOT NULL REFERENCES public.todos(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  completed BOOLEAN DEFAULT FALSE NOT NULL,
+  position INTEGER DEFAULT 0 NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- 4. 카테고리 테이블 생성
+-- 사용자별 카테고리 정의 (todos.category에는 카테고리 이름이 저장됨)
+CREATE TABLE IF NOT EXISTS public.categories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  color TEXT DEFAULT '#64748b' NOT NULL,
+  icon TEXT DEFAULT 'tag' NOT NULL,
+  position INTEGER DEFAULT 0 NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  UNIQUE (user_id, name)
+);
+
+-- 5. 프로젝트 테이블 생성
+-- 할 일을 묶는 사용자별 프로젝트(목록), 프로젝트가 없는 할 일은 "받은 편지함"에 표시됨
+CREATE TABLE IF NOT EXISTS public.projects (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  color TEXT DEFAULT '#3b82f6' NOT NULL,
+  position INTEGER DEFAULT 0 NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- 할 일 테이블에 프로젝트 컬럼 추가 (프로젝트 삭제 시 받은 편지함으로 이동)
+ALTER TABLE public.todos ADD COLUMN IF NOT EXISTS project_id UUID REFERENCES public.projects(id) ON DELETE SET NULL;
+
+-- 6. 워크스페이스 테이블 생성
+-- 팀 단위로 할 일과 프로젝트를 공유하는 공간 (workspace_id가 없는 할 일/프로젝트는 개인 공간)
+CREATE TABLE IF NOT EXISTS public.workspaces (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  owner_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- 7. 워크스페이스 멤버 테이블 생성
+-- owner: 워크스페이스 관리 및 멤버 초대, editor: 할 일 편집, viewer: 조회만 가능
+CREATE TABLE IF NOT EXISTS public.workspace_members (
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  role TEXT CHECK (role IN ('owner', 'editor', 'viewer')) DEFAULT 'editor' NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (workspace_id, user_id)
+);
+
+-- 8. 워크스페이스 초대 테이블 생성
+-- 초대받은 이메일로 로그인한 사용자가 수락하면 멤버로 추가됨
+CREATE TABLE IF NOT EXISTS public.workspace_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role TEXT CHECK (role IN ('editor', 'viewer')) DEFAULT 'editor' NOT NULL,
+  invited_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE DEFAULT (NOW() + INTERVAL '7 days') NOT NULL,
+  UNIQUE (workspace_id, email)
+);
+
+-- 할 일/프로젝트 테이블에 워크스페이스 컬럼 추가 (워크스페이스 삭제 시 함께 삭제)
+ALTER TABLE public.todos ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+ALTER TABLE public.projects ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+
+-- 할 일 테이블에 담당자 컬럼 추가
+ALTER TABLE public.todos ADD COLUMN IF NOT EXISTS assignee_id UUID REFERENCES public.users(id) ON DELETE SET NULL;
+
+-- 할 일 테이블에 마감 알림 컬럼 추가
+-- reminder_offsets: 마감일 몇 분 전에 알릴지 (예: {1440, 60} → 1일 전, 1시간 전)
+ALTER TABLE public.todos ADD COLUMN IF NOT EXISTS reminder_offsets INTEGER[] DEFAULT '{}' NOT NULL;
+
+-- 할 일 테이블에 검색용 컬럼 추가
+-- search_text: 제목과 설명을 NFC로 정규화해 소문자로 합친 값 (검색 API가 단어/구문마다 ILIKE '%...%'로 비교)
+-- 한국어는 조사가 붙거나("회의를") 띄어쓰기가 달라도 찾을 수 있도록 형태소 분석 대신 부분 문자열로 검색
+-- macOS 등에서 자모 단위(NFD)로 저장된 한글도 검색어(NFC)와 일치하도록 정규화
+-- 정규화 없이 만들어진 기존 컬럼은 다시 생성 (생성 컬럼이므로 데이터 손실 없음)
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'todos' AND column_name = 'search_text'
+      AND generation_expression NOT ILIKE '%normalize%'
+  ) THEN
+    ALTER TABLE public.todos DROP COLUMN search_text;
+  END IF;
+END $$;
+
+ALTER TABLE public.todos ADD COLUMN IF NOT EXISTS search_text TEXT
+  GENERATED ALWAYS AS (lower(normalize(title || E'\n' || coalesce(description, ''), NFC))) STORED;
+
+-- 사용자 테이블에 이메일 알림 수신 여부 컬럼 추가
+ALTER TABLE public.users ADD COLUMN IF NOT EXISTS email_reminders BOOLEAN DEFAULT TRUE NOT NULL;
+
+-- 9. 웹 푸시 구독 테이블 생성
+-- 브라우저(기기)별 Push API 구독 정보, 푸시 서비스가 만료를 알리면 삭제됨
+CREATE TABLE IF NOT EXISTS public.push_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  user_agent TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- 10. 마감 알림 발송 기록 테이블 생성
+-- 같은 알림을 두 번 보내지 않도록 (할 일, 알림 시점, 마감일) 단위로 기록
+-- 마감일을 바꾸면 새 마감일 기준으로 다시 알림
+CREATE TABLE IF NOT EXISTS public.reminder_deliveries (
+  todo_id UUID NOT NULL REFERENCES public.todos(id) ON DELETE CASCADE,
+  offset_minutes INTEGER NOT NULL,
+  due_date TIMESTAMP WITH TIME ZONE NOT NULL,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  sent_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (todo_id, offset_minutes, due_date)
+);
+
+-- 11. 캘린더 구독 피드 테이블 생성
+-- 사용자별 비밀 토큰, 토큰을 아는 캘린더 앱은 로그인 없이 .ics 피드를 구독할 수 있음
+-- 토큰을 새로 발급하면 이전 구독 주소는 더 이상 동작하지 않음
+CREATE TABLE IF NOT EXISTS public.calendar_feeds (
+  user_id UUID PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
 );
@@ -45,11 +211,115 @@ CREATE INDEX IF NOT EXISTS idx_todos_due_date ON public.todos(due_date);
 CREATE INDEX IF NOT EXISTS idx_todos_priority ON public.todos(priority);
 CREATE INDEX IF NOT EXISTS idx_todos_completed ON public.todos(completed);
 CREATE INDEX IF NOT EXISTS idx_todos_category ON public.todos USING GIN(category);
+CREATE INDEX IF NOT EXISTS idx_todos_completed_at ON public.todos(completed_at);
+CREATE INDEX IF NOT EXISTS idx_todos_recurrence_parent_id ON public.todos(recurrence_parent_id);
+CREATE INDEX IF NOT EXISTS idx_todos_parent_id ON public.todos(parent_id);
+CREATE INDEX IF NOT EXISTS idx_todos_project_id ON public.todos(project_id);
+CREATE INDEX IF NOT EXISTS idx_todos_workspace_id ON public.todos(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_todos_assignee_id ON public.todos(assignee_id);
+
+-- 마감 알림 대상 조회용 부분 인덱스 (알림이 설정된 미완료 할 일)
+CREATE INDEX IF NOT EXISTS idx_todos_reminder_due_date
+  ON public.todos(due_date)
+  WHERE completed = FALSE AND due_date IS NOT NULL AND reminder_offsets <> '{}';
+
+-- 검색용 트라이그램 인덱스 (pg_trgm, 한글 등 모든 문자의 부분 일치 검색에 사용)
+-- 세 글자 이상인 단어/구문에 인덱스가 사용되며, 더 짧은 검색어는 사용자 범위 내에서 순차 비교
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+CREATE INDEX IF NOT EXISTS idx_todos_search_text_trgm
+  ON public.todos USING GIN (search_text extensions.gin_trgm_ops);
 
 -- 복합 인덱스 (자주 사용되는 필터 조합)
 CREATE INDEX IF NOT EXISTS idx_todos_user_completed ON public.todos(user_id, completed);
 CREATE INDEX IF NOT EXISTS idx_todos_user_priority ON public.todos(user_id, priority);
 
+-- todo_items 테이블 인덱스
+CREATE INDEX IF NOT EXISTS idx_todo_items_todo_id ON public.todo_items(todo_id, position);
+CREATE INDEX IF NOT EXISTS idx_todo_items_user_id ON public.todo_items(user_id);
+
+-- categories 테이블 인덱스
+CREATE INDEX IF NOT EXISTS idx_categories_user_position ON public.categories(user_id, position);
+
+-- projects 테이블 인덱스
+CREATE INDEX IF NOT EXISTS idx_projects_user_position ON public.projects(user_id, position);
+CREATE INDEX IF NOT EXISTS idx_projects_workspace_position ON public.projects(workspace_id, position);
+
+-- 프로젝트 이름은 개인 공간/워크스페이스별로 고유 (기존 UNIQUE (user_id, name) 제약 대체)
+ALTER TABLE public.projects DROP CONSTRAINT IF EXISTS projects_user_id_name_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_projects_personal_name
+  ON public.projects(user_id, name) WHERE workspace_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_projects_workspace_name
+  ON public.projects(workspace_id, name) WHERE workspace_id IS NOT NULL;
+
+-- workspace_members / workspace_invitations 테이블 인덱스
+CREATE INDEX IF NOT EXISTS idx_workspace_members_user_id ON public.workspace_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_workspace_invitations_email ON public.workspace_invitations(lower(email));
+
+-- push_subscriptions / reminder_deliveries 테이블 인덱스
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user_id ON public.push_subscriptions(user_id);
+CREATE INDEX IF NOT EXISTS idx_reminder_deliveries_sent_at ON public.reminder_deliveries(sent_at);
+
+-- =============================================
+-- 워크스페이스 권한 확인 함수 (RLS 정책에서 사용)
+-- =============================================
+
+-- 로그인한 사용자의 워크스페이스 역할 조회 (멤버가 아니면 NULL)
+-- workspace_members 정책이 이 함수를 사용하므로 재귀 조회를 피하기 위해 SECURITY DEFINER로 실행
+CREATE OR REPLACE FUNCTION public.workspace_role(p_workspace_id UUID)
+RETURNS TEXT AS $$
+  SELECT role FROM public.workspace_members
+  WHERE workspace_id = p_workspace_id AND user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 워크스페이스 멤버 여부 (모든 역할)
+CREATE OR REPLACE FUNCTION public.is_workspace_member(p_workspace_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT public.workspace_role(p_workspace_id) IS NOT NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 워크스페이스 편집 권한 여부 (owner, editor)
+CREATE OR REPLACE FUNCTION public.can_edit_workspace(p_workspace_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(public.workspace_role(p_workspace_id) IN ('owner', 'editor'), FALSE);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 할 일 조회 권한 여부 (개인 할 일은 작성자, 워크스페이스 할 일은 멤버)
+CREATE OR REPLACE FUNCTION public.can_view_todo(p_todo_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.todos t
+    WHERE t.id = p_todo_id
+      AND (
+        (t.workspace_id IS NULL AND t.user_id = auth.uid())
+        OR (t.workspace_id IS NOT NULL AND public.is_workspace_member(t.workspace_id))
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 할 일 편집 권한 여부 (개인 할 일은 작성자, 워크스페이스 할 일은 owner/editor)
+CREATE OR REPLACE FUNCTION public.can_edit_todo(p_todo_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.todos t
+    WHERE t.id = p_todo_id
+      AND (
+        (t.workspace_id IS NULL AND t.user_id = auth.uid())
+        OR (t.workspace_id IS NOT NULL AND public.can_edit_workspace(t.workspace_id))
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 로그인한 사용자와 같은 워크스페이스에 속한 사용자인지 확인 (멤버 프로필 조회용)
+CREATE OR REPLACE FUNCTION public.shares_workspace_with(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.workspace_members mine
+    JOIN public.workspace_members theirs ON theirs.workspace_id = mine.workspace_id
+    WHERE mine.user_id = auth.uid() AND theirs.user_id = p_user_id
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
 -- =============================================
 -- RLS (Row Level Security) 활성화
 -- =============================================
@@ -60,6 +330,29 @@ ALTER TABLE public.users ENABLE ROW LEVEL SECURITY;
 -- todos 테이블 RLS 활성화
 ALTER TABLE public.todos ENABLE ROW LEVEL SECURITY;
 
+-- todo_items 테이블 RLS 활성화
+ALTER TABLE public.todo_items ENABLE ROW LEVEL SECURITY;
+
+-- categories 테이블 RLS 활성화
+ALTER TABLE public.categories ENABLE ROW LEVEL SECURITY;
+
+-- projects 테이블 RLS 활성화
+ALTER TABLE public.projects ENABLE ROW LEVEL SECURITY;
+
+-- 워크스페이스 관련 테이블 RLS 활성화
+ALTER TABLE public.workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_invitations ENABLE ROW LEVEL SECURITY;
+
+-- 알림 관련 테이블 RLS 활성화
+-- reminder_deliveries는 정책을 두지 않아 알림 작업(service role)만 접근 가능
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.reminder_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- calendar_feeds 테이블 RLS 활성화
+-- 피드 조회(토큰으로 사용자 찾기)는 service role로 수행
+ALTER TABLE public.calendar_feeds ENABLE ROW LEVEL SECURITY;
+
 -- =============================================
 -- RLS 정책 (보안 규칙) 생성
 -- =============================================
@@ -83,29 +376,277 @@ CREATE POLICY "Users can insert own profile"
   ON public.users FOR INSERT 
   WITH CHECK (auth.uid() = id);
 
+-- 같은 워크스페이스 멤버의 프로필 조회 가능 (담당자/멤버 목록 표시용)
+DROP POLICY IF EXISTS "Users can view workspace members' profiles" ON public.users;
+CREATE POLICY "Users can view workspace members' profiles"
+  ON public.users FOR SELECT
+  USING (public.shares_workspace_with(id));
+
 -- todos 테이블 정책
--- 사용자는 자신의 할 일만 조회 가능
+-- 개인 할 일(workspace_id 없음)은 작성자만, 워크스페이스 할 일은 멤버 역할에 따라 접근
+-- 사용자는 자신의 개인 할 일과 소속 워크스페이스의 할 일만 조회 가능
 DROP POLICY IF EXISTS "Users can view own todos" ON public.todos;
 CREATE POLICY "Users can view own todos" 
   ON public.todos FOR SELECT 
-  USING (auth.uid() = user_id);
+  USING (
+    (workspace_id IS NULL AND auth.uid() = user_id)
+    OR (workspace_id IS NOT NULL AND public.is_workspace_member(workspace_id))
+  );
 
--- 사용자는 자신의 할 일만 생성 가능
+-- 사용자는 개인 할 일과 편집 권한이 있는 워크스페이스의 할 일만 생성 가능
 DROP POLICY IF EXISTS "Users can create own todos" ON public.todos;
 CREATE POLICY "Users can create own todos" 
   ON public.todos FOR INSERT 
-  WITH CHECK (auth.uid() = user_id);
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (workspace_id IS NULL OR public.can_edit_workspace(workspace_id))
+  );
 
--- 사용자는 자신의 할 일만 수정 가능
+-- 사용자는 자신의 개인 할 일과 편집 권한이 있는 워크스페이스의 할 일만 수정 가능
 DROP POLICY IF EXISTS "Users can update own todos" ON public.todos;
 CREATE POLICY "Users can update own todos" 
   ON public.todos FOR UPDATE 
-  USING (auth.uid() = user_id);
-
--- 사용자는 자신의 할 일만 삭제 가능
+  USING (
+    (workspace_id IS NULL AND auth.uid() = user_id)
+    OR (workspace_id IS NOT NULL AND public.can_edit_workspace(workspace_id))
+  )
+  WITH CHECK (
+    (workspace_id IS NULL AND auth.uid() = user_id)
+    OR (workspace_id IS NOT NULL AND public.can_edit_workspace(workspace_id))
+  );
+
+-- 사용자는 자신의 개인 할 일과 편집 권한이 있는 워크스페이스의 할 일만 삭제 가능
 DROP POLICY IF EXISTS "Users can delete own todos" ON public.todos;
 CREATE POLICY "Users can delete own todos" 
   ON public.todos FOR DELETE 
+  USING (
+    (workspace_id IS NULL AND auth.uid() = user_id)
+    OR (workspace_id IS NOT NULL AND public.can_edit_workspace(workspace_id))
+  );
+
+-- todo_items 테이블 정책 (상위 할 일의 접근 권한을 그대로 따름)
+-- 사용자는 조회할 수 있는 할 일의 체크리스트 항목만 조회 가능
+DROP POLICY IF EXISTS "Users can view own todo items" ON public.todo_items;
+CREATE POLICY "Users can view own todo items"
+  ON public.todo_items FOR SELECT
+  USING (public.can_view_todo(todo_id));
+
+-- 사용자는 편집할 수 있는 할 일에만 체크리스트 항목 생성 가능
+DROP POLICY IF EXISTS "Users can create own todo items" ON public.todo_items;
+CREATE POLICY "Users can create own todo items"
+  ON public.todo_items FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND public.can_edit_todo(todo_id));
+
+-- 사용자는 편집할 수 있는 할 일의 체크리스트 항목만 수정 가능
+DROP POLICY IF EXISTS "Users can update own todo items" ON public.todo_items;
+CREATE POLICY "Users can update own todo items"
+  ON public.todo_items FOR UPDATE
+  USING (public.can_edit_todo(todo_id));
+
+-- 사용자는 편집할 수 있는 할 일의 체크리스트 항목만 삭제 가능
+DROP POLICY IF EXISTS "Users can delete own todo items" ON public.todo_items;
+CREATE POLICY "Users can delete own todo items"
+  ON public.todo_items FOR DELETE
+  USING (public.can_edit_todo(todo_id));
+
+-- categories 테이블 정책
+-- 사용자는 자신의 카테고리만 조회 가능
+DROP POLICY IF EXISTS "Users can view own categories" ON public.categories;
+CREATE POLICY "Users can view own categories"
+  ON public.categories FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- 사용자는 자신의 카테고리만 생성 가능
+DROP POLICY IF EXISTS "Users can create own categories" ON public.categories;
+CREATE POLICY "Users can create own categories"
+  ON public.categories FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- 사용자는 자신의 카테고리만 수정 가능
+DROP POLICY IF EXISTS "Users can update own categories" ON public.categories;
+CREATE POLICY "Users can update own categories"
+  ON public.categories FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- 사용자는 자신의 카테고리만 삭제 가능
+DROP POLICY IF EXISTS "Users can delete own categories" ON public.categories;
+CREATE POLICY "Users can delete own categories"
+  ON public.categories FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- projects 테이블 정책 (todos 정책과 동일하게 개인/워크스페이스 공간별로 접근)
+-- 사용자는 자신의 개인 프로젝트와 소속 워크스페이스의 프로젝트만 조회 가능
+DROP POLICY IF EXISTS "Users can view own projects" ON public.projects;
+CREATE POLICY "Users can view own projects"
+  ON public.projects FOR SELECT
+  USING (
+    (workspace_id IS NULL AND auth.uid() = user_id)
+    OR (workspace_id IS NOT NULL AND public.is_workspace_member(workspace_id))
+  );
+
+-- 사용자는 개인 프로젝트와 편집 권한이 있는 워크스페이스의 프로젝트만 생성 가능
+DROP POLICY IF EXISTS "Users can create own projects" ON public.projects;
+CREATE POLICY "Users can create own projects"
+  ON public.projects FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (workspace_id IS NULL OR public.can_edit_workspace(workspace_id))
+  );
+
+-- 사용자는 자신의 개인 프로젝트와 편집 권한이 있는 워크스페이스의 프로젝트만 수정 가능
+DROP POLICY IF EXISTS "Users can update own projects" ON public.projects;
+CREATE POLICY "Users can update own projects"
+  ON public.projects FOR UPDATE
+  USING (
+    (workspace_id IS NULL AND auth.uid() = user_id)
+    OR (workspace_id IS NOT NULL AND public.can_edit_workspace(workspace_id))
+  );
+
+-- 사용자는 자신의 개인 프로젝트와 편집 권한이 있는 워크스페이스의 프로젝트만 삭제 가능
+DROP POLICY IF EXISTS "Users can delete own projects" ON public.projects;
+CREATE POLICY "Users can delete own projects"
+  ON public.projects FOR DELETE
+  USING (
+    (workspace_id IS NULL AND auth.uid() = user_id)
+    OR (workspace_id IS NOT NULL AND public.can_edit_workspace(workspace_id))
+  );
+
+-- workspaces 테이블 정책
+-- 소유자, 멤버, 초대받은 사용자는 워크스페이스를 조회 가능
+DROP POLICY IF EXISTS "Members can view workspaces" ON public.workspaces;
+CREATE POLICY "Members can view workspaces"
+  ON public.workspaces FOR SELECT
+  USING (
+    auth.uid() = owner_id
+    OR public.is_workspace_member(id)
+    OR EXISTS (
+      SELECT 1 FROM public.workspace_invitations i
+      WHERE i.workspace_id = workspaces.id AND lower(i.email) = lower(auth.jwt() ->> 'email')
+    )
+  );
+
+-- 사용자는 자신을 소유자로 하는 워크스페이스만 생성 가능
+DROP POLICY IF EXISTS "Users can create own workspaces" ON public.workspaces;
+CREATE POLICY "Users can create own workspaces"
+  ON public.workspaces FOR INSERT
+  WITH CHECK (auth.uid() = owner_id);
+
+-- 소유자만 워크스페이스 수정 가능
+DROP POLICY IF EXISTS "Owners can update workspaces" ON public.workspaces;
+CREATE POLICY "Owners can update workspaces"
+  ON public.workspaces FOR UPDATE
+  USING (public.workspace_role(id) = 'owner');
+
+-- 소유자만 워크스페이스 삭제 가능
+DROP POLICY IF EXISTS "Owners can delete workspaces" ON public.workspaces;
+CREATE POLICY "Owners can delete workspaces"
+  ON public.workspaces FOR DELETE
+  USING (public.workspace_role(id) = 'owner');
+
+-- workspace_members 테이블 정책
+-- 멤버 추가는 워크스페이스 생성 트리거와 초대 수락 함수에서만 수행 (INSERT 정책 없음)
+-- 멤버는 같은 워크스페이스의 멤버 목록을 조회 가능
+DROP POLICY IF EXISTS "Members can view workspace members" ON public.workspace_members;
+CREATE POLICY "Members can view workspace members"
+  ON public.workspace_members FOR SELECT
+  USING (public.is_workspace_member(workspace_id));
+
+-- 소유자만 멤버 역할 변경 가능 (소유자 역할은 변경/부여 불가)
+-- 변경 후에도 소유한 워크스페이스의 행이어야 하며, 역할 외의 컬럼은 권한 설정에서 수정을 막음
+DROP POLICY IF EXISTS "Owners can update workspace members" ON public.workspace_members;
+CREATE POLICY "Owners can update workspace members"
+  ON public.workspace_members FOR UPDATE
+  USING (public.workspace_role(workspace_id) = 'owner' AND role <> 'owner')
+  WITH CHECK (public.workspace_role(workspace_id) = 'owner' AND role <> 'owner');
+
+-- 소유자는 멤버를 내보낼 수 있고, 멤버는 스스로 나갈 수 있음 (소유자는 제외)
+DROP POLICY IF EXISTS "Owners or self can delete workspace members" ON public.workspace_members;
+CREATE POLICY "Owners or self can delete workspace members"
+  ON public.workspace_members FOR DELETE
+  USING (
+    role <> 'owner'
+    AND (public.workspace_role(workspace_id) = 'owner' OR auth.uid() = user_id)
+  );
+
+-- workspace_invitations 테이블 정책
+-- 소유자와 초대받은 본인은 초대를 조회 가능
+DROP POLICY IF EXISTS "Owners and invitees can view invitations" ON public.workspace_invitations;
+CREATE POLICY "Owners and invitees can view invitations"
+  ON public.workspace_invitations FOR SELECT
+  USING (
+    public.workspace_role(workspace_id) = 'owner'
+    OR lower(email) = lower(auth.jwt() ->> 'email')
+  );
+
+-- 소유자만 초대 생성 가능
+DROP POLICY IF EXISTS "Owners can create invitations" ON public.workspace_invitations;
+CREATE POLICY "Owners can create invitations"
+  ON public.workspace_invitations FOR INSERT
+  WITH CHECK (public.workspace_role(workspace_id) = 'owner' AND auth.uid() = invited_by);
+
+-- 소유자만 초대 수정 가능 (재초대 시 역할/만료일 갱신)
+DROP POLICY IF EXISTS "Owners can update invitations" ON public.workspace_invitations;
+CREATE POLICY "Owners can update invitations"
+  ON public.workspace_invitations FOR UPDATE
+  USING (public.workspace_role(workspace_id) = 'owner');
+
+-- 소유자는 초대를 취소하고, 초대받은 본인은 거절 가능
+DROP POLICY IF EXISTS "Owners and invitees can delete invitations" ON public.workspace_invitations;
+CREATE POLICY "Owners and invitees can delete invitations"
+  ON public.workspace_invitations FOR DELETE
+  USING (
+    public.workspace_role(workspace_id) = 'owner'
+    OR lower(email) = lower(auth.jwt() ->> 'email')
+  );
+
+-- push_subscriptions 테이블 정책
+-- 사용자는 자신의 푸시 구독만 조회 가능
+DROP POLICY IF EXISTS "Users can view own push subscriptions" ON public.push_subscriptions;
+CREATE POLICY "Users can view own push subscriptions"
+  ON public.push_subscriptions FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- 사용자는 자신의 푸시 구독만 생성 가능
+DROP POLICY IF EXISTS "Users can create own push subscriptions" ON public.push_subscriptions;
+CREATE POLICY "Users can create own push subscriptions"
+  ON public.push_subscriptions FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- 사용자는 자신의 푸시 구독만 수정 가능
+DROP POLICY IF EXISTS "Users can update own push subscriptions" ON public.push_subscriptions;
+CREATE POLICY "Users can update own push subscriptions"
+  ON public.push_subscriptions FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- 사용자는 자신의 푸시 구독만 삭제 가능
+DROP POLICY IF EXISTS "Users can delete own push subscriptions" ON public.push_subscriptions;
+CREATE POLICY "Users can delete own push subscriptions"
+  ON public.push_subscriptions FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- calendar_feeds 테이블 정책
+-- 사용자는 자신의 캘린더 피드만 조회 가능
+DROP POLICY IF EXISTS "Users can view own calendar feed" ON public.calendar_feeds;
+CREATE POLICY "Users can view own calendar feed"
+  ON public.calendar_feeds FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- 사용자는 자신의 캘린더 피드만 생성 가능
+DROP POLICY IF EXISTS "Users can create own calendar feed" ON public.calendar_feeds;
+CREATE POLICY "Users can create own calendar feed"
+  ON public.calendar_feeds FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- 사용자는 자신의 캘린더 피드만 수정 가능 (토큰 재발급)
+DROP POLICY IF EXISTS "Users can update own calendar feed" ON public.calendar_feeds;
+CREATE POLICY "Users can update own calendar feed"
+  ON public.calendar_feeds FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- 사용자는 자신의 캘린더 피드만 삭제 가능
+DROP POLICY IF EXISTS "Users can delete own calendar feed" ON public.calendar_feeds;
+CREATE POLICY "Users can delete own calendar feed"
+  ON public.calendar_feeds FOR DELETE
   USING (auth.uid() = user_id);
 
 -- =============================================
@@ -133,16 +674,203 @@ CREATE TRIGGER update_todos_updated_at
   BEFORE UPDATE ON public.todos
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+-- todo_items 테이블 트리거
+DROP TRIGGER IF EXISTS update_todo_items_updated_at ON public.todo_items;
+CREATE TRIGGER update_todo_items_updated_at
+  BEFORE UPDATE ON public.todo_items
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- categories 테이블 트리거
+DROP TRIGGER IF EXISTS update_categories_updated_at ON public.categories;
+CREATE TRIGGER update_categories_updated_at
+  BEFORE UPDATE ON public.categories
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- push_subscriptions 테이블 트리거
+DROP TRIGGER IF EXISTS update_push_subscriptions_updated_at ON public.push_subscriptions;
+CREATE TRIGGER update_push_subscriptions_updated_at
+  BEFORE UPDATE ON public.push_subscriptions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- calendar_feeds 테이블 트리거
+DROP TRIGGER IF EXISTS update_calendar_feeds_updated_at ON public.calendar_feeds;
+CREATE TRIGGER update_calendar_feeds_updated_at
+  BEFORE UPDATE ON public.calendar_feeds
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 카테고리 이름 변경/삭제 시 할 일의 category 배열에 반영하는 함수
+CREATE OR REPLACE FUNCTION sync_todo_category_name()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    UPDATE public.todos
+      SET category = array_replace(category, OLD.name, NEW.name)
+      WHERE user_id = NEW.user_id AND OLD.name = ANY(category);
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.todos
+    SET category = array_remove(category, OLD.name)
+    WHERE user_id = OLD.user_id AND OLD.name = ANY(category);
+  RETURN OLD;
+END;
+$$ language 'plpgsql';
+
+-- categories 이름 동기화 트리거
+DROP TRIGGER IF EXISTS sync_categories_todo_name ON public.categories;
+CREATE TRIGGER sync_categories_todo_name
+  AFTER UPDATE OF name OR DELETE ON public.categories
+  FOR EACH ROW EXECUTE FUNCTION sync_todo_category_name();
+
+-- projects 테이블 트리거
+DROP TRIGGER IF EXISTS update_projects_updated_at ON public.projects;
+CREATE TRIGGER update_projects_updated_at
+  BEFORE UPDATE ON public.projects
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- workspaces 테이블 트리거
+DROP TRIGGER IF EXISTS update_workspaces_updated_at ON public.workspaces;
+CREATE TRIGGER update_workspaces_updated_at
+  BEFORE UPDATE ON public.workspaces
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 워크스페이스 생성 시 소유자를 owner 멤버로 추가하는 함수
+CREATE OR REPLACE FUNCTION public.add_workspace_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.workspace_members (workspace_id, user_id, role)
+  VALUES (NEW.id, NEW.owner_id, 'owner')
+  ON CONFLICT (workspace_id, user_id) DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- workspaces 소유자 멤버 추가 트리거
+DROP TRIGGER IF EXISTS add_workspaces_owner ON public.workspaces;
+CREATE TRIGGER add_workspaces_owner
+  AFTER INSERT ON public.workspaces
+  FOR EACH ROW EXECUTE FUNCTION public.add_workspace_owner();
+
+-- 워크스페이스 멤버가 나가거나 내보내지면 그 멤버에게 할당된 할 일을 미지정으로 바꾸는 함수
+-- 나간 멤버는 RLS상 할 일을 수정할 수 없으므로 SECURITY DEFINER로 멤버 삭제와 같은 트랜잭션에서 실행
+CREATE OR REPLACE FUNCTION public.unassign_removed_member()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.todos
+    SET assignee_id = NULL
+    WHERE workspace_id = OLD.workspace_id AND assignee_id = OLD.user_id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- workspace_members 멤버 삭제 시 할당 해제 트리거
+DROP TRIGGER IF EXISTS unassign_workspace_members_removed ON public.workspace_members;
+CREATE TRIGGER unassign_workspace_members_removed
+  AFTER DELETE ON public.workspace_members
+  FOR EACH ROW EXECUTE FUNCTION public.unassign_removed_member();
+
+-- 이미 나간 멤버에게 남아 있는 할당 정리
+UPDATE public.todos
+  SET assignee_id = NULL
+  WHERE workspace_id IS NOT NULL
+    AND assignee_id IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM public.workspace_members
+      WHERE workspace_members.workspace_id = todos.workspace_id
+        AND workspace_members.user_id = todos.assignee_id
+    );
+
+-- 워크스페이스 초대 수락 함수
+-- 로그인한 사용자의 이메일과 일치하고 만료되지 않은 초대만 수락하며, 수락한 워크스페이스 ID를 반환
+CREATE OR REPLACE FUNCTION public.accept_workspace_invitation(p_invitation_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_invitation public.workspace_invitations%ROWTYPE;
+BEGIN
+  SELECT * INTO v_invitation
+    FROM public.workspace_invitations
+    WHERE id = p_invitation_id
+      AND lower(email) = lower(auth.jwt() ->> 'email')
+      AND expires_at > NOW();
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.workspace_members (workspace_id, user_id, role)
+  VALUES (v_invitation.workspace_id, auth.uid(), v_invitation.role)
+  ON CONFLICT (workspace_id, user_id) DO NOTHING;
+
+  DELETE FROM public.workspace_invitations WHERE id = p_invitation_id;
+  RETURN v_invitation.workspace_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 완료 상태 변경 시 completed_at 자동 기록 함수
+CREATE OR REPLACE FUNCTION set_todo_completed_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.completed IS TRUE AND (TG_OP = 'INSERT' OR OLD.completed IS DISTINCT FROM TRUE) THEN
+    NEW.completed_at = NOW();
+  ELSIF NEW.completed IS NOT TRUE THEN
+    NEW.completed_at = NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- todos 완료 시각 트리거
+DROP TRIGGER IF EXISTS set_todos_completed_at ON public.todos;
+CREATE TRIGGER set_todos_completed_at
+  BEFORE INSERT OR UPDATE OF completed ON public.todos
+  FOR EACH ROW EXECUTE FUNCTION set_todo_completed_at();
+
+-- 기존 완료 데이터의 completed_at 보정 (마지막 수정 시각으로 근사)
+UPDATE public.todos
+  SET completed_at = updated_at
+  WHERE completed = TRUE AND completed_at IS NULL;
+
 -- =============================================
 -- 사용자 프로필 자동 생성 함수
 -- =============================================
 
+-- 기본 카테고리(업무/개인/학습) 생성 함수
+CREATE OR REPLACE FUNCTION public.create_default_categories(p_user_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO public.categories (user_id, name, color, icon, position)
+  VALUES
+    (p_user_id, '업무', '#3b82f6', 'briefcase', 0),
+    (p_user_id, '개인', '#22c55e', 'user', 1),
+    (p_user_id, '학습', '#a855f7', 'book-open', 2)
+  ON CONFLICT (user_id, name) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
 -- 새 사용자 가입 시 자동으로 프로필 생성하는 함수
+-- 소셜 로그인(Google, GitHub)의 경우 공급자 메타데이터에서 이름과 프로필 이미지를 가져옴
+--   - Google: full_name / name, avatar_url / picture
+--   - GitHub: full_name / name / user_name, avatar_url
 CREATE OR REPLACE FUNCTION public.handle_new_user()
 RETURNS TRIGGER AS $$
 BEGIN
-  INSERT INTO public.users (id, email, name)
-  VALUES (NEW.id, NEW.email, NEW.raw_user_meta_data->>'name');
+  INSERT INTO public.users (id, email, name, avatar_url)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    COALESCE(
+      NEW.raw_user_meta_data->>'name',
+      NEW.raw_user_meta_data->>'full_name',
+      NEW.raw_user_meta_data->>'user_name'
+    ),
+    COALESCE(
+      NEW.raw_user_meta_data->>'avatar_url',
+      NEW.raw_user_meta_data->>'picture'
+    )
+  )
+  ON CONFLICT (id) DO NOTHING;
+
+  PERFORM public.create_default_categories(NEW.id);
   RETURN NEW;
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -157,8 +885,73 @@ CREATE TRIGGER on_auth_user_created
 -- 초기 데이터 (선택사항)
 -- =============================================
 
--- 카테고리 enum 값들을 위한 체크 제약조건
--- (이미 category는 TEXT[] 타입으로 정의되어 있어 유연하게 사용 가능)
+-- 기존 사용자 카테고리 초기화 (이미 생성된 DB 마이그레이션용)
+-- 카테고리가 하나도 없는 사용자에게 기본 카테고리를 만들고,
+-- 할 일에서 사용 중인 카테고리 이름도 카테고리로 등록
+SELECT public.create_default_categories(u.id)
+  FROM public.users u
+  WHERE NOT EXISTS (SELECT 1 FROM public.categories c WHERE c.user_id = u.id);
+
+INSERT INTO public.categories (user_id, name, position)
+SELECT DISTINCT t.user_id, unnested.name, 100
+  FROM public.todos t, unnest(t.category) AS unnested(name)
+ON CONFLICT (user_id, name) DO NOTHING;
+
+-- =============================================
+-- 스토리지 (프로필 이미지)
+-- =============================================
+
+-- 프로필 이미지 버킷 생성 (공개 읽기)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('avatars', 'avatars', true)
+ON CONFLICT (id) DO NOTHING;
+
+-- 프로필 이미지는 누구나 조회 가능
+DROP POLICY IF EXISTS "Avatar images are publicly accessible" ON storage.objects;
+CREATE POLICY "Avatar images are publicly accessible"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'avatars');
+
+-- 사용자는 자신의 폴더({user_id}/...)에만 프로필 이미지 업로드 가능
+DROP POLICY IF EXISTS "Users can upload own avatar" ON storage.objects;
+CREATE POLICY "Users can upload own avatar"
+  ON storage.objects FOR INSERT
+  WITH CHECK (bucket_id = 'avatars' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+-- 사용자는 자신의 프로필 이미지만 수정 가능
+DROP POLICY IF EXISTS "Users can update own avatar" ON storage.objects;
+CREATE POLICY "Users can update own avatar"
+  ON storage.objects FOR UPDATE
+  USING (bucket_id = 'avatars' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+-- 사용자는 자신의 프로필 이미지만 삭제 가능
+DROP POLICY IF EXISTS "Users can delete own avatar" ON storage.objects;
+CREATE POLICY "Users can delete own avatar"
+  ON storage.objects FOR DELETE
+  USING (bucket_id = 'avatars' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+-- =============================================
+-- Realtime (할 일 목록 실시간 동기화)
+-- =============================================
+
+-- todos / todo_items 변경을 supabase_realtime 발행에 추가 (이미 추가되어 있으면 건너뜀)
+-- 구독자는 RLS 정책에 따라 조회할 수 있는 행의 변경만 수신
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'todos'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.todos;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'todo_items'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.todo_items;
+  END IF;
+END $$;
 
 -- =============================================
 -- 권한 설정
@@ -167,6 +960,25 @@ CREATE TRIGGER on_auth_user_created
 -- 인증된 사용자가 테이블에 접근할 수 있도록 권한 부여
 GRANT ALL ON public.users TO authenticated;
 GRANT ALL ON public.todos TO authenticated;
+GRANT ALL ON public.todo_items TO authenticated;
+GRANT ALL ON public.categories TO authenticated;
+GRANT ALL ON public.projects TO authenticated;
+GRANT ALL ON public.workspaces TO authenticated;
+GRANT ALL ON public.workspace_members TO authenticated;
+GRANT ALL ON public.workspace_invitations TO authenticated;
+GRANT ALL ON public.push_subscriptions TO authenticated;
+GRANT ALL ON public.calendar_feeds TO authenticated;
+
+-- 워크스페이스 멤버는 역할만 수정 가능 (workspace_id/user_id를 바꿔 다른 워크스페이스에 들어가는 것을 방지)
+REVOKE UPDATE ON public.workspace_members FROM authenticated;
+GRANT UPDATE (role) ON public.workspace_members TO authenticated;
+
+-- 초대 수락은 로그인한 사용자만 호출 가능
+REVOKE EXECUTE ON FUNCTION public.accept_workspace_invitation(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.accept_workspace_invitation(UUID) TO authenticated;
+
+-- 기본 카테고리 생성 함수는 가입 트리거에서만 사용 (다른 사용자 ID로 호출 방지)
+REVOKE EXECUTE ON FUNCTION public.create_default_categories(UUID) FROM PUBLIC, anon, authenticated;
 
 -- 공개 접근이 필요한 경우 (예: 회원가입 시)
 GRANT INSERT ON public.users TO anon;
@@ -178,8 +990,16 @@ GRANT INSERT ON public.users TO anon;
 -- 이 스키마를 Supabase SQL 에디터에서 실행하면
 -- 1. 사용자 프로필 테이블 (public.users)
 -- 2. 할 일 테이블 (public.todos)
--- 3. 적절한 RLS 정책
--- 4. 자동화된 트리거들
+-- 3. 체크리스트 테이블 (public.todo_items)
+-- 4. 카테고리 테이블 (public.categories)
+-- 5. 프로젝트 테이블 (public.projects)
+-- 6. 워크스페이스 테이블 (public.workspaces, workspace_members, workspace_invitations)
+-- 7. 적절한 RLS 정책
+-- 8. 자동화된 트리거들
+-- 9. 할 일/체크리스트 Realtime 발행
+-- 10. 마감 알림 (웹 푸시 구독, 발송 기록)
+-- 11. 캘린더 구독 피드 (public.calendar_feeds)
+-- 12. 제목/설명 검색 (search_text 컬럼, pg_trgm 인덱스)
 -- 이 모두 설정됩니다.
 
 -- 참고: auth.users는 Supabase에서 자동으로 관리되므로 별도 생성 불필요
\ No newline at end of file
@@ -0,0 +1,38 @@
+/**
+ * 캘린더 구독 피드 데이터 타입 (public.calendar_feeds)
+ */
+export interface CalendarFeed {
+  user_id: string;
+  /** 피드 주소에 들어가는 비밀 토큰 */
+  token: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * iCalendar 항목 형식
+ * - VEVENT: 마감 시각의 일정 (대부분의 캘린더 앱에서 표시)
+ * - VTODO: 할 일 (Apple 미리 알림, Thunderbird 등 VTODO를 지원하는 앱)
+ */
+export type ICalComponent = "VEVENT" | "VTODO";
+
+/**
+ * .ics 파일에서 읽은 항목 타입 (VTODO/VEVENT)
+ */
+export interface ICalEntry {
+  component: ICalComponent;
+  /** 항목 고유 ID (UID) */
+  uid?: string;
+  /** 제목 (SUMMARY) */
+  summary: string;
+  /** 설명 (DESCRIPTION) */
+  description?: string;
+  /** 마감일 (VTODO의 DUE 또는 VEVENT의 DTSTART, datetime-local 형식) */
+  due_date?: string;
+  /** 우선순위 (PRIORITY, 1: 가장 높음 ~ 9: 가장 낮음, 0: 없음) */
+  priority?: number;
+  /** 카테고리 (CATEGORIES) */
+  categories: string[];
+  /** 완료 여부 (VTODO의 STATUS:COMPLETED 또는 COMPLETED) */
+  completed: boolean;
+}
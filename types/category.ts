@@ -0,0 +1,26 @@
+/**
+ * 사용자 정의 카테고리 데이터 타입
+ */
+export interface Category {
+  id: string;
+  user_id: string;
+  /** 카테고리 이름 (todos.category 배열에 저장되는 값) */
+  name: string;
+  /** 표시 색상 (#rrggbb) */
+  color: string;
+  /** 아이콘 이름 (CATEGORY_ICON_NAMES 중 하나) */
+  icon: string;
+  /** 목록 표시 순서 */
+  position: number;
+  created_at: string;
+  updated_at?: string;
+}
+
+/**
+ * 카테고리 생성/수정 입력 타입
+ */
+export interface CategoryInput {
+  name: string;
+  color: string;
+  icon: string;
+}
@@ -0,0 +1,52 @@
+/**
+ * 브라우저 Push API 구독 정보 타입 (PushSubscription.toJSON() 형식)
+ */
+export interface PushSubscriptionInput {
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+}
+
+/**
+ * 저장된 웹 푸시 구독 데이터 타입 (public.push_subscriptions)
+ */
+export interface PushSubscriptionRecord {
+  id: string;
+  user_id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  user_agent?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * 서비스 워커가 표시할 푸시 알림 내용 타입
+ */
+export interface PushPayload {
+  title: string;
+  body: string;
+  /** 알림을 누르면 열 경로 */
+  url: string;
+  /** 같은 태그의 알림은 하나로 교체됩니다. */
+  tag?: string;
+}
+
+/**
+ * 마감 알림 작업 실행 결과 타입 (/api/cron/reminders 응답)
+ */
+export interface ReminderRunResult {
+  /** 보낸 알림 수 (할 일 기준) */
+  reminders: number;
+  /** 보낸 푸시 알림 수 (기기 기준) */
+  push_sent: number;
+  /** 보낸 이메일 수 */
+  email_sent: number;
+  /** 만료되어 삭제한 푸시 구독 수 */
+  expired_subscriptions: number;
+  /** 발송 실패 수 */
+  failures: number;
+}
@@ -0,0 +1,67 @@
+import type { Todo, TodoInput } from "./todo";
+
+/**
+ * 오프라인 변경 큐 항목의 공통 필드
+ */
+interface QueuedMutationBase {
+  /** 큐 항목 ID (IndexedDB 자동 증가 키, 저장 후 부여) */
+  id?: number;
+  /** 변경한 사용자 ID (같은 브라우저의 다른 계정 큐와 구분) */
+  user_id: string;
+  /** 큐에 추가된 시각 (ISO 8601) */
+  queued_at: string;
+}
+
+/**
+ * 오프라인에서 추가한 할 일
+ * (서버 ID가 없으므로 임시 ID로 표시하고, 재전송 후 서버 ID로 교체합니다.)
+ */
+export interface QueuedCreateMutation extends QueuedMutationBase {
+  type: "create";
+  /** 로컬에서 사용한 임시 할 일 ID */
+  todo_id: string;
+  input: TodoInput;
+}
+
+/**
+ * 오프라인에서 수정한 할 일
+ */
+export interface QueuedUpdateMutation extends QueuedMutationBase {
+  type: "update";
+  todo_id: string;
+  input: Partial<TodoInput>;
+  /** 변경할 때 알고 있던 할 일의 updated_at (충돌 검사용) */
+  base_updated_at: string | null;
+}
+
+/**
+ * 오프라인에서 완료 상태를 바꾸거나 삭제한 할 일
+ */
+export interface QueuedTodoActionMutation extends QueuedMutationBase {
+  type: "toggle" | "delete";
+  todo_id: string;
+  /** 변경할 때 알고 있던 할 일의 updated_at (충돌 검사용) */
+  base_updated_at: string | null;
+}
+
+/**
+ * 오프라인 변경 큐 항목 타입
+ */
+export type QueuedMutation =
+  | QueuedCreateMutation
+  | QueuedUpdateMutation
+  | QueuedTodoActionMutation;
+
+/**
+ * 오프라인 변경 재전송 결과
+ */
+export interface ReplayResult {
+  /** 서버에 반영된 변경 수 */
+  applied: number;
+  /** 다른 곳에서 먼저 수정되어 서버 내용을 유지한 할 일 */
+  conflicts: Todo[];
+  /** 서버가 거부해 버려진 변경의 오류 메시지 */
+  failures: string[];
+  /** 네트워크가 다시 끊겨 남은 변경이 있는지 여부 */
+  isInterrupted: boolean;
+}
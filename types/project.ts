@@ -0,0 +1,43 @@
+/**
+ * 할 일을 묶는 프로젝트(목록) 데이터 타입
+ */
+export interface Project {
+  id: string;
+  user_id: string;
+  /** 속한 워크스페이스 ID (없으면 개인 프로젝트) */
+  workspace_id?: string | null;
+  /** 프로젝트 이름 */
+  name: string;
+  /** 표시 색상 (#rrggbb) */
+  color: string;
+  /** 사이드바 표시 순서 */
+  position: number;
+  created_at: string;
+  updated_at?: string;
+}
+
+/**
+ * 프로젝트 생성/수정 입력 타입
+ */
+export interface ProjectInput {
+  name: string;
+  color: string;
+  /** 생성할 워크스페이스 ID (없으면 개인 프로젝트) */
+  workspace_id?: string | null;
+}
+
+/**
+ * 프로젝트별 할 일 개수
+ */
+export interface ProjectCounts {
+  /** 완료하지 않은 할 일 수 (지연 포함) */
+  open: number;
+  /** 마감일이 지난 미완료 할 일 수 */
+  overdue: number;
+}
+
+/**
+ * 사이드바에서 선택한 할 일 보기
+ * ("all": 전체 할 일, "inbox": 프로젝트가 없는 할 일, 그 외: 프로젝트 ID)
+ */
+export type ProjectView = "all" | "inbox" | (string & {});
@@ -0,0 +1,59 @@
+import type { TodoPriority } from "@/types/todo";
+
+/**
+ * is: 필터로 찾는 할 일 상태 (상태 필터의 진행 중 / 완료 / 지연과 같음)
+ */
+export type TodoSearchState = "open" | "completed" | "overdue";
+
+/**
+ * due: 필터의 비교 연산자 (예: due:<2026-11-01)
+ */
+export type TodoSearchDateOperator = "=" | "<" | "<=" | ">" | ">=";
+
+/**
+ * 검색창의 필터 조건 타입 (필드:값, 앞에 -를 붙이면 반대 조건)
+ */
+export type TodoSearchFilter =
+  | { field: "priority"; value: TodoPriority; negated: boolean }
+  | { field: "category"; value: string; negated: boolean }
+  | { field: "is"; value: TodoSearchState; negated: boolean }
+  | {
+      field: "due";
+      operator: TodoSearchDateOperator;
+      /** 비교할 날짜 (yyyy-MM-dd, null이면 마감일 없음) */
+      value: string | null;
+      negated: boolean;
+    }
+  | { field: "assignee"; value: "me" | "none"; negated: boolean };
+
+/**
+ * 검색 필터 필드 이름
+ */
+export type TodoSearchField = TodoSearchFilter["field"];
+
+/**
+ * 검색어를 해석한 결과 타입
+ * 단어/구문은 비교용으로 정규화(NFC, 소문자)되어 있습니다.
+ */
+export interface TodoSearchQuery {
+  /** 제목 또는 설명에 모두 포함되어야 하는 단어/구문 */
+  terms: string[];
+  /** 제목과 설명에 포함되지 않아야 하는 단어/구문 (-단어, -"구문") */
+  excluded: string[];
+  /** 필터 조건 (모두 만족해야 함) */
+  filters: TodoSearchFilter[];
+  /** 값을 해석할 수 없어 무시한 필터 (예: priority:urgent) */
+  invalid: string[];
+}
+
+/**
+ * 검색창 자동 완성 항목 타입
+ */
+export interface TodoSearchSuggestion {
+  /** 입력 중인 단어를 바꿀 값 (예: "priority:high ") */
+  value: string;
+  /** 표시 이름 (예: "priority:high") */
+  label: string;
+  /** 설명 (예: "우선순위 높음") */
+  description: string;
+}
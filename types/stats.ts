@@ -0,0 +1,54 @@
+import type { TodoPriority } from "@/types/todo";
+
+/**
+ * 주간 활동량 데이터 타입
+ */
+export interface WeeklyActivity {
+  /** 주 시작 날짜 (YYYY-MM-DD, 월요일) */
+  week_start: string;
+  /** 해당 주에 생성된 할 일 수 */
+  created: number;
+  /** 해당 주에 완료된 할 일 수 */
+  completed: number;
+}
+
+/**
+ * 주간 완료율 추이 데이터 타입
+ */
+export interface CompletionTrendPoint {
+  /** 주 시작 날짜 (YYYY-MM-DD, 월요일) */
+  week_start: string;
+  /** 해당 주에 예정된 할 일 수 */
+  scheduled: number;
+  /** 예정된 할 일 중 해당 주 안에 완료된 수 */
+  completed: number;
+  /** 완료율 (0~100) */
+  completion_rate: number;
+}
+
+/**
+ * 분포 항목 타입 (전체/완료 수)
+ */
+export interface DistributionItem {
+  total: number;
+  completed: number;
+}
+
+/**
+ * 통계 화면 데이터 타입
+ */
+export interface TodoStats {
+  time_zone: string;
+  /** 전체 할 일 수 */
+  total: number;
+  /** 완료한 할 일 수 */
+  completed: number;
+  /** 주간 활동량 (오래된 주부터) */
+  weekly_activity: WeeklyActivity[];
+  /** 주간 완료율 추이 (오래된 주부터) */
+  completion_trend: CompletionTrendPoint[];
+  /** 우선순위별 분포 */
+  priority_distribution: Record<TodoPriority, DistributionItem>;
+  /** 카테고리별 분포 (카테고리명 → 분포) */
+  category_distribution: Record<string, DistributionItem>;
+}
@@ -0,0 +1,75 @@
+import type { TodoPriority } from "@/types/todo";
+
+/**
+ * 요약에 포함되는 할 일 항목 타입
+ */
+export interface TodoSummaryItem {
+  id: string;
+  title: string;
+  priority?: TodoPriority | null;
+  due_date?: string | null;
+}
+
+/**
+ * 일일 요약 통계 타입 (사용자 로컬 타임존 기준)
+ */
+export interface DailySummaryStats {
+  /** 기준 날짜 (YYYY-MM-DD) */
+  date: string;
+  /** 오늘 완료한 할 일 목록 */
+  completed: TodoSummaryItem[];
+  /** 오늘까지 마감인 남은 할 일 목록 (지연 포함) */
+  remaining: TodoSummaryItem[];
+}
+
+/**
+ * 주간 요약 통계 타입 (월요일 시작, 사용자 로컬 타임존 기준)
+ */
+export interface WeeklySummaryStats {
+  /** 주 시작 날짜 (YYYY-MM-DD) */
+  week_start: string;
+  /** 주 종료 날짜 (YYYY-MM-DD) */
+  week_end: string;
+  /** 이번 주 전체 할 일 수 */
+  total: number;
+  /** 이번 주 완료한 할 일 수 */
+  completed: number;
+  /** 완료율 (0~100) */
+  completion_rate: number;
+  /** 우선순위별 할 일 수 */
+  priority_distribution: Record<TodoPriority, number>;
+}
+
+/**
+ * 요약 통계 전체 타입
+ */
+export interface TodoSummaryStats {
+  time_zone: string;
+  daily: DailySummaryStats;
+  weekly: WeeklySummaryStats;
+}
+
+/**
+ * AI가 생성한 요약 텍스트 타입
+ */
+export interface TodoSummaryText {
+  daily: {
+    headline: string;
+    completed_summary: string;
+    remaining_summary: string;
+  };
+  weekly: {
+    headline: string;
+    completion_insight: string;
+    priority_insight: string;
+    suggestion: string;
+  };
+}
+
+/**
+ * /api/summarize-todos 응답 타입
+ */
+export interface TodoSummaryResponse {
+  stats: TodoSummaryStats;
+  summary: TodoSummaryText;
+}
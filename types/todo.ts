@@ -4,9 +4,47 @@
 export type TodoPriority = "high" | "medium" | "low";
 
 /**
- * 할 일 카테고리 타입
+ * 할 일 카테고리 타입 (사용자 정의 카테고리의 이름)
  */
-export type TodoCategory = "업무" | "개인" | "학습";
+export type TodoCategory = string;
+
+/**
+ * 반복 주기 타입 (매일/매주/매월)
+ */
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly";
+
+/**
+ * 할 일 반복 규칙 타입 (RRULE 형식을 단순화)
+ */
+export interface TodoRecurrence {
+  /** 반복 주기 */
+  frequency: RecurrenceFrequency;
+  /** 반복 간격 (예: 3일마다 → daily + 3) */
+  interval: number;
+  /** 매주 반복할 요일 (0: 일요일 ~ 6: 토요일) */
+  weekdays?: number[] | null;
+  /** 매월 반복할 날짜 (1~31, 해당 월에 없으면 말일) */
+  month_day?: number | null;
+  /** 반복 종료 날짜 (YYYY-MM-DD, 포함) */
+  until?: string | null;
+  /** 전체 반복 횟수 */
+  count?: number | null;
+}
+
+/**
+ * 체크리스트(하위 작업) 항목 데이터 타입
+ */
+export interface TodoItem {
+  id: string;
+  todo_id: string;
+  user_id: string;
+  title: string;
+  completed: boolean;
+  /** 체크리스트 내 표시 순서 */
+  position: number;
+  created_at: string;
+  updated_at?: string;
+}
 
 /**
  * 할 일 데이터 타입
@@ -21,6 +59,29 @@ export interface Todo {
   priority?: TodoPriority | null;
   category?: TodoCategory[] | null;
   completed: boolean;
+  completed_at?: string | null;
+  recurrence?: TodoRecurrence | null;
+  /** 반복 일정에서 몇 번째 할 일인지 (1부터 시작) */
+  recurrence_index?: number;
+  /** 이 할 일을 생성한 이전 반복 할 일 ID */
+  recurrence_parent_id?: string | null;
+  /** AI 단계 분해 등으로 연결된 상위 할 일 ID */
+  parent_id?: string | null;
+  /** 예상 소요 시간 (분) */
+  estimated_minutes?: number | null;
+  /** 소속 프로젝트 ID (없으면 받은 편지함) */
+  project_id?: string | null;
+  /** 소속 워크스페이스 ID (없으면 개인 할 일) */
+  workspace_id?: string | null;
+  /** 담당자 사용자 ID */
+  assignee_id?: string | null;
+  /** 체크리스트 항목을 모두 완료하면 할 일도 자동으로 완료할지 여부 */
+  auto_complete?: boolean;
+  /** 마감 알림 시점 (마감일 몇 분 전인지, 예: [1440, 60]) */
+  reminder_offsets?: number[];
+  /** 체크리스트 항목 (position 순) */
+  items?: TodoItem[];
+  updated_at?: string;
 }
 
 /**
@@ -32,6 +93,27 @@ export interface TodoInput {
   due_date?: string;
   priority?: TodoPriority;
   category?: TodoCategory[];
+  recurrence?: TodoRecurrence | null;
+  auto_complete?: boolean;
+  parent_id?: string | null;
+  estimated_minutes?: number | null;
+  project_id?: string | null;
+  workspace_id?: string | null;
+  assignee_id?: string | null;
+  reminder_offsets?: number[];
+}
+
+/**
+ * AI가 자연어 입력에서 추출한 할 일 데이터 타입 (/api/parse-todo 응답)
+ */
+export interface ParsedTodo {
+  title: string;
+  due_date?: string;
+  due_time?: string;
+  priority: TodoPriority;
+  category: TodoCategory[];
+  description?: string;
+  recurrence?: TodoRecurrence;
 }
 
 /**
@@ -39,3 +121,12 @@ export interface TodoInput {
  */
 export type TodoStatus = "진행 중" | "완료" | "지연";
 
+/**
+ * AI가 제안한 할 일 단계 타입 (/api/breakdown-todo 응답)
+ */
+export interface TodoBreakdownStep {
+  title: string;
+  description?: string;
+  /** 예상 소요 시간 (분) */
+  estimated_minutes: number;
+}
@@ -0,0 +1,106 @@
+import type { TodoInput, TodoPriority, TodoRecurrence } from "@/types/todo";
+
+/**
+ * 내보내기 파일 형식
+ */
+export type TodoExportFormat = "csv" | "json";
+
+/**
+ * JSON 내보내기의 할 일 항목 타입 (CSV 열과 같은 이름, 원래 타입 유지)
+ */
+export interface TodoExportRecord {
+  id: string;
+  title: string;
+  description: string | null;
+  due_date: string | null;
+  priority: TodoPriority | null;
+  category: string[];
+  completed: boolean;
+  completed_at: string | null;
+  created_date: string;
+  estimated_minutes: number | null;
+  recurrence: TodoRecurrence | null;
+  reminder_offsets: number[];
+  project_id: string | null;
+  workspace_id: string | null;
+  assignee_id: string | null;
+}
+
+/**
+ * 가져오기에서 파일의 열을 연결할 수 있는 할 일 필드
+ */
+export type TodoImportField =
+  | "title"
+  | "description"
+  | "due_date"
+  | "priority"
+  | "category"
+  | "estimated_minutes"
+  | "reminder_offsets";
+
+/**
+ * 할 일 필드별로 연결한 파일의 열 이름 (null이면 사용하지 않음)
+ */
+export type TodoImportMapping = Record<TodoImportField, string | null>;
+
+/**
+ * 가져오기 파일을 읽은 결과 타입 (CSV와 JSON을 같은 형태로 다룸)
+ */
+export interface TodoImportSource {
+  /** 열 이름 목록 (CSV 머리글 또는 JSON 키) */
+  columns: string[];
+  /** 행 목록 (열 이름 → 문자열 값) */
+  rows: Record<string, string>[];
+}
+
+/**
+ * 가져오기 미리보기(dry-run)의 행 타입
+ */
+export interface TodoImportPreviewRow {
+  /** 파일에서의 행 번호 (1부터, CSV 머리글 제외) */
+  row: number;
+  /** 변환한 할 일 입력 */
+  input: TodoInput;
+  /** 저장할 수 없는 오류 */
+  errors: string[];
+  /** 저장은 되지만 일부 값이 빠지는 경고 (예: 없는 카테고리) */
+  warnings: string[];
+  /** 제목과 마감일이 같은 할 일이 이미 있거나 파일 안에서 중복되는지 여부 */
+  duplicate: boolean;
+}
+
+/**
+ * 가져오기를 지원하는 다른 할 일 앱
+ */
+export type TodoImportApp = "todoist" | "microsoft-todo" | "trello";
+
+/**
+ * 다른 앱의 내보내기 파일에서 읽은 할 일 타입 (앱별 형식을 공통 형태로 변환)
+ */
+export interface ExternalTodo {
+  title: string;
+  description?: string;
+  /** 마감일 (datetime-local 형식) */
+  due_date?: string;
+  priority: TodoPriority;
+  /** 원래 앱의 프로젝트/목록/보드 이름 */
+  project?: string;
+  /** 원래 앱의 라벨/태그 이름 */
+  labels: string[];
+  /** 예상 소요 시간 (분) */
+  estimated_minutes?: number;
+  completed: boolean;
+  /** 옮길 수 없어 제외되는 원래 앱의 항목 (예: "반복 규칙", "체크리스트") */
+  unmapped: string[];
+}
+
+/**
+ * 다른 앱에서 가져올 할 일의 미리보기 항목 타입
+ */
+export interface ExternalImportItem {
+  source: ExternalTodo;
+  /** 프로젝트와 카테고리를 연결한 할 일 입력 */
+  input: TodoInput;
+  /** 제외되는 항목 (원래 앱 전용 필드, 같은 이름이 없는 프로젝트/라벨) */
+  unmapped: string[];
+}
@@ -0,0 +1,22 @@
+/**
+ * 사용자 프로필 데이터 타입 (public.users)
+ */
+export interface UserProfile {
+  id: string;
+  email: string;
+  name?: string | null;
+  avatar_url?: string | null;
+  /** 마감 알림을 이메일로 받을지 여부 */
+  email_reminders?: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * 사용자 프로필 수정을 위한 입력 데이터 타입
+ */
+export interface UserProfileInput {
+  name?: string | null;
+  avatar_url?: string | null;
+  email_reminders?: boolean;
+}
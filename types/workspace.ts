@@ -0,0 +1,52 @@
+import type { UserProfile } from "@/types/user";
+
+/**
+ * 워크스페이스 멤버 역할 타입
+ * (owner: 관리 및 초대, editor: 할 일 편집, viewer: 조회만 가능)
+ */
+export type WorkspaceRole = "owner" | "editor" | "viewer";
+
+/**
+ * 초대로 부여할 수 있는 역할 타입 (소유자는 워크스페이스를 만든 사용자 한 명)
+ */
+export type WorkspaceInviteRole = Exclude<WorkspaceRole, "owner">;
+
+/**
+ * 팀 워크스페이스 데이터 타입
+ */
+export interface Workspace {
+  id: string;
+  name: string;
+  owner_id: string;
+  /** 로그인한 사용자의 역할 */
+  role: WorkspaceRole;
+  created_at: string;
+  updated_at?: string;
+}
+
+/**
+ * 워크스페이스 멤버 데이터 타입
+ */
+export interface WorkspaceMember {
+  workspace_id: string;
+  user_id: string;
+  role: WorkspaceRole;
+  created_at: string;
+  /** 멤버 프로필 */
+  user: Pick<UserProfile, "id" | "email" | "name" | "avatar_url"> | null;
+}
+
+/**
+ * 워크스페이스 초대 데이터 타입
+ */
+export interface WorkspaceInvitation {
+  id: string;
+  workspace_id: string;
+  email: string;
+  role: WorkspaceInviteRole;
+  invited_by?: string | null;
+  created_at: string;
+  expires_at: string;
+  /** 초대한 워크스페이스 (받은 초대 목록에서 표시) */
+  workspace?: Pick<Workspace, "id" | "name"> | null;
+}